@@ -37,11 +37,28 @@ async function main() {
 		logLevel: 'silent',
 		plugins: [esbuildProblemMatcherPlugin],
 	});
+	// 命令行工具（noveler check / noveler stats），不依赖 vscode
+	const cliCtx = await esbuild.context({
+		entryPoints: ['src/cli/noveler.ts'],
+		bundle: true,
+		format: 'cjs',
+		minify: production,
+		sourcemap: !production,
+		sourcesContent: false,
+		platform: 'node',
+		outfile: 'out/cli/noveler.js',
+		external: ['jsonc-parser'],
+		logLevel: 'silent',
+		plugins: [esbuildProblemMatcherPlugin],
+	});
 	if (watch) {
 		await ctx.watch();
+		await cliCtx.watch();
 	} else {
 		await ctx.rebuild();
 		await ctx.dispose();
+		await cliCtx.rebuild();
+		await cliCtx.dispose();
 	}
 }
 
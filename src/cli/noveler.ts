@@ -0,0 +1,352 @@
+#!/usr/bin/env node
+/**
+ * Noveler 命令行工具
+ * 不依赖 VSCode，在终端、CI 或 Git 提交钩子中检查敏感词和统计字数
+ *
+ * noveler check [文件...]   检查敏感词，存在不低于 --fail-on 级别的敏感词时退出码为 1
+ * noveler stats            统计各章字数
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SensitiveLevel, SensitiveScanItem } from '../types/sensitiveWord';
+import { SensitiveDetectorLogger, SensitiveWordDetector, resolveSensitiveWordConfig } from '../utils/sensitiveDetector';
+import { filterIgnoredMatches } from '../utils/sensitiveIgnores';
+import { SENSITIVE_LEVEL_NAMES, buildSensitiveScanReport, toSensitiveScanItems } from '../utils/sensitiveReport';
+import { parseFrontMatter } from '../utils/frontMatterParser';
+import { getDetailedStats } from '../utils/countingProfiles';
+import { formatDateTime } from '../utils/dateFormatter';
+import {
+    CliError,
+    CliProjectFile,
+    findBuiltinLibraryDir,
+    findProjectRoot,
+    listChapterMarkdownFiles,
+    loadIgnores,
+    loadProjectConfig,
+    toProjectFile
+} from './project';
+
+/** 退出码：存在需要处理的敏感词 */
+export const EXIT_SENSITIVE_FOUND = 1;
+/** 退出码：参数或项目配置有误 */
+export const EXIT_USAGE_ERROR = 2;
+
+/** --fail-on 可选值，none 表示只报告不失败 */
+export type FailOnLevel = SensitiveLevel | 'none';
+
+/** 级别从高到低，用于 --fail-on 比较 */
+const LEVEL_ORDER: SensitiveLevel[] = ['high', 'medium', 'low'];
+
+const USAGE = `用法:
+  noveler check [文件...] [选项]   检查敏感词（不指定文件时检查 chapters/ 下的全部章节）
+  noveler stats [选项]             统计各章字数
+
+选项:
+  --root <目录>          项目根目录（默认从当前目录向上查找 novel.jsonc）
+  --profile <名称>       check: 使用指定的平台配置（覆盖 activeProfile）
+  --fail-on <级别>       check: high | medium | low | none，存在不低于该级别的敏感词时退出码为 1（默认 high）
+  --json                 以 JSON 输出结果
+  -h, --help             显示帮助
+  -v, --version          显示版本号`;
+
+/**
+ * 解析后的命令行参数
+ */
+export interface CliArgs {
+    /** 子命令 */
+    command?: 'check' | 'stats' | 'help' | 'version';
+    /** 要检查的文件 */
+    files: string[];
+    /** 项目根目录 */
+    root?: string;
+    /** 平台配置 */
+    profile?: string;
+    /** 失败级别 */
+    failOn: FailOnLevel;
+    /** 是否输出 JSON */
+    json: boolean;
+}
+
+/**
+ * 命令行输入输出（测试时可替换）
+ */
+export interface CliIO {
+    /** 当前目录 */
+    cwd: string;
+    /** 标准输出 */
+    stdout(text: string): void;
+    /** 标准错误 */
+    stderr(text: string): void;
+}
+
+/**
+ * 解析命令行参数
+ *
+ * @param argv 参数（不含 node 和脚本路径）
+ * @returns 解析结果
+ * @throws {CliError} 未知的子命令或选项、选项缺少值
+ *
+ * @example
+ * ```typescript
+ * parseCliArgs(['check', 'chapters/第001章.md', '--fail-on', 'medium']);
+ * // { command: 'check', files: ['chapters/第001章.md'], failOn: 'medium', json: false }
+ * ```
+ */
+export function parseCliArgs(argv: string[]): CliArgs {
+    const args: CliArgs = { files: [], failOn: 'high', json: false };
+    const takeValue = (option: string, index: number): string => {
+        const value = argv[index + 1];
+        if (value === undefined || value.startsWith('--')) {
+            throw new CliError(`选项 ${option} 需要一个值`);
+        }
+        return value;
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '-h':
+            case '--help':
+                return { ...args, command: 'help' };
+            case '-v':
+            case '--version':
+                return { ...args, command: 'version' };
+            case '--json':
+                args.json = true;
+                break;
+            case '--root':
+                args.root = takeValue(arg, i++);
+                break;
+            case '--profile':
+                args.profile = takeValue(arg, i++);
+                break;
+            case '--fail-on': {
+                const value = takeValue(arg, i++);
+                if (value !== 'none' && !LEVEL_ORDER.includes(value as SensitiveLevel)) {
+                    throw new CliError(`--fail-on 只能是 high、medium、low 或 none，收到 "${value}"`);
+                }
+                args.failOn = value as FailOnLevel;
+                break;
+            }
+            default:
+                if (arg.startsWith('-')) {
+                    throw new CliError(`未知选项 ${arg}`);
+                }
+                if (!args.command) {
+                    if (arg !== 'check' && arg !== 'stats') {
+                        throw new CliError(`未知命令 ${arg}`);
+                    }
+                    args.command = arg;
+                } else {
+                    args.files.push(arg);
+                }
+        }
+    }
+
+    if (args.files.length > 0 && args.command !== 'check') {
+        throw new CliError('只有 check 命令可以指定文件');
+    }
+    return args;
+}
+
+/**
+ * 运行命令行工具
+ *
+ * @param argv 参数（不含 node 和脚本路径）
+ * @param io 输入输出
+ * @returns 退出码
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+    try {
+        const args = parseCliArgs(argv);
+        switch (args.command) {
+            case 'check':
+                return await runCheck(args, io);
+            case 'stats':
+                return await runStats(args, io);
+            case 'version':
+                io.stdout(readVersion());
+                return 0;
+            case 'help':
+                io.stdout(USAGE);
+                return 0;
+            default:
+                io.stderr(USAGE);
+                return EXIT_USAGE_ERROR;
+        }
+    } catch (error) {
+        if (error instanceof CliError) {
+            io.stderr(`noveler: ${error.message}`);
+            return EXIT_USAGE_ERROR;
+        }
+        throw error;
+    }
+}
+
+/**
+ * 确定项目根目录
+ */
+function resolveRoot(args: CliArgs, io: CliIO): string {
+    if (args.root) {
+        const root = path.resolve(io.cwd, args.root);
+        if (!fs.existsSync(root)) {
+            throw new CliError(`项目目录不存在: ${args.root}`);
+        }
+        return root;
+    }
+    const root = findProjectRoot(io.cwd);
+    if (!root) {
+        throw new CliError('未找到 novel.jsonc，请在 Noveler 项目中运行或使用 --root 指定项目目录');
+    }
+    return root;
+}
+
+/**
+ * 章节标题：Front Matter 中的 title，没有时使用文件名
+ */
+function getChapterTitle(file: CliProjectFile, frontMatter: Record<string, unknown>): string {
+    return typeof frontMatter.title === 'string' && frontMatter.title.trim()
+        ? frontMatter.title.trim()
+        : path.basename(file.filePath, path.extname(file.filePath));
+}
+
+/**
+ * noveler check：检查敏感词
+ */
+async function runCheck(args: CliArgs, io: CliIO): Promise<number> {
+    const root = resolveRoot(args, io);
+    const projectConfig = await loadProjectConfig(root);
+    const { config, missingProfile } = resolveSensitiveWordConfig(projectConfig.sensitiveWords, args.profile);
+    if (missingProfile) {
+        throw new CliError(`平台配置 "${missingProfile}" 不存在，请检查 sensitiveWords.profiles`);
+    }
+
+    const builtinDir = findBuiltinLibraryDir(__dirname);
+    if (!builtinDir) {
+        throw new CliError('未找到内置敏感词库（templates/sensitive-words），请检查安装是否完整');
+    }
+
+    const warnings: string[] = [];
+    const logger: SensitiveDetectorLogger = {
+        info: () => undefined,
+        warn: message => warnings.push(message)
+    };
+    const detector = await SensitiveWordDetector.load(config, {
+        builtinDir,
+        workspaceRoot: root,
+        readFile: filePath => fs.promises.readFile(filePath, 'utf8'),
+        logger
+    });
+    warnings.forEach(message => io.stderr(`noveler: ${message}`));
+
+    const files = args.files.length > 0
+        ? args.files.map(file => toProjectFile(root, path.resolve(io.cwd, file)))
+        : await listChapterMarkdownFiles(root);
+    const ignores = await loadIgnores(root);
+
+    const results: { path: string; title: string; items: SensitiveScanItem[] }[] = [];
+    for (const file of files) {
+        let text: string;
+        try {
+            text = await fs.promises.readFile(file.filePath, 'utf8');
+        } catch {
+            throw new CliError(`无法读取文件: ${file.relativePath}`);
+        }
+        const entries = ignores.filter(entry => entry.chapter === file.relativePath);
+        const matches = filterIgnoredMatches(text, detector.detectText(text), entries);
+        results.push({
+            path: file.relativePath,
+            title: getChapterTitle(file, parseFrontMatter(text).data),
+            items: toSensitiveScanItems(text, matches)
+        });
+    }
+
+    const report = buildSensitiveScanReport(results, formatDateTime(new Date()));
+    if (args.json) {
+        io.stdout(JSON.stringify({ ...report, profile: config.activeProfile ?? null, failOn: args.failOn }, null, 2));
+    } else {
+        for (const chapter of report.chapters) {
+            for (const item of chapter.items) {
+                const word = item.variant ? `"${item.variant}"（疑似 "${item.word}"）` : `"${item.word}"`;
+                io.stdout(`${chapter.path}:${item.line + 1}:${item.character + 1}  ${SENSITIVE_LEVEL_NAMES[item.level]}  ${word}  ${item.context}`);
+            }
+        }
+        const { high, medium, low } = report.levels;
+        const total = high + medium + low;
+        io.stdout(total === 0
+            ? `检查了 ${report.scannedChapters} 个文件，未发现敏感词`
+            : `检查了 ${report.scannedChapters} 个文件，发现 ${total} 处敏感词（高危 ${high}，中危 ${medium}，低危 ${low}）`);
+    }
+
+    if (args.failOn === 'none') {
+        return 0;
+    }
+    const failLevels = LEVEL_ORDER.slice(0, LEVEL_ORDER.indexOf(args.failOn) + 1);
+    return failLevels.some(level => report.levels[level] > 0) ? EXIT_SENSITIVE_FOUND : 0;
+}
+
+/**
+ * noveler stats：统计各章字数
+ */
+async function runStats(args: CliArgs, io: CliIO): Promise<number> {
+    const root = resolveRoot(args, io);
+    const { countingProfile, includePunctuation } = await loadProjectConfig(root);
+    const files = await listChapterMarkdownFiles(root);
+
+    const chapters: { path: string; title: string; content: number; punctuation: number; total: number }[] = [];
+    for (const file of files) {
+        const parsed = parseFrontMatter(await fs.promises.readFile(file.filePath, 'utf8'));
+        chapters.push({
+            path: file.relativePath,
+            title: getChapterTitle(file, parsed.data),
+            ...getDetailedStats(parsed.content, countingProfile, includePunctuation)
+        });
+    }
+
+    const sum = (key: 'content' | 'punctuation' | 'total') => chapters.reduce((acc, chapter) => acc + chapter[key], 0);
+    const summary = { profile: countingProfile, total: sum('total'), content: sum('content'), punctuation: sum('punctuation') };
+
+    if (args.json) {
+        io.stdout(JSON.stringify({ ...summary, chapters }, null, 2));
+    } else {
+        for (const chapter of chapters) {
+            io.stdout(`${String(chapter.total).padStart(8)}  ${chapter.title}  (${chapter.path})`);
+        }
+        io.stdout(`共 ${chapters.length} 章，${summary.total} 字（正文 ${summary.content}，标点 ${summary.punctuation}，计数规则 ${countingProfile}）`);
+    }
+    return 0;
+}
+
+/**
+ * 读取扩展版本号（从 package.json）
+ */
+function readVersion(): string {
+    let dir = __dirname;
+    for (;;) {
+        const packagePath = path.join(dir, 'package.json');
+        if (fs.existsSync(packagePath)) {
+            const { version } = JSON.parse(fs.readFileSync(packagePath, 'utf8')) as { version?: string };
+            return version ?? 'unknown';
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return 'unknown';
+        }
+        dir = parent;
+    }
+}
+
+if (require.main === module) {
+    runCli(process.argv.slice(2), {
+        cwd: process.cwd(),
+        stdout: text => console.log(text),
+        stderr: text => console.error(text)
+    }).then(
+        code => { process.exitCode = code; },
+        error => {
+            console.error(error instanceof Error ? error.stack ?? error.message : error);
+            process.exitCode = EXIT_USAGE_ERROR;
+        }
+    );
+}
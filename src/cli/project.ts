@@ -0,0 +1,173 @@
+/**
+ * 命令行工具的项目读取
+ * 直接通过 fs 读取 novel.jsonc、章节文件和 .noveler/sensitive-words 下的文件，不依赖 vscode
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as jsoncParser from 'jsonc-parser';
+import { CHAPTERS_FOLDER, CONFIG_FILE_NAME, SENSITIVE_IGNORES_FILE } from '../constants';
+import { SensitiveIgnoreEntry, SensitiveWordConfig } from '../types/sensitiveWord';
+import { CountingProfileName } from '../types/wordCount';
+import { DEFAULT_COUNTING_PROFILE, isCountingProfileName } from '../utils/countingProfiles';
+import { parseIgnoreFile } from '../utils/sensitiveIgnores';
+
+/**
+ * 命令行用到的 novel.jsonc 配置
+ */
+export interface CliProjectConfig {
+    /** sensitiveWords 配置 */
+    sensitiveWords?: Partial<SensitiveWordConfig>;
+    /** 计数规则 */
+    countingProfile: CountingProfileName;
+    /** 是否计入标点（仅 default 规则使用） */
+    includePunctuation: boolean;
+}
+
+/**
+ * 项目中的 Markdown 文件
+ */
+export interface CliProjectFile {
+    /** 绝对路径 */
+    filePath: string;
+    /** 相对项目根目录的路径（使用 /，与忽略记录的 chapter 一致） */
+    relativePath: string;
+    /** 相对 chapters/ 的路径（不在 chapters/ 中时为 relativePath） */
+    chapterPath: string;
+}
+
+/**
+ * 命令行使用错误（参数或项目文件有误），退出码 2
+ */
+export class CliError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliError';
+    }
+}
+
+/**
+ * 从 startDir 向上查找包含 novel.jsonc 的目录
+ * @param startDir 起始目录
+ * @returns 项目根目录，找不到时返回 undefined
+ */
+export function findProjectRoot(startDir: string): string | undefined {
+    let dir = path.resolve(startDir);
+    for (;;) {
+        if (fs.existsSync(path.join(dir, CONFIG_FILE_NAME))) {
+            return dir;
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+/**
+ * 从 startDir 向上查找内置敏感词库目录（templates/sensitive-words）
+ * 编译后的命令行可能在 out/ 或 out/cli/ 下，因此逐级向上查找
+ * @param startDir 起始目录（通常为 __dirname）
+ */
+export function findBuiltinLibraryDir(startDir: string): string | undefined {
+    let dir = path.resolve(startDir);
+    for (;;) {
+        const candidate = path.join(dir, 'templates', 'sensitive-words');
+        if (fs.existsSync(path.join(candidate, 'level-high.json'))) {
+            return candidate;
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+/**
+ * 读取 novel.jsonc 中命令行用到的配置（文件不存在时使用默认配置）
+ * @param projectRoot 项目根目录
+ */
+export async function loadProjectConfig(projectRoot: string): Promise<CliProjectConfig> {
+    let content: string;
+    try {
+        content = await fs.promises.readFile(path.join(projectRoot, CONFIG_FILE_NAME), 'utf8');
+    } catch {
+        return { countingProfile: DEFAULT_COUNTING_PROFILE, includePunctuation: true };
+    }
+
+    const errors: jsoncParser.ParseError[] = [];
+    const fullConfig = jsoncParser.parse(content, errors, { allowTrailingComma: true });
+    if (errors.length > 0 || !fullConfig || typeof fullConfig !== 'object') {
+        throw new CliError(`${CONFIG_FILE_NAME} 解析失败，请检查 JSON 格式`);
+    }
+
+    const noveler = (fullConfig as { noveler?: Record<string, unknown> }).noveler ?? {};
+    const wordCount = (noveler.wordCount ?? {}) as { profile?: unknown; includePunctuation?: unknown };
+    return {
+        sensitiveWords: noveler.sensitiveWords as Partial<SensitiveWordConfig> | undefined,
+        countingProfile: isCountingProfileName(wordCount.profile) ? wordCount.profile : DEFAULT_COUNTING_PROFILE,
+        includePunctuation: wordCount.includePunctuation !== false
+    };
+}
+
+/**
+ * 读取已忽略的敏感词位置（ignores.json 不存在时为空）
+ * @param projectRoot 项目根目录
+ */
+export async function loadIgnores(projectRoot: string): Promise<SensitiveIgnoreEntry[]> {
+    try {
+        const content = await fs.promises.readFile(path.join(projectRoot, SENSITIVE_IGNORES_FILE), 'utf8');
+        return parseIgnoreFile(JSON.parse(content));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * 转换为项目文件信息
+ * @param projectRoot 项目根目录
+ * @param filePath 文件路径（相对当前目录或绝对路径）
+ */
+export function toProjectFile(projectRoot: string, filePath: string): CliProjectFile {
+    const absolute = path.resolve(filePath);
+    const relativePath = path.relative(projectRoot, absolute).split(path.sep).join('/');
+    const chapterPrefix = `${CHAPTERS_FOLDER}/`;
+    return {
+        filePath: absolute,
+        relativePath,
+        chapterPath: relativePath.startsWith(chapterPrefix) ? relativePath.slice(chapterPrefix.length) : relativePath
+    };
+}
+
+/**
+ * 列出 chapters/ 下的全部 Markdown 文件（含分卷子目录），按路径自然排序
+ * @param projectRoot 项目根目录
+ */
+export async function listChapterMarkdownFiles(projectRoot: string): Promise<CliProjectFile[]> {
+    const chaptersDir = path.join(projectRoot, CHAPTERS_FOLDER);
+    const files: string[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory() && !entry.name.startsWith('.')) {
+                await walk(entryPath);
+            } else if (entry.isFile() && entry.name.endsWith('.md')) {
+                files.push(entryPath);
+            }
+        }
+    };
+    await walk(chaptersDir);
+
+    return files
+        .map(filePath => toProjectFile(projectRoot, filePath))
+        .sort((a, b) => a.chapterPath.localeCompare(b.chapterPath, 'zh-CN', { numeric: true }));
+}
@@ -6,7 +6,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as jsonc from 'jsonc-parser';
-import { CustomWordLibrary } from '../types/sensitiveWord';
+import { CustomSensitiveLibrary, CustomWordLibrary } from '../types/sensitiveWord';
 import { Logger } from '../utils/logger';
 
 /**
@@ -41,11 +41,11 @@ export async function addToCustomWords(): Promise<void> {
 
         // 读取现有配置
         let content = '';
-        let library: CustomWordLibrary;
+        let library: CustomSensitiveLibrary;
 
         if (fs.existsSync(customWordsPath)) {
             content = fs.readFileSync(customWordsPath, 'utf-8');
-            library = jsonc.parse(content) as CustomWordLibrary;
+            library = jsonc.parse(content) as CustomSensitiveLibrary;
         } else {
             // 文件不存在，创建新的
             library = {
@@ -54,8 +54,8 @@ export async function addToCustomWords(): Promise<void> {
             };
         }
 
-        // 检查是否已存在
-        if (library.words.includes(selection)) {
+        // 检查是否已存在（词条可以是字符串或对象）
+        if (library.words.some(entry => (typeof entry === 'string' ? entry : entry?.word) === selection)) {
             vscode.window.showInformationMessage(`"${selection}" 已在自定义敏感词库中`);
             return;
         }
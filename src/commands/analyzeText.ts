@@ -0,0 +1,73 @@
+/**
+ * 文本分析（高频词组和易重复用词）
+ */
+
+import * as vscode from 'vscode';
+import { ExportService } from '../services/exportService';
+import { ConfigService } from '../services/configService';
+import { ExportScope, Manuscript } from '../types/export';
+import { TextAnalysisWebviewProvider } from '../views/textAnalysisWebviewProvider';
+import { selectScope } from './exportBook';
+import { selectManuscriptScope } from '../utils/manuscriptText';
+import { buildTextAnalysisReport } from '../utils/textAnalysis';
+import { handleError, ErrorSeverity } from '../utils/errorHandler';
+
+/**
+ * 分析章节或分卷的高频词组和易重复用词，结果显示在文本分析面板中
+ */
+export async function analyzeText(textAnalysisWebviewProvider: TextAnalysisWebviewProvider): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        vscode.window.showErrorMessage('请先打开一个工作区');
+        return;
+    }
+
+    const exportService = new ExportService();
+
+    let manuscript: Manuscript;
+    try {
+        const exportConfig = await exportService.loadExportConfig();
+        manuscript = await exportService.collectManuscript(exportConfig.metadata);
+    } catch (error) {
+        handleError('读取章节失败', error, ErrorSeverity.Error);
+        return;
+    }
+
+    if (manuscript.volumes.every(volume => volume.chapters.length === 0)) {
+        vscode.window.showWarningMessage('没有可分析的章节');
+        return;
+    }
+
+    const scope = await selectScope(manuscript, workspaceFolder, '分析');
+    if (!scope) {
+        return;
+    }
+
+    const selected = selectManuscriptScope(manuscript, scope);
+    const settings = ConfigService.getInstance().getTextAnalysisConfig();
+    const report = buildTextAnalysisReport(selected, getScopeLabel(manuscript, selected, scope), {
+        ignoreWords: settings.ignoreWords,
+        watchedWords: settings.repetitionWords,
+        window: settings.repetitionWindow
+    });
+
+    textAnalysisWebviewProvider.show(report);
+}
+
+/**
+ * 生成分析范围说明
+ */
+function getScopeLabel(manuscript: Manuscript, selected: Manuscript, scope: ExportScope): string {
+    const chapters = selected.volumes.flatMap(volume => volume.chapters);
+    switch (scope.type) {
+        case 'chapter':
+            return chapters[0]?.heading ?? scope.sourcePath;
+        case 'volume':
+            return manuscript.volumes[scope.volumeIndex]?.heading ?? '未分卷';
+        case 'range':
+            return `${chapters[0]?.heading} ~ ${chapters[chapters.length - 1]?.heading}`;
+        case 'all':
+        default:
+            return `《${manuscript.metadata.title}》全书`;
+    }
+}
@@ -0,0 +1,131 @@
+/**
+ * 人物出场统计 / 自动填写首次登场
+ */
+
+import * as vscode from 'vscode';
+import { ExportService } from '../services/exportService';
+import { ConfigService } from '../services/configService';
+import { NovelHighlightProvider } from '../providers/highlightProvider';
+import { CharacterAppearanceWebviewProvider } from '../views/characterAppearanceWebviewProvider';
+import { CharacterAppearanceReport } from '../types/characterAppearance';
+import { ManuscriptChapter } from '../types/export';
+import { CHARACTERS_FOLDER } from '../constants';
+import { countCharacterMentions, summarizeAppearances } from '../utils/characterAppearance';
+import { parseFrontMatter, stringifyFrontMatter } from '../utils/frontMatterParser';
+import { handleError, ErrorSeverity } from '../utils/errorHandler';
+import { Logger } from '../utils/logger';
+
+/**
+ * 显示人物出场统计面板
+ */
+export async function showCharacterAppearances(
+    highlightProvider: NovelHighlightProvider,
+    webviewProvider: CharacterAppearanceWebviewProvider
+): Promise<void> {
+    const report = await buildCharacterAppearanceReport(highlightProvider);
+    if (report) {
+        webviewProvider.show(report);
+    }
+}
+
+/**
+ * 根据出场统计自动填写人物文件中为空的 firstAppearance 字段（已填写的不覆盖）
+ */
+export async function fillFirstAppearances(highlightProvider: NovelHighlightProvider): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        vscode.window.showErrorMessage('请先打开一个工作区');
+        return;
+    }
+
+    const report = await buildCharacterAppearanceReport(highlightProvider);
+    if (!report) {
+        return;
+    }
+
+    const firstTitles = new Map<string, string>();
+    for (const character of report.characters) {
+        if (character.firstChapter !== undefined) {
+            firstTitles.set(character.name, report.chapters[character.firstChapter].title);
+        }
+    }
+
+    const charactersUri = vscode.Uri.joinPath(workspaceFolder.uri, CHARACTERS_FOLDER);
+    let filled = 0;
+    try {
+        const files = await vscode.workspace.fs.readDirectory(charactersUri);
+        for (const [fileName, type] of files) {
+            if (type !== vscode.FileType.File || !fileName.endsWith('.md')) {
+                continue;
+            }
+
+            const fileUri = vscode.Uri.joinPath(charactersUri, fileName);
+            const text = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8');
+            const parsed = parseFrontMatter(text);
+            const data = parsed.data as Record<string, unknown>;
+            const firstTitle = data.name ? firstTitles.get(String(data.name)) : undefined;
+            if (!firstTitle || (typeof data.firstAppearance === 'string' && data.firstAppearance.trim())) {
+                continue;
+            }
+
+            data.firstAppearance = firstTitle;
+            await vscode.workspace.fs.writeFile(fileUri, Buffer.from(stringifyFrontMatter(parsed.content, data), 'utf8'));
+            filled++;
+            Logger.info(`已填写人物首次登场: ${data.name} -> ${firstTitle}`);
+        }
+    } catch (error) {
+        handleError('填写首次登场失败', error, ErrorSeverity.Error);
+        return;
+    }
+
+    if (filled === 0) {
+        vscode.window.showInformationMessage('没有需要填写首次登场的人物（已填写的不会覆盖）');
+        return;
+    }
+
+    vscode.window.showInformationMessage(`已为 ${filled} 个人物填写首次登场`);
+    await vscode.commands.executeCommand('noveler.refresh');
+}
+
+/**
+ * 扫描全部章节，统计各人物的出场情况
+ * @returns 没有人物或章节时提示并返回 undefined
+ */
+async function buildCharacterAppearanceReport(
+    highlightProvider: NovelHighlightProvider
+): Promise<CharacterAppearanceReport | undefined> {
+    const trie = await highlightProvider.getCharacterNameTrie();
+    if (!trie) {
+        vscode.window.showWarningMessage('还没有人物，请先在 characters/ 目录中创建人物');
+        return undefined;
+    }
+
+    const exportService = new ExportService();
+    let chapters: ManuscriptChapter[];
+    try {
+        const exportConfig = await exportService.loadExportConfig();
+        const manuscript = await exportService.collectManuscript(exportConfig.metadata);
+        chapters = manuscript.volumes.flatMap(volume => volume.chapters);
+    } catch (error) {
+        handleError('读取章节失败', error, ErrorSeverity.Error);
+        return undefined;
+    }
+
+    if (chapters.length === 0) {
+        vscode.window.showWarningMessage('没有可统计的章节');
+        return undefined;
+    }
+
+    const mentions = chapters.map(chapter => ({
+        title: chapter.heading,
+        sourcePath: chapter.sourcePath,
+        counts: countCharacterMentions(chapter.paragraphs.join('\n'), trie)
+    }));
+    const absenceThreshold = ConfigService.getInstance().getCharacterAbsenceThreshold();
+
+    return {
+        chapters: mentions,
+        characters: summarizeAppearances(await highlightProvider.getAllCharacterNames(), mentions, absenceThreshold),
+        absenceThreshold
+    };
+}
@@ -9,9 +9,13 @@ import { WordCountService } from '../services/wordCountService';
 import { ConfigService } from '../services/configService';
 import { FocusModeService } from '../services/focusModeService';
 import { SensitiveWordService } from '../services/sensitiveWordService';
+import { WritingSessionService } from '../services/writingSessionService';
 import { SensitiveWordDiagnosticProvider } from '../providers/sensitiveWordDiagnostic';
 import { NovelerViewProvider } from '../views/novelerViewProvider';
 import { StatsWebviewProvider } from '../views/statsWebviewProvider';
+import { TextAnalysisWebviewProvider } from '../views/textAnalysisWebviewProvider';
+import { CharacterAppearanceWebviewProvider } from '../views/characterAppearanceWebviewProvider';
+import { SensitiveReportWebviewProvider } from '../views/sensitiveReportWebviewProvider';
 import { WelcomeWebviewProvider } from '../views/welcomeWebviewProvider';
 import { PreviewWebviewProvider } from '../views/previewWebviewProvider';
 import { handleReadmeAutoUpdate } from '../utils/readmeAutoUpdate';
@@ -21,6 +25,9 @@ import { createCharacter } from './createCharacter';
 import { createVolume } from './createVolume';
 import { openSensitiveWordsConfig } from './openSensitiveWordsConfigCommand';
 import { addToCustomWords, addToWhitelist } from './addToSensitiveWordsCommand';
+import { checkChapterWithProfile, scanAllSensitiveWords } from './scanSensitiveWords';
+import { replaceSensitiveWord } from './replaceSensitiveWord';
+import { manageSensitiveIgnores } from './manageSensitiveIgnores';
 import { generateRandomName } from './generateName';
 import { quickSettings } from './quickSettings';
 import { CONFIG_FILE_NAME } from '../constants';
@@ -44,8 +51,13 @@ import {
 } from './volumeCommands';
 import { migrateToVolumeStructure, rollbackToFlatStructure } from './migrationWizard';
 import { jumpToReadmeSection } from './jumpToReadme';
+import { exportBook, exportDocx, exportTxt } from './exportBook';
+import { importTxt } from './importTxt';
+import { analyzeText } from './analyzeText';
+import { fillFirstAppearances, showCharacterAppearances } from './characterAppearance';
 import { handleError, ErrorSeverity } from '../utils/errorHandler';
 import { Logger } from '../utils/logger';
+import { summarizeFormatChanges } from '../utils/formatRules';
 import { NovelHighlightProvider } from '../providers/highlightProvider';
 
 /**
@@ -57,9 +69,13 @@ export interface CommandRegistrarDeps {
     configService: ConfigService;
     focusModeService: FocusModeService;
     sensitiveWordService: SensitiveWordService;
-    sensitiveWordDiagnostic: SensitiveWordDiagnosticProvider;
+    /** 敏感词诊断提供器在命令注册之后才初始化，初始化失败时返回 undefined */
+    getSensitiveWordDiagnostic: () => SensitiveWordDiagnosticProvider | undefined;
+    sensitiveReportWebviewProvider: SensitiveReportWebviewProvider;
     novelerViewProvider: NovelerViewProvider;
     statsWebviewProvider: StatsWebviewProvider;
+    textAnalysisWebviewProvider: TextAnalysisWebviewProvider;
+    characterAppearanceWebviewProvider: CharacterAppearanceWebviewProvider;
     welcomeWebviewProvider: WelcomeWebviewProvider;
     previewWebviewProvider: PreviewWebviewProvider;
     highlightProvider: NovelHighlightProvider;
@@ -76,6 +92,7 @@ export function registerAllCommands(deps: CommandRegistrarDeps): void {
     registerVolumeCommands(deps);
     registerSensitiveWordCommands(deps);
     registerMigrationCommands(deps);
+    registerImportExportCommands(deps);
     registerUtilityCommands(deps);
 }
 
@@ -83,7 +100,7 @@ export function registerAllCommands(deps: CommandRegistrarDeps): void {
  * 注册核心命令
  */
 function registerCoreCommands(deps: CommandRegistrarDeps): void {
-    const { context, novelerViewProvider, statsWebviewProvider, welcomeWebviewProvider, previewWebviewProvider, focusModeService } = deps;
+    const { context, novelerViewProvider, statsWebviewProvider, textAnalysisWebviewProvider, welcomeWebviewProvider, previewWebviewProvider, focusModeService } = deps;
 
     // 刷新命令
     context.subscriptions.push(
@@ -100,6 +117,25 @@ function registerCoreCommands(deps: CommandRegistrarDeps): void {
         })
     );
 
+    // 文本分析
+    context.subscriptions.push(
+        vscode.commands.registerCommand('noveler.analyzeText', async () => {
+            await analyzeText(textAnalysisWebviewProvider);
+        })
+    );
+
+    // 开始 / 结束写作会话
+    context.subscriptions.push(
+        vscode.commands.registerCommand('noveler.startSession', () => {
+            WritingSessionService.getInstance().start();
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('noveler.stopSession', async () => {
+            await WritingSessionService.getInstance().stop();
+        })
+    );
+
     // 显示欢迎页面
     context.subscriptions.push(
         vscode.commands.registerCommand('noveler.showWelcome', async () => {
@@ -185,7 +221,7 @@ function registerChapterCommands(deps: CommandRegistrarDeps): void {
  * 注册人物相关命令
  */
 function registerCharacterCommands(deps: CommandRegistrarDeps): void {
-    const { context } = deps;
+    const { context, highlightProvider, characterAppearanceWebviewProvider } = deps;
 
     // 创建人物
     context.subscriptions.push(
@@ -208,6 +244,18 @@ function registerCharacterCommands(deps: CommandRegistrarDeps): void {
         })
     );
 
+    // 人物出场统计
+    context.subscriptions.push(
+        vscode.commands.registerCommand('noveler.showCharacterAppearances', async () => {
+            await showCharacterAppearances(highlightProvider, characterAppearanceWebviewProvider);
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('noveler.fillFirstAppearance', async () => {
+            await fillFirstAppearances(highlightProvider);
+        })
+    );
+
     // 人物右键菜单命令
     context.subscriptions.push(
         vscode.commands.registerCommand('noveler.renameCharacter', renameCharacter)
@@ -258,7 +306,7 @@ function registerVolumeCommands(deps: CommandRegistrarDeps): void {
  * 注册敏感词相关命令
  */
 function registerSensitiveWordCommands(deps: CommandRegistrarDeps): void {
-    const { context, sensitiveWordDiagnostic } = deps;
+    const { context, getSensitiveWordDiagnostic, sensitiveReportWebviewProvider } = deps;
 
     // 打开敏感词配置
     context.subscriptions.push(
@@ -302,20 +350,54 @@ function registerSensitiveWordCommands(deps: CommandRegistrarDeps): void {
         })
     );
 
-    // 忽略敏感词（会话级别）
+    // 忽略此处的敏感词（保存到 ignores.json）
     context.subscriptions.push(
-        vscode.commands.registerCommand('noveler.ignoreSensitiveWord', (documentUri: string, word: string) => {
-            if (sensitiveWordDiagnostic && documentUri && word) {
-                sensitiveWordDiagnostic.ignoreWordInDocument(documentUri, word);
-                // 刷新当前文档的诊断
-                const editor = vscode.window.activeTextEditor;
-                if (editor && editor.document.uri.toString() === documentUri) {
-                    sensitiveWordDiagnostic.updateDiagnostics(editor.document);
-                }
+        vscode.commands.registerCommand('noveler.ignoreSensitiveWord', async (documentUri: string, word: string, start: number, end: number) => {
+            const sensitiveWordDiagnostic = getSensitiveWordDiagnostic();
+            if (!sensitiveWordDiagnostic || !documentUri || !word) {
+                return;
+            }
+            try {
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(documentUri));
+                await sensitiveWordDiagnostic.ignoreOccurrence(document, word, start, end);
+            } catch (error) {
+                handleError('忽略敏感词失败', error, ErrorSeverity.Error);
             }
         })
     );
 
+    // 管理已忽略的敏感词
+    context.subscriptions.push(
+        vscode.commands.registerCommand('noveler.manageSensitiveIgnores', async () => {
+            await manageSensitiveIgnores(getSensitiveWordDiagnostic());
+        })
+    );
+
+    // 全部替换敏感词（本章 / 全书）
+    context.subscriptions.push(
+        vscode.commands.registerCommand('noveler.replaceSensitiveWord', async (documentUri: string, word: string, scope: 'chapter' | 'project') => {
+            try {
+                await replaceSensitiveWord(getSensitiveWordDiagnostic(), documentUri, word, scope);
+            } catch (error) {
+                handleError('替换敏感词失败', error, ErrorSeverity.Error);
+            }
+        })
+    );
+
+    // 扫描全部章节的敏感词
+    context.subscriptions.push(
+        vscode.commands.registerCommand('noveler.scanAllSensitiveWords', async () => {
+            await scanAllSensitiveWords(getSensitiveWordDiagnostic(), sensitiveReportWebviewProvider);
+        })
+    );
+
+    // 按其他平台配置检查当前章节（跨平台发布前检查，不影响当前配置和问题面板）
+    context.subscriptions.push(
+        vscode.commands.registerCommand('noveler.checkChapterWithProfile', async () => {
+            await checkChapterWithProfile(context, sensitiveReportWebviewProvider);
+        })
+    );
+
     // 显示敏感词详情
     context.subscriptions.push(
         vscode.commands.registerCommand('noveler.showSensitiveWordDetails', () => {
@@ -338,6 +420,26 @@ function registerMigrationCommands(deps: CommandRegistrarDeps): void {
     );
 }
 
+/**
+ * 注册导入导出相关命令
+ */
+function registerImportExportCommands(deps: CommandRegistrarDeps): void {
+    const { context } = deps;
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('noveler.exportBook', exportBook)
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('noveler.exportTxt', exportTxt)
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('noveler.exportDocx', exportDocx)
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('noveler.importTxt', importTxt)
+    );
+}
+
 /**
  * 注册实用工具命令
  */
@@ -461,19 +563,23 @@ async function formatCurrentDocument(): Promise<void> {
 
     try {
         const formatProvider = new ChineseNovelFormatProvider();
-        const edits = formatProvider.provideDocumentFormattingEdits(
-            editor.document,
-            {} as vscode.FormattingOptions,
-            {} as vscode.CancellationToken
-        );
+        const { edits, changes, issues } = formatProvider.formatDocument(editor.document);
+
+        // 不配对的引号保持原样，写入日志供作者核对
+        issues.forEach(issue => Logger.warn(`格式化 第 ${issue.line + 1} 行第 ${issue.column + 1} 列：${issue.message}，该处引号未转换`));
+        const issueNote = issues.length > 0 ? `，${issues.length} 处引号不配对未转换，详见输出日志` : '';
 
         if (edits.length > 0) {
             const workspaceEdit = new vscode.WorkspaceEdit();
             workspaceEdit.set(editor.document.uri, edits);
             await vscode.workspace.applyEdit(workspaceEdit);
-            vscode.window.showInformationMessage('文档格式化完成');
+
+            // 各规则的改动写入日志，提示中只显示汇总
+            changes.forEach(change => Logger.info(`格式化 第 ${change.line + 1} 行 ${change.label}：${change.before} → ${change.after}`));
+            const summary = summarizeFormatChanges(changes);
+            vscode.window.showInformationMessage((summary ? `文档格式化完成（${summary}）` : '文档格式化完成') + issueNote);
         } else {
-            vscode.window.showInformationMessage('文档无需格式化');
+            vscode.window.showInformationMessage('文档无需格式化' + issueNote);
         }
     } catch (error) {
         vscode.window.showErrorMessage(`格式化失败: ${error}`);
@@ -226,7 +226,7 @@ async function inputVolumeDescription(): Promise<string | undefined> {
 /**
  * 创建 volume.json 元数据文件
  */
-async function createVolumeMetadata(volumeFolderPath: string, info: {
+export async function createVolumeMetadata(volumeFolderPath: string, info: {
     volumeType: VolumeType;
     volumeNumber: number;
     volumeTitle: string;
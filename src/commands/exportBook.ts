@@ -0,0 +1,245 @@
+/**
+ * 导出整本书 / 导出 TXT
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ExportRequest, ExportService } from '../services/exportService';
+import { ExportScope, Manuscript, TextEncoding } from '../types/export';
+import { CHAPTERS_FOLDER } from '../constants';
+import { handleError, ErrorSeverity } from '../utils/errorHandler';
+
+/**
+ * 导出整本书（格式和目录由 novel.jsonc 的 output 配置决定）
+ */
+export async function exportBook(): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        vscode.window.showErrorMessage('请先打开一个工作区');
+        return;
+    }
+
+    await runExport(new ExportService(), {});
+}
+
+/**
+ * 导出 TXT（可选择全书、单章、分卷或章节范围，以及编码和是否逐章拆分）
+ */
+export async function exportTxt(): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        vscode.window.showErrorMessage('请先打开一个工作区');
+        return;
+    }
+
+    const exportService = new ExportService();
+
+    let manuscript: Manuscript;
+    let defaultEncoding: TextEncoding;
+    try {
+        const exportConfig = await exportService.loadExportConfig();
+        defaultEncoding = exportConfig.encoding;
+        manuscript = await exportService.collectManuscript(exportConfig.metadata);
+    } catch (error) {
+        handleError('读取章节失败', error, ErrorSeverity.Error);
+        return;
+    }
+
+    const chapters = manuscript.volumes.flatMap(volume => volume.chapters);
+    if (chapters.length === 0) {
+        vscode.window.showWarningMessage('没有可导出的章节');
+        return;
+    }
+
+    // 步骤 1: 选择导出范围
+    const scope = await selectScope(manuscript, workspaceFolder);
+    if (!scope) {
+        return;
+    }
+
+    // 步骤 2: 选择编码
+    const encodingItems: (vscode.QuickPickItem & { value: TextEncoding })[] = [
+        { label: 'UTF-8', description: '通用编码，推荐', value: 'utf-8' },
+        { label: 'GB18030', description: '兼容 GBK，适合部分 Windows 工具', value: 'gb18030' }
+    ];
+    encodingItems.sort((a, b) => Number(b.value === defaultEncoding) - Number(a.value === defaultEncoding));
+    const encoding = await vscode.window.showQuickPick(encodingItems, {
+        placeHolder: '选择文本编码'
+    });
+    if (!encoding) {
+        return;
+    }
+
+    // 步骤 3: 是否逐章拆分（单章导出无需选择）
+    let splitChapters = false;
+    if (scope.type !== 'chapter') {
+        const split = await vscode.window.showQuickPick(
+            [
+                { label: '合并为一个文件', value: false },
+                { label: '每章一个文件', value: true }
+            ],
+            { placeHolder: '选择输出方式' }
+        );
+        if (!split) {
+            return;
+        }
+        splitChapters = split.value;
+    }
+
+    await runExport(exportService, {
+        formats: ['txt'],
+        scope,
+        splitChapters,
+        encoding: encoding.value
+    });
+}
+
+/**
+ * 导出 DOCX（可选择全书、单章、分卷或章节范围）
+ */
+export async function exportDocx(): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        vscode.window.showErrorMessage('请先打开一个工作区');
+        return;
+    }
+
+    const exportService = new ExportService();
+
+    let manuscript: Manuscript;
+    try {
+        const exportConfig = await exportService.loadExportConfig();
+        manuscript = await exportService.collectManuscript(exportConfig.metadata);
+    } catch (error) {
+        handleError('读取章节失败', error, ErrorSeverity.Error);
+        return;
+    }
+
+    if (manuscript.volumes.every(volume => volume.chapters.length === 0)) {
+        vscode.window.showWarningMessage('没有可导出的章节');
+        return;
+    }
+
+    const scope = await selectScope(manuscript, workspaceFolder);
+    if (!scope) {
+        return;
+    }
+
+    await runExport(exportService, {
+        formats: ['docx'],
+        scope
+    });
+}
+
+/**
+ * 选择导出范围（文本分析等命令也复用此选择流程）
+ *
+ * @param action 提示文本中的动作名称，默认为"导出"
+ */
+export async function selectScope(
+    manuscript: Manuscript,
+    workspaceFolder: vscode.WorkspaceFolder,
+    action = '导出'
+): Promise<ExportScope | undefined> {
+    const chapters = manuscript.volumes.flatMap(volume => volume.chapters);
+    const hasVolumes = manuscript.volumes.some(volume => volume.heading);
+
+    // 当前打开的章节（相对 chapters/ 的路径）
+    const chaptersPath = path.join(workspaceFolder.uri.fsPath, CHAPTERS_FOLDER);
+    const activePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+    const activeSource = activePath && activePath.startsWith(chaptersPath + path.sep)
+        ? path.relative(chaptersPath, activePath).split(path.sep).join('/')
+        : undefined;
+    const activeChapter = chapters.find(chapter => chapter.sourcePath === activeSource);
+
+    const scopeItems: (vscode.QuickPickItem & { value: string })[] = [
+        { label: '$(book) 全书', description: `${chapters.length} 章`, value: 'all' }
+    ];
+    if (activeChapter) {
+        scopeItems.push({ label: '$(file) 当前章节', description: activeChapter.heading, value: 'current' });
+    }
+    scopeItems.push({ label: '$(list-selection) 选择单章', value: 'chapter' });
+    if (hasVolumes) {
+        scopeItems.push({ label: '$(folder) 选择分卷', value: 'volume' });
+    }
+    scopeItems.push({ label: '$(list-ordered) 章节范围', value: 'range' });
+
+    const scopeItem = await vscode.window.showQuickPick(scopeItems, { placeHolder: `选择${action}范围` });
+    if (!scopeItem) {
+        return undefined;
+    }
+
+    const chapterItems = chapters.map((chapter, index) => ({
+        label: chapter.heading,
+        description: chapter.sourcePath,
+        position: index + 1
+    }));
+
+    switch (scopeItem.value) {
+        case 'all':
+            return { type: 'all' };
+        case 'current':
+            return activeChapter ? { type: 'chapter', sourcePath: activeChapter.sourcePath } : undefined;
+        case 'chapter': {
+            const picked = await vscode.window.showQuickPick(chapterItems, {
+                placeHolder: `选择要${action}的章节`,
+                matchOnDescription: true
+            });
+            return picked ? { type: 'chapter', sourcePath: picked.description } : undefined;
+        }
+        case 'volume': {
+            const volumeItems = manuscript.volumes
+                .map((volume, index) => ({
+                    label: volume.heading ?? '未分卷',
+                    description: `${volume.chapters.length} 章`,
+                    index
+                }))
+                .filter(item => manuscript.volumes[item.index].chapters.length > 0);
+            const picked = await vscode.window.showQuickPick(volumeItems, { placeHolder: `选择要${action}的分卷` });
+            return picked ? { type: 'volume', volumeIndex: picked.index } : undefined;
+        }
+        case 'range': {
+            const start = await vscode.window.showQuickPick(chapterItems, {
+                placeHolder: '选择起始章节',
+                matchOnDescription: true
+            });
+            if (!start) {
+                return undefined;
+            }
+            const end = await vscode.window.showQuickPick(chapterItems.slice(start.position - 1), {
+                placeHolder: '选择结束章节',
+                matchOnDescription: true
+            });
+            return end ? { type: 'range', start: start.position, end: end.position } : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * 执行导出并提示结果
+ */
+async function runExport(exportService: ExportService, request: ExportRequest): Promise<void> {
+    try {
+        const files = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Noveler: 正在导出...',
+                cancellable: false
+            },
+            () => exportService.exportBook(request)
+        );
+
+        const message = files.length > 3
+            ? `导出完成: 共 ${files.length} 个文件`
+            : `导出完成: ${files.map(file => path.basename(file.fsPath)).join('、')}`;
+        const action = await vscode.window.showInformationMessage(message, '打开所在文件夹');
+
+        if (action === '打开所在文件夹' && files.length > 0) {
+            await vscode.commands.executeCommand('revealFileInOS', files[0]);
+        }
+    } catch (error) {
+        handleError('导出失败', error, ErrorSeverity.Error);
+    }
+}
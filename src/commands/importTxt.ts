@@ -0,0 +1,381 @@
+/**
+ * 从 TXT 导入小说
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ConfigService } from '../services/configService';
+import { VolumeService } from '../services/volumeService';
+import { WordCountService } from '../services/wordCountService';
+import { decodeTxt, splitTxtManuscript, TxtSplitResult, ImportedChapter } from '../utils/txtImporter';
+import { createVolumeMetadata } from './createVolume';
+import { generateVolumeFolderName, convertToRomanNumber } from '../utils/volumeHelper';
+import { convertToChineseNumber } from '../utils/chineseNumber';
+import { sanitizeFileName } from '../utils/inputValidator';
+import { formatDateTime } from '../utils/dateFormatter';
+import { getStatusDisplayName, getStatusOptions } from '../utils/statusHelper';
+import { handleError, handleSuccess, ErrorSeverity } from '../utils/errorHandler';
+import { Logger } from '../utils/logger';
+import { CHAPTERS_FOLDER, CHAPTER_NUMBER_PADDING, DRAFTS_FOLDER, PARAGRAPH_INDENT } from '../constants';
+
+/**
+ * 导入计划中的章节
+ */
+interface PlannedChapter {
+    chapter: ImportedChapter;
+    number: number;
+    title: string;
+    wordCount: number;
+}
+
+/**
+ * 导入计划中的分卷（扁平结构下只有一个，folderName 为空）
+ */
+interface PlannedVolume {
+    folderName?: string;
+    volumeNumber?: number;
+    title?: string;
+    description?: string;
+    chapters: PlannedChapter[];
+}
+
+/**
+ * 从 TXT 导入小说
+ * 自动识别编码、分卷和章节，预览确认后按当前分卷配置生成章节文件
+ */
+export async function importTxt(): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        vscode.window.showErrorMessage('请先打开一个工作区');
+        return;
+    }
+
+    // 步骤 1: 选择 TXT 文件
+    const fileUris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { '文本文件': ['txt'] },
+        openLabel: '导入'
+    });
+    if (!fileUris || fileUris.length === 0) {
+        return;
+    }
+    const fileUri = fileUris[0];
+
+    let text: string;
+    let encoding: string;
+    try {
+        const decoded = decodeTxt(await vscode.workspace.fs.readFile(fileUri));
+        text = decoded.text;
+        encoding = decoded.encoding.toUpperCase();
+    } catch (error) {
+        handleError('读取 TXT 文件失败', error, ErrorSeverity.Error);
+        return;
+    }
+
+    // 步骤 2: 选择章节识别规则
+    const split = await selectChapterPattern(text);
+    if (!split) {
+        return;
+    }
+
+    const configService = ConfigService.getInstance();
+    await configService.waitForConfig();
+    const nested = configService.isVolumesEnabled();
+
+    // 步骤 3: 生成导入计划并预览
+    const plan = await buildPlan(split, nested);
+    const chapterCount = plan.reduce((sum, volume) => sum + volume.chapters.length, 0);
+    const detectedVolumes = split.volumes.filter(volume => volume.heading).length;
+
+    let placeHolder = `编码 ${encoding}，识别到 ${chapterCount} 章`;
+    if (detectedVolumes > 0) {
+        placeHolder += nested ? `、${detectedVolumes} 卷` : `、${detectedVolumes} 卷（未启用分卷，将按扁平结构导入）`;
+    }
+    placeHolder += '。取消勾选可跳过章节，回车确认';
+
+    const selected = await previewPlan(plan, placeHolder);
+    if (!selected) {
+        return;
+    }
+
+    // 步骤 4: 选择章节状态
+    const statusItems = getStatusOptions().map(value => ({ label: getStatusDisplayName(value), value }));
+    const status = await vscode.window.showQuickPick(statusItems, {
+        placeHolder: '选择导入章节的状态',
+        ignoreFocusOut: true
+    });
+    if (!status) {
+        return;
+    }
+
+    // 步骤 5: 写入文件
+    try {
+        const result = await writePlan(workspaceFolder, plan, selected, status.value);
+
+        let message = `已导入 ${result.created} 章`;
+        if (result.skipped > 0) {
+            message += `，${result.skipped} 章因文件已存在而跳过`;
+        }
+
+        // 第一章之前的内容（书名、简介等）保存到草稿，避免丢失
+        if (split.preamble.length > 0) {
+            const preamble = await writePreamble(workspaceFolder, fileUri, split.preamble);
+            message += preamble.written
+                ? `，开头内容已保存到 ${preamble.path}`
+                : `，${preamble.path} 已存在，开头内容未保存`;
+        }
+        handleSuccess(message);
+
+        await vscode.commands.executeCommand('noveler.refresh');
+    } catch (error) {
+        handleError('导入失败', error, ErrorSeverity.Error);
+    }
+}
+
+/**
+ * 选择章节识别规则并拆分
+ */
+async function selectChapterPattern(text: string): Promise<TxtSplitResult | undefined> {
+    const mode = await vscode.window.showQuickPick(
+        [
+            { label: '$(sparkle) 自动识别', description: '第X章 / Chapter N，第X卷 识别为分卷', value: 'auto' },
+            { label: '$(regex) 自定义正则', description: '第一个捕获组作为章节名称', value: 'custom' }
+        ],
+        { placeHolder: '选择章节识别方式', ignoreFocusOut: true }
+    );
+    if (!mode) {
+        return undefined;
+    }
+
+    let chapterPattern: RegExp | undefined;
+    if (mode.value === 'custom') {
+        const input = await vscode.window.showInputBox({
+            prompt: '输入章节标题正则（匹配整行，第一个捕获组为章节名称）',
+            placeHolder: '例如：^第\\d+节\\s*(.*)$',
+            ignoreFocusOut: true,
+            validateInput: value => {
+                try {
+                    new RegExp(value);
+                    return value.trim() ? null : '请输入正则表达式';
+                } catch {
+                    return '正则表达式无效';
+                }
+            }
+        });
+        if (!input) {
+            return undefined;
+        }
+        chapterPattern = new RegExp(input);
+    }
+
+    const split = splitTxtManuscript(text, chapterPattern);
+    if (split.volumes.length === 0) {
+        vscode.window.showWarningMessage('未识别到任何章节，请检查章节标题格式或使用自定义正则');
+        return undefined;
+    }
+    return split;
+}
+
+/**
+ * 生成导入计划：分配卷序号、章节号和卷文件夹名称
+ * 新卷和新章节接在项目现有内容之后编号
+ */
+async function buildPlan(split: TxtSplitResult, nested: boolean): Promise<PlannedVolume[]> {
+    const configService = ConfigService.getInstance();
+    const volumeService = VolumeService.getInstance();
+    const chapterNumbering = configService.getVolumesConfig().chapterNumbering || 'global';
+
+    const toPlannedChapter = (chapter: ImportedChapter, number: number): PlannedChapter => {
+        const body = chapter.lines.join('\n');
+        const stats = WordCountService.getDetailedStats(body);
+        return {
+            chapter,
+            number,
+            title: sanitizeFileName(chapter.title || '无题'),
+            wordCount: stats.total
+        };
+    };
+
+    if (!nested) {
+        let number = await volumeService.calculateNextChapterNumber();
+        const chapters = split.volumes
+            .flatMap(volume => volume.chapters)
+            .map(chapter => toPlannedChapter(chapter, number++));
+        return [{ chapters }];
+    }
+
+    const existingVolumes = await volumeService.scanVolumes(true);
+    let volumeNumber = Math.max(0, ...existingVolumes.filter(v => v.volumeType === 'main').map(v => v.volume)) + 1;
+    let globalNumber = existingVolumes.reduce((sum, v) => sum + v.chapters.length, 0) + 1;
+
+    return split.volumes.map(volume => {
+        // 导入的卷都是正文卷，mixed 模式下同样使用全局编号
+        let number = chapterNumbering === 'volume' ? 1 : globalNumber;
+        const chapters = volume.chapters.map(chapter => toPlannedChapter(chapter, number++));
+        if (chapterNumbering !== 'volume') {
+            globalNumber = number;
+        }
+
+        const title = sanitizeFileName(volume.title || '正文');
+        const planned: PlannedVolume = {
+            folderName: generateVolumeFolderName('main', volumeNumber, title),
+            volumeNumber,
+            title,
+            description: volume.intro.join('\n') || undefined,
+            chapters
+        };
+        volumeNumber++;
+        return planned;
+    });
+}
+
+/**
+ * 预览导入计划，返回用户保留的章节
+ */
+async function previewPlan(plan: PlannedVolume[], placeHolder: string): Promise<Set<PlannedChapter> | undefined> {
+    type PreviewItem = vscode.QuickPickItem & { planned?: PlannedChapter };
+    const items: PreviewItem[] = [];
+
+    for (const volume of plan) {
+        if (volume.folderName) {
+            items.push({ label: volume.folderName, kind: vscode.QuickPickItemKind.Separator });
+        }
+        for (const planned of volume.chapters) {
+            items.push({
+                label: `第${convertToChineseNumber(planned.number)}章 ${planned.title}`,
+                description: `${planned.wordCount.toLocaleString()} 字 ← ${planned.chapter.heading}`,
+                detail: planned.chapter.lines[0]?.slice(0, 60),
+                picked: true,
+                planned
+            });
+        }
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder,
+        canPickMany: true,
+        ignoreFocusOut: true,
+        matchOnDescription: true
+    });
+    if (!selected || selected.length === 0) {
+        return undefined;
+    }
+
+    return new Set(selected.map(item => item.planned).filter((planned): planned is PlannedChapter => !!planned));
+}
+
+/**
+ * 按导入计划写入卷文件夹和章节文件
+ */
+async function writePlan(
+    workspaceFolder: vscode.WorkspaceFolder,
+    plan: PlannedVolume[],
+    selected: Set<PlannedChapter>,
+    status: string
+): Promise<{ created: number; skipped: number }> {
+    const configService = ConfigService.getInstance();
+    const volumesConfig = configService.getVolumesConfig();
+    const targetWords = configService.getTargetWords();
+    const paragraphSeparator = configService.shouldAutoEmptyLine() ? '\n\n' : '\n';
+    const indent = configService.shouldParagraphIndent() ? PARAGRAPH_INDENT : '';
+    const now = formatDateTime(new Date());
+    const chaptersPath = path.join(workspaceFolder.uri.fsPath, CHAPTERS_FOLDER);
+
+    let created = 0;
+    let skipped = 0;
+
+    for (const volume of plan) {
+        const chapters = volume.chapters.filter(planned => selected.has(planned));
+        if (chapters.length === 0) {
+            continue;
+        }
+
+        let folderPath = chaptersPath;
+        if (volume.folderName && volume.volumeNumber !== undefined) {
+            folderPath = path.join(chaptersPath, volume.folderName);
+            if (!fs.existsSync(folderPath)) {
+                fs.mkdirSync(folderPath, { recursive: true });
+                await createVolumeMetadata(folderPath, {
+                    volumeType: 'main',
+                    volumeNumber: volume.volumeNumber,
+                    volumeTitle: volume.title || volume.folderName,
+                    volumeDescription: volume.description
+                });
+            }
+        } else {
+            fs.mkdirSync(folderPath, { recursive: true });
+        }
+
+        for (const planned of chapters) {
+            // 文件名编号规则与创建章节命令一致
+            let chapterNumberStr: string;
+            if (volume.folderName && volumesConfig.numberFormat === 'chinese') {
+                chapterNumberStr = `第${convertToChineseNumber(planned.number)}章`;
+            } else if (volume.folderName && volumesConfig.numberFormat === 'roman') {
+                chapterNumberStr = `第${convertToRomanNumber(planned.number)}章`;
+            } else {
+                chapterNumberStr = `第${String(planned.number).padStart(CHAPTER_NUMBER_PADDING, '0')}章`;
+            }
+
+            const filePath = path.join(folderPath, `${chapterNumberStr}-${planned.title}.md`);
+            if (fs.existsSync(filePath)) {
+                Logger.warn(`导入跳过已存在的文件: ${filePath}`);
+                skipped++;
+                continue;
+            }
+
+            const body = planned.chapter.lines.map(line => indent + line).join(paragraphSeparator);
+            const content = `---
+title: ${JSON.stringify(planned.title)}
+chapter: ${planned.number}
+wordCount: ${planned.wordCount}
+targetWords: ${targetWords}
+characters: []
+locations: []
+tags: []
+created: '${now}'
+modified: '${now}'
+status: ${status}
+---
+
+# 第${convertToChineseNumber(planned.number)}章 ${planned.title}
+
+${body}
+`;
+            fs.writeFileSync(filePath, content, 'utf-8');
+            created++;
+        }
+    }
+
+    Logger.info(`TXT 导入完成: 新建 ${created} 章，跳过 ${skipped} 章`);
+    return { created, skipped };
+}
+
+/**
+ * 把第一章之前的内容保存为草稿（同名草稿已存在时不覆盖）
+ *
+ * @returns 草稿相对项目根目录的路径，以及是否已写入
+ */
+async function writePreamble(
+    workspaceFolder: vscode.WorkspaceFolder,
+    fileUri: vscode.Uri,
+    preamble: string[]
+): Promise<{ path: string; written: boolean }> {
+    const preambleName = `${sanitizeFileName(path.basename(fileUri.fsPath, path.extname(fileUri.fsPath)))}-导入前言.md`;
+    const draftsUri = vscode.Uri.joinPath(workspaceFolder.uri, DRAFTS_FOLDER);
+    const preambleUri = vscode.Uri.joinPath(draftsUri, preambleName);
+    const relativePath = `${DRAFTS_FOLDER}/${preambleName}`;
+
+    try {
+        await vscode.workspace.fs.stat(preambleUri);
+        Logger.warn(`导入前言已存在，跳过: ${relativePath}`);
+        return { path: relativePath, written: false };
+    } catch {
+        // 文件不存在，继续写入
+    }
+
+    await vscode.workspace.fs.createDirectory(draftsUri);
+    await vscode.workspace.fs.writeFile(preambleUri, Buffer.from(preamble.join('\n\n') + '\n', 'utf8'));
+    return { path: relativePath, written: true };
+}
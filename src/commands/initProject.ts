@@ -8,6 +8,7 @@ import { formatDateTime } from '../utils/dateFormatter';
 import { handleError, handleSuccess } from '../utils/errorHandler';
 import { PROJECT_DIRECTORIES, CONFIG_FILE_NAME, DEFAULT_CONFIG_TEMPLATE_PATH } from '../constants';
 import { Logger } from '../utils/logger';
+import { SENSITIVE_EXCEPTIONS_TEMPLATE, SENSITIVE_REPLACEMENTS_TEMPLATE } from './openSensitiveWordsConfigCommand';
 
 /**
  * 初始化小说项目
@@ -365,21 +366,25 @@ export async function initProject(context: vscode.ExtensionContext): Promise<voi
   // 2. 支持的添加方式：
   //    - 手动编辑：直接在数组中添加，如 "词汇1", "词汇2"
   //    - 右键添加：选中文字 → 右键 → "Noveler: 添加到自定义敏感词库"
-  // 3. 保存后立即生效，无需重启
+  // 3. 需要更多信息时可以写成对象（除 word 外都可省略）：
+  //    { "word": "词汇", "level": "medium", "category": "平台禁词", "note": "提示中显示的备注", "suggestion": ["替代写法"] }
+  //    level 可选 "high" | "medium" | "low"；category 可以在敏感词配置 > "按分类开关" 中单独关闭
+  // 4. 保存后立即生效，无需重启
   //
   // 💡 适用场景：
   // - 特定平台的禁用词汇（如某平台的审核标准）
   // - 您个人想要避免的词汇
   // - 您所在行业/题材的特殊敏感词
   //
-  // ⚠️ 注意：自定义敏感词会被视为高危级别，请谨慎添加
+  // ⚠️ 注意：直接写字符串的敏感词会被视为高危级别，请谨慎添加
   //
   "description": "我的自定义敏感词库",
   "words": [
     // 在这里添加您的敏感词，每行一个词汇，用逗号分隔
     // 示例：
     // "某平台禁词",
-    // "我不想用的词"
+    // "我不想用的词",
+    // { "word": "某个词", "level": "low", "category": "个人习惯", "note": "读者反馈太口语化", "suggestion": "另一个词" }
   ]
 }`
             },
@@ -412,6 +417,14 @@ export async function initProject(context: vscode.ExtensionContext): Promise<voi
     // "功法名称"
   ]
 }`
+            },
+            {
+                name: 'replacements.jsonc',
+                content: SENSITIVE_REPLACEMENTS_TEMPLATE
+            },
+            {
+                name: 'exceptions.jsonc',
+                content: SENSITIVE_EXCEPTIONS_TEMPLATE
             }
         ];
 
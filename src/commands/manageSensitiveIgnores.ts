@@ -0,0 +1,213 @@
+/**
+ * 管理已忽略的敏感词
+ * 列出 ignores.json 中的忽略记录和章节中的行内 noveler-ignore 标记，支持跳转、取消忽略和清除失效记录
+ */
+
+import * as vscode from 'vscode';
+import { SensitiveWordDiagnosticProvider } from '../providers/sensitiveWordDiagnostic';
+import { SensitiveIgnoreEntry } from '../types/sensitiveWord';
+import {
+    InlineIgnoreMarker,
+    findIgnoredOccurrence,
+    findInlineIgnoreMarkers,
+    getInlineIgnoreRemovalRange
+} from '../utils/sensitiveIgnores';
+import { buildContextSnippet, computeLineStarts, offsetToPosition } from '../utils/sensitiveReport';
+import { ChapterFile, listChapterFiles, readChapterText } from '../utils/chapterFiles';
+import { handleError, ErrorSeverity } from '../utils/errorHandler';
+import { Logger } from '../utils/logger';
+
+/**
+ * 忽略记录或行内标记在原文中的位置
+ */
+interface IgnoreLocation {
+    /** 文件 URI */
+    uri: vscode.Uri;
+    /** 起始位置（记录已失效时没有） */
+    start?: number;
+    /** 结束位置 */
+    end?: number;
+}
+
+type IgnoreItem = vscode.QuickPickItem & {
+    location?: IgnoreLocation;
+    entry?: SensitiveIgnoreEntry;
+    marker?: InlineIgnoreMarker;
+    action?: 'clearAll' | 'clearStale';
+};
+
+/**
+ * 管理已忽略的敏感词
+ * @param provider 敏感词诊断提供器
+ */
+export async function manageSensitiveIgnores(provider: SensitiveWordDiagnosticProvider | undefined): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder || !provider) {
+        vscode.window.showWarningMessage('请先打开一个 Noveler 项目');
+        return;
+    }
+
+    const items = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: '读取已忽略的敏感词...' },
+        () => collectIgnoreItems(workspaceFolder, provider.getIgnores())
+    );
+
+    const entries = items.filter(item => item.entry);
+    const stale = entries.filter(item => item.location?.start === undefined);
+    if (items.length === 0) {
+        vscode.window.showInformationMessage('没有已忽略的敏感词');
+        return;
+    }
+
+    const actions: IgnoreItem[] = [];
+    if (entries.length > 0) {
+        actions.push({ label: `$(trash) 清除全部忽略记录（${entries.length}）`, description: '不包括行内标记', action: 'clearAll' });
+    }
+    if (stale.length > 0) {
+        actions.push({ label: `$(trash) 清除已失效的记录（${stale.length}）`, description: '原文已修改或删除', action: 'clearStale' });
+    }
+
+    const selected = await vscode.window.showQuickPick([...actions, ...items], {
+        placeHolder: '选择要查看或取消忽略的位置',
+        matchOnDescription: true,
+        matchOnDetail: true
+    });
+    if (!selected) {
+        return;
+    }
+
+    try {
+        if (selected.action) {
+            const targets = (selected.action === 'clearAll' ? entries : stale).map(item => item.entry!);
+            const confirm = await vscode.window.showWarningMessage(
+                `确定清除 ${targets.length} 条忽略记录吗？对应位置会重新提示。`,
+                { modal: true },
+                '清除'
+            );
+            if (confirm === '清除') {
+                await provider.removeIgnores(targets);
+                Logger.info(`已清除 ${targets.length} 条敏感词忽略记录`);
+                vscode.window.showInformationMessage(`已清除 ${targets.length} 条忽略记录`);
+            }
+            return;
+        }
+
+        await handleIgnoreItem(selected, provider);
+    } catch (error) {
+        handleError('管理已忽略的敏感词失败', error, ErrorSeverity.Error);
+    }
+}
+
+/**
+ * 收集忽略记录和行内标记（按文件分组）
+ */
+async function collectIgnoreItems(
+    workspaceFolder: vscode.WorkspaceFolder,
+    ignores: readonly SensitiveIgnoreEntry[]
+): Promise<IgnoreItem[]> {
+    const groups = new Map<string, { uri: vscode.Uri; items: IgnoreItem[] }>();
+    const groupFor = (key: string, uri: vscode.Uri) => {
+        let group = groups.get(key);
+        if (!group) {
+            group = { uri, items: [] };
+            groups.set(key, group);
+        }
+        return group;
+    };
+
+    // 忽略记录
+    for (const entry of ignores) {
+        const uri = vscode.Uri.joinPath(workspaceFolder.uri, ...entry.chapter.split('/'));
+        let text: string | undefined;
+        try {
+            text = await readChapterText(uri);
+        } catch {
+            // 文件已删除或重命名，记录失效
+        }
+
+        const occurrence = text === undefined ? undefined : findIgnoredOccurrence(text, entry);
+        const line = text !== undefined && occurrence
+            ? offsetToPosition(computeLineStarts(text), occurrence.start).line
+            : undefined;
+        groupFor(entry.chapter, uri).items.push({
+            label: entry.variant ? `"${entry.variant}"（疑似 "${entry.word}"）` : `"${entry.word}"`,
+            description: line === undefined ? '$(warning) 原文已修改，记录已失效' : `第 ${line + 1} 行 · ${entry.createdAt}`,
+            detail: `${entry.before}【${entry.variant ?? entry.word}】${entry.after}`,
+            entry,
+            location: { uri, ...occurrence }
+        });
+    }
+
+    // 章节中的行内标记
+    let chapters: ChapterFile[] = [];
+    try {
+        chapters = await listChapterFiles();
+    } catch (error) {
+        handleError('读取章节失败', error, ErrorSeverity.Silent);
+    }
+    for (const chapter of chapters) {
+        const text = await readChapterText(chapter.uri);
+        if (!text.includes('noveler-ignore')) {
+            continue;
+        }
+        const key = vscode.workspace.asRelativePath(chapter.uri, false);
+        for (const marker of findInlineIgnoreMarkers(text)) {
+            groupFor(key, chapter.uri).items.push({
+                label: `"${marker.words.join('、')}"`,
+                description: `第 ${marker.targetLine + 1} 行 · 行内标记`,
+                detail: buildContextSnippet(text, marker.start, marker.end),
+                marker,
+                location: { uri: chapter.uri, start: marker.start, end: marker.end }
+            });
+        }
+    }
+
+    return [...groups.entries()].flatMap(([key, group]) => [
+        { label: key, kind: vscode.QuickPickItemKind.Separator },
+        ...group.items
+    ]);
+}
+
+/**
+ * 处理选中的忽略记录 / 行内标记：跳转到原文或取消忽略
+ */
+async function handleIgnoreItem(item: IgnoreItem, provider: SensitiveWordDiagnosticProvider): Promise<void> {
+    const location = item.location;
+    const options = [
+        ...(location?.start !== undefined ? ['跳转到原文'] : []),
+        item.marker ? '删除行内标记' : '取消忽略'
+    ];
+    const choice = await vscode.window.showQuickPick(options, { placeHolder: `${item.label} ${item.description ?? ''}` });
+    if (!choice || !location) {
+        return;
+    }
+
+    if (choice === '跳转到原文') {
+        const document = await vscode.workspace.openTextDocument(location.uri);
+        await vscode.window.showTextDocument(document, {
+            selection: new vscode.Range(document.positionAt(location.start!), document.positionAt(location.end!))
+        });
+    } else if (item.entry) {
+        await provider.removeIgnores([item.entry]);
+        Logger.info(`已取消忽略: ${item.entry.word} (${item.entry.chapter})`);
+    } else if (item.marker) {
+        const document = await vscode.workspace.openTextDocument(location.uri);
+        const text = document.getText();
+        const expected = item.marker;
+        const marker = findInlineIgnoreMarkers(text)
+            .find(found => found.start === expected.start && found.end === expected.end);
+        if (!marker) {
+            vscode.window.showWarningMessage('文件已修改，请重新打开列表后再删除');
+            return;
+        }
+        const { start, end } = getInlineIgnoreRemovalRange(text, marker);
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.delete(location.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)));
+        const wasDirty = document.isDirty;
+        if (await vscode.workspace.applyEdit(edit) && !wasDirty) {
+            await document.save();
+        }
+        Logger.info(`已删除行内忽略标记: ${marker.words.join('、')} (${vscode.workspace.asRelativePath(location.uri, false)})`);
+    }
+}
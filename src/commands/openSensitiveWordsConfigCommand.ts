@@ -7,6 +7,50 @@ import * as path from 'path';
 import { Logger } from '../utils/logger';
 import { ConfigService } from '../services/configService';
 import { SensitiveWordService } from '../services/sensitiveWordService';
+import { SENSITIVE_EXCEPTIONS_FILE, SENSITIVE_REPLACEMENTS_FILE } from '../constants';
+import { SENSITIVE_LEVEL_NAMES, buildContextSnippet, computeLineStarts, offsetToPosition } from '../utils/sensitiveReport';
+import { SensitiveLevel } from '../types/sensitiveWord';
+
+/**
+ * 替换建议文件模板（初始化项目或首次打开时创建）
+ */
+export const SENSITIVE_REPLACEMENTS_TEMPLATE = `{
+  // ==================== 替换建议 ====================
+  //
+  // 📖 使用说明：
+  // 1. 在下方 "replacements" 中为敏感词添加更稳妥的写法，格式为 "敏感词": ["写法1", "写法2"]
+  // 2. 编辑器中敏感词的快速修复会列出这些写法，也可以在本章或全书中全部替换
+  // 3. 这里的写法排在内置建议之前；本身也是敏感词的写法不会被推荐
+  // 4. 保存后立即生效，无需重启
+  //
+  "description": "我的替换建议",
+  "replacements": {
+    // 示例：
+    // "杀人": ["行凶", "害命"],
+    // "妈的": "该死"
+  }
+}`;
+
+/**
+ * 词组例外文件模板（初始化项目或首次打开时创建）
+ */
+export const SENSITIVE_EXCEPTIONS_TEMPLATE = `{
+  // ==================== 词组例外 ====================
+  //
+  // 📖 使用说明：
+  // 1. 敏感词出现在这里列出的词组中时不提示，格式为 "敏感词": ["词组1", "词组2"]
+  // 2. 词组必须包含对应的敏感词，例如 "日" 的例外可以是 "日子"、"今日"
+  // 3. 与白名单不同，例外只放过词组中的那一处，单独出现的敏感词仍会提示
+  // 4. 内置例外已覆盖常见词组（如 "草原"、"操场"），这里用于补充
+  // 5. 保存后立即生效，无需重启
+  //
+  "description": "我的词组例外",
+  "exceptions": {
+    // 示例：
+    // "鸡": ["鸡尾酒"],
+    // "靠": ["靠枕"]
+  }
+}`;
 
 /**
  * 打开敏感词配置文件
@@ -26,9 +70,19 @@ export async function openSensitiveWordsConfig(): Promise<void> {
         const options = [
             {
                 label: '⚙️ 快速切换检测级别',
-                description: '一键选择：严格/标准/宽松',
+                description: '一键选择：严格/标准/宽松，或切换平台配置',
                 action: 'quickLevel'
             },
+            {
+                label: '🔍 按平台配置检查本章',
+                description: '用其他平台的配置检查当前章节，不改变当前配置',
+                action: 'checkProfile'
+            },
+            {
+                label: '🏷️ 按分类开关',
+                description: '单独关闭不需要检测的分类（如广告营销）',
+                action: 'categories'
+            },
             {
                 label: '➕ 管理自定义敏感词',
                 description: '添加您想要检测的敏感词汇',
@@ -39,6 +93,21 @@ export async function openSensitiveWordsConfig(): Promise<void> {
                 description: '排除误报的词汇（人物名、地名等）',
                 action: 'whitelist'
             },
+            {
+                label: '🧾 管理词组例外',
+                description: '查看本章被例外放过的位置，或为单字敏感词补充常见词组',
+                action: 'exceptions'
+            },
+            {
+                label: '🙈 管理已忽略的位置',
+                description: '查看、取消"忽略此处"的记录和行内忽略标记',
+                action: 'ignores'
+            },
+            {
+                label: '🔁 管理替换建议',
+                description: '为敏感词设置更稳妥的写法，用于快速修复',
+                action: 'replacements'
+            },
             {
                 label: '📝 高级配置',
                 description: '打开完整配置文件进行详细设置',
@@ -57,6 +126,12 @@ export async function openSensitiveWordsConfig(): Promise<void> {
         if (selected.action === 'quickLevel') {
             // 快速切换检测级别
             await quickSwitchLevel();
+        } else if (selected.action === 'checkProfile') {
+            await vscode.commands.executeCommand('noveler.checkChapterWithProfile');
+        } else if (selected.action === 'categories') {
+            await toggleCategories();
+        } else if (selected.action === 'ignores') {
+            await vscode.commands.executeCommand('noveler.manageSensitiveIgnores');
         } else if (selected.action === 'config') {
             // 打开 novel.jsonc 并跳转到 sensitiveWords 配置
             const novelConfigPath = path.join(projectPath, 'novel.jsonc');
@@ -95,6 +170,18 @@ export async function openSensitiveWordsConfig(): Promise<void> {
             } catch (error) {
                 vscode.window.showWarningMessage('白名单文件不存在。请先初始化项目或手动创建 .noveler/sensitive-words/whitelist.jsonc');
             }
+        } else if (selected.action === 'exceptions') {
+            await manageExceptions(projectPath);
+        } else if (selected.action === 'replacements') {
+            // 打开替换建议文件（不存在时创建）
+            const replacementsUri = vscode.Uri.file(path.join(projectPath, SENSITIVE_REPLACEMENTS_FILE));
+            try {
+                await vscode.workspace.fs.stat(replacementsUri);
+            } catch {
+                await vscode.workspace.fs.writeFile(replacementsUri, Buffer.from(SENSITIVE_REPLACEMENTS_TEMPLATE, 'utf8'));
+            }
+            const doc = await vscode.workspace.openTextDocument(replacementsUri);
+            await vscode.window.showTextDocument(doc);
         }
 
         Logger.info('已打开敏感词配置');
@@ -105,13 +192,158 @@ export async function openSensitiveWordsConfig(): Promise<void> {
 }
 
 /**
- * 快速切换检测级别
- * 提供简单的预设选项，而非复杂的配置
+ * 按分类开关敏感词检测
+ * 列出内置词库 metadata.json 中的分类和自定义词库中用到的分类，未勾选的分类写入配置为 false
+ */
+async function toggleCategories(): Promise<void> {
+    const service = SensitiveWordService.getInstance();
+    const { builtin, custom } = await service.getCategories();
+    // 勾选状态按实际生效的配置显示（含平台配置），写入时只修改基础配置
+    const effective = service.getConfig();
+    const toggles = ConfigService.getInstance().getConfig().sensitiveWords?.categories ?? {};
+
+    type CategoryItem = vscode.QuickPickItem & { category?: string };
+    const items: CategoryItem[] = [];
+    const addGroup = (title: string, categories: string[] | undefined) => {
+        if (!categories || categories.length === 0) {
+            return;
+        }
+        items.push({ label: title, kind: vscode.QuickPickItemKind.Separator });
+        for (const category of categories) {
+            items.push({ label: category, category, picked: effective.categories?.[category] !== false });
+        }
+    };
+
+    const levels: SensitiveLevel[] = ['high', 'medium', 'low'];
+    for (const level of levels) {
+        addGroup(`${SENSITIVE_LEVEL_NAMES[level]}词库`, builtin[level]);
+    }
+    addGroup('自定义词库', custom);
+
+    if (items.length === 0) {
+        vscode.window.showWarningMessage('没有可以开关的分类');
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: effective.activeProfile
+            ? `勾选需要检测的分类（平台配置 ${effective.activeProfile} 中设置的分类以平台配置为准）`
+            : '勾选需要检测的分类，未勾选的分类不再提示'
+    });
+
+    if (!selected) {
+        return;
+    }
+
+    // 记录关闭的分类；之前关闭、现在重新勾选的分类写为 true（配置更新不会删除已有的键），不在列表中的旧配置原样保留
+    const listed = new Set(items.map(item => item.category).filter(Boolean));
+    const enabled = new Set(selected.map(item => item.category));
+    const categories: Record<string, boolean> = { ...toggles };
+    for (const category of listed) {
+        if (!category) {
+            continue;
+        }
+        if (!enabled.has(category)) {
+            categories[category] = false;
+        } else if (category in categories) {
+            categories[category] = true;
+        }
+    }
+
+    try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await ConfigService.getInstance().updateConfig((draft: any) => {
+            if (!draft.noveler) draft.noveler = {};
+            if (!draft.noveler.sensitiveWords) draft.noveler.sensitiveWords = {};
+            draft.noveler.sensitiveWords.categories = categories;
+        });
+
+        await service.reload();
+
+        const disabled = Object.values(categories).filter(value => value === false).length;
+        const message = disabled > 0 ? `已关闭 ${disabled} 个敏感词分类` : '已开启全部敏感词分类';
+        vscode.window.showInformationMessage(message);
+        Logger.info(message);
+    } catch (error) {
+        Logger.error('切换敏感词分类失败', error);
+        vscode.window.showErrorMessage('切换敏感词分类失败，请手动编辑配置文件');
+    }
+}
+
+/**
+ * 管理词组例外
+ * 列出当前章节中被词组例外放过的敏感词（说明是哪个词组、来自内置还是项目例外），选择后跳转到原文
+ */
+async function manageExceptions(projectPath: string): Promise<void> {
+    type ExceptionItem = vscode.QuickPickItem & { offset?: number; length?: number };
+    const editItem: ExceptionItem = {
+        label: '$(edit) 编辑项目词组例外',
+        description: SENSITIVE_EXCEPTIONS_FILE
+    };
+    const items: ExceptionItem[] = [editItem];
+
+    const editor = vscode.window.activeTextEditor;
+    if (editor && editor.document.languageId === 'markdown') {
+        const text = editor.document.getText();
+        const suppressed = SensitiveWordService.getInstance()
+            .detectText(text, true)
+            .filter(match => match.exception);
+        const lineStarts = computeLineStarts(text);
+
+        items.push({ label: `本章被例外放过的敏感词（${suppressed.length}）`, kind: vscode.QuickPickItemKind.Separator });
+        for (const match of suppressed) {
+            const { line } = offsetToPosition(lineStarts, match.start);
+            items.push({
+                label: `"${match.word}" → ${match.exception!.phrase}`,
+                description: `第 ${line + 1} 行 · ${match.exception!.source === 'builtin' ? '内置例外' : '项目例外'}`,
+                detail: buildContextSnippet(text, match.start, match.end),
+                offset: match.start,
+                length: match.end - match.start
+            });
+        }
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: '敏感词出现在例外词组中时不提示',
+        matchOnDescription: true,
+        matchOnDetail: true
+    });
+
+    if (!selected) {
+        return;
+    }
+
+    if (selected === editItem) {
+        // 打开词组例外文件（不存在时创建）
+        const exceptionsUri = vscode.Uri.file(path.join(projectPath, SENSITIVE_EXCEPTIONS_FILE));
+        try {
+            await vscode.workspace.fs.stat(exceptionsUri);
+        } catch {
+            await vscode.workspace.fs.writeFile(exceptionsUri, Buffer.from(SENSITIVE_EXCEPTIONS_TEMPLATE, 'utf8'));
+        }
+        const doc = await vscode.workspace.openTextDocument(exceptionsUri);
+        await vscode.window.showTextDocument(doc);
+    } else if (editor && selected.offset !== undefined) {
+        const start = editor.document.positionAt(selected.offset);
+        const end = editor.document.positionAt(selected.offset + (selected.length ?? 0));
+        await vscode.window.showTextDocument(editor.document, {
+            viewColumn: editor.viewColumn,
+            selection: new vscode.Range(start, end)
+        });
+    }
+}
+
+/**
+ * 快速切换检测级别 / 平台配置
+ * 提供简单的预设选项，而非复杂的配置；novel.jsonc 中定义了平台配置（profiles）时一并列出
  */
 async function quickSwitchLevel(): Promise<void> {
     const configService = ConfigService.getInstance();
     const config = configService.getConfig();
     const currentLevels = config?.sensitiveWords?.builtInLibrary?.levels;
+    const profiles = config?.sensitiveWords?.profiles ?? {};
+    const activeProfile = SensitiveWordService.getInstance().getConfig().activeProfile;
 
     // 判断当前级别
     let currentLevel = '标准';
@@ -125,53 +357,78 @@ async function quickSwitchLevel(): Promise<void> {
         }
     }
 
-    const levels = [
+    type LevelItem = vscode.QuickPickItem & {
+        value?: Record<SensitiveLevel, boolean>;
+        profile?: string;
+    };
+
+    const levels: LevelItem[] = [
         {
             label: '🔴 严格模式',
             description: '检测所有级别（高危+中危+低危）',
             detail: '适合网文平台发布，最大程度规避审核风险',
             value: { high: true, medium: true, low: true },
-            picked: currentLevel === '严格'
+            picked: !activeProfile && currentLevel === '严格'
         },
         {
             label: '🟡 标准模式（推荐）',
             description: '检测高危和中危词汇',
             detail: '平衡检测效果和误报率，适合大多数场景',
             value: { high: true, medium: true, low: false },
-            picked: currentLevel === '标准'
+            picked: !activeProfile && currentLevel === '标准'
         },
         {
             label: '🟢 宽松模式',
             description: '仅检测高危词汇',
             detail: '减少干扰，仅标记红线词汇',
             value: { high: true, medium: false, low: false },
-            picked: currentLevel === '宽松'
+            picked: !activeProfile && currentLevel === '宽松'
         }
     ];
 
+    const profileNames = Object.keys(profiles);
+    if (profileNames.length > 0) {
+        levels.push({ label: '平台配置', kind: vscode.QuickPickItemKind.Separator });
+        for (const name of profileNames) {
+            levels.push({
+                label: `🏷️ ${name}`,
+                description: name === activeProfile ? '当前使用' : profiles[name]?.description,
+                profile: name
+            });
+        }
+    }
+
+    const current = activeProfile ? `平台配置 ${activeProfile}` : `${currentLevel}模式`;
     const selected = await vscode.window.showQuickPick(levels, {
-        placeHolder: `当前级别：${currentLevel}，请选择新的检测级别`
+        placeHolder: `当前：${current}，请选择新的检测级别或平台配置`
     });
 
-    if (!selected) {
+    if (!selected || (!selected.value && !selected.profile)) {
         return;
     }
 
-    // 更新配置
+    // 更新配置（选择级别预设时取消平台配置，否则平台配置中的级别会覆盖预设）
     try {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         await configService.updateConfig((draft: any) => {
             if (!draft.noveler) draft.noveler = {};
             if (!draft.noveler.sensitiveWords) draft.noveler.sensitiveWords = {};
-            if (!draft.noveler.sensitiveWords.builtInLibrary) draft.noveler.sensitiveWords.builtInLibrary = {};
-            draft.noveler.sensitiveWords.builtInLibrary.levels = selected.value;
+            if (selected.profile) {
+                draft.noveler.sensitiveWords.activeProfile = selected.profile;
+            } else {
+                if (!draft.noveler.sensitiveWords.builtInLibrary) draft.noveler.sensitiveWords.builtInLibrary = {};
+                draft.noveler.sensitiveWords.builtInLibrary.levels = selected.value;
+                draft.noveler.sensitiveWords.activeProfile = undefined;
+            }
         });
 
         // 重新加载敏感词服务
         const sensitiveWordService = SensitiveWordService.getInstance();
         await sensitiveWordService.reload();
 
-        const levelName = selected.label.replace(/^[🔴🟡🟢]\s*/u, '').replace('（推荐）', '').trim();
+        const levelName = selected.profile
+            ? `平台配置 ${selected.profile}`
+            : selected.label.replace(/^[🔴🟡🟢]\s*/u, '').replace('（推荐）', '').trim();
         vscode.window.showInformationMessage(`敏感词检测级别已切换为：${levelName}`);
         Logger.info(`敏感词检测级别已切换为：${levelName}`);
     } catch (error) {
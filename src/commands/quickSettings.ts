@@ -166,9 +166,9 @@ async function configureQuoteStyle(): Promise<void> {
     const configService = ConfigService.getInstance();
 
     const styles = [
-        { label: '「」', description: '直角引号（日式）', value: '「」' },
-        { label: '""', description: '弯引号', value: '""' },
-        { label: '""', description: '直引号', value: '""' }
+        { label: '「」', description: '直角引号，内层用『』', value: '「」' },
+        { label: '“”', description: '弯引号，内层用‘’', value: '“”' },
+        { label: '""', description: '直引号，内层用\'\'', value: '""' }
     ];
 
     const selected = await vscode.window.showQuickPick(styles, {
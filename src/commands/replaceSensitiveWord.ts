@@ -0,0 +1,140 @@
+/**
+ * 敏感词全部替换（本章 / 全书）
+ */
+
+import * as vscode from 'vscode';
+import { SensitiveWordService } from '../services/sensitiveWordService';
+import { SensitiveWordDiagnosticProvider } from '../providers/sensitiveWordDiagnostic';
+import { listChapterFiles, readChapterText } from '../utils/chapterFiles';
+import { computeLineStarts, offsetToPosition } from '../utils/sensitiveReport';
+import { handleError, ErrorSeverity } from '../utils/errorHandler';
+import { Logger } from '../utils/logger';
+
+/**
+ * 把本章或全书中检测到的某个敏感词全部替换为选择的建议词
+ * 只替换被检测为敏感词的位置（跳过 Front Matter、白名单和已忽略的位置），全书替换前需要确认
+ *
+ * @param diagnosticProvider 敏感词诊断提供器（提供忽略记录）
+ * @param documentUri 触发替换的章节 URI
+ * @param word 敏感词
+ * @param scope 替换范围
+ */
+export async function replaceSensitiveWord(
+    diagnosticProvider: SensitiveWordDiagnosticProvider | undefined,
+    documentUri: string,
+    word: string,
+    scope: 'chapter' | 'project'
+): Promise<void> {
+    if (!diagnosticProvider) {
+        vscode.window.showWarningMessage('敏感词检测服务尚未初始化，请稍后再试');
+        return;
+    }
+
+    const service = SensitiveWordService.getInstance();
+    const replacement = await pickReplacement(word, service.getReplacements(word));
+    if (!replacement) {
+        return;
+    }
+
+    let targets: vscode.Uri[];
+    if (scope === 'chapter') {
+        targets = [vscode.Uri.parse(documentUri)];
+    } else {
+        try {
+            targets = (await listChapterFiles()).map(chapter => chapter.uri);
+        } catch (error) {
+            handleError('读取章节失败', error, ErrorSeverity.Error);
+            return;
+        }
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const changedUris: vscode.Uri[] = [];
+    let total = 0;
+
+    for (const uri of targets) {
+        let text: string;
+        try {
+            text = await readChapterText(uri);
+        } catch (error) {
+            handleError(`读取章节失败 ${uri.fsPath}`, error, ErrorSeverity.Silent);
+            continue;
+        }
+
+        const matches = diagnosticProvider.detectText(uri, text).filter(match => match.word === word);
+        if (matches.length === 0) {
+            continue;
+        }
+
+        const lineStarts = computeLineStarts(text);
+        const toPosition = (offset: number) => {
+            const { line, character } = offsetToPosition(lineStarts, offset);
+            return new vscode.Position(line, character);
+        };
+        for (const match of matches) {
+            edit.replace(uri, new vscode.Range(toPosition(match.start), toPosition(match.end)), replacement);
+        }
+        changedUris.push(uri);
+        total += matches.length;
+    }
+
+    if (total === 0) {
+        vscode.window.showInformationMessage(`没有找到需要替换的 "${word}"`);
+        return;
+    }
+
+    if (scope === 'project') {
+        const confirm = await vscode.window.showWarningMessage(
+            `将把 ${changedUris.length} 章中的 ${total} 处 "${word}" 替换为 "${replacement}"，是否继续？`,
+            { modal: true },
+            '替换'
+        );
+        if (confirm !== '替换') {
+            return;
+        }
+    }
+
+    // 记录替换前未打开的章节，替换后自动保存，避免留下大量未保存的文件
+    const openUris = new Set(vscode.workspace.textDocuments.map(document => document.uri.toString()));
+
+    try {
+        if (!await vscode.workspace.applyEdit(edit)) {
+            vscode.window.showErrorMessage('替换失败，请稍后重试');
+            return;
+        }
+
+        for (const uri of changedUris) {
+            if (!openUris.has(uri.toString())) {
+                const document = await vscode.workspace.openTextDocument(uri);
+                await document.save();
+            }
+        }
+    } catch (error) {
+        handleError('替换敏感词失败', error, ErrorSeverity.Error);
+        return;
+    }
+
+    Logger.info(`已将 ${changedUris.length} 章中的 ${total} 处 "${word}" 替换为 "${replacement}"`);
+    vscode.window.showInformationMessage(`已替换 ${total} 处 "${word}" → "${replacement}"`);
+}
+
+/**
+ * 选择替换词（只有一个建议时也让用户确认，可以输入其他写法）
+ */
+async function pickReplacement(word: string, suggestions: string[]): Promise<string | undefined> {
+    const customLabel = '$(edit) 输入其他写法...';
+    const picked = await vscode.window.showQuickPick(
+        [...suggestions, customLabel],
+        { placeHolder: `将 "${word}" 替换为` }
+    );
+
+    if (picked !== customLabel) {
+        return picked;
+    }
+
+    const input = await vscode.window.showInputBox({
+        prompt: `将 "${word}" 替换为`,
+        validateInput: value => value.trim() ? null : '替换内容不能为空'
+    });
+    return input?.trim();
+}
@@ -0,0 +1,202 @@
+/**
+ * 全项目敏感词扫描 / 导出扫描报告
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SensitiveWordService } from '../services/sensitiveWordService';
+import { SensitiveWordDiagnosticProvider } from '../providers/sensitiveWordDiagnostic';
+import { SensitiveReportWebviewProvider } from '../views/sensitiveReportWebviewProvider';
+import { SensitiveScanItem, SensitiveScanReport } from '../types/sensitiveWord';
+import { buildSensitiveScanReport, sensitiveReportToCsv, toSensitiveScanItems } from '../utils/sensitiveReport';
+import { ChapterFile, listChapterFiles, readChapterText } from '../utils/chapterFiles';
+import { formatDate, formatDateTime } from '../utils/dateFormatter';
+import { CHAPTERS_FOLDER } from '../constants';
+import { handleError, ErrorSeverity } from '../utils/errorHandler';
+import { Logger } from '../utils/logger';
+
+/**
+ * 扫描全部章节（平铺和分卷结构）的敏感词，结果写入问题面板并显示扫描报告
+ */
+export async function scanAllSensitiveWords(
+    diagnosticProvider: SensitiveWordDiagnosticProvider | undefined,
+    webviewProvider: SensitiveReportWebviewProvider
+): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        vscode.window.showErrorMessage('请先打开一个工作区');
+        return;
+    }
+
+    if (!diagnosticProvider) {
+        vscode.window.showWarningMessage('敏感词检测服务尚未初始化，请稍后再试');
+        return;
+    }
+
+    if (!SensitiveWordService.getInstance().getConfig().enabled) {
+        vscode.window.showWarningMessage('敏感词检测已关闭，请在 novel.jsonc 中开启 sensitiveWords.enabled');
+        return;
+    }
+
+    let chapters: ChapterFile[];
+    try {
+        chapters = await listChapterFiles();
+    } catch (error) {
+        handleError('读取章节失败', error, ErrorSeverity.Error);
+        return;
+    }
+
+    if (chapters.length === 0) {
+        vscode.window.showWarningMessage('没有可扫描的章节');
+        return;
+    }
+
+    const report = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: 'Noveler: 正在扫描敏感词...',
+            cancellable: false
+        },
+        async progress => {
+            const results: { path: string; title: string; items: SensitiveScanItem[] }[] = [];
+            for (const chapter of chapters) {
+                progress.report({ message: chapter.title, increment: 100 / chapters.length });
+                const items = await scanChapter(chapter.uri, diagnosticProvider);
+                results.push({ path: chapter.path, title: chapter.title, items });
+            }
+            return buildSensitiveScanReport(results, formatDateTime(new Date()));
+        }
+    );
+
+    const total = report.levels.high + report.levels.medium + report.levels.low;
+    Logger.info(`全项目敏感词扫描完成: ${report.scannedChapters} 章，${total} 处`);
+    webviewProvider.show(report);
+}
+
+/**
+ * 扫描单个章节文件
+ */
+async function scanChapter(
+    fileUri: vscode.Uri,
+    diagnosticProvider: SensitiveWordDiagnosticProvider
+): Promise<SensitiveScanItem[]> {
+    try {
+        const text = await readChapterText(fileUri);
+        return toSensitiveScanItems(text, diagnosticProvider.updateDiagnosticsForText(fileUri, text));
+    } catch (error) {
+        handleError(`扫描章节失败 ${fileUri.fsPath}`, error, ErrorSeverity.Silent);
+        return [];
+    }
+}
+
+/**
+ * 按指定的平台配置检查当前章节（不改变当前使用的平台配置，结果只显示在报告中，不写入问题面板）
+ * @param context 扩展上下文
+ * @param webviewProvider 扫描报告面板
+ */
+export async function checkChapterWithProfile(
+    context: vscode.ExtensionContext,
+    webviewProvider: SensitiveReportWebviewProvider
+): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'markdown') {
+        vscode.window.showWarningMessage('请先打开要检查的章节');
+        return;
+    }
+
+    const config = SensitiveWordService.getInstance().getConfig();
+    const profiles = config.profiles ?? {};
+    const names = Object.keys(profiles);
+    if (names.length === 0) {
+        vscode.window.showWarningMessage('还没有平台配置，请先在 novel.jsonc 的 sensitiveWords.profiles 中添加');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        names.map(name => ({
+            label: name,
+            description: name === config.activeProfile ? '当前使用' : profiles[name]?.description
+        })),
+        { placeHolder: '选择要检查的平台配置' }
+    );
+    if (!picked) {
+        return;
+    }
+
+    let service: SensitiveWordService | undefined;
+    try {
+        service = await SensitiveWordService.createForProfile(context, picked.label);
+    } catch (error) {
+        handleError(`加载平台配置 "${picked.label}" 失败`, error, ErrorSeverity.Error);
+        return;
+    }
+    if (!service) {
+        vscode.window.showWarningMessage(`平台配置 "${picked.label}" 不存在`);
+        return;
+    }
+
+    const document = editor.document;
+    const text = document.getText();
+    const chapter = await findChapter(document.uri);
+    const report = buildSensitiveScanReport(
+        [{ path: chapter.path, title: chapter.title, items: toSensitiveScanItems(text, service.detect(document)) }],
+        formatDateTime(new Date())
+    );
+
+    const total = report.levels.high + report.levels.medium + report.levels.low;
+    Logger.info(`按平台配置 "${picked.label}" 检查 ${chapter.path}: ${total} 处`);
+    webviewProvider.show({ ...report, profile: picked.label });
+}
+
+/**
+ * 查找文档对应的章节（不在章节列表中时使用相对 chapters/ 的路径和文件名）
+ */
+async function findChapter(uri: vscode.Uri): Promise<{ path: string; title: string }> {
+    try {
+        const chapter = (await listChapterFiles()).find(item => item.uri.toString() === uri.toString());
+        if (chapter) {
+            return chapter;
+        }
+    } catch (error) {
+        handleError('读取章节失败', error, ErrorSeverity.Silent);
+    }
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const relativePath = workspaceFolder
+        ? path.relative(path.join(workspaceFolder.uri.fsPath, CHAPTERS_FOLDER), uri.fsPath).split(path.sep).join('/')
+        : path.basename(uri.fsPath);
+    return { path: relativePath, title: path.basename(uri.fsPath, path.extname(uri.fsPath)) };
+}
+
+/**
+ * 导出扫描报告（根据保存的文件扩展名选择 JSON 或 CSV）
+ * @param report 扫描报告
+ * @param format 默认格式
+ */
+export async function exportSensitiveReport(report: SensitiveScanReport, format: 'json' | 'csv'): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const fileName = `敏感词报告-${formatDate(new Date())}.${format}`;
+
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, fileName) : undefined,
+        filters: format === 'csv' ? { 'CSV': ['csv'], 'JSON': ['json'] } : { 'JSON': ['json'], 'CSV': ['csv'] },
+        saveLabel: '导出'
+    });
+    if (!target) {
+        return;
+    }
+
+    const content = target.path.toLowerCase().endsWith('.csv')
+        ? sensitiveReportToCsv(report)
+        : JSON.stringify(report, null, 2);
+
+    try {
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+        const action = await vscode.window.showInformationMessage(`扫描报告已导出到 ${target.fsPath}`, '打开所在文件夹');
+        if (action === '打开所在文件夹') {
+            await vscode.commands.executeCommand('revealFileInOS', target);
+        }
+    } catch (error) {
+        handleError('导出扫描报告失败', error, ErrorSeverity.Error);
+    }
+}
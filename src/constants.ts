@@ -58,6 +58,21 @@ export const DRAFTS_FOLDER = 'drafts';
 /** 参考资料目录名 */
 export const REFERENCES_FOLDER = 'references';
 
+/** 写作历史文件（每日字数增量记录） */
+export const WRITING_HISTORY_FILE = '.noveler/history.json';
+
+/** 写作会话日志文件 */
+export const WRITING_SESSIONS_FILE = '.noveler/sessions.json';
+
+/** 项目敏感词替换建议文件 */
+export const SENSITIVE_REPLACEMENTS_FILE = '.noveler/sensitive-words/replacements.jsonc';
+
+/** 项目敏感词词组例外文件 */
+export const SENSITIVE_EXCEPTIONS_FILE = '.noveler/sensitive-words/exceptions.jsonc';
+
+/** 已忽略的敏感词位置文件 */
+export const SENSITIVE_IGNORES_FILE = '.noveler/sensitive-words/ignores.json';
+
 // ==================== 状态相关 ====================
 
 /** 章节状态选项 */
@@ -101,6 +116,12 @@ export const PROJECT_DIRECTORIES = [
     REFERENCES_FOLDER
 ] as const;
 
+/** 默认导出目录（novel.jsonc 中 output.outputDir 未配置时使用） */
+export const DEFAULT_OUTPUT_DIR = 'output';
+
+/** 默认导出格式（novel.jsonc 中 output.formats 未配置时使用） */
+export const DEFAULT_EXPORT_FORMATS = ['epub'] as const;
+
 // ==================== 文件命名和验证 ====================
 
 /** 章节号填充位数（例如 01, 02, ...） */
@@ -9,19 +9,29 @@ import { ProjectStatsService } from './services/projectStatsService';
 import { SensitiveWordService } from './services/sensitiveWordService';
 import { VolumeService } from './services/volumeService';
 import { NameGeneratorService } from './services/nameGeneratorService';
+import { WritingHistoryService } from './services/writingHistoryService';
+import { WritingSessionService } from './services/writingSessionService';
 import { SensitiveWordDiagnosticProvider } from './providers/sensitiveWordDiagnostic';
 import { SensitiveWordCodeActionProvider } from './providers/sensitiveWordCodeAction';
+import { RepetitionDiagnosticProvider } from './providers/repetitionDiagnostic';
+import { TypingAssistProvider } from './providers/typingAssistProvider';
 import { NovelerViewProvider } from './views/novelerViewProvider';
 import { StatsWebviewProvider } from './views/statsWebviewProvider';
+import { TextAnalysisWebviewProvider } from './views/textAnalysisWebviewProvider';
+import { CharacterAppearanceWebviewProvider } from './views/characterAppearanceWebviewProvider';
+import { SensitiveReportWebviewProvider } from './views/sensitiveReportWebviewProvider';
+import { DailyGoalStatusBar } from './views/dailyGoalStatusBar';
+import { SessionStatusBar } from './views/sessionStatusBar';
 import { WelcomeWebviewProvider } from './views/welcomeWebviewProvider';
 import { PreviewWebviewProvider } from './views/previewWebviewProvider';
 import { initTemplateLoader } from './utils/templateLoader';
-import { updateFrontMatter } from './utils/frontMatterHelper';
+import { extractFrontMatter, updateFrontMatter } from './utils/frontMatterHelper';
 import { handleReadmeAutoUpdate } from './utils/readmeAutoUpdate';
 import { registerAllCommands } from './commands/commandRegistrar';
-import { PARAGRAPH_INDENT, VOLUME_TYPE_NAMES } from './constants';
+import { VOLUME_TYPE_NAMES } from './constants';
 import { MigrationService } from './services/migrationService';
 import { Debouncer } from './utils/debouncer';
+import { getCountingProfileHint } from './utils/countingProfiles';
 import { handleError, ErrorSeverity } from './utils/errorHandler';
 import { WORD_COUNT_DEBOUNCE_DELAY, HIGHLIGHT_DEBOUNCE_DELAY, README_UPDATE_DEBOUNCE_DELAY, CHAPTERS_FOLDER, CONFIG_FILE_NAME } from './constants';
 import { Logger, LogLevel } from './utils/logger';
@@ -61,6 +71,15 @@ export async function activate(context: vscode.ExtensionContext) {
         // 初始化字数统计服务（不依赖配置加载完成）
         wordCountService = new WordCountService();
 
+        // 计数规则随配置切换（先于其他配置监听器注册，保证刷新时已使用新规则）
+        const applyCountingProfile = () => {
+            const { profile, includePunctuation } = configService.getCountingProfile();
+            WordCountService.setCountingProfile(profile, includePunctuation);
+            wordCountService.clearAllCache();
+        };
+        applyCountingProfile();
+        context.subscriptions.push(configService.onDidChangeConfig(applyCountingProfile));
+
         // 初始化高亮提供者
         highlightProvider = new NovelHighlightProvider();
         context.subscriptions.push(highlightProvider);
@@ -76,10 +95,25 @@ export async function activate(context: vscode.ExtensionContext) {
         );
         Logger.info('[Noveler] 侧边栏视图已注册');
 
+        // 初始化写作历史服务
+        context.subscriptions.push(WritingHistoryService.getInstance());
+
+        // 初始化写作会话服务
+        context.subscriptions.push(WritingSessionService.getInstance());
+
         // 初始化统计服务和 Webview
         const projectStatsService = new ProjectStatsService();
         const statsWebviewProvider = new StatsWebviewProvider(context, projectStatsService);
 
+        // 初始化文本分析 Webview
+        const textAnalysisWebviewProvider = new TextAnalysisWebviewProvider(context);
+
+        // 初始化人物出场 Webview
+        const characterAppearanceWebviewProvider = new CharacterAppearanceWebviewProvider(context);
+
+        // 初始化敏感词扫描报告 Webview
+        const sensitiveReportWebviewProvider = new SensitiveReportWebviewProvider(context);
+
         // 初始化欢迎页面 Webview
         const welcomeWebviewProvider = new WelcomeWebviewProvider(context);
 
@@ -93,15 +127,29 @@ export async function activate(context: vscode.ExtensionContext) {
         );
         context.subscriptions.push(wordCountStatusBarItem);
 
-        // 注册格式化提供者
+        // 创建每日目标状态栏项（配置加载完成后刷新）
+        const dailyGoalStatusBar = new DailyGoalStatusBar(configService, projectStatsService);
+        context.subscriptions.push(dailyGoalStatusBar);
+
+        // 创建写作会话状态栏项（仅在会话进行中显示）
+        context.subscriptions.push(new SessionStatusBar());
+
+        // 注册格式化提供者（整篇文档和选中部分）
         const formatProvider = new ChineseNovelFormatProvider();
         context.subscriptions.push(
             vscode.languages.registerDocumentFormattingEditProvider(
                 'markdown',
                 formatProvider
+            ),
+            vscode.languages.registerDocumentRangeFormattingEditProvider(
+                'markdown',
+                formatProvider
             )
         );
 
+        // 注册输入辅助（自动配对、标点转全角、回车缩进和空行）
+        new TypingAssistProvider(configService).register(context);
+
         // 【关键】优先注册所有命令，确保命令可用
         registerAllCommands({
             context,
@@ -109,9 +157,12 @@ export async function activate(context: vscode.ExtensionContext) {
             configService,
             focusModeService,
             sensitiveWordService: null as unknown as SensitiveWordService, // 稍后初始化
-            sensitiveWordDiagnostic: null as unknown as SensitiveWordDiagnosticProvider,
+            getSensitiveWordDiagnostic: () => sensitiveWordDiagnostic,
+            sensitiveReportWebviewProvider,
             novelerViewProvider,
             statsWebviewProvider,
+            textAnalysisWebviewProvider,
+            characterAppearanceWebviewProvider,
             welcomeWebviewProvider,
             previewWebviewProvider,
             highlightProvider,
@@ -155,6 +206,11 @@ export async function activate(context: vscode.ExtensionContext) {
             Logger.error('[Noveler] 敏感词服务初始化失败，但不影响基本功能', sensitiveWordError);
         }
 
+        // 初始化重复用词检测
+        const repetitionDiagnostic = new RepetitionDiagnosticProvider(configService);
+        repetitionDiagnostic.register(context);
+        context.subscriptions.push(repetitionDiagnostic);
+
         // 初始化姓名生成服务
         try {
             NameGeneratorService.initialize(context);
@@ -177,6 +233,7 @@ export async function activate(context: vscode.ExtensionContext) {
             configService.onDidChangeConfig(async () => {
                 vscode.commands.executeCommand('noveler.refresh');
                 codeLensProvider?.refresh();
+                updateWordCountImmediate(vscode.window.activeTextEditor);
                 // 自动重载高亮配置
                 highlightProvider.reloadDecorations();
                 updateHighlights(vscode.window.activeTextEditor);
@@ -197,6 +254,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
         // 初始更新
         updateWordCountImmediate(vscode.window.activeTextEditor);
+        dailyGoalStatusBar.update();
         updateHighlightsImmediate(vscode.window.activeTextEditor);
 
         // 同步护眼模式状态（确保主题与配置一致）
@@ -243,7 +301,6 @@ function registerEventListeners(
                 updateWordCountDebounced(vscode.window.activeTextEditor);
                 updateHighlightsDebounced(vscode.window.activeTextEditor);
             }
-            handleLineBreak(e);
         })
     );
 
@@ -324,7 +381,7 @@ function registerFileSystemWatchers(
     // 监听敏感词配置文件变化
     const sensitiveWordsPattern = new vscode.RelativePattern(
         workspaceFolder,
-        '.noveler/sensitive-words/{custom-words.jsonc,whitelist.jsonc}'
+        '.noveler/sensitive-words/{custom-words.jsonc,whitelist.jsonc,replacements.jsonc,exceptions.jsonc}'
     );
     const sensitiveWordsWatcher = vscode.workspace.createFileSystemWatcher(sensitiveWordsPattern);
 
@@ -388,11 +445,11 @@ function updateWordCount(editor: vscode.TextEditor | undefined) {
         const selectedText = editor.document.getText(selection);
         const selectionStats = wordCountService.getSelectionWordCount(selectedText);
         wordCountStatusBarItem.text = `$(selection) 总计 ${selectionStats.totalChars.toLocaleString()} | 正文 ${selectionStats.contentChars.toLocaleString()} | 标点 ${selectionStats.punctuation.toLocaleString()}`;
-        wordCountStatusBarItem.tooltip = `选中文本统计\n━━━━━━━━━━━━━━\n总计: ${selectionStats.totalChars.toLocaleString()} 字\n正文: ${selectionStats.contentChars.toLocaleString()} 字\n标点: ${selectionStats.punctuation.toLocaleString()} 个`;
+        wordCountStatusBarItem.tooltip = `选中文本统计\n━━━━━━━━━━━━━━\n总计: ${selectionStats.totalChars.toLocaleString()} 字\n正文: ${selectionStats.contentChars.toLocaleString()} 字\n标点: ${selectionStats.punctuation.toLocaleString()} 个${getCountingProfileHint(selectionStats.profile)}`;
     } else {
         const stats = wordCountService.getWordCount(editor.document);
         let statusText = `$(pencil) 总计 ${stats.totalChars.toLocaleString()} | 正文 ${stats.contentChars.toLocaleString()} | 标点 ${stats.punctuation.toLocaleString()}`;
-        let tooltipText = `当前文档统计\n━━━━━━━━━━━━━━\n总计: ${stats.totalChars.toLocaleString()} 字\n正文: ${stats.contentChars.toLocaleString()} 字\n标点: ${stats.punctuation.toLocaleString()} 个`;
+        let tooltipText = `当前文档统计\n━━━━━━━━━━━━━━\n总计: ${stats.totalChars.toLocaleString()} 字\n正文: ${stats.contentChars.toLocaleString()} 字\n标点: ${stats.punctuation.toLocaleString()} 个${getCountingProfileHint(stats.profile)}`;
 
         if (configService.isVolumesEnabled()) {
             const volumeService = VolumeService.getInstance();
@@ -465,89 +522,33 @@ async function syncEyeCareModeTheme(_context: vscode.ExtensionContext): Promise<
 async function updateFrontMatterOnSave(document: vscode.TextDocument): Promise<vscode.TextEdit[]> {
     try {
         const stats = wordCountService.getWordCount(document);
-        return updateFrontMatter(document, stats.totalChars);
+        const previousWordCount = extractFrontMatter(document).wordCount;
+        const edits = updateFrontMatter(document, stats.totalChars);
+
+        // 记录本次保存的字数增量（仅当 Front Matter 中有 wordCount 字段时）
+        if (typeof previousWordCount === 'number' && edits.length > 0) {
+            WritingHistoryService.getInstance().recordWordCountChange(
+                document.uri,
+                previousWordCount,
+                stats.totalChars,
+                WordCountService.getCountingProfileKey()
+            );
+        }
+
+        return edits;
     } catch (error) {
         handleError('保存时更新 Front Matter 失败', error, ErrorSeverity.Silent);
         return [];
     }
 }
 
-function handleLineBreak(event: vscode.TextDocumentChangeEvent) {
-    const editor = vscode.window.activeTextEditor;
-    if (!editor || event.document !== editor.document) {
-        return;
-    }
-
-    if (event.document.languageId !== 'markdown') {
-        return;
-    }
-
-    const filePath = event.document.uri.fsPath;
-    const normalizedPath = filePath.replace(/\\/g, '/');
-    if (!normalizedPath.includes(`/${CHAPTERS_FOLDER}/`)) {
-        return;
-    }
-
-    if (event.contentChanges.length !== 1) {
-        return;
-    }
-
-    const change = event.contentChanges[0];
-
-    if (change.text !== '\n') {
-        return;
-    }
-
-    const line = event.document.lineAt(change.range.start.line);
-    const previousLineText = line.text.trim();
-
-    const autoEmptyLineEnabled = configService.shouldAutoEmptyLine();
-    const paragraphIndentEnabled = configService.shouldParagraphIndent();
-
-    Logger.info(`[换行处理] 空行: ${autoEmptyLineEnabled}, 缩进: ${paragraphIndentEnabled}, 前一行: "${previousLineText}"`);
-
-    if (!autoEmptyLineEnabled && !paragraphIndentEnabled) {
-        return;
-    }
-
-    if (previousLineText.startsWith('#') || previousLineText.startsWith('<!--') || previousLineText === '---') {
-        return;
-    }
-
-    const isPreviousLineEmpty = previousLineText === '';
-
-    if (autoEmptyLineEnabled && !paragraphIndentEnabled && isPreviousLineEmpty) {
-        return;
-    }
-
-    editor.edit((editBuilder) => {
-        let textToInsert = '';
-
-        if (autoEmptyLineEnabled && !isPreviousLineEmpty) {
-            textToInsert += '\n';
-            Logger.info(`[换行处理] 添加空行`);
-        }
-
-        if (paragraphIndentEnabled) {
-            textToInsert += PARAGRAPH_INDENT;
-            Logger.info(`[换行处理] 添加缩进`);
-        }
-
-        if (textToInsert) {
-            const insertPos = new vscode.Position(change.range.start.line + 1, 0);
-            editBuilder.insert(insertPos, textToInsert);
-            Logger.info(`[换行处理] 在第 ${change.range.start.line + 1} 行插入: "${textToInsert.replace(/\n/g, '\\n')}"`);
-        }
-    }, {
-        undoStopBefore: false,
-        undoStopAfter: false
-    });
-}
-
-export function deactivate() {
+export async function deactivate(): Promise<void> {
     Logger.info('[Noveler] 已停用');
 
     wordCountDebouncer?.dispose();
     highlightDebouncer?.dispose();
     readmeUpdateDebouncer?.dispose();
+
+    // 等待进行中的写作会话写入 sessions.json，避免扩展宿主先退出
+    await WritingSessionService.getInstance().saveOnDeactivate();
 }
@@ -6,6 +6,9 @@ import * as vscode from 'vscode';
 import { getContentWithoutFrontMatter, extractChapterFrontMatter } from '../utils/frontMatterHelper';
 import { WordCountService } from '../services/wordCountService';
 import { getStatusDisplayName } from '../utils/statusHelper';
+import { getCountingProfileHint } from '../utils/countingProfiles';
+import { extractParagraphs } from '../utils/manuscriptText';
+import { computeProseMetrics, formatRatio } from '../utils/proseMetrics';
 
 export class ChapterCodeLensProvider implements vscode.CodeLensProvider {
     private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
@@ -48,7 +51,8 @@ export class ChapterCodeLensProvider implements vscode.CodeLensProvider {
                 // 获取字数统计
                 const contentWithoutFM = getContentWithoutFrontMatter(document);
                 const stats = WordCountService.getDetailedStats(contentWithoutFM, true);
-                const totalWords = stats.content + stats.punctuation;
+                const totalWords = stats.total;
+                const metrics = computeProseMetrics(extractParagraphs(text));
 
                 // 获取 Front Matter 中的状态和目标字数
                 const frontMatter = extractChapterFrontMatter(document);
@@ -60,7 +64,9 @@ export class ChapterCodeLensProvider implements vscode.CodeLensProvider {
                 // 字数统计 Code Lens
                 codeLenses.push(new vscode.CodeLens(range, {
                     title: `📊 ${totalWords.toLocaleString()} 字`,
-                    tooltip: `正文: ${stats.content.toLocaleString()} | 标点: ${stats.punctuation.toLocaleString()}`,
+                    tooltip: `正文: ${stats.content.toLocaleString()} | 标点: ${stats.punctuation.toLocaleString()}${getCountingProfileHint(WordCountService.getCountingProfile())}`
+                        + `\n对话: ${formatRatio(metrics.dialogueRatio)} | 心理: ${formatRatio(metrics.thoughtRatio)}`
+                        + `\n平均段落: ${metrics.avgParagraphLength} 字 | 平均句长: ${metrics.avgSentenceLength} 字 | 最长段落: ${metrics.longestParagraph} 字`,
                     command: ''
                 }));
 
@@ -1,28 +1,121 @@
 import * as vscode from 'vscode';
 import { ConfigService } from '../services/configService';
 import { PARAGRAPH_INDENT } from '../constants';
+import { LineEdit, computeLineEdits, isLineEditWithin } from '../utils/lineEdits';
+import { applyFormatRules, resolveFormatRules } from '../utils/formatRules';
+import { analyzeQuotes } from '../utils/quoteNesting';
+import { FormatRuleChange, QuoteIssue } from '../types/format';
+import { Logger } from '../utils/logger';
 
-export class ChineseNovelFormatProvider implements vscode.DocumentFormattingEditProvider {
+export class ChineseNovelFormatProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
     provideDocumentFormattingEdits(
         document: vscode.TextDocument,
         _options: vscode.FormattingOptions,
         _token: vscode.CancellationToken
     ): vscode.TextEdit[] {
-        const edits: vscode.TextEdit[] = [];
+        return this.formatDocument(document).edits;
+    }
+
+    /**
+     * 格式化整篇文档，同时返回各规则的改动和不配对的引号（用于格式化报告）
+     * @param document 文档
+     * @returns 逐行编辑、改动记录和不配对的引号
+     */
+    public formatDocument(document: vscode.TextDocument): {
+        edits: vscode.TextEdit[];
+        changes: FormatRuleChange[];
+        issues: QuoteIssue[];
+    } {
         const text = document.getText();
+        const { text: formatted, changes, issues } = this.formatText(text);
+        return {
+            edits: computeLineEdits(text, formatted).map(edit => this.toTextEdit(document, edit)),
+            changes,
+            issues
+        };
+    }
+
+    /**
+     * 格式化选中的部分
+     * 按整篇文档计算格式（段落缩进和空行取决于上下文），只应用完全落在选中行内的编辑
+     */
+    provideDocumentRangeFormattingEdits(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        _options: vscode.FormattingOptions,
+        _token: vscode.CancellationToken
+    ): vscode.TextEdit[] {
+        const firstLine = range.start.line;
+        // 选区结束于下一行行首时，不包括该行
+        const lastLine = range.end.character === 0 && range.end.line > firstLine ? range.end.line - 1 : range.end.line;
+
+        const text = document.getText();
+        return computeLineEdits(text, this.formatText(text).text)
+            .filter(edit => isLineEditWithin(edit, firstLine, lastLine))
+            .map(edit => this.toTextEdit(document, edit));
+    }
+
+    /**
+     * 把按偏移量的编辑转换为 TextEdit
+     */
+    private toTextEdit(document: vscode.TextDocument, edit: LineEdit): vscode.TextEdit {
+        return vscode.TextEdit.replace(
+            new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)),
+            edit.text
+        );
+    }
+
+    /**
+     * 格式化全文
+     *
+     * @param text 文档文本
+     * @returns 格式化后的文本、各规则的改动和不配对的引号
+     */
+    private formatText(text: string): { text: string; changes: FormatRuleChange[]; issues: QuoteIssue[] } {
         const lines = text.split('\n');
 
-        // 从 novel.json 配置获取引号样式
+        // 从 novel.jsonc 配置获取引号样式和启用的规则
         const configService = ConfigService.getInstance();
         const quoteStyle = configService.getChineseQuoteStyle();
+        const { rules, errors } = resolveFormatRules(configService.getFormatRules(), configService.shouldConvertQuotes());
+        errors.forEach(error => Logger.warn(`${error}，已跳过`));
+
+        // 引号可能跨段落，先分析全文的引号配对
+        const bodyLines = this.getBodyLines(lines);
+        const quotes = rules.some(rule => rule.name === 'quotes') ? analyzeQuotes(bodyLines) : undefined;
+
+        const changes: FormatRuleChange[] = [];
+        const formattedLines = lines.map((line, i) => {
+            // Front Matter、标题、HTML 注释和空行不处理
+            if (!bodyLines[i]) {
+                return line;
+            }
+            const result = applyFormatRules(line, rules, { quoteStyle, quoteState: quotes?.states[i] }, i);
+            changes.push(...result.changes);
+            return result.text;
+        });
 
-        const formattedLines: string[] = [];
+        const formattedText = formattedLines.join('\n');
+
+        // 根据 autoEmptyLine 配置处理段落间空行
+        return {
+            text: this.formatParagraphSpacing(formattedText, configService),
+            changes,
+            issues: quotes?.issues ?? []
+        };
+    }
+
+    /**
+     * 找出需要格式化的正文行
+     *
+     * @param lines 文档各行
+     * @returns 正文行原样保留；Front Matter 和标题为 null（引用不能跨越），HTML 注释为空字符串
+     */
+    private getBodyLines(lines: string[]): (string | null)[] {
         let inFrontMatter = false;
         let frontMatterCount = 0;
 
-        for (let i = 0; i < lines.length; i++) {
-            let line = lines[i];
-
+        return lines.map(line => {
             // 处理 Front Matter
             if (line.trim() === '---') {
                 frontMatterCount++;
@@ -31,47 +124,21 @@ export class ChineseNovelFormatProvider implements vscode.DocumentFormattingEdit
                 } else if (frontMatterCount === 2) {
                     inFrontMatter = false;
                 }
-                formattedLines.push(line);
-                continue;
+                return null;
             }
 
-            // Front Matter 内部不处理
-            if (inFrontMatter) {
-                formattedLines.push(line);
-                continue;
+            // Front Matter 内部和标题
+            if (inFrontMatter || line.trim().startsWith('#')) {
+                return null;
             }
 
-            // HTML 注释不处理
+            // HTML 注释
             if (line.trim().startsWith('<!--')) {
-                formattedLines.push(line);
-                continue;
-            }
-
-            // 标题不处理
-            if (line.trim().startsWith('#')) {
-                formattedLines.push(line);
-                continue;
+                return '';
             }
 
-            // 格式化正文
-            line = this.formatLine(line, quoteStyle);
-            formattedLines.push(line);
-        }
-
-        let formattedText = formattedLines.join('\n');
-
-        // 根据 autoEmptyLine 配置处理段落间空行
-        formattedText = this.formatParagraphSpacing(formattedText, configService);
-
-        if (formattedText !== text) {
-            const fullRange = new vscode.Range(
-                document.positionAt(0),
-                document.positionAt(text.length)
-            );
-            edits.push(vscode.TextEdit.replace(fullRange, formattedText));
-        }
-
-        return edits;
+            return line;
+        });
     }
 
     /**
@@ -189,48 +256,4 @@ export class ChineseNovelFormatProvider implements vscode.DocumentFormattingEdit
 
         return result.join('\n');
     }
-
-    private formatLine(line: string, quoteStyle: string): string {
-        if (!line.trim()) {
-            return line;
-        }
-
-        let formatted = line;
-        const configService = ConfigService.getInstance();
-
-        // 1. 统一引号样式（如果启用了转换）
-        if (configService.shouldConvertQuotes()) {
-            if (quoteStyle === '「」') {
-                // 将英文引号转为中文引号
-                formatted = formatted.replace(/"([^"]*)"/g, '「$1」');
-            } else {
-                // 将中文引号转为英文引号
-                formatted = formatted.replace(/「([^」]*)」/g, '"$1"');
-            }
-        }
-
-        // 2. 标点符号规范化
-        // 将中文前后的英文标点转为中文标点
-        // 中文后面跟英文标点
-        formatted = formatted.replace(/([\u4e00-\u9fa5]),/g, '$1，');
-        formatted = formatted.replace(/([\u4e00-\u9fa5])\./g, '$1。');
-        formatted = formatted.replace(/([\u4e00-\u9fa5])!/g, '$1！');
-        formatted = formatted.replace(/([\u4e00-\u9fa5])\?/g, '$1？');
-        // 英文标点后面跟中文
-        formatted = formatted.replace(/,(?=[\u4e00-\u9fa5])/g, '，');
-        formatted = formatted.replace(/\.(?=[\u4e00-\u9fa5])/g, '。');
-        formatted = formatted.replace(/!(?=[\u4e00-\u9fa5])/g, '！');
-        formatted = formatted.replace(/\?(?=[\u4e00-\u9fa5])/g, '？');
-
-        // 3. 删除多余空格（中文之间的空格）
-        formatted = formatted.replace(/([\u4e00-\u9fa5])\s+([\u4e00-\u9fa5])/g, '$1$2');
-
-        // 4. 统一省略号
-        formatted = formatted.replace(/\.{3,}/g, '…');
-
-        // 5. 统一破折号
-        formatted = formatted.replace(/--+/g, '——');
-
-        return formatted;
-    }
 }
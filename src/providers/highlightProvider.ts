@@ -1,13 +1,12 @@
 import * as vscode from 'vscode';
 import { ConfigService } from '../services/configService';
-import { parseFrontMatter } from '../utils/frontMatterParser';
+import { getFrontmatterEndOffsetForMatching, parseFrontMatter } from '../utils/frontMatterParser';
 import {
     DIALOGUE_REGEX,
     HTML_COMMENT_REGEX,
     CHARACTERS_FOLDER
 } from '../constants';
 import { Logger } from '../utils/logger';
-import { getFrontmatterEndOffsetForMatching } from '../utils/frontMatterHelper';
 import { SimpleTrieTree } from '../utils/simpleTrieTree';
 
 /**
@@ -213,6 +212,23 @@ export class NovelHighlightProvider {
         return this.cachedCharacterTrie;
     }
 
+    /**
+     * 获取全部人物名称（characters/ 目录和配置文件中的 characters.list，去重）
+     */
+    public async getAllCharacterNames(): Promise<string[]> {
+        const characterNamesFromFiles = await this.getCharacterNames();
+        const characterNamesFromConfig = this.configService.getCharacters();
+        return [...new Set([...characterNamesFromFiles, ...characterNamesFromConfig])];
+    }
+
+    /**
+     * 获取人物名称 Trie 树（与高亮共用缓存，人物出场统计等功能复用）
+     * @returns 没有人物时返回 null
+     */
+    public async getCharacterNameTrie(): Promise<SimpleTrieTree | null> {
+        return this.getCharacterTrie(await this.getAllCharacterNames());
+    }
+
     /**
      * 更新编辑器中的高亮显示
      * 为对话和人物名称应用装饰效果
@@ -241,15 +257,8 @@ export class NovelHighlightProvider {
             // 获取 frontmatter 结束位置，用于排除该区域
             const frontmatterEndOffset = getFrontmatterEndOffsetForMatching(text);
 
-            // 从 characters/ 目录获取人物名称
-            const characterNamesFromFiles = await this.getCharacterNames();
-
-            // 从配置文件获取人物名称
-            const characterNamesFromConfig = this.configService.getCharacters();
-
-            // 合并两个来源的人物名称，去重
-            const allCharacterNames = [...new Set([...characterNamesFromFiles, ...characterNamesFromConfig])];
-            const characterNames = allCharacterNames;
+            // 人物名称（characters/ 目录和配置文件合并去重）
+            const characterNames = await this.getAllCharacterNames();
 
             // 匹配对话（所有常见引号格式）
             let match;
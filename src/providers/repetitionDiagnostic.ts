@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { ConfigService } from '../services/configService';
+import { CHAPTERS_FOLDER } from '../constants';
+import { RepetitionMatch } from '../types/textAnalysis';
+import { extractContentWithoutFrontmatterForMatching } from '../utils/frontMatterParser';
+import { findRepetitions, maskNonProse } from '../utils/textAnalysis';
+import { Logger } from '../utils/logger';
+
+/**
+ * 重复用词诊断提供器
+ * 在章节中标出同一段落内短距离重复出现的词（如"突然……突然"）
+ */
+export class RepetitionDiagnosticProvider implements vscode.Disposable {
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    private debounceTimer: NodeJS.Timeout | null = null;
+    private readonly DEBOUNCE_DELAY = 500; // 500ms 防抖
+
+    constructor(private configService: ConfigService) {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('noveler-repetition');
+    }
+
+    /**
+     * 注册事件监听
+     * @param context 扩展上下文
+     */
+    public register(context: vscode.ExtensionContext): void {
+        // 打开文档时检测
+        context.subscriptions.push(
+            vscode.workspace.onDidOpenTextDocument((document) => {
+                this.updateDiagnostics(document);
+            })
+        );
+
+        // 切换活动编辑器时检测
+        context.subscriptions.push(
+            vscode.window.onDidChangeActiveTextEditor((editor) => {
+                if (editor) {
+                    this.updateDiagnostics(editor.document);
+                }
+            })
+        );
+
+        // 输入时检测（防抖）
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeTextDocument((event) => {
+                if (this.debounceTimer) {
+                    clearTimeout(this.debounceTimer);
+                }
+                this.debounceTimer = setTimeout(() => {
+                    this.updateDiagnostics(event.document);
+                }, this.DEBOUNCE_DELAY);
+            })
+        );
+
+        // 关闭文档时清除诊断
+        context.subscriptions.push(
+            vscode.workspace.onDidCloseTextDocument((document) => {
+                this.diagnosticCollection.delete(document.uri);
+            })
+        );
+
+        // 配置变更（词表、检测距离、开关）后重新检测所有已打开的文档
+        context.subscriptions.push(
+            this.configService.onDidChangeConfig(() => {
+                this.diagnosticCollection.clear();
+                vscode.workspace.textDocuments.forEach(document => this.updateDiagnostics(document));
+            })
+        );
+
+        // 检测当前活动编辑器
+        if (vscode.window.activeTextEditor) {
+            this.updateDiagnostics(vscode.window.activeTextEditor.document);
+        }
+
+        Logger.info('重复用词诊断提供器已注册');
+    }
+
+    /**
+     * 更新诊断信息（只检测 chapters 目录下的 Markdown 文件）
+     * @param document VSCode 文档
+     */
+    public updateDiagnostics(document: vscode.TextDocument): void {
+        if (document.languageId !== 'markdown' || !this.isChapterDocument(document)) {
+            return;
+        }
+
+        const settings = this.configService.getTextAnalysisConfig();
+        if (!settings.repetitionEnabled) {
+            this.diagnosticCollection.delete(document.uri);
+            return;
+        }
+
+        try {
+            const { text, offset } = extractContentWithoutFrontmatterForMatching(document.getText());
+            const matches = findRepetitions(maskNonProse(text), settings.repetitionWords, settings.repetitionWindow);
+
+            this.diagnosticCollection.set(
+                document.uri,
+                matches.map(match => this.createDiagnostic(document, match, offset))
+            );
+        } catch (error) {
+            Logger.error('更新重复用词诊断失败', error);
+        }
+    }
+
+    /**
+     * 创建诊断对象
+     * @param document VSCode 文档
+     * @param match 重复位置（相对正文）
+     * @param offset 正文在文档中的起始偏移量
+     * @returns 诊断对象
+     */
+    private createDiagnostic(document: vscode.TextDocument, match: RepetitionMatch, offset: number): vscode.Diagnostic {
+        const range = new vscode.Range(
+            document.positionAt(offset + match.start),
+            document.positionAt(offset + match.end)
+        );
+        const previousStart = document.positionAt(offset + match.previousStart);
+        const distance = match.start - match.previousStart;
+
+        const diagnostic = new vscode.Diagnostic(
+            range,
+            `"${match.word}" 在 ${distance} 字内重复出现`,
+            vscode.DiagnosticSeverity.Information
+        );
+
+        diagnostic.source = 'Noveler';
+        diagnostic.code = 'word-repetition';
+        diagnostic.relatedInformation = [
+            new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(document.uri, new vscode.Range(previousStart, previousStart.translate(0, match.word.length))),
+                `上一次出现的 "${match.word}"`
+            )
+        ];
+
+        return diagnostic;
+    }
+
+    /**
+     * 判断文档是否为章节文件
+     */
+    private isChapterDocument(document: vscode.TextDocument): boolean {
+        return document.uri.fsPath.replace(/\\/g, '/').includes(`/${CHAPTERS_FOLDER}/`);
+    }
+
+    /**
+     * 释放资源
+     */
+    public dispose(): void {
+        this.diagnosticCollection.dispose();
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+    }
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { SensitiveWordService } from '../services/sensitiveWordService';
 
 /**
  * 敏感词快速修复提供器
@@ -26,12 +27,17 @@ export class SensitiveWordCodeActionProvider implements vscode.CodeActionProvide
 
         // 只处理敏感词相关的诊断
         const sensitiveWordDiagnostics = context.diagnostics.filter(
-            diag => diag.source === 'Noveler' && diag.code === 'sensitive-word'
+            diag => diag.source === 'Noveler' && (diag.code === 'sensitive-word' || diag.code === 'sensitive-word-variant')
         );
 
         for (const diagnostic of sensitiveWordDiagnostics) {
-            // 1. 添加到白名单
-            const addToWhitelistAction = this.createAddToWhitelistAction(document, diagnostic);
+            const isVariant = diagnostic.code === 'sensitive-word-variant';
+
+            // 0. 替换建议
+            actions.push(...this.createReplacementActions(document, diagnostic));
+
+            // 1. 添加到白名单（变体对应的是原词，加入白名单会放过原词本身，不提供）
+            const addToWhitelistAction = isVariant ? null : this.createAddToWhitelistAction(document, diagnostic);
             if (addToWhitelistAction) {
                 actions.push(addToWhitelistAction);
             }
@@ -48,11 +54,80 @@ export class SensitiveWordCodeActionProvider implements vscode.CodeActionProvide
                 actions.push(replaceWithAsterisksAction);
             }
 
-            // 4. 忽略此问题
-            const ignoreAction = this.createIgnoreAction(document, diagnostic);
-            if (ignoreAction) {
-                actions.push(ignoreAction);
-            }
+            // 4. 忽略此处（记录到 ignores.json / 行内标记）
+            actions.push(...this.createIgnoreActions(document, diagnostic));
+        }
+
+        return actions;
+    }
+
+    /**
+     * 获取诊断对应的敏感词（变体诊断返回它疑似的原词）
+     */
+    private getSensitiveWord(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): string {
+        const text = document.getText(diagnostic.range);
+        if (diagnostic.code !== 'sensitive-word-variant') {
+            return text;
+        }
+
+        try {
+            const start = document.offsetAt(diagnostic.range.start);
+            const end = document.offsetAt(diagnostic.range.end);
+            const match = SensitiveWordService.getInstance().detect(document)
+                .find(m => m.start === start && m.end === end);
+            return match?.word ?? text;
+        } catch {
+            // 敏感词服务未初始化
+            return text;
+        }
+    }
+
+    /**
+     * 创建"替换为建议词"操作，以及本章 / 全书全部替换操作
+     */
+    private createReplacementActions(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic
+    ): vscode.CodeAction[] {
+        const word = this.getSensitiveWord(document, diagnostic);
+        if (!word) return [];
+
+        let suggestions: string[];
+        try {
+            suggestions = SensitiveWordService.getInstance().getReplacements(word);
+        } catch {
+            // 敏感词服务未初始化
+            return [];
+        }
+        if (suggestions.length === 0) return [];
+
+        const actions = suggestions.map(suggestion => {
+            const action = new vscode.CodeAction(
+                `替换为 "${suggestion}"`,
+                vscode.CodeActionKind.QuickFix
+            );
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, diagnostic.range, suggestion);
+            action.diagnostics = [diagnostic];
+            return action;
+        });
+
+        const scopes: { scope: 'chapter' | 'project'; label: string }[] = [
+            { scope: 'chapter', label: '本章' },
+            { scope: 'project', label: '全书' }
+        ];
+        for (const { scope, label } of scopes) {
+            const action = new vscode.CodeAction(
+                `在${label}替换全部 "${word}"...`,
+                vscode.CodeActionKind.QuickFix
+            );
+            action.command = {
+                command: 'noveler.replaceSensitiveWord',
+                title: `在${label}替换全部`,
+                arguments: [document.uri.toString(), word, scope]
+            };
+            action.diagnostics = [diagnostic];
+            actions.push(action);
         }
 
         return actions;
@@ -132,28 +207,43 @@ export class SensitiveWordCodeActionProvider implements vscode.CodeActionProvide
     }
 
     /**
-     * 创建"忽略此问题"操作
+     * 创建"忽略此处"操作：记录到 ignores.json，或在行尾添加 noveler-ignore 标记
      */
-    private createIgnoreAction(
+    private createIgnoreActions(
         document: vscode.TextDocument,
         diagnostic: vscode.Diagnostic
-    ): vscode.CodeAction | null {
-        const word = document.getText(diagnostic.range);
-        if (!word) return null;
+    ): vscode.CodeAction[] {
+        const word = this.getSensitiveWord(document, diagnostic);
+        if (!word) return [];
 
-        const action = new vscode.CodeAction(
-            `忽略本文件中的 "${word}"`,
+        const ignoreAction = new vscode.CodeAction(
+            `忽略此处的 "${word}"`,
             vscode.CodeActionKind.QuickFix
         );
-
-        action.command = {
+        ignoreAction.command = {
             command: 'noveler.ignoreSensitiveWord',
-            title: '忽略本文件',
-            arguments: [document.uri.toString(), word]
+            title: '忽略此处',
+            arguments: [
+                document.uri.toString(),
+                word,
+                document.offsetAt(diagnostic.range.start),
+                document.offsetAt(diagnostic.range.end)
+            ]
         };
+        ignoreAction.diagnostics = [diagnostic];
 
-        action.diagnostics = [diagnostic];
+        const markerAction = new vscode.CodeAction(
+            `在行尾添加忽略标记 <!-- noveler-ignore: ${word} -->`,
+            vscode.CodeActionKind.QuickFix
+        );
+        markerAction.edit = new vscode.WorkspaceEdit();
+        markerAction.edit.insert(
+            document.uri,
+            document.lineAt(diagnostic.range.end.line).range.end,
+            ` <!-- noveler-ignore: ${word} -->`
+        );
+        markerAction.diagnostics = [diagnostic];
 
-        return action;
+        return [ignoreAction, markerAction];
     }
 }
@@ -1,6 +1,11 @@
 import * as vscode from 'vscode';
 import { SensitiveWordService } from '../services/sensitiveWordService';
-import { SensitiveMatch } from '../types/sensitiveWord';
+import { SensitiveIgnoreEntry, SensitiveIgnoreFile, SensitiveMatch } from '../types/sensitiveWord';
+import { computeLineStarts, offsetToPosition } from '../utils/sensitiveReport';
+import { createIgnoreEntry, filterIgnoredMatches, isSameIgnore, parseIgnoreFile } from '../utils/sensitiveIgnores';
+import { formatDateTime } from '../utils/dateFormatter';
+import { SENSITIVE_IGNORES_FILE } from '../constants';
+import { handleError, ErrorSeverity } from '../utils/errorHandler';
 import { Logger } from '../utils/logger';
 
 /**
@@ -14,8 +19,8 @@ export class SensitiveWordDiagnosticProvider {
     private readonly DEBOUNCE_DELAY = 500; // 500ms 防抖
     private statusBarItem: vscode.StatusBarItem | null = null;
 
-    // 会话级别忽略列表：Map<文档URI, Set<词>>
-    private sessionIgnoreList: Map<string, Set<string>> = new Map();
+    // 已忽略的位置（与 .noveler/sensitive-words/ignores.json 同步）
+    private ignores: SensitiveIgnoreEntry[] = [];
 
     constructor(service: SensitiveWordService) {
         this.service = service;
@@ -82,10 +87,24 @@ export class SensitiveWordDiagnosticProvider {
             })
         );
 
+        // 忽略记录文件变化时（如手动编辑、切换分支）重新加载
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (workspaceFolder) {
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(workspaceFolder, SENSITIVE_IGNORES_FILE)
+            );
+            const reload = () => void this.loadIgnores().then(() => this.refreshVisibleEditors());
+            watcher.onDidChange(reload);
+            watcher.onDidCreate(reload);
+            watcher.onDidDelete(reload);
+            context.subscriptions.push(watcher);
+        }
+
         // 检测当前活动编辑器
         if (vscode.window.activeTextEditor) {
             this.updateDiagnostics(vscode.window.activeTextEditor.document);
         }
+        void this.loadIgnores().then(() => this.refreshVisibleEditors());
 
         Logger.info('敏感词诊断提供器已注册');
     }
@@ -117,19 +136,16 @@ export class SensitiveWordDiagnosticProvider {
         }
 
         try {
-            let matches = this.service.detect(document);
-
-            // 过滤会话级别忽略的词
-            const ignoredWords = this.sessionIgnoreList.get(document.uri.toString());
-            if (ignoredWords && ignoredWords.size > 0) {
-                matches = matches.filter(m => !ignoredWords.has(m.word));
-            }
+            const matches = this.filterIgnored(document.uri, document.getText(), this.service.detect(document));
 
             const diagnostics: vscode.Diagnostic[] = [];
 
             for (const match of matches) {
-                const diagnostic = this.createDiagnostic(document, match);
-                diagnostics.push(diagnostic);
+                const range = new vscode.Range(
+                    document.positionAt(match.start),
+                    document.positionAt(match.end)
+                );
+                diagnostics.push(this.createDiagnostic(range, match));
             }
 
             this.diagnosticCollection.set(document.uri, diagnostics);
@@ -142,30 +158,82 @@ export class SensitiveWordDiagnosticProvider {
         }
     }
 
+    /**
+     * 检测文件内容并更新其诊断信息（文件不需要在编辑器中打开，用于全项目扫描）
+     * @param uri 文件 URI
+     * @param fullText 文件内容
+     * @returns 过滤已忽略位置后的匹配结果
+     */
+    public updateDiagnosticsForText(uri: vscode.Uri, fullText: string): SensitiveMatch[] {
+        const matches = this.detectText(uri, fullText);
+        const lineStarts = computeLineStarts(fullText);
+        const toPosition = (offset: number) => {
+            const { line, character } = offsetToPosition(lineStarts, offset);
+            return new vscode.Position(line, character);
+        };
+
+        this.diagnosticCollection.set(
+            uri,
+            matches.map(match => this.createDiagnostic(new vscode.Range(toPosition(match.start), toPosition(match.end)), match))
+        );
+
+        return matches;
+    }
+
+    /**
+     * 检测文件内容中的敏感词并过滤已忽略的位置（不更新诊断信息）
+     * @param uri 文件 URI
+     * @param fullText 文件内容
+     * @returns 过滤已忽略位置后的匹配结果
+     */
+    public detectText(uri: vscode.Uri, fullText: string): SensitiveMatch[] {
+        return this.filterIgnored(uri, fullText, this.service.detectText(fullText));
+    }
+
+    /**
+     * 过滤已忽略的位置（忽略记录和行内 noveler-ignore 标记）
+     * @param uri 文档 URI
+     * @param text 文档内容
+     * @param matches 匹配结果
+     * @returns 过滤后的匹配结果
+     */
+    private filterIgnored(uri: vscode.Uri, text: string, matches: SensitiveMatch[]): SensitiveMatch[] {
+        const chapter = this.getIgnoreKey(uri);
+        return filterIgnoredMatches(text, matches, this.ignores.filter(entry => entry.chapter === chapter));
+    }
+
+    /**
+     * 忽略记录中使用的文件路径（相对项目根目录）
+     */
+    private getIgnoreKey(uri: vscode.Uri): string {
+        return vscode.workspace.asRelativePath(uri, false);
+    }
+
     /**
      * 创建诊断对象
-     * @param document VSCode 文档
+     * @param range 敏感词所在范围
      * @param match 匹配结果
      * @returns 诊断对象
      */
-    private createDiagnostic(document: vscode.TextDocument, match: SensitiveMatch): vscode.Diagnostic {
-        const range = new vscode.Range(
-            document.positionAt(match.start),
-            document.positionAt(match.end)
-        );
-
+    private createDiagnostic(range: vscode.Range, match: SensitiveMatch): vscode.Diagnostic {
         const config = this.service.getConfig();
         const severity = this.mapSeverity(config.display?.severity || 'Warning');
         const levelText = this.getLevelText(match.level);
 
-        const diagnostic = new vscode.Diagnostic(
-            range,
-            `检测到${levelText}敏感词: "${match.word}"`,
-            severity
-        );
+        let message = match.variant
+            ? `检测到${levelText}敏感词变体: "${match.variant}"（疑似 "${match.word}"）`
+            : `检测到${levelText}敏感词: "${match.word}"`;
+        if (match.category) {
+            message += ` [${match.category}]`;
+        }
+        if (match.note) {
+            message += `\n备注: ${match.note}`;
+        }
+
+        const diagnostic = new vscode.Diagnostic(range, message, severity);
 
         diagnostic.source = 'Noveler';
-        diagnostic.code = 'sensitive-word';
+        diagnostic.code = match.variant ? 'sensitive-word-variant' : 'sensitive-word';
         diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
 
         return diagnostic;
@@ -219,8 +287,11 @@ export class SensitiveWordDiagnosticProvider {
         if (count === 0) {
             this.statusBarItem.hide();
         } else {
-            this.statusBarItem.text = `$(warning) 敏感词: ${count}`;
-            this.statusBarItem.tooltip = `检测到 ${count} 个敏感词，点击查看详情`;
+            const profile = this.service.getConfig().activeProfile;
+            this.statusBarItem.text = profile ? `$(warning) 敏感词(${profile}): ${count}` : `$(warning) 敏感词: ${count}`;
+            this.statusBarItem.tooltip = profile
+                ? `按平台配置 "${profile}" 检测到 ${count} 个敏感词，点击查看详情`
+                : `检测到 ${count} 个敏感词，点击查看详情`;
             this.statusBarItem.show();
         }
     }
@@ -230,23 +301,105 @@ export class SensitiveWordDiagnosticProvider {
      */
     public clearAll(): void {
         this.diagnosticCollection.clear();
-        this.sessionIgnoreList.clear();
         this.updateStatusBar(0);
     }
 
     /**
-     * 忽略本文件中的某个敏感词（会话级别）
-     * @param documentUri 文档 URI
-     * @param word 要忽略的词
+     * 忽略某处敏感词（保存到 ignores.json，重启后仍然有效）
+     * @param document 文档
+     * @param word 敏感词（变体为它疑似的原词）
+     * @param start 敏感词起始位置
+     * @param end 敏感词结束位置
+     */
+    public async ignoreOccurrence(document: vscode.TextDocument, word: string, start: number, end: number): Promise<void> {
+        const entry = createIgnoreEntry(
+            this.getIgnoreKey(document.uri),
+            document.getText(),
+            { word, start, end },
+            formatDateTime(new Date())
+        );
+
+        await this.loadIgnores();
+        if (!this.ignores.some(existing => isSameIgnore(existing, entry))) {
+            await this.saveIgnores([...this.ignores, entry]);
+        }
+        Logger.info(`忽略敏感词: "${word}" (${entry.chapter})`);
+        this.updateDiagnostics(document);
+    }
+
+    /**
+     * 获取全部忽略记录
      */
-    public ignoreWordInDocument(documentUri: string, word: string): void {
-        let ignoredWords = this.sessionIgnoreList.get(documentUri);
-        if (!ignoredWords) {
-            ignoredWords = new Set();
-            this.sessionIgnoreList.set(documentUri, ignoredWords);
+    public getIgnores(): readonly SensitiveIgnoreEntry[] {
+        return this.ignores;
+    }
+
+    /**
+     * 删除忽略记录
+     * @param entries 要删除的记录
+     */
+    public async removeIgnores(entries: readonly SensitiveIgnoreEntry[]): Promise<void> {
+        await this.loadIgnores();
+        await this.saveIgnores(this.ignores.filter(existing => !entries.some(entry => isSameIgnore(existing, entry))));
+        this.refreshVisibleEditors();
+    }
+
+    /**
+     * 从 ignores.json 加载忽略记录（文件不存在时为空）
+     */
+    private async loadIgnores(): Promise<void> {
+        const ignoresUri = this.getIgnoresUri();
+        if (!ignoresUri) {
+            this.ignores = [];
+            return;
+        }
+
+        try {
+            const fileData = await vscode.workspace.fs.readFile(ignoresUri);
+            this.ignores = parseIgnoreFile(JSON.parse(Buffer.from(fileData).toString('utf8')));
+        } catch (error) {
+            if (error instanceof vscode.FileSystemError) {
+                this.ignores = [];
+            } else {
+                handleError('读取敏感词忽略记录失败', error, ErrorSeverity.Warning);
+            }
+        }
+    }
+
+    /**
+     * 保存忽略记录到 ignores.json
+     * @param entries 全部忽略记录
+     */
+    private async saveIgnores(entries: SensitiveIgnoreEntry[]): Promise<void> {
+        const ignoresUri = this.getIgnoresUri();
+        if (!ignoresUri) {
+            throw new Error('未打开工作区，无法保存忽略记录');
+        }
+
+        const data: SensitiveIgnoreFile = { ignores: entries };
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(ignoresUri, '..'));
+        await vscode.workspace.fs.writeFile(ignoresUri, Buffer.from(JSON.stringify(data, null, 2) + '\n', 'utf8'));
+        this.ignores = entries;
+    }
+
+    private getIgnoresUri(): vscode.Uri | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, SENSITIVE_IGNORES_FILE) : undefined;
+    }
+
+    /**
+     * 重新检测所有可见编辑器（最后检测活动编辑器，使状态栏显示它的结果）
+     */
+    private refreshVisibleEditors(): void {
+        const active = vscode.window.activeTextEditor;
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (editor !== active) {
+                this.updateDiagnostics(editor.document);
+            }
+        }
+        if (active) {
+            this.updateDiagnostics(active.document);
         }
-        ignoredWords.add(word);
-        Logger.info(`会话级别忽略敏感词: "${word}" (文档: ${documentUri})`);
     }
 
     /**
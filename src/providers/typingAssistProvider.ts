@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import { ConfigService } from '../services/configService';
+import { CHAPTERS_FOLDER } from '../constants';
+import { getFrontmatterEndOffsetForMatching } from '../utils/frontMatterParser';
+import {
+    ON_TYPE_TRIGGER_CHARACTERS,
+    TypingEdit,
+    getAutoPairEdit,
+    getFullWidthPunctuationEdit,
+    getNewParagraphText
+} from '../utils/typingAssist';
+import { handleError, ErrorSeverity } from '../utils/errorHandler';
+import { Logger } from '../utils/logger';
+
+/** 文档中的一处编辑 */
+interface RangeEdit {
+    range: vscode.Range;
+    text: string;
+    /** 编辑后光标留在插入内容之前 */
+    keepCursor?: boolean;
+}
+
+/**
+ * 输入辅助提供器（只作用于 chapters 目录下的章节，Front Matter 内不处理）
+ *
+ * - 回车插入段落缩进和空行、汉字后的半角标点转全角：启用 editor.formatOnType 时作为输入格式化提供，否则由输入监听处理
+ * - 自动配对引号 / 括号需要把光标留在两个符号之间，输入格式化的编辑无法控制光标，始终由输入监听处理
+ */
+export class TypingAssistProvider implements vscode.OnTypeFormattingEditProvider {
+    /** 正在应用输入监听产生的编辑（避免把自己的编辑当作输入） */
+    private applying = false;
+
+    constructor(private configService: ConfigService) {
+        // 事件监听在 register 中注册
+    }
+
+    /**
+     * 注册输入格式化提供器和输入监听
+     * @param context 扩展上下文
+     */
+    public register(context: vscode.ExtensionContext): void {
+        const [firstTrigger, ...moreTriggers] = ON_TYPE_TRIGGER_CHARACTERS;
+        context.subscriptions.push(
+            vscode.languages.registerOnTypeFormattingEditProvider('markdown', this, firstTrigger, ...moreTriggers),
+            vscode.workspace.onDidChangeTextDocument(event => this.onDidChangeTextDocument(event))
+        );
+
+        Logger.info('输入辅助已注册');
+    }
+
+    provideOnTypeFormattingEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        ch: string,
+        _options: vscode.FormattingOptions,
+        _token: vscode.CancellationToken
+    ): vscode.TextEdit[] {
+        if (!this.isChapterDocument(document)) {
+            return [];
+        }
+
+        const edit = this.computeOnTypeEdit(document, position, ch);
+        if (!edit || this.isInFrontMatter(document, edit.range.start)) {
+            return [];
+        }
+        return [vscode.TextEdit.replace(edit.range, edit.text)];
+    }
+
+    /**
+     * 输入监听：未启用 editor.formatOnType 时处理回车和标点，并始终处理自动配对
+     */
+    private async onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent): Promise<void> {
+        if (this.applying || event.contentChanges.length !== 1) {
+            return;
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        const document = event.document;
+        if (!editor || document !== editor.document || document.languageId !== 'markdown' || !this.isChapterDocument(document)) {
+            return;
+        }
+
+        const change = event.contentChanges[0];
+        const typed = change.text === '\r\n' ? '\n' : change.text;
+        if (typed.length !== 1 || (typed !== '\n' && change.rangeLength !== 0)) {
+            return;
+        }
+
+        // 回车后新行的行首，或输入字符之后的位置
+        const position = typed === '\n'
+            ? new vscode.Position(change.range.start.line + 1, 0)
+            : change.range.start.translate(0, 1);
+        if (position.line >= document.lineCount) {
+            return;
+        }
+
+        const formatOnType = vscode.workspace.getConfiguration('editor', document).get<boolean>('formatOnType', false);
+        const edit = (!formatOnType ? this.computeOnTypeEdit(document, position, typed) : undefined)
+            ?? this.computeAutoPairEdit(document, position, typed);
+        if (!edit || this.isInFrontMatter(document, edit.range.start)) {
+            return;
+        }
+
+        this.applying = true;
+        try {
+            const applied = await editor.edit(editBuilder => editBuilder.replace(edit.range, edit.text), {
+                undoStopBefore: false,
+                undoStopAfter: false
+            });
+            if (applied && edit.keepCursor) {
+                editor.selection = new vscode.Selection(edit.range.start, edit.range.start);
+            }
+        } catch (error) {
+            handleError('输入辅助处理失败', error, ErrorSeverity.Silent);
+        } finally {
+            this.applying = false;
+        }
+    }
+
+    /**
+     * 计算回车（段落缩进和空行）和标点转全角的编辑
+     * @param position 回车后新行的位置，或输入字符之后的位置
+     */
+    private computeOnTypeEdit(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        typed: string
+    ): RangeEdit | undefined {
+        const options = this.configService.getTypingAssistOptions();
+
+        if (typed === '\n') {
+            if (position.line === 0) {
+                return undefined;
+            }
+            const text = getNewParagraphText(document.lineAt(position.line - 1).text, options);
+            const lineStart = new vscode.Position(position.line, 0);
+            return text ? { range: new vscode.Range(lineStart, lineStart), text } : undefined;
+        }
+
+        if (!options.fullWidthPunctuation) {
+            return undefined;
+        }
+        return this.toLineEdit(position.line, getFullWidthPunctuationEdit(document.lineAt(position.line).text, position.character, typed));
+    }
+
+    /**
+     * 计算自动配对的编辑
+     */
+    private computeAutoPairEdit(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        typed: string
+    ): RangeEdit | undefined {
+        if (typed === '\n' || !this.configService.getTypingAssistOptions().autoPairQuotes) {
+            return undefined;
+        }
+        return this.toLineEdit(position.line, getAutoPairEdit(document.lineAt(position.line).text, position.character, typed));
+    }
+
+    /**
+     * 把行内编辑转换为文档范围
+     */
+    private toLineEdit(line: number, edit: TypingEdit | undefined): RangeEdit | undefined {
+        if (!edit) {
+            return undefined;
+        }
+        return {
+            range: new vscode.Range(line, edit.start, line, edit.end),
+            text: edit.text,
+            keepCursor: edit.keepCursor
+        };
+    }
+
+    /**
+     * 判断位置是否在 Front Matter 内
+     */
+    private isInFrontMatter(document: vscode.TextDocument, position: vscode.Position): boolean {
+        return document.offsetAt(position) < getFrontmatterEndOffsetForMatching(document.getText());
+    }
+
+    /**
+     * 判断文档是否为章节文件
+     */
+    private isChapterDocument(document: vscode.TextDocument): boolean {
+        return document.uri.fsPath.replace(/\\/g, '/').includes(`/${CHAPTERS_FOLDER}/`);
+    }
+}
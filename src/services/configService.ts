@@ -4,8 +4,18 @@ import { CONFIG_FILE_NAME } from '../constants';
 import * as jsoncParser from 'jsonc-parser';
 import { validateConfig, fixConfig } from '../utils/configValidator';
 import { Logger } from '../utils/logger';
+import { formatDate } from '../utils/dateFormatter';
+import { parseDateOnly } from '../utils/forecast';
 import { SensitiveWordConfig } from '../types/sensitiveWord';
 import { VolumesConfig } from '../types/volume';
+import { BookGoal } from '../types/forecast';
+import { CountingProfileName } from '../types/wordCount';
+import { DEFAULT_COUNTING_PROFILE, isCountingProfileName } from '../utils/countingProfiles';
+import { TextAnalysisConfig } from '../types/textAnalysis';
+import { DEFAULT_REPETITION_WINDOW, DEFAULT_REPETITION_WORDS } from '../utils/textAnalysis';
+import { DEFAULT_ABSENCE_THRESHOLD } from '../utils/characterAppearance';
+import { TypingAssistOptions } from '../utils/typingAssist';
+import { FormatRulesConfig } from '../types/format';
 
 /**
  * 高亮样式配置接口
@@ -31,6 +41,22 @@ export interface NovelConfig {
         /** 每章默认目标字数 */
         default?: number;
     };
+    /** 每日写作目标配置 */
+    dailyGoal?: {
+        /** 每日目标字数（0 表示不启用） */
+        words?: number;
+        /** 达成目标时是否通知 */
+        notify?: boolean;
+    };
+    /** 全书目标配置 */
+    bookGoal?: {
+        /** 全书目标字数（0 表示不启用） */
+        totalWords?: number;
+        /** 全书目标章节数（0 表示不启用） */
+        chapters?: number;
+        /** 截止日期 YYYY-MM-DD */
+        deadline?: string;
+    };
     /** 高亮配置 */
     highlight?: {
         /** 对话高亮样式 */
@@ -46,13 +72,26 @@ export interface NovelConfig {
         autoFormat?: boolean;
         /** 是否转换引号 */
         convertQuotes?: boolean;
+        /** 输入辅助开关 */
+        typingAssist?: {
+            /** 输入左引号 / 左括号时自动补全右半边 */
+            autoPairQuotes?: boolean;
+            /** 汉字后输入的半角标点自动转为全角 */
+            fullWidthPunctuation?: boolean;
+            /** 回车时插入段落缩进和空行 */
+            newParagraph?: boolean;
+        };
+        /** 格式化规则开关和自定义正则替换规则 */
+        rules?: FormatRulesConfig;
     };
     /** 字数统计配置 */
     wordCount?: {
         /** 是否在状态栏显示字数统计 */
         showInStatusBar?: boolean;
-        /** 是否包含标点符号 */
+        /** 是否包含标点符号（仅 default 计数规则使用） */
         includePunctuation?: boolean;
+        /** 计数规则：'default' | 'qidian' | 'jjwxc' | 'hanOnly' | 'englishWords' */
+        profile?: string;
     };
     /** README 自动更新配置 */
     autoUpdateReadmeOnCreate?: {
@@ -74,8 +113,15 @@ export interface NovelConfig {
         /** 人物名称列表 */
         list?: string[];
     };
+    /** 人物出场统计配置 */
+    characterAppearance?: {
+        /** 超过多少章未出场时提醒（0 表示不提醒） */
+        absenceWarning?: number;
+    };
     /** 敏感词检测配置 */
     sensitiveWords?: SensitiveWordConfig;
+    /** 文本分析配置 */
+    textAnalysis?: TextAnalysisConfig;
     /** 分卷功能配置 */
     volumes?: VolumesConfig;
     /** 护眼模式配置 */
@@ -252,11 +298,25 @@ export class ConfigService {
             format: {
                 chineseQuoteStyle: "「」",
                 autoFormat: true,
-                convertQuotes: true
+                convertQuotes: true,
+                typingAssist: {
+                    autoPairQuotes: true,
+                    fullWidthPunctuation: true,
+                    newParagraph: true
+                },
+                rules: {
+                    quotes: true,
+                    ellipsis: true,
+                    dash: true,
+                    punctuation: true,
+                    cjkSpaces: true,
+                    custom: []
+                }
             },
             wordCount: {
                 showInStatusBar: true,
-                includePunctuation: true
+                includePunctuation: true,
+                profile: DEFAULT_COUNTING_PROFILE
             },
             autoUpdateReadmeOnCreate: {
                 value: "always"
@@ -326,6 +386,18 @@ export class ConfigService {
         return this.config.wordCount?.showInStatusBar !== false;
     }
 
+    /**
+     * 获取字数计数规则
+     * @returns profile 无效时使用 default，includePunctuation 默认为 true
+     */
+    public getCountingProfile(): { profile: CountingProfileName; includePunctuation: boolean } {
+        const profile = this.config.wordCount?.profile;
+        return {
+            profile: isCountingProfileName(profile) ? profile : DEFAULT_COUNTING_PROFILE,
+            includePunctuation: this.config.wordCount?.includePunctuation !== false
+        };
+    }
+
     /**
      * 是否启用自动格式化
      * @returns true 表示启用，false 表示禁用，默认为 true
@@ -342,6 +414,15 @@ export class ConfigService {
         return this.config.characters?.list || [];
     }
 
+    /**
+     * 获取人物缺席提醒阈值
+     * @returns 章数，0 表示不提醒，默认为 30
+     */
+    public getCharacterAbsenceThreshold(): number {
+        const threshold = this.config.characterAppearance?.absenceWarning;
+        return typeof threshold === 'number' && threshold >= 0 ? Math.floor(threshold) : DEFAULT_ABSENCE_THRESHOLD;
+    }
+
     /**
      * 是否自动转换引号
      * @returns true 表示启用，false 表示禁用，默认为 true
@@ -350,6 +431,31 @@ export class ConfigService {
         return this.config.format?.convertQuotes !== false;
     }
 
+    /**
+     * 获取格式化规则配置
+     * 未配置的内置规则默认启用
+     * @returns format.rules 配置
+     */
+    public getFormatRules(): FormatRulesConfig {
+        return this.config.format?.rules ?? {};
+    }
+
+    /**
+     * 获取输入辅助开关
+     * 自动配对、标点转全角和回车处理默认都启用，回车插入的内容由 autoEmptyLine / paragraphIndent 决定
+     * @returns 输入辅助开关
+     */
+    public getTypingAssistOptions(): TypingAssistOptions {
+        const typingAssist = this.config.format?.typingAssist;
+        return {
+            autoPairQuotes: typingAssist?.autoPairQuotes !== false,
+            fullWidthPunctuation: typingAssist?.fullWidthPunctuation !== false,
+            newParagraph: typingAssist?.newParagraph !== false,
+            autoEmptyLine: this.shouldAutoEmptyLine(),
+            paragraphIndent: this.shouldParagraphIndent()
+        };
+    }
+
     /**
      * 是否启用自动空行功能
      * 在 chapters 目录下编辑时，按回车会自动插入空行
@@ -384,6 +490,58 @@ export class ConfigService {
         return this.config.targetWords?.default || 2500;
     }
 
+    /**
+     * 获取每日写作目标
+     * @returns words 为每日目标字数（0 表示未启用），notify 默认为 true
+     */
+    public getDailyGoal(): { words: number; notify: boolean } {
+        const words = this.config.dailyGoal?.words;
+        return {
+            words: typeof words === 'number' && words > 0 ? Math.floor(words) : 0,
+            notify: this.config.dailyGoal?.notify !== false
+        };
+    }
+
+    /**
+     * 获取全书目标
+     * @returns totalWords / chapters 为 0 表示未设置，deadline 未设置或格式无效时为 undefined
+     */
+    public getBookGoal(): BookGoal {
+        const goal = this.config.bookGoal;
+        const toCount = (value: unknown) => typeof value === 'number' && value > 0 ? Math.floor(value) : 0;
+        const deadline = typeof goal?.deadline === 'string' ? parseDateOnly(goal.deadline) : undefined;
+        return {
+            totalWords: toCount(goal?.totalWords),
+            chapters: toCount(goal?.chapters),
+            deadline: deadline ? formatDate(deadline) : undefined
+        };
+    }
+
+    /**
+     * 获取文本分析配置
+     * @returns repetitionWords 为内置词表加自定义词、再去掉忽略词；window 默认为 200
+     */
+    public getTextAnalysisConfig(): {
+        ignoreWords: string[];
+        repetitionEnabled: boolean;
+        repetitionWindow: number;
+        repetitionWords: string[];
+    } {
+        const config = this.config.textAnalysis;
+        const toWords = (value: unknown) => Array.isArray(value)
+            ? value.filter((word): word is string => typeof word === 'string' && word.trim().length > 0).map(word => word.trim())
+            : [];
+        const ignoreWords = toWords(config?.ignoreWords);
+        const window = config?.repetition?.window;
+        return {
+            ignoreWords,
+            repetitionEnabled: config?.repetition?.enabled !== false,
+            repetitionWindow: typeof window === 'number' && window > 0 ? Math.floor(window) : DEFAULT_REPETITION_WINDOW,
+            repetitionWords: Array.from(new Set([...DEFAULT_REPETITION_WORDS, ...toWords(config?.repetition?.words)]))
+                .filter(word => !ignoreWords.includes(word))
+        };
+    }
+
     /**
      * 获取分卷功能配置
      * @returns 分卷配置对象
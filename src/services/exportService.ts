@@ -0,0 +1,339 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as jsoncParser from 'jsonc-parser';
+import { CHAPTERS_FOLDER, CONFIG_FILE_NAME, DEFAULT_EXPORT_FORMATS, DEFAULT_OUTPUT_DIR } from '../constants';
+import { ConfigService } from './configService';
+import { VolumeService } from './volumeService';
+import { PartialNovelConfig } from '../types/config';
+import { VolumeInfo } from '../types/volume';
+import {
+    BookFormatBuilder,
+    BookMetadata,
+    ExportOptions,
+    ExportScope,
+    Manuscript,
+    ManuscriptChapter,
+    ManuscriptVolume,
+    TextEncoding
+} from '../types/export';
+import { parseFrontMatter } from '../utils/frontMatterParser';
+import { extractHeading, extractParagraphs, selectManuscriptScope } from '../utils/manuscriptText';
+import { scanChapters } from '../utils/readmeUpdater';
+import { epubFormatBuilder } from '../utils/epubBuilder';
+import { txtFormatBuilder } from '../utils/txtBuilder';
+import { docxFormatBuilder } from '../utils/docxBuilder';
+import { convertToChineseNumber } from '../utils/chineseNumber';
+import { convertToRomanNumber } from '../utils/volumeHelper';
+import { sanitizeFileName } from '../utils/inputValidator';
+import { handleError, ErrorSeverity } from '../utils/errorHandler';
+import { Logger } from '../utils/logger';
+
+/**
+ * 导出配置（来自 novel.jsonc 顶层的 output 与书籍信息）
+ */
+export interface ExportConfig {
+    /** 书籍元数据 */
+    metadata: BookMetadata;
+    /** 导出目录（相对工作区根目录） */
+    outputDir: string;
+    /** 导出格式列表 */
+    formats: string[];
+    /** 纯文本编码 */
+    encoding: TextEncoding;
+}
+
+/**
+ * 导出请求
+ */
+export interface ExportRequest {
+    /** 导出格式，不传则使用 output.formats */
+    formats?: string[];
+    /** 导出范围，默认全书 */
+    scope?: ExportScope;
+    /** 是否每章单独输出一个文件 */
+    splitChapters?: boolean;
+    /** 纯文本编码，不传则使用 output.encoding */
+    encoding?: TextEncoding;
+}
+
+/**
+ * 导出服务类
+ * 负责收集全部章节组成书稿，并按 novel.jsonc 的 output 配置导出为各种格式
+ *
+ * 功能：
+ * - 读取书名、作者、简介（novel.title 或顶层 name / author / description）
+ * - 扁平结构按章节号收集，嵌套结构按卷收集
+ * - 按 output.formats 调度已注册的格式构建器，写入 output.outputDir
+ *
+ * @example
+ * ```typescript
+ * const service = new ExportService();
+ * const files = await service.exportBook();
+ * ```
+ */
+export class ExportService {
+    private builders = new Map<string, BookFormatBuilder>();
+
+    constructor() {
+        this.registerBuilder(epubFormatBuilder);
+        this.registerBuilder(txtFormatBuilder);
+        this.registerBuilder(docxFormatBuilder);
+    }
+
+    /**
+     * 注册导出格式构建器
+     * @param builder 格式构建器
+     */
+    public registerBuilder(builder: BookFormatBuilder): void {
+        this.builders.set(builder.format, builder);
+    }
+
+    /**
+     * 获取已支持的导出格式
+     */
+    public getSupportedFormats(): string[] {
+        return Array.from(this.builders.keys());
+    }
+
+    /**
+     * 读取导出配置
+     * novel.jsonc 不存在或解析失败时使用默认值
+     */
+    public async loadExportConfig(): Promise<ExportConfig> {
+        const workspaceFolder = this.getWorkspaceFolder();
+        let config: PartialNovelConfig & { name?: string; author?: string; description?: string } = {};
+
+        try {
+            const configUri = vscode.Uri.joinPath(workspaceFolder.uri, CONFIG_FILE_NAME);
+            const fileData = await vscode.workspace.fs.readFile(configUri);
+            config = jsoncParser.parse(Buffer.from(fileData).toString('utf8')) || {};
+        } catch (error) {
+            handleError('读取 novel.jsonc 失败，使用默认导出配置', error, ErrorSeverity.Silent);
+        }
+
+        // 兼容两种写法：novel.title / novel.author，或初始化项目时写入的顶层 name / author
+        const metadata: BookMetadata = {
+            title: config.novel?.title || config.name || workspaceFolder.name,
+            author: config.novel?.author || config.author || '佚名',
+            description: config.novel?.description || config.description || undefined
+        };
+
+        const formats = (config.output?.formats?.length ? config.output.formats : [...DEFAULT_EXPORT_FORMATS])
+            .map(format => format.toLowerCase());
+
+        return {
+            metadata,
+            outputDir: config.output?.outputDir || DEFAULT_OUTPUT_DIR,
+            formats,
+            encoding: config.output?.encoding === 'gb18030' ? 'gb18030' : 'utf-8'
+        };
+    }
+
+    /**
+     * 收集全部章节组成书稿
+     * @param metadata 书籍元数据
+     */
+    public async collectManuscript(metadata: BookMetadata): Promise<Manuscript> {
+        const volumes = ConfigService.getInstance().isVolumesEnabled()
+            ? await this.collectNestedVolumes()
+            : [{ chapters: await this.collectFlatChapters() }];
+
+        return { metadata, volumes };
+    }
+
+    /**
+     * 导出整本书（或其中的一部分）
+     * @param request 导出请求
+     * @returns 已写入的文件 URI 列表
+     */
+    public async exportBook(request: ExportRequest = {}): Promise<vscode.Uri[]> {
+        const workspaceFolder = this.getWorkspaceFolder();
+        const exportConfig = await this.loadExportConfig();
+        const targetFormats = request.formats ?? exportConfig.formats;
+        const scope: ExportScope = request.scope ?? { type: 'all' };
+
+        const unsupported = targetFormats.filter(format => !this.builders.has(format));
+        if (unsupported.length > 0) {
+            throw new Error(`不支持的导出格式: ${unsupported.join(', ')}（支持: ${this.getSupportedFormats().join(', ')}）`);
+        }
+
+        const fullManuscript = await this.collectManuscript(exportConfig.metadata);
+        const manuscript = selectManuscriptScope(fullManuscript, scope);
+        const chapters = manuscript.volumes.flatMap(volume => volume.chapters);
+        if (chapters.length === 0) {
+            throw new Error('没有可导出的章节');
+        }
+
+        const configService = ConfigService.getInstance();
+        const options: ExportOptions = {
+            encoding: request.encoding ?? exportConfig.encoding,
+            paragraphIndent: configService.shouldParagraphIndent(),
+            emptyLineBetweenParagraphs: configService.shouldAutoEmptyLine(),
+            includeTitlePage: scope.type === 'all' && !request.splitChapters
+        };
+
+        const baseName = sanitizeFileName(exportConfig.metadata.title);
+        const scopeSuffix = this.getScopeSuffix(manuscript, scope);
+        let outputUri = vscode.Uri.joinPath(workspaceFolder.uri, exportConfig.outputDir);
+
+        // 每章一个文件：放到以书名（和范围）命名的子目录中
+        const outputs: { name: string; manuscript: Manuscript }[] = [];
+        if (request.splitChapters) {
+            outputUri = vscode.Uri.joinPath(outputUri, sanitizeFileName(baseName + scopeSuffix));
+            chapters.forEach((chapter, index) => {
+                outputs.push({
+                    name: `${String(index + 1).padStart(4, '0')}-${sanitizeFileName(chapter.heading)}`,
+                    manuscript: { metadata: manuscript.metadata, volumes: [{ chapters: [chapter] }] }
+                });
+            });
+        } else {
+            outputs.push({ name: sanitizeFileName(baseName + scopeSuffix), manuscript });
+        }
+
+        await vscode.workspace.fs.createDirectory(outputUri);
+
+        const written: vscode.Uri[] = [];
+        for (const format of targetFormats) {
+            const builder = this.builders.get(format) as BookFormatBuilder;
+            for (const output of outputs) {
+                const fileUri = vscode.Uri.joinPath(outputUri, `${output.name}.${builder.extension}`);
+                await vscode.workspace.fs.writeFile(fileUri, builder.build(output.manuscript, options));
+                written.push(fileUri);
+            }
+            Logger.info(`导出 ${format}: ${outputUri.fsPath}（${chapters.length} 章，${outputs.length} 个文件）`);
+        }
+
+        return written;
+    }
+
+    /**
+     * 收集扁平结构的章节（chapters/*.md）
+     * 章节顺序与 README 章节列表一致（由 scanChapters 按 Front Matter 中的章节号排序）
+     */
+    private async collectFlatChapters(): Promise<ManuscriptChapter[]> {
+        const workspaceFolder = this.getWorkspaceFolder();
+        const chaptersUri = vscode.Uri.joinPath(workspaceFolder.uri, CHAPTERS_FOLDER);
+        const { chapters: chapterInfos } = await scanChapters();
+
+        const chapters = await Promise.all(
+            chapterInfos.map(info => this.readChapter(vscode.Uri.joinPath(chaptersUri, info.fileName), info.fileName))
+        );
+
+        return chapters.filter((chapter): chapter is ManuscriptChapter => chapter !== null);
+    }
+
+    /**
+     * 收集嵌套结构的分卷（chapters/卷文件夹/*.md）
+     */
+    private async collectNestedVolumes(): Promise<ManuscriptVolume[]> {
+        const volumeInfos = await VolumeService.getInstance().scanVolumes(true);
+        const volumes: ManuscriptVolume[] = [];
+
+        for (const volumeInfo of volumeInfos) {
+            // VolumeService 已按 Front Matter 中的章节号排序
+            const chapters = await Promise.all(
+                volumeInfo.chapters.map(fileName => this.readChapter(
+                    vscode.Uri.file(path.join(volumeInfo.folderPath, fileName)),
+                    `${volumeInfo.folderName}/${fileName}`
+                ))
+            );
+
+            volumes.push({
+                heading: this.getVolumeHeading(volumeInfo),
+                description: volumeInfo.metadata?.description,
+                chapters: chapters.filter((chapter): chapter is ManuscriptChapter => chapter !== null)
+            });
+        }
+
+        return volumes;
+    }
+
+    /**
+     * 读取单个章节
+     * 标题优先使用正文中的一级标题（如 "第一章 开端"），其次由 Front Matter 生成
+     */
+    private async readChapter(fileUri: vscode.Uri, sourcePath: string): Promise<ManuscriptChapter | null> {
+        try {
+            const fileData = await vscode.workspace.fs.readFile(fileUri);
+            const text = Buffer.from(fileData).toString('utf8');
+            const frontMatter = parseFrontMatter(text).data;
+
+            const number = typeof frontMatter.chapter === 'number' ? frontMatter.chapter : undefined;
+            const title = typeof frontMatter.title === 'string' && frontMatter.title
+                ? frontMatter.title
+                : path.basename(sourcePath, '.md');
+            const heading = extractHeading(text)
+                || (number !== undefined ? `第${convertToChineseNumber(number)}章 ${title}` : title);
+
+            return {
+                number,
+                heading,
+                paragraphs: extractParagraphs(text),
+                sourcePath
+            };
+        } catch (error) {
+            handleError(`读取章节文件失败 ${sourcePath}`, error, ErrorSeverity.Silent);
+            return null;
+        }
+    }
+
+    /**
+     * 获取导出范围对应的文件名后缀（全书为空）
+     */
+    private getScopeSuffix(manuscript: Manuscript, scope: ExportScope): string {
+        const chapters = manuscript.volumes.flatMap(volume => volume.chapters);
+        switch (scope.type) {
+            case 'chapter':
+                return `-${chapters[0].heading}`;
+            case 'volume':
+                return `-${manuscript.volumes[0].heading ?? '全部章节'}`;
+            case 'range':
+                return chapters.length > 1
+                    ? `-${chapters[0].heading}至${chapters[chapters.length - 1].heading}`
+                    : `-${chapters[0].heading}`;
+            case 'all':
+            default:
+                return '';
+        }
+    }
+
+    /**
+     * 获取卷标题（带类型和序号），如 "第一卷 崛起"、"前传1 起源"
+     */
+    private getVolumeHeading(volume: VolumeInfo): string {
+        let prefix = '第';
+        let volumeNum = volume.volume;
+
+        switch (volume.volumeType) {
+            case 'prequel':
+                prefix = '前传';
+                volumeNum = Math.abs(volumeNum);
+                break;
+            case 'sequel':
+                prefix = '后传';
+                volumeNum = volumeNum >= 1000 ? volumeNum - 1000 : volumeNum;
+                break;
+            case 'extra':
+                prefix = '番外';
+                volumeNum = volumeNum >= 2000 ? volumeNum - 2000 : volumeNum;
+                break;
+        }
+
+        const numberFormat = ConfigService.getInstance().getVolumesConfig().numberFormat;
+        const volumeNumStr = numberFormat === 'roman'
+            ? convertToRomanNumber(volumeNum)
+            : numberFormat === 'arabic' ? String(volumeNum) : convertToChineseNumber(volumeNum);
+
+        return volume.volumeType === 'main'
+            ? `${prefix}${volumeNumStr}卷 ${volume.title}`
+            : `${prefix}${volumeNumStr} ${volume.title}`;
+    }
+
+    private getWorkspaceFolder(): vscode.WorkspaceFolder {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            throw new Error('未找到工作区');
+        }
+        return workspaceFolder;
+    }
+}
@@ -1,10 +1,62 @@
 import * as vscode from 'vscode';
-import { CHAPTERS_FOLDER, CHARACTERS_FOLDER, COMPLETED_STATUS } from '../constants';
+import { CHAPTERS_FOLDER, CHARACTERS_FOLDER } from '../constants';
 import { WordCountService } from './wordCountService';
+import { ConfigService } from './configService';
+import { VolumeService } from './volumeService';
+import { VolumeStatus, VolumeType } from '../types/volume';
 import { handleError, ErrorSeverity } from '../utils/errorHandler';
 import { parseFrontMatter } from '../utils/frontMatterParser';
+import { getStatusDisplayName } from '../utils/statusHelper';
+import { extractHeading, extractParagraphs } from '../utils/manuscriptText';
+import { computeProseMetrics } from '../utils/proseMetrics';
+import { aggregateProjectStats, ProjectStatsInput, VolumeInfo } from '../utils/projectStats';
+import { ProseMetrics } from '../types/proseMetrics';
 import { Logger } from '../utils/logger';
 
+/**
+ * 单卷统计信息
+ */
+export interface VolumeStats {
+    /** 卷序号 */
+    volume: number;
+    /** 卷类型 */
+    volumeType: VolumeType;
+    /** 卷标题 */
+    title: string;
+    /** 卷文件夹名称 */
+    folderName: string;
+    /** 卷状态（volume.json 中的 status，缺省为 writing） */
+    status: VolumeStatus;
+    /** 卷总字数 */
+    totalWords: number;
+    /** 卷章节数 */
+    chapterCount: number;
+    /** 卷内已完成章节数 */
+    completedChapters: number;
+    /** 卷目标字数（volume.json 中的 targetWords） */
+    targetWords?: number;
+    /** 卷开始日期（volume.json 中的 startDate） */
+    startDate?: string;
+    /** 卷截止日期（volume.json 中的 endDate） */
+    endDate?: string;
+}
+
+/**
+ * 单章统计信息（用于章节节奏表）
+ */
+export interface ChapterStats {
+    /** 章节标题（第一个一级标题，缺省为文件名） */
+    title: string;
+    /** 所属卷标题（扁平结构下为空） */
+    volumeTitle?: string;
+    /** 章节字数 */
+    wordCount: number;
+    /** 章节状态（中文显示名称） */
+    status: string;
+    /** 节奏指标 */
+    metrics: ProseMetrics;
+}
+
 /**
  * 项目统计信息接口
  * 包含小说项目的整体统计数据
@@ -12,7 +64,7 @@ import { Logger } from '../utils/logger';
 export interface ProjectStats {
     /** 总字数（所有章节的字数总和） */
     totalWords: number;
-    /** 章节数（chapters 目录下的 .md 文件数） */
+    /** 章节数（chapters 目录及各卷目录下的 .md 文件数） */
     chapterCount: number;
     /** 人物数（characters 目录下的 .md 文件数） */
     characterCount: number;
@@ -20,6 +72,12 @@ export interface ProjectStats {
     completedChapters: number;
     /** 完成率（百分比，0-100） */
     completionRate: number;
+    /** 各卷统计（未启用分卷时为空数组） */
+    volumes: VolumeStats[];
+    /** 各状态的章节数（键为中文状态名，至少包含 CHAPTER_STATUS_OPTIONS 中的全部状态） */
+    statusBreakdown: Record<string, number>;
+    /** 各章统计（按扫描顺序：根目录章节在前，然后依次是各卷章节） */
+    chapters: ChapterStats[];
 }
 
 /**
@@ -27,8 +85,9 @@ export interface ProjectStats {
  * 负责扫描和统计小说项目的整体数据
  *
  * 功能：
- * - 统计所有章节的总字数
+ * - 统计所有章节的总字数（支持扁平和分卷嵌套结构）
  * - 统计章节数量和完成情况
+ * - 按卷和按章节状态分组统计
  * - 统计人物数量
  * - 计算项目完成率
  *
@@ -68,26 +127,15 @@ export class ProjectStatsService {
                 return null;
             }
 
-            const stats: ProjectStats = {
-                totalWords: 0,
-                chapterCount: 0,
-                characterCount: 0,
-                completedChapters: 0,
-                completionRate: 0,
-            };
+            const input: ProjectStatsInput = { chapters: [], volumes: [], characterCount: 0 };
 
             // 统计章节
-            await this.collectChapterStats(workspaceFolder, stats);
+            await this.collectChapterStats(workspaceFolder, input);
 
             // 统计人物
-            await this.collectCharacterStats(workspaceFolder, stats);
+            await this.collectCharacterStats(workspaceFolder, input);
 
-            // 计算完成率
-            if (stats.chapterCount > 0) {
-                stats.completionRate = Math.round((stats.completedChapters / stats.chapterCount) * 100);
-            }
-
-            return stats;
+            return aggregateProjectStats(input);
         } catch (error) {
             handleError('统计项目信息失败', error, ErrorSeverity.Silent);
             return null;
@@ -96,10 +144,11 @@ export class ProjectStatsService {
 
     /**
      * 统计章节信息
+     * chapters/ 根目录下的章节始终统计；启用分卷（nested）时再通过 VolumeService 遍历各卷
      */
     private async collectChapterStats(
         workspaceFolder: vscode.WorkspaceFolder,
-        stats: ProjectStats
+        input: ProjectStatsInput
     ): Promise<void> {
         const chaptersPath = vscode.Uri.joinPath(workspaceFolder.uri, CHAPTERS_FOLDER);
 
@@ -109,30 +158,79 @@ export class ProjectStatsService {
                 type === vscode.FileType.File && name.endsWith('.md')
             );
 
-            stats.chapterCount = mdFiles.length;
-
             // 读取每个章节文件统计字数和状态
             for (const [filename] of mdFiles) {
-                const filePath = vscode.Uri.joinPath(chaptersPath, filename);
-                try {
-                    const content = await vscode.workspace.fs.readFile(filePath);
-                    const text = Buffer.from(content).toString('utf8');
-
-                    // 使用 frontMatterHelper 移除 Front Matter
-                    const contentText = this.removeFrontMatter(text);
-                    const wordCount = this.countWords(contentText);
-                    stats.totalWords += wordCount;
-
-                    // 检查状态
-                    if (this.isChapterCompleted(text)) {
-                        stats.completedChapters++;
-                    }
-                } catch (error) {
-                    handleError(`读取章节文件失败 ${filename}`, error, ErrorSeverity.Silent);
+                const chapterStat = await this.readChapterStat(vscode.Uri.joinPath(chaptersPath, filename), filename);
+                if (chapterStat) {
+                    input.chapters.push(chapterStat);
                 }
             }
         } catch (error) {
             // chapters 目录不存在，忽略
+            return;
+        }
+
+        if (ConfigService.getInstance().isVolumesEnabled()) {
+            await this.collectVolumeStats(input);
+        }
+    }
+
+    /**
+     * 统计各卷章节信息（嵌套结构）
+     */
+    private async collectVolumeStats(input: ProjectStatsInput): Promise<void> {
+        const volumes = await VolumeService.getInstance().scanVolumes();
+
+        for (const volume of volumes) {
+            const volumeInfo: VolumeInfo = {
+                volume: volume.volume,
+                volumeType: volume.volumeType,
+                title: volume.title,
+                folderName: volume.folderName,
+                status: volume.status,
+                targetWords: volume.metadata?.targetWords,
+                startDate: volume.metadata?.startDate,
+                endDate: volume.metadata?.endDate
+            };
+
+            const chapterStats = await Promise.all(
+                volume.chapters.map(chapter => this.readChapterStat(
+                    vscode.Uri.joinPath(vscode.Uri.file(volume.folderPath), chapter),
+                    chapter,
+                    volume.title
+                ))
+            );
+
+            input.volumes.push({
+                volume: volumeInfo,
+                chapters: chapterStats.filter((chapterStat): chapterStat is ChapterStats => chapterStat !== null)
+            });
+        }
+    }
+
+    /**
+     * 读取单个章节的字数、状态和节奏指标
+     * @param fileName 章节文件名（没有一级标题时作为章节标题）
+     * @param volumeTitle 所属卷标题
+     * @returns 读取失败时返回 null
+     */
+    private async readChapterStat(fileUri: vscode.Uri, fileName: string, volumeTitle?: string): Promise<ChapterStats | null> {
+        try {
+            const content = await vscode.workspace.fs.readFile(fileUri);
+            const text = Buffer.from(content).toString('utf8');
+
+            // 使用 frontMatterHelper 移除 Front Matter
+            const contentText = this.removeFrontMatter(text);
+            return {
+                title: extractHeading(text) ?? fileName.replace(/\.md$/, ''),
+                volumeTitle,
+                wordCount: this.countWords(contentText),
+                status: this.getChapterStatus(text),
+                metrics: computeProseMetrics(extractParagraphs(text))
+            };
+        } catch (error) {
+            handleError(`读取章节文件失败 ${fileUri.fsPath}`, error, ErrorSeverity.Silent);
+            return null;
         }
     }
 
@@ -141,7 +239,7 @@ export class ProjectStatsService {
      */
     private async collectCharacterStats(
         workspaceFolder: vscode.WorkspaceFolder,
-        stats: ProjectStats
+        input: ProjectStatsInput
     ): Promise<void> {
         const charactersPath = vscode.Uri.joinPath(workspaceFolder.uri, CHARACTERS_FOLDER);
 
@@ -151,7 +249,7 @@ export class ProjectStatsService {
                 type === vscode.FileType.File && name.endsWith('.md')
             );
 
-            stats.characterCount = mdFiles.length;
+            input.characterCount = mdFiles.length;
         } catch (error) {
             // characters 目录不存在，忽略
         }
@@ -180,24 +278,22 @@ export class ProjectStatsService {
     }
 
     /**
-     * 检查章节是否完成
+     * 获取章节状态（中文显示名称，未设置时为"草稿"）
      */
-    private isChapterCompleted(text: string): boolean {
+    private getChapterStatus(text: string): string {
         try {
             const parsed = parseFrontMatter(text);
             const data = parsed.data as Record<string, unknown>;
             if (data && data.status) {
-                const status = String(data.status).trim();
-                return status === COMPLETED_STATUS || status === 'completed';
+                return getStatusDisplayName(String(data.status).trim());
             }
         } catch (error) {
             // 解析失败，降级到正则匹配
             const statusMatch = text.match(/^status:\s*["']?(.+?)["']?$/m);
             if (statusMatch) {
-                const status = statusMatch[1].trim();
-                return status === COMPLETED_STATUS || status === 'completed';
+                return getStatusDisplayName(statusMatch[1].trim());
             }
         }
-        return false;
+        return getStatusDisplayName(undefined);
     }
 }
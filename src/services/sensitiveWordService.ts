@@ -1,22 +1,13 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as jsoncParser from 'jsonc-parser';
-import { TrieTree } from '../utils/trieTree';
-import {
-    SensitiveWordConfig,
-    SensitiveLevel,
-    SensitiveMatch,
-    WordLibraryFile,
-    WordLibraryMetadata,
-    CustomWordLibrary
-} from '../types/sensitiveWord';
+import { SensitiveWordConfig, SensitiveLevel, SensitiveMatch, WordLibraryMetadata } from '../types/sensitiveWord';
 import { Logger } from '../utils/logger';
 import { ConfigService } from './configService';
-import { extractContentWithoutFrontmatterForMatching } from '../utils/frontMatterHelper';
+import { SensitiveDetectorSources, SensitiveWordDetector, resolveSensitiveWordConfig } from '../utils/sensitiveDetector';
 
 /**
  * 敏感词检测服务
- * 负责加载词库、检测文档中的敏感词
+ * 负责按项目配置加载词库、检测文档中的敏感词（检测逻辑见 SensitiveWordDetector）
  *
  * @example
  * ```typescript
@@ -26,8 +17,7 @@ import { extractContentWithoutFrontmatterForMatching } from '../utils/frontMatte
  */
 export class SensitiveWordService {
     private static instance: SensitiveWordService | null = null;
-    private trie: TrieTree = new TrieTree();
-    private whitelist: Set<string> = new Set();
+    private detector: SensitiveWordDetector = SensitiveWordDetector.empty();
     private config!: SensitiveWordConfig;
     private context!: vscode.ExtensionContext;
 
@@ -49,6 +39,26 @@ export class SensitiveWordService {
         return SensitiveWordService.instance;
     }
 
+    /**
+     * 按指定的平台配置创建独立的检测实例（不影响当前使用的配置，用于跨平台发布前检查）
+     * @param context 扩展上下文
+     * @param profileName 平台配置名称
+     * @returns 检测实例，平台配置不存在时返回 undefined
+     */
+    public static async createForProfile(
+        context: vscode.ExtensionContext,
+        profileName: string
+    ): Promise<SensitiveWordService | undefined> {
+        const service = new SensitiveWordService();
+        service.context = context;
+        service.loadConfig(profileName);
+        if (service.config.activeProfile !== profileName) {
+            return undefined;
+        }
+        await service.initializeAsync();
+        return service;
+    }
+
     /**
      * 获取服务实例
      * @returns 服务实例
@@ -64,361 +74,106 @@ export class SensitiveWordService {
      * 异步初始化(加载词库)
      */
     private async initializeAsync(): Promise<void> {
-        if (!this.config.enabled) {
-            Logger.info('敏感词检测已禁用');
-            return;
-        }
-
-        try {
-            // 清空现有数据
-            this.trie.clear();
-            this.whitelist.clear();
-
-            // 1. 加载内置词库
-            if (this.config.builtInLibrary?.enabled) {
-                await this.loadBuiltinLibrary();
-            }
-
-            // 2. 加载自定义敏感词库
-            if (this.config.customLibrary?.enabled) {
-                await this.loadCustomSensitiveLibrary();
-            }
-
-            // 3. 加载白名单
-            if (this.config.whitelist?.enabled) {
-                await this.loadWhitelist();
-            }
-
-            // 兼容旧版配置：如果使用了 customWords 配置
-            if (this.config.customWords?.enabled) {
-                await this.loadCustomLibrary();
+        const sources: SensitiveDetectorSources = {
+            builtinDir: this.getBuiltinDir(),
+            workspaceRoot: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+            readFile: async filePath => Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath))).toString('utf8'),
+            logger: {
+                info: message => Logger.info(message),
+                warn: (message, error) => Logger.warn(message, error)
             }
+        };
 
-            Logger.info(`敏感词检测服务初始化完成，共加载 ${this.trie.getWordCount()} 个敏感词`);
+        try {
+            this.detector = await SensitiveWordDetector.load(this.config, sources);
         } catch (error) {
             Logger.error('敏感词检测服务初始化失败', error);
+            this.detector = SensitiveWordDetector.empty();
         }
     }
 
     /**
-     * 加载配置
+     * 内置词库目录
      */
-    private loadConfig(): void {
-        const configService = ConfigService.getInstance();
-        const projectConfig = configService.getConfig();
-
-        // 默认配置
-        const defaultConfig: SensitiveWordConfig = {
-            enabled: true,
-            builtInLibrary: {
-                enabled: true,
-                levels: {
-                    high: true,
-                    medium: false,
-                    low: false
-                }
-            },
-            customLibrary: {
-                enabled: true,
-                path: '.noveler/sensitive-words/custom-words.jsonc'
-            },
-            whitelist: {
-                enabled: true,
-                path: '.noveler/sensitive-words/whitelist.jsonc'
-            },
-            checkOnType: true,
-            checkOnSave: true,
-            display: {
-                severity: 'Warning',
-                showInProblems: true,
-                showWordCount: true
-            }
-        };
+    private getBuiltinDir(): string {
+        return path.join(this.context.extensionPath, 'templates', 'sensitive-words');
+    }
 
+    /**
+     * 加载配置
+     * @param profileName 使用的平台配置，不传时使用配置中的 activeProfile
+     */
+    private loadConfig(profileName?: string): void {
         // 合并项目配置（仅使用 novel.json 中的配置）
-        const userConfig = projectConfig.sensitiveWords;
+        const userConfig = ConfigService.getInstance().getConfig().sensitiveWords;
+        const { config, missingProfile } = resolveSensitiveWordConfig(userConfig, profileName);
+        this.config = config;
 
-        // 处理新旧配置兼容
-        let builtInLibrary = defaultConfig.builtInLibrary;
-        if (userConfig?.builtInLibrary) {
-            builtInLibrary = {
-                ...defaultConfig.builtInLibrary,
-                ...userConfig.builtInLibrary,
-                levels: {
-                    ...defaultConfig.builtInLibrary!.levels,
-                    ...userConfig.builtInLibrary.levels
-                }
-            };
-        } else if (userConfig?.levels) {
-            // 兼容旧版配置：levels 直接配置的情况
-            builtInLibrary = {
-                enabled: true,
-                levels: {
-                    ...defaultConfig.builtInLibrary!.levels,
-                    ...userConfig.levels
-                }
-            };
+        if (missingProfile && !profileName) {
+            Logger.warn(`[SensitiveWord] 平台配置 "${missingProfile}" 不存在，使用基础配置`);
         }
 
-        this.config = {
-            enabled: userConfig?.enabled !== undefined ? userConfig.enabled : defaultConfig.enabled,
-            builtInLibrary,
-            customLibrary: {
-                enabled: userConfig?.customLibrary?.enabled !== undefined ? userConfig.customLibrary.enabled : defaultConfig.customLibrary!.enabled,
-                path: userConfig?.customLibrary?.path || defaultConfig.customLibrary!.path
-            },
-            whitelist: {
-                enabled: userConfig?.whitelist?.enabled !== undefined ? userConfig.whitelist.enabled : defaultConfig.whitelist!.enabled,
-                path: userConfig?.whitelist?.path || defaultConfig.whitelist!.path
-            },
-            checkOnType: userConfig?.checkOnType !== undefined ? userConfig.checkOnType : defaultConfig.checkOnType,
-            checkOnSave: userConfig?.checkOnSave !== undefined ? userConfig.checkOnSave : defaultConfig.checkOnSave,
-            // 兼容旧版配置
-            customWords: userConfig?.customWords ? {
-                enabled: userConfig.customWords.enabled,
-                blacklistPath: userConfig.customWords.blacklistPath,
-                whitelistPath: userConfig.customWords.whitelistPath
-            } : undefined,
-            display: {
-                severity: userConfig?.display?.severity || defaultConfig.display!.severity,
-                showInProblems: userConfig?.display?.showInProblems !== undefined ? userConfig.display.showInProblems : defaultConfig.display!.showInProblems,
-                showWordCount: userConfig?.display?.showWordCount !== undefined ? userConfig.display.showWordCount : defaultConfig.display!.showWordCount
-            }
-        };
-
         Logger.info('[SensitiveWord] 加载配置完成:', {
             enabled: this.config.enabled,
             builtInLibrary: this.config.builtInLibrary,
             customLibrary: this.config.customLibrary,
+            activeProfile: this.config.activeProfile,
+            variantDetection: this.config.variantDetection,
             checkOnType: this.config.checkOnType
         });
     }
 
     /**
-     * 加载内置词库
+     * 检测文档中的敏感词
+     * @param document VSCode 文档
+     * @returns 匹配结果数组
      */
-    private async loadBuiltinLibrary(): Promise<void> {
-        const libPath = path.join(this.context.extensionPath, 'templates', 'sensitive-words');
-
-        // 读取元数据
-        const metadataPath = path.join(libPath, 'metadata.json');
-        const metadataUri = vscode.Uri.file(metadataPath);
-
-        try {
-            const metadataBytes = await vscode.workspace.fs.readFile(metadataUri);
-            const metadataContent = Buffer.from(metadataBytes).toString('utf8');
-            const metadata: WordLibraryMetadata = JSON.parse(metadataContent);
-            Logger.info(`加载内置词库 v${metadata.version}，共 ${metadata.totalWords} 个词`);
-        } catch {
-            // 元数据文件不存在，继续加载词库
+    public detect(document: vscode.TextDocument): SensitiveMatch[] {
+        if (document.languageId !== 'markdown') {
+            return [];
         }
 
-        // 根据配置加载各级别词库
-        const levels: SensitiveLevel[] = ['high', 'medium', 'low'];
-        for (const level of levels) {
-            if (this.config.builtInLibrary?.levels[level]) {
-                await this.loadLevelWords(libPath, level);
-            }
-        }
+        return this.detectText(document.getText());
     }
 
     /**
-     * 加载某个级别的词库
-     * @param libPath 词库目录路径
-     * @param level 级别
+     * 检测 Markdown 文本中的敏感词（用于未在编辑器中打开的章节文件）
+     * @param fullText 完整文件内容（含 frontmatter）
+     * @param includeSuppressed 是否同时返回被词组例外放过的匹配（带 exception 字段，用于解释为什么没有提示）
+     * @returns 匹配结果数组，位置相对完整文件内容
      */
-    private async loadLevelWords(libPath: string, level: SensitiveLevel): Promise<void> {
-        const filePath = path.join(libPath, `level-${level}.json`);
-        const fileUri = vscode.Uri.file(filePath);
-
-        try {
-            const contentBytes = await vscode.workspace.fs.readFile(fileUri);
-            const content = Buffer.from(contentBytes).toString('utf8');
-            const data: WordLibraryFile = JSON.parse(content);
-
-            this.trie.insertBatch(data.words, level);
-            Logger.info(`加载 ${level} 级别词库，共 ${data.words.length} 个词`);
-        } catch (error) {
-            Logger.warn(`词库文件不存在或加载失败: ${filePath}`);
-        }
+    public detectText(fullText: string, includeSuppressed = false): SensitiveMatch[] {
+        return this.detector.detectText(fullText, includeSuppressed);
     }
 
     /**
-     * 加载自定义敏感词库（用户完全自定义的敏感词列表）
-     * 优先加载 .jsonc 文件，如果不存在则尝试 .json 文件（向后兼容）
+     * 获取敏感词的替换建议（本身也会被检测为敏感词的建议会被排除）
+     * @param word 敏感词
+     * @returns 替换建议，没有时返回空数组
      */
-    private async loadCustomSensitiveLibrary(): Promise<void> {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!workspaceRoot) {
-            return;
-        }
-
-        // 获取配置的路径
-        const configuredPath = this.config.customLibrary!.path;
-        const primaryPath = path.join(workspaceRoot, configuredPath);
-
-        // 构建备选路径（.jsonc <-> .json 互换）
-        let fallbackPath: string | null = null;
-        if (configuredPath.endsWith('.jsonc')) {
-            fallbackPath = path.join(workspaceRoot, configuredPath.replace(/\.jsonc$/, '.json'));
-        } else if (configuredPath.endsWith('.json')) {
-            fallbackPath = path.join(workspaceRoot, configuredPath.replace(/\.json$/, '.jsonc'));
-        }
-
-        // 尝试加载的路径列表
-        const pathsToTry = [primaryPath];
-        if (fallbackPath) {
-            pathsToTry.push(fallbackPath);
-        }
-
-        for (const customPath of pathsToTry) {
-            const customUri = vscode.Uri.file(customPath);
-            try {
-                const contentBytes = await vscode.workspace.fs.readFile(customUri);
-                const content = Buffer.from(contentBytes).toString('utf8');
-                const data: CustomWordLibrary = jsoncParser.parse(content);
-
-                if (data.words && Array.isArray(data.words)) {
-                    // 简化版：所有自定义敏感词都视为 high 级别
-                    this.trie.insertBatch(data.words, 'high');
-                    Logger.info(`加载自定义敏感词库，共 ${data.words.length} 个词 (${path.basename(customPath)})`);
-                    return; // 成功加载，退出
-                }
-            } catch {
-                // 文件不存在或解析失败，尝试下一个路径
-            }
-        }
-
-        Logger.info(`自定义敏感词库文件不存在: ${primaryPath}`);
-    }
-
-    /**
-     * 加载白名单
-     * 优先加载 .jsonc 文件，如果不存在则尝试 .json 文件（向后兼容）
-     */
-    private async loadWhitelist(): Promise<void> {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!workspaceRoot) {
-            return;
-        }
-
-        // 获取配置的路径
-        const configuredPath = this.config.whitelist!.path;
-        const primaryPath = path.join(workspaceRoot, configuredPath);
-
-        // 构建备选路径（.jsonc <-> .json 互换）
-        let fallbackPath: string | null = null;
-        if (configuredPath.endsWith('.jsonc')) {
-            fallbackPath = path.join(workspaceRoot, configuredPath.replace(/\.jsonc$/, '.json'));
-        } else if (configuredPath.endsWith('.json')) {
-            fallbackPath = path.join(workspaceRoot, configuredPath.replace(/\.json$/, '.jsonc'));
-        }
-
-        // 尝试加载的路径列表
-        const pathsToTry = [primaryPath];
-        if (fallbackPath) {
-            pathsToTry.push(fallbackPath);
-        }
-
-        for (const whitelistPath of pathsToTry) {
-            const whitelistUri = vscode.Uri.file(whitelistPath);
-            try {
-                const contentBytes = await vscode.workspace.fs.readFile(whitelistUri);
-                const content = Buffer.from(contentBytes).toString('utf8');
-                const data: CustomWordLibrary = jsoncParser.parse(content);
-
-                if (data.words && Array.isArray(data.words)) {
-                    this.whitelist = new Set(data.words);
-                    Logger.info(`加载白名单，共 ${this.whitelist.size} 个词 (${path.basename(whitelistPath)})`);
-                    return; // 成功加载，退出
-                }
-            } catch {
-                // 文件不存在或解析失败，尝试下一个路径
-            }
-        }
-
-        Logger.info(`白名单文件不存在: ${primaryPath}`);
+    public getReplacements(word: string): string[] {
+        return this.detector.getReplacements(word);
     }
 
     /**
-     * 加载黑名单/白名单（用于微调内置词库）
+     * 获取可以开关的分类（内置词库各级别的分类，以及自定义词库中用到的分类）
+     * @returns 内置分类按级别分组；内置元数据读取失败时为空
      */
-    private async loadCustomLibrary(): Promise<void> {
-        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-        if (!workspaceRoot) {
-            return;
-        }
-
-        // 加载黑名单
-        const blacklistPath = path.join(workspaceRoot, this.config.customWords!.blacklistPath);
-        const blacklistUri = vscode.Uri.file(blacklistPath);
-
+    public async getCategories(): Promise<{ builtin: Partial<Record<SensitiveLevel, string[]>>; custom: string[] }> {
+        let builtin: Partial<Record<SensitiveLevel, string[]>> = {};
         try {
-            const contentBytes = await vscode.workspace.fs.readFile(blacklistUri);
-            const content = Buffer.from(contentBytes).toString('utf8');
-            const data: CustomWordLibrary = jsoncParser.parse(content);
-            this.trie.insertBatch(data.words, 'high'); // 自定义黑名单视为高危
-            Logger.info(`加载自定义黑名单，共 ${data.words.length} 个词`);
+            const metadataUri = vscode.Uri.file(path.join(this.getBuiltinDir(), 'metadata.json'));
+            const metadata: WordLibraryMetadata = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(metadataUri)).toString('utf8'));
+            builtin = metadata.categories ?? {};
         } catch (error) {
-            // 黑名单文件不存在，跳过
+            Logger.warn('读取内置词库分类失败', error);
         }
 
-        // 加载白名单
-        const whitelistPath = path.join(workspaceRoot, this.config.customWords!.whitelistPath);
-        const whitelistUri = vscode.Uri.file(whitelistPath);
-
-        try {
-            const contentBytes = await vscode.workspace.fs.readFile(whitelistUri);
-            const content = Buffer.from(contentBytes).toString('utf8');
-            const data: CustomWordLibrary = jsoncParser.parse(content);
-            this.whitelist = new Set(data.words);
-            Logger.info(`加载自定义白名单，共 ${this.whitelist.size} 个词`);
-        } catch (error) {
-            // 白名单文件不存在，跳过
-        }
-    }
-
-    /**
-     * 检测文档中的敏感词
-     * @param document VSCode 文档
-     * @returns 匹配结果数组
-     */
-    public detect(document: vscode.TextDocument): SensitiveMatch[] {
-        if (!this.config.enabled || document.languageId !== 'markdown') {
-            return [];
-        }
-
-        const fullText = document.getText();
-        if (!fullText || fullText.length === 0) {
-            return [];
-        }
-
-        // 排除 frontmatter 区域，只检测正文内容
-        const { text, offset } = extractContentWithoutFrontmatterForMatching(fullText);
-
-        if (!text || text.length === 0) {
-            return [];
-        }
-
-        // 使用 Trie 树检测
-        let matches = this.trie.search(text);
-
-        // 过滤白名单
-        matches = matches.filter(m => !this.whitelist.has(m.word));
-
-        // 调整匹配位置（加上 frontmatter 的偏移量）
-        matches = matches.map(m => ({
-            ...m,
-            start: m.start + offset,
-            end: m.end + offset
-        }));
-
-        // 标记白名单状态
-        matches.forEach(m => {
-            m.inWhitelist = this.whitelist.has(m.word);
-        });
-
-        return matches;
+        const builtinNames = new Set(Object.values(builtin).flat());
+        return {
+            builtin,
+            custom: this.detector.getCustomCategories().filter(category => !builtinNames.has(category))
+        };
     }
 
     /**
@@ -443,9 +198,6 @@ export class SensitiveWordService {
      * @returns 统计信息
      */
     public getStatistics(): { totalWords: number; whitelistSize: number } {
-        return {
-            totalWords: this.trie.getWordCount(),
-            whitelistSize: this.whitelist.size
-        };
+        return this.detector.getStatistics();
     }
 }
@@ -1,16 +1,15 @@
 import * as vscode from 'vscode';
 import { getContentWithoutFrontMatter } from '../utils/frontMatterHelper';
-import {
-    HTML_COMMENT_REGEX,
-    ENGLISH_WORD_REGEX
-} from '../constants';
+import { ENGLISH_WORD_REGEX } from '../constants';
+import { CountingProfileName } from '../types/wordCount';
+import { analyzeText, DEFAULT_COUNTING_PROFILE, getCountingProfileKey, getDetailedStats, stripUncountedText } from '../utils/countingProfiles';
 
 /**
  * 字数统计结果接口
  * 包含文档的完整统计信息
  */
 export interface WordCountStats {
-    /** 总字符数（正文 + 标点符号） */
+    /** 总字数（按当前计数规则统计，默认规则下为正文 + 标点符号） */
     totalChars: number;
     /** 正文字数（中文汉字 + 英文字母，不含标点） */
     contentChars: number;
@@ -24,6 +23,8 @@ export interface WordCountStats {
     paragraphs: number;
     /** 总行数 */
     lines: number;
+    /** 使用的计数规则 */
+    profile: CountingProfileName;
 }
 
 /**
@@ -34,6 +35,7 @@ export interface WordCountStats {
  * - 自动移除 Front Matter 和 HTML 注释
  * - 可选择是否排除 Markdown 标题
  * - 区分正文（中文汉字+英文字母）和标点符号
+ * - 总字数按 novel.jsonc 中 wordCount.profile 指定的计数规则统计（见 countingProfiles）
  * - 支持全文统计和选中文本统计
  *
  * @example
@@ -51,21 +53,43 @@ export class WordCountService {
     private static readonly MAX_CACHE_SIZE = 100; // 最大缓存条目数
     private static readonly CACHE_TTL = 5 * 60 * 1000; // 缓存过期时间：5 分钟
 
-    // 预编译的正则表达式（静态成员，所有实例共享）
-    private static readonly HEADER_REGEX = /^#+\s+/;
-    private static readonly SPACE_REGEX = /[\s\u3000]/g;
-    private static readonly CHINESE_CHARS_REGEX = /[\u4e00-\u9fa5]/g;
-    private static readonly CHINESE_PUNCTUATION_REGEX = /[\u3000-\u303f\uff00-\uffef\u2000-\u206f]/g;
-    private static readonly ENGLISH_CHARS_REGEX = /[a-zA-Z0-9]/g;
-    private static readonly ENGLISH_PUNCTUATION_REGEX = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/g;
+    // 计数规则（所有实例共享，由 extension.ts 根据配置设置）
+    private static profile: CountingProfileName = DEFAULT_COUNTING_PROFILE;
+    private static includePunctuation = true;
 
     /**
-     * 静态方法：简单字数统计（返回总字数 = 正文 + 标点）
+     * 设置计数规则
+     * 切换后需要调用 clearAllCache() 使已缓存的统计失效
+     *
+     * @param profile 计数规则名称
+     * @param includePunctuation 是否计入标点（仅 default 规则使用）
+     */
+    public static setCountingProfile(profile: CountingProfileName, includePunctuation = true): void {
+        WordCountService.profile = profile;
+        WordCountService.includePunctuation = includePunctuation;
+    }
+
+    /**
+     * 获取当前计数规则名称
+     */
+    public static getCountingProfile(): CountingProfileName {
+        return WordCountService.profile;
+    }
+
+    /**
+     * 获取当前计数规则标识（含是否计入标点），用于判断字数是否按同一规则统计
+     */
+    public static getCountingProfileKey(): string {
+        return getCountingProfileKey(WordCountService.profile, WordCountService.includePunctuation);
+    }
+
+    /**
+     * 静态方法：简单字数统计（返回按当前计数规则统计的总字数）
      * 用于 ProjectStatsService 和 NovelerViewProvider
      *
      * @param text 要统计的文本（应该已经移除 Front Matter 和 HTML 注释）
      * @param excludeHeaders 是否排除 Markdown 标题（默认 true）
-     * @returns 总字数（正文 + 标点符号）
+     * @returns 总字数（默认规则下为正文 + 标点符号）
      *
      * @example
      * ```typescript
@@ -75,8 +99,7 @@ export class WordCountService {
      * ```
      */
     public static getSimpleWordCount(text: string, excludeHeaders = true): number {
-        const stats = WordCountService.getDetailedStats(text, excludeHeaders);
-        return stats.content + stats.punctuation;
+        return WordCountService.getDetailedStats(text, excludeHeaders).total;
     }
 
     /**
@@ -85,48 +108,17 @@ export class WordCountService {
      *
      * @param text 要统计的文本（应该已经移除 Front Matter 和 HTML 注释）
      * @param excludeHeaders 是否排除 Markdown 标题（默认 true）
-     * @returns 包含正文字数和标点数的对象
+     * @returns 正文字数、标点数和按当前计数规则统计的总字数
      *
      * @example
      * ```typescript
      * const text = "这是一段测试文本。";
      * const stats = WordCountService.getDetailedStats(text);
-     * console.log(stats); // { content: 8, punctuation: 1 }
+     * console.log(stats); // { content: 8, punctuation: 1, total: 9 }
      * ```
      */
-    public static getDetailedStats(text: string, excludeHeaders = true): { content: number; punctuation: number } {
-        // 移除 HTML 注释
-        let processedText = text.replace(HTML_COMMENT_REGEX, '');
-
-        // 根据参数决定是否移除 Markdown 标题行
-        if (excludeHeaders) {
-            const textLines = processedText.split('\n');
-            const contentLines = textLines.filter(line => !line.trim().match(WordCountService.HEADER_REGEX));
-            processedText = contentLines.join('\n');
-        }
-
-        // 移除所有空格（包括全角空格和半角空格）
-        const textWithoutSpaces = processedText.replace(WordCountService.SPACE_REGEX, '');
-
-        // 统计中文汉字（不含标点）
-        const chineseCharsOnly = (textWithoutSpaces.match(WordCountService.CHINESE_CHARS_REGEX) || []).length;
-
-        // 统计中文标点符号（包含通用标点符号区）
-        const chinesePunctuation = (textWithoutSpaces.match(WordCountService.CHINESE_PUNCTUATION_REGEX) || []).length;
-
-        // 统计英文字母和数字（不含标点）
-        const englishChars = (textWithoutSpaces.match(WordCountService.ENGLISH_CHARS_REGEX) || []).length;
-
-        // 统计英文标点符号
-        const englishPunctuation = (textWithoutSpaces.match(WordCountService.ENGLISH_PUNCTUATION_REGEX) || []).length;
-
-        // 正文字数 = 中文汉字 + 英文字母和数字
-        const content = chineseCharsOnly + englishChars;
-
-        // 标点符号数 = 中文标点 + 英文标点
-        const punctuation = chinesePunctuation + englishPunctuation;
-
-        return { content, punctuation };
+    public static getDetailedStats(text: string, excludeHeaders = true): { content: number; punctuation: number; total: number } {
+        return getDetailedStats(text, WordCountService.profile, WordCountService.includePunctuation, excludeHeaders);
     }
 
     /**
@@ -140,12 +132,7 @@ export class WordCountService {
         const detailedStats = WordCountService.getDetailedStats(text, excludeHeaders);
 
         // 处理文本用于额外的统计（段落数、英文单词数）
-        let processedText = text.replace(HTML_COMMENT_REGEX, '');
-        if (excludeHeaders) {
-            const textLines = processedText.split('\n');
-            const contentLines = textLines.filter(line => !line.trim().match(WordCountService.HEADER_REGEX));
-            processedText = contentLines.join('\n');
-        }
+        const processedText = stripUncountedText(text, excludeHeaders);
 
         // 统计英文单词数
         const words = (processedText.match(ENGLISH_WORD_REGEX) || []).length;
@@ -155,18 +142,15 @@ export class WordCountService {
             .split('\n')
             .filter(line => line.trim().length > 0).length;
 
-        // 统计中文汉字数（用于 chineseChars 字段）
-        const textWithoutSpaces = processedText.replace(WordCountService.SPACE_REGEX, '');
-        const chineseCharsOnly = (textWithoutSpaces.match(WordCountService.CHINESE_CHARS_REGEX) || []).length;
-
         return {
-            totalChars: detailedStats.content + detailedStats.punctuation,
+            totalChars: detailedStats.total,
             contentChars: detailedStats.content,
-            chineseChars: chineseCharsOnly,
+            chineseChars: analyzeText(processedText).hanChars,
             punctuation: detailedStats.punctuation,
             words,
             paragraphs,
-            lines: lineCount
+            lines: lineCount,
+            profile: WordCountService.profile
         };
     }
 
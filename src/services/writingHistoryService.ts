@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CHAPTERS_FOLDER, WRITING_HISTORY_FILE } from '../constants';
+import { WritingHistory } from '../types/history';
+import { createEmptyHistory, parseHistory, recordWordDelta, updateChapterCountingProfile } from '../utils/writingHistory';
+import { handleError, ErrorSeverity } from '../utils/errorHandler';
+import { Logger } from '../utils/logger';
+
+/**
+ * 写作历史服务
+ * 在章节保存时记录字数增量，持久化到 .noveler/history.json
+ *
+ * 记录的是保存前后 Front Matter 中 wordCount 的差值，而不是总字数，
+ * 因此删除内容会记为负增量，移动或重命名章节不会产生记录；
+ * 同时记下每章字数使用的计数规则，切换计数规则后的第一次保存只更新基准，不计入写作量
+ */
+export class WritingHistoryService {
+    private static instance?: WritingHistoryService;
+    private history?: WritingHistory;
+    private loadPromise?: Promise<WritingHistory>;
+    private writeQueue: Promise<void> = Promise.resolve(); // 串行写入，避免连续保存时相互覆盖
+
+    // 历史变更事件发射器
+    private _onDidChangeHistory = new vscode.EventEmitter<WritingHistory>();
+    public readonly onDidChangeHistory = this._onDidChangeHistory.event;
+
+    private constructor() {
+        // 单例，通过 getInstance() 获取
+    }
+
+    /**
+     * 获取 WritingHistoryService 单例实例
+     */
+    public static getInstance(): WritingHistoryService {
+        if (!WritingHistoryService.instance) {
+            WritingHistoryService.instance = new WritingHistoryService();
+        }
+        return WritingHistoryService.instance;
+    }
+
+    /**
+     * 获取写作历史（首次调用时从磁盘加载）
+     */
+    public async getHistory(): Promise<WritingHistory> {
+        if (this.history) {
+            return this.history;
+        }
+        if (!this.loadPromise) {
+            this.loadPromise = this.load().then(history => {
+                this.history = history;
+                return history;
+            });
+        }
+        return this.loadPromise;
+    }
+
+    /**
+     * 记录章节字数变化
+     * 非章节文件（不在 chapters/ 下）或字数未变化时忽略；
+     * 原有字数使用的计数规则与当前不同时，只记下新规则（新旧规则的字数差不是写作量）
+     *
+     * @param uri 章节文件
+     * @param previousWordCount 保存前 Front Matter 中的字数
+     * @param currentWordCount 保存后的字数
+     * @param profileKey 统计 currentWordCount 使用的计数规则标识
+     */
+    public recordWordCountChange(
+        uri: vscode.Uri,
+        previousWordCount: number,
+        currentWordCount: number,
+        profileKey: string
+    ): Promise<void> {
+        const chapterPath = this.getChapterPath(uri);
+        if (!chapterPath) {
+            return this.writeQueue;
+        }
+        const delta = currentWordCount - previousWordCount;
+
+        this.writeQueue = this.writeQueue.then(async () => {
+            try {
+                const history = await this.getHistory();
+                const previousProfile = updateChapterCountingProfile(history, chapterPath, profileKey);
+
+                // 空章节的字数与计数规则无关，照常记录
+                if (previousProfile !== profileKey && previousWordCount !== 0) {
+                    await this.save(history);
+                    Logger.debug(`写作历史: ${chapterPath} 计数规则已从 ${previousProfile} 切换为 ${profileKey}，本次不记录增量`);
+                    return;
+                }
+
+                if (recordWordDelta(history, chapterPath, delta)) {
+                    await this.save(history);
+                    Logger.debug(`写作历史: ${chapterPath} ${delta > 0 ? '+' : ''}${delta}`);
+                    this._onDidChangeHistory.fire(history);
+                }
+            } catch (error) {
+                handleError('记录写作历史失败', error, ErrorSeverity.Silent);
+            }
+        });
+
+        return this.writeQueue;
+    }
+
+    /**
+     * 获取相对 chapters/ 的章节路径，不是章节文件时返回 undefined
+     */
+    public getChapterPath(uri: vscode.Uri): string | undefined {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri) ?? vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            return undefined;
+        }
+
+        const chaptersPath = path.join(workspaceFolder.uri.fsPath, CHAPTERS_FOLDER);
+        const relativePath = path.relative(chaptersPath, uri.fsPath);
+        if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            return undefined;
+        }
+        return relativePath.split(path.sep).join('/');
+    }
+
+    private getHistoryUri(): vscode.Uri | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, WRITING_HISTORY_FILE) : undefined;
+    }
+
+    private async load(): Promise<WritingHistory> {
+        const historyUri = this.getHistoryUri();
+        if (!historyUri) {
+            return createEmptyHistory();
+        }
+
+        try {
+            const fileData = await vscode.workspace.fs.readFile(historyUri);
+            return parseHistory(Buffer.from(fileData).toString('utf8'));
+        } catch {
+            Logger.debug('写作历史文件不存在，将在首次保存章节时创建');
+            return createEmptyHistory();
+        }
+    }
+
+    private async save(history: WritingHistory): Promise<void> {
+        const historyUri = this.getHistoryUri();
+        if (!historyUri) {
+            return;
+        }
+
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(historyUri, '..'));
+        await vscode.workspace.fs.writeFile(historyUri, Buffer.from(JSON.stringify(history, null, 2) + '\n', 'utf8'));
+    }
+
+    public dispose() {
+        this._onDidChangeHistory.dispose();
+    }
+}
@@ -0,0 +1,281 @@
+import * as vscode from 'vscode';
+import { WRITING_SESSIONS_FILE } from '../constants';
+import { SessionTracker, WritingSessionLog, WritingSessionRecord } from '../types/session';
+import { WordCountService } from './wordCountService';
+import { WritingHistoryService } from './writingHistoryService';
+import { getContentWithoutFrontMatter } from '../utils/frontMatterHelper';
+import { Debouncer } from '../utils/debouncer';
+import {
+    createEmptySessionLog,
+    createSessionTracker,
+    finishSession,
+    getActiveMs,
+    getSessionWords,
+    isSessionIdle,
+    parseSessionLog,
+    recordSessionActivity,
+    setChapterBaseline,
+    updateChapterCount
+} from '../utils/writingSession';
+import { handleError, handleSuccess, ErrorSeverity } from '../utils/errorHandler';
+import { Logger } from '../utils/logger';
+
+/** 编辑后重新统计章节字数的延迟（毫秒） */
+const COUNT_DEBOUNCE_DELAY = 1000;
+
+/**
+ * 写作会话当前状态
+ */
+export interface SessionStatus {
+    /** 已经过时长（毫秒） */
+    elapsedMs: number;
+    /** 有效写作时长（毫秒） */
+    activeMs: number;
+    /** 净增字数 */
+    words: number;
+    /** 是否空闲 */
+    idle: boolean;
+}
+
+/**
+ * 写作会话服务
+ * 通过 noveler.startSession / noveler.stopSession 手动开始和结束会话，
+ * 会话期间监听章节编辑，统计净增字数和有效写作时长，结束后记录到 .noveler/sessions.json
+ *
+ * 与写作历史（按保存记录）不同，会话按编辑实时统计，未保存的修改也会计入
+ */
+export class WritingSessionService implements vscode.Disposable {
+    private static instance?: WritingSessionService;
+    private tracker?: SessionTracker;
+    private trackerDisposables: vscode.Disposable[] = [];
+    private dirtyDocuments = new Set<vscode.TextDocument>();
+    private countDebouncer = new Debouncer(COUNT_DEBOUNCE_DELAY);
+    private log?: WritingSessionLog;
+    private writeQueue: Promise<void> = Promise.resolve(); // 串行写入
+
+    // 会话变更事件发射器（开始、结束、字数变化时触发）
+    private _onDidChangeSession = new vscode.EventEmitter<void>();
+    public readonly onDidChangeSession = this._onDidChangeSession.event;
+
+    private constructor() {
+        // 单例，通过 getInstance() 获取
+    }
+
+    /**
+     * 获取 WritingSessionService 单例实例
+     */
+    public static getInstance(): WritingSessionService {
+        if (!WritingSessionService.instance) {
+            WritingSessionService.instance = new WritingSessionService();
+        }
+        return WritingSessionService.instance;
+    }
+
+    /**
+     * 是否有进行中的会话
+     */
+    public isActive(): boolean {
+        return this.tracker !== undefined;
+    }
+
+    /**
+     * 开始写作会话
+     * 以当前已打开章节的字数作为基线，之后打开的章节在打开时记录基线
+     */
+    public start(): void {
+        if (this.tracker) {
+            vscode.window.showInformationMessage('写作会话已在进行中');
+            return;
+        }
+
+        this.tracker = createSessionTracker();
+        for (const document of vscode.workspace.textDocuments) {
+            this.recordBaseline(document);
+        }
+
+        this.trackerDisposables.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.recordBaseline(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.handleDocumentChange(event))
+        );
+
+        Logger.info('写作会话已开始');
+        this._onDidChangeSession.fire();
+        vscode.window.showInformationMessage('✍️ 写作会话已开始，完成后执行「Noveler: 结束写作会话」');
+    }
+
+    /**
+     * 结束写作会话并记录到 sessions.json
+     * @returns 会话记录，没有进行中的会话时返回 undefined
+     */
+    public async stop(): Promise<WritingSessionRecord | undefined> {
+        const tracker = this.tracker;
+        if (!tracker) {
+            vscode.window.showInformationMessage('当前没有进行中的写作会话');
+            return undefined;
+        }
+
+        // 统计尚未处理的编辑
+        this.countDebouncer.dispose();
+        this.flushDirtyDocuments();
+
+        const record = finishSession(tracker);
+        this.clearTracker();
+        this._onDidChangeSession.fire();
+
+        await this.appendRecord(record);
+        handleSuccess(
+            `写作会话结束：用时 ${Math.round(record.durationMinutes)} 分钟（有效 ${Math.round(record.activeMinutes)} 分钟），` +
+            `净增 ${record.words.toLocaleString()} 字${record.wordsPerHour > 0 ? `，${record.wordsPerHour.toLocaleString()} 字/小时` : ''}`
+        );
+        return record;
+    }
+
+    /**
+     * 关闭编辑器时保存进行中的会话（由 deactivate 调用并等待写入完成）
+     */
+    public async saveOnDeactivate(): Promise<void> {
+        const tracker = this.tracker;
+        if (!tracker) {
+            return this.writeQueue;
+        }
+
+        // 统计尚未处理的编辑
+        this.countDebouncer.dispose();
+        this.flushDirtyDocuments();
+        const record = finishSession(tracker);
+        this.clearTracker();
+        await this.appendRecord(record);
+    }
+
+    /**
+     * 获取当前会话状态，没有进行中的会话时返回 undefined
+     */
+    public getStatus(now: Date = new Date()): SessionStatus | undefined {
+        if (!this.tracker) {
+            return undefined;
+        }
+        return {
+            elapsedMs: now.getTime() - this.tracker.startedAt,
+            activeMs: getActiveMs(this.tracker, now),
+            words: getSessionWords(this.tracker).words,
+            idle: isSessionIdle(this.tracker, now)
+        };
+    }
+
+    /**
+     * 获取会话日志（首次调用时从磁盘加载）
+     */
+    public async getSessionLog(): Promise<WritingSessionLog> {
+        if (!this.log) {
+            this.log = await this.load();
+        }
+        return this.log;
+    }
+
+    /**
+     * 记录章节开始编辑前的字数
+     */
+    private recordBaseline(document: vscode.TextDocument): void {
+        const chapterPath = this.getChapterPath(document);
+        if (this.tracker && chapterPath) {
+            setChapterBaseline(this.tracker, chapterPath, this.countWords(document));
+        }
+    }
+
+    private handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+        if (!this.tracker || event.contentChanges.length === 0 || !this.getChapterPath(event.document)) {
+            return;
+        }
+
+        recordSessionActivity(this.tracker);
+        this.dirtyDocuments.add(event.document);
+        this.countDebouncer.debounce(() => {
+            this.flushDirtyDocuments();
+            this._onDidChangeSession.fire();
+        });
+    }
+
+    /**
+     * 重新统计有编辑的章节字数
+     */
+    private flushDirtyDocuments(): void {
+        if (!this.tracker) {
+            return;
+        }
+        for (const document of this.dirtyDocuments) {
+            const chapterPath = this.getChapterPath(document);
+            if (chapterPath) {
+                updateChapterCount(this.tracker, chapterPath, this.countWords(document));
+            }
+        }
+        this.dirtyDocuments.clear();
+    }
+
+    private getChapterPath(document: vscode.TextDocument): string | undefined {
+        if (document.languageId !== 'markdown' || document.uri.scheme !== 'file') {
+            return undefined;
+        }
+        return WritingHistoryService.getInstance().getChapterPath(document.uri);
+    }
+
+    private countWords(document: vscode.TextDocument): number {
+        return WordCountService.getSimpleWordCount(getContentWithoutFrontMatter(document));
+    }
+
+    private clearTracker(): void {
+        this.tracker = undefined;
+        this.dirtyDocuments.clear();
+        this.trackerDisposables.forEach(disposable => disposable.dispose());
+        this.trackerDisposables = [];
+    }
+
+    private appendRecord(record: WritingSessionRecord): Promise<void> {
+        this.writeQueue = this.writeQueue.then(async () => {
+            try {
+                const log = await this.getSessionLog();
+                log.sessions.push(record);
+                await this.save(log);
+            } catch (error) {
+                handleError('保存写作会话失败', error, ErrorSeverity.Warning);
+            }
+        });
+        return this.writeQueue;
+    }
+
+    private getLogUri(): vscode.Uri | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, WRITING_SESSIONS_FILE) : undefined;
+    }
+
+    private async load(): Promise<WritingSessionLog> {
+        const logUri = this.getLogUri();
+        if (!logUri) {
+            return createEmptySessionLog();
+        }
+
+        try {
+            const fileData = await vscode.workspace.fs.readFile(logUri);
+            return parseSessionLog(Buffer.from(fileData).toString('utf8'));
+        } catch {
+            Logger.debug('写作会话文件不存在，将在首次结束会话时创建');
+            return createEmptySessionLog();
+        }
+    }
+
+    private async save(log: WritingSessionLog): Promise<void> {
+        const logUri = this.getLogUri();
+        if (!logUri) {
+            return;
+        }
+
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(logUri, '..'));
+        await vscode.workspace.fs.writeFile(logUri, Buffer.from(JSON.stringify(log, null, 2) + '\n', 'utf8'));
+    }
+
+    public dispose() {
+        // 进行中的会话已由 saveOnDeactivate 保存
+        this.clearTracker();
+        this.countDebouncer.dispose();
+        this._onDidChangeSession.dispose();
+    }
+}
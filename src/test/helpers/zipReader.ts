@@ -0,0 +1,38 @@
+/**
+ * 测试辅助：ZIP 读取
+ * 用于校验 EPUB / DOCX 等 ZIP 容器的内容
+ */
+
+import * as assert from 'assert';
+import * as zlib from 'zlib';
+import { crc32 } from '../../utils/zipWriter';
+
+/**
+ * 读取 ZIP 中的全部条目（按中央目录顺序）
+ */
+export function readZip(buffer: Buffer): Map<string, { method: number; content: string }> {
+    const entries = new Map<string, { method: number; content: string }>();
+    const endOffset = buffer.lastIndexOf(Buffer.from([0x50, 0x4B, 0x05, 0x06]));
+    const count = buffer.readUInt16LE(endOffset + 10);
+    let offset = buffer.readUInt32LE(endOffset + 16);
+
+    for (let i = 0; i < count; i++) {
+        const method = buffer.readUInt16LE(offset + 10);
+        const crc = buffer.readUInt32LE(offset + 16);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+        const localNameLength = buffer.readUInt16LE(localOffset + 26);
+        const dataStart = localOffset + 30 + localNameLength;
+        const stored = buffer.subarray(dataStart, dataStart + compressedSize);
+        const data = method === 8 ? zlib.inflateRawSync(stored) : stored;
+        assert.strictEqual(crc32(data), crc, `CRC mismatch: ${name}`);
+
+        entries.set(name, { method, content: data.toString('utf8') });
+        offset += 46 + nameLength;
+    }
+
+    return entries;
+}
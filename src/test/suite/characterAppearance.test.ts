@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { SimpleTrieTree } from '../../utils/simpleTrieTree';
+import { countCharacterMentions, getMentionLevel, summarizeAppearances } from '../../utils/characterAppearance';
+import { ChapterMentions } from '../../types/characterAppearance';
+
+suite('CharacterAppearance Test Suite', () => {
+
+    suite('countCharacterMentions', () => {
+        test('should count each name using the longest match', () => {
+            const trie = new SimpleTrieTree();
+            trie.insertBatch(['张三', '张三丰', '李四']);
+            assert.deepStrictEqual(
+                countCharacterMentions('张三丰看着张三，张三没理李四。', trie),
+                { 张三丰: 1, 张三: 2, 李四: 1 }
+            );
+        });
+
+        test('should return empty counts when nobody appears', () => {
+            const trie = new SimpleTrieTree();
+            trie.insert('张三');
+            assert.deepStrictEqual(countCharacterMentions('空无一人', trie), {});
+        });
+    });
+
+    suite('summarizeAppearances', () => {
+        const chapter = (counts: Record<string, number>, index: number): ChapterMentions =>
+            ({ title: `第${index + 1}章`, sourcePath: `${index + 1}.md`, counts });
+
+        const chapters = ([
+            { 萧炎: 5 },
+            { 萧炎: 2, 药老: 1 },
+            {},
+            { 萧炎: 1 }
+        ] as Record<string, number>[]).map(chapter);
+
+        test('should record totals and first / last chapters', () => {
+            const [xiaoyan, yaolao] = summarizeAppearances(['药老', '萧炎'], chapters, 0);
+            assert.deepStrictEqual(xiaoyan, {
+                name: '萧炎', total: 8, chapterCount: 3, firstChapter: 0, lastChapter: 3, chaptersSinceLast: 0, absent: false
+            });
+            assert.strictEqual(yaolao.name, '药老');
+            assert.strictEqual(yaolao.firstChapter, 1);
+            assert.strictEqual(yaolao.chaptersSinceLast, 2);
+        });
+
+        test('should flag characters absent for more than the threshold', () => {
+            const summaries = summarizeAppearances(['萧炎', '药老'], chapters, 1);
+            assert.strictEqual(summaries.find(s => s.name === '药老')!.absent, true);
+            assert.strictEqual(summaries.find(s => s.name === '萧炎')!.absent, false);
+            assert.strictEqual(summarizeAppearances(['药老'], chapters, 2)[0].absent, false);
+        });
+
+        test('should put characters who never appear last without flagging them', () => {
+            const summaries = summarizeAppearances(['美杜莎', '萧炎', '萧炎'], chapters, 1);
+            assert.deepStrictEqual(summaries.map(s => s.name), ['萧炎', '美杜莎']);
+            assert.strictEqual(summaries[1].firstChapter, undefined);
+            assert.strictEqual(summaries[1].absent, false);
+        });
+    });
+
+    suite('getMentionLevel', () => {
+        test('should scale counts relative to the maximum', () => {
+            assert.strictEqual(getMentionLevel(0, 10), 0);
+            assert.strictEqual(getMentionLevel(1, 10), 1);
+            assert.strictEqual(getMentionLevel(5, 10), 2);
+            assert.strictEqual(getMentionLevel(10, 10), 4);
+        });
+    });
+});
@@ -200,6 +200,27 @@ suite('ConfigValidator Test Suite', () => {
             });
         });
 
+        suite('format.rules validation', () => {
+            test('should pass for valid custom rules', () => {
+                const config: NovelConfig = {
+                    format: { rules: { dash: false, custom: [{ name: '统一称呼', pattern: '师父', replacement: '师傅', scope: 'dialogue' }] } }
+                };
+                const errors = validateConfig(config);
+                assert.strictEqual(errors.filter(e => e.field.startsWith('format.rules')).length, 0);
+            });
+
+            test('should warn for invalid custom regex', () => {
+                const config: NovelConfig = {
+                    format: { rules: { custom: [{ name: '坏规则', pattern: '[', replacement: '' }] } }
+                };
+                const errors = validateConfig(config);
+                const warning = errors.find(e => e.field === 'format.rules.custom');
+                assert.ok(warning);
+                assert.strictEqual(warning!.severity, 'warning');
+                assert.ok(warning!.message.includes('坏规则'));
+            });
+        });
+
         suite('autoUpdateReadmeOnCreate validation', () => {
             test('should pass for value "always"', () => {
                 const config: NovelConfig = {
@@ -239,6 +260,102 @@ suite('ConfigValidator Test Suite', () => {
             });
         });
 
+        suite('dailyGoal validation', () => {
+            test('should pass for 0 (disabled) and positive goal', () => {
+                for (const words of [0, 3000]) {
+                    const errors = validateConfig({ dailyGoal: { words } });
+                    assert.strictEqual(errors.filter(e => e.field.includes('dailyGoal')).length, 0);
+                }
+            });
+
+            test('should error for non-number goal', () => {
+                const config = {
+                    dailyGoal: { words: '3000' as unknown as number }
+                };
+                const error = validateConfig(config).find(e => e.field === 'dailyGoal.words');
+                assert.ok(error);
+                assert.strictEqual(error!.severity, 'error');
+            });
+
+            test('should error for negative goal', () => {
+                const error = validateConfig({ dailyGoal: { words: -1 } }).find(e => e.field === 'dailyGoal.words');
+                assert.ok(error);
+                assert.strictEqual(error!.severity, 'error');
+            });
+
+            test('should warn for goal over 100000', () => {
+                const warning = validateConfig({ dailyGoal: { words: 200000 } }).find(e => e.field === 'dailyGoal.words');
+                assert.ok(warning);
+                assert.strictEqual(warning!.severity, 'warning');
+            });
+        });
+
+        suite('wordCount.profile validation', () => {
+            test('should pass for known profile', () => {
+                assert.strictEqual(validateConfig({ wordCount: { profile: 'qidian' } }).length, 0);
+            });
+
+            test('should error for unknown profile', () => {
+                const error = validateConfig({ wordCount: { profile: 'zongheng' } }).find(e => e.field === 'wordCount.profile');
+                assert.ok(error);
+                assert.strictEqual(error!.severity, 'error');
+            });
+        });
+
+        suite('bookGoal validation', () => {
+            test('should pass for valid goal and empty deadline', () => {
+                const errors = validateConfig({ bookGoal: { totalWords: 1000000, chapters: 0, deadline: '' } });
+                assert.strictEqual(errors.filter(e => e.field.includes('bookGoal')).length, 0);
+                assert.strictEqual(validateConfig({ bookGoal: { deadline: '2024-12-31' } }).length, 0);
+            });
+
+            test('should error for negative target', () => {
+                const error = validateConfig({ bookGoal: { chapters: -1 } }).find(e => e.field === 'bookGoal.chapters');
+                assert.ok(error);
+                assert.strictEqual(error!.severity, 'error');
+            });
+
+            test('should error for invalid deadline', () => {
+                for (const deadline of ['2024/12/31', '2024-02-30']) {
+                    const error = validateConfig({ bookGoal: { deadline } }).find(e => e.field === 'bookGoal.deadline');
+                    assert.ok(error, deadline);
+                }
+            });
+        });
+
+        suite('textAnalysis validation', () => {
+            test('should pass for valid config', () => {
+                const errors = validateConfig({ textAnalysis: { ignoreWords: ['萧炎'], repetition: { enabled: true, window: 100, words: ['蓦地'] } } });
+                assert.strictEqual(errors.length, 0);
+            });
+
+            test('should error for non-positive window', () => {
+                const error = validateConfig({ textAnalysis: { repetition: { window: 0 } } })
+                    .find(e => e.field === 'textAnalysis.repetition.window');
+                assert.ok(error);
+                assert.strictEqual(error!.severity, 'error');
+            });
+
+            test('should warn for non-string word lists', () => {
+                const errors = validateConfig({ textAnalysis: { ignoreWords: [1] as unknown as string[] } });
+                assert.strictEqual(errors[0].field, 'textAnalysis.ignoreWords');
+                assert.strictEqual(errors[0].severity, 'warning');
+            });
+        });
+
+        suite('characterAppearance.absenceWarning validation', () => {
+            test('should accept zero to disable', () => {
+                assert.strictEqual(validateConfig({ characterAppearance: { absenceWarning: 0 } }).length, 0);
+            });
+
+            test('should error for negative value', () => {
+                const error = validateConfig({ characterAppearance: { absenceWarning: -1 } })
+                    .find(e => e.field === 'characterAppearance.absenceWarning');
+                assert.ok(error);
+                assert.strictEqual(error!.severity, 'error');
+            });
+        });
+
         suite('Empty and minimal configs', () => {
             test('should pass for empty config', () => {
                 const config: NovelConfig = {};
@@ -308,6 +425,47 @@ suite('ConfigValidator Test Suite', () => {
             });
         });
 
+        suite('dailyGoal fixes', () => {
+            test('should disable invalid goal', () => {
+                const fixed = fixConfig({ dailyGoal: { words: -500, notify: false } });
+                assert.strictEqual(fixed.dailyGoal!.words, 0);
+                assert.strictEqual(fixed.dailyGoal!.notify, false);
+            });
+
+            test('should keep valid goal', () => {
+                assert.strictEqual(fixConfig({ dailyGoal: { words: 4000 } }).dailyGoal!.words, 4000);
+            });
+        });
+
+        suite('wordCount.profile fixes', () => {
+            test('should fix unknown profile to "default"', () => {
+                const fixed = fixConfig({ wordCount: { profile: 'zongheng', includePunctuation: false } });
+                assert.strictEqual(fixed.wordCount!.profile, 'default');
+                assert.strictEqual(fixed.wordCount!.includePunctuation, false);
+            });
+        });
+
+        suite('bookGoal fixes', () => {
+            test('should clear invalid values and keep valid ones', () => {
+                const fixed = fixConfig({ bookGoal: { totalWords: -1, chapters: 300, deadline: 'next year' } });
+                assert.deepStrictEqual(fixed.bookGoal, { totalWords: 0, chapters: 300, deadline: '' });
+            });
+        });
+
+        suite('textAnalysis fixes', () => {
+            test('should reset invalid repetition window', () => {
+                const fixed = fixConfig({ textAnalysis: { repetition: { enabled: true, window: -5 } } });
+                assert.deepStrictEqual(fixed.textAnalysis, { repetition: { enabled: true, window: 200 } });
+            });
+        });
+
+        suite('characterAppearance.absenceWarning fixes', () => {
+            test('should reset invalid value to default', () => {
+                const fixed = fixConfig({ characterAppearance: { absenceWarning: -3 } });
+                assert.deepStrictEqual(fixed.characterAppearance, { absenceWarning: 30 });
+            });
+        });
+
         suite('autoUpdateReadmeOnCreate fixes', () => {
             test('should fix invalid value to "always"', () => {
                 const config = {
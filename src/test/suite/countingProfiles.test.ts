@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import {
+    analyzeText,
+    countByProfile,
+    getCountingProfileHint,
+    getCountingProfileKey,
+    isCountingProfileName
+} from '../../utils/countingProfiles';
+
+suite('CountingProfiles Test Suite', () => {
+
+    const sample = 'Hello world，他说：“I don\'t know 2024。”';
+
+    suite('analyzeText', () => {
+        test('should break text into components ignoring spaces', () => {
+            assert.deepStrictEqual(analyzeText(sample), {
+                hanChars: 2,
+                chinesePunctuation: 5,
+                latinChars: 23,
+                latinPunctuation: 1,
+                latinWords: 6,
+                nonSpaceChars: 31
+            });
+        });
+
+        test('should count surrogate pairs as one character', () => {
+            assert.strictEqual(analyzeText('好😀').nonSpaceChars, 2);
+        });
+    });
+
+    suite('countByProfile', () => {
+        const breakdown = analyzeText(sample);
+
+        test('default should count Han, Latin chars and punctuation', () => {
+            assert.strictEqual(countByProfile(breakdown, 'default'), 31);
+            assert.strictEqual(countByProfile(breakdown), 31);
+        });
+
+        test('default should honor includePunctuation', () => {
+            assert.strictEqual(countByProfile(breakdown, 'default', false), 25);
+        });
+
+        test('qidian should count all non-space characters', () => {
+            assert.strictEqual(countByProfile(analyzeText('你好～ ★ ok'), 'qidian'), 6);
+        });
+
+        test('jjwxc should count each Latin word as one', () => {
+            assert.strictEqual(countByProfile(breakdown, 'jjwxc'), 14);
+        });
+
+        test('hanOnly should count only Han characters', () => {
+            assert.strictEqual(countByProfile(breakdown, 'hanOnly'), 2);
+        });
+
+        test('englishWords should count words plus Han characters', () => {
+            assert.strictEqual(countByProfile(breakdown, 'englishWords'), 8);
+        });
+
+        test('should not be affected by includePunctuation except default', () => {
+            assert.strictEqual(countByProfile(breakdown, 'jjwxc', false), 14);
+        });
+    });
+
+    suite('helpers', () => {
+        test('isCountingProfileName should accept known names only', () => {
+            assert.strictEqual(isCountingProfileName('qidian'), true);
+            assert.strictEqual(isCountingProfileName('toString'), false);
+            assert.strictEqual(isCountingProfileName(1), false);
+        });
+
+        test('getCountingProfileHint should be empty for default', () => {
+            assert.strictEqual(getCountingProfileHint('default'), '');
+            assert.ok(getCountingProfileHint('qidian').includes('起点'));
+        });
+
+        test('getCountingProfileKey should only distinguish punctuation for default', () => {
+            assert.strictEqual(getCountingProfileKey('default'), 'default');
+            assert.strictEqual(getCountingProfileKey('default', false), 'default-noPunctuation');
+            assert.strictEqual(getCountingProfileKey('qidian', false), 'qidian');
+        });
+    });
+});
@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { formatDateTime } from '../../utils/dateFormatter';
+import { formatDate, formatDateTime } from '../../utils/dateFormatter';
 
 suite('DateFormatter Test Suite', () => {
 
@@ -83,4 +83,14 @@ suite('DateFormatter Test Suite', () => {
             });
         });
     });
+
+    suite('formatDate', () => {
+        test('should format local date with padding', () => {
+            assert.strictEqual(formatDate(new Date(2024, 0, 5, 23, 59, 59)), '2024-01-05');
+        });
+
+        test('should ignore time of day', () => {
+            assert.strictEqual(formatDate(new Date(2024, 11, 25, 0, 0, 0)), formatDate(new Date(2024, 11, 25, 23, 59, 59)));
+        });
+    });
 });
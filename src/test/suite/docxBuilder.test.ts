@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { buildDocx } from '../../utils/docxBuilder';
+import { Manuscript } from '../../types/export';
+import { readZip } from '../helpers/zipReader';
+
+suite('DocxBuilder Test Suite', () => {
+
+    const created = new Date('2024-01-02T03:04:05.678Z');
+
+    const flatManuscript: Manuscript = {
+        metadata: { title: '测试小说', author: '张三', description: '一个<测试>故事' },
+        volumes: [{
+            chapters: [
+                { number: 1, heading: '第一章 开端', paragraphs: ['天色渐暗。', '「走吧。」'], sourcePath: 'a.md' },
+                { number: 2, heading: '第二章 出发', paragraphs: ['翌日。'], sourcePath: 'b.md' }
+            ]
+        }]
+    };
+
+    const nestedManuscript: Manuscript = {
+        metadata: { title: '测试小说', author: '张三' },
+        volumes: [
+            { heading: '第一卷 崛起', chapters: [{ heading: '第一章 开端', paragraphs: ['一'], sourcePath: 'v1/a.md' }] },
+            { heading: '第二卷 远行', chapters: [{ heading: '第二章 出发', paragraphs: ['二'], sourcePath: 'v2/b.md' }] }
+        ]
+    };
+
+    const documentXml = (manuscript: Manuscript, includeTitlePage = true) =>
+        readZip(buildDocx(manuscript, { includeTitlePage, created })).get('word/document.xml')?.content ?? '';
+
+    suite('package', () => {
+        test('should contain required parts', () => {
+            const entries = readZip(buildDocx(flatManuscript, { created }));
+            for (const name of ['[Content_Types].xml', '_rels/.rels', 'word/document.xml', 'word/styles.xml', 'word/_rels/document.xml.rels']) {
+                assert.ok(entries.has(name), name);
+            }
+        });
+
+        test('should write title and author to core properties', () => {
+            const core = readZip(buildDocx(flatManuscript, { created })).get('docProps/core.xml')?.content ?? '';
+            assert.ok(core.includes('<dc:title>测试小说</dc:title>'));
+            assert.ok(core.includes('<dc:creator>张三</dc:creator>'));
+            assert.ok(core.includes('<dc:description>一个&lt;测试&gt;故事</dc:description>'));
+            assert.ok(core.includes('2024-01-02T03:04:05Z'));
+        });
+
+        test('should define first-line indent and page break in styles', () => {
+            const styles = readZip(buildDocx(flatManuscript, { created })).get('word/styles.xml')?.content ?? '';
+            assert.ok(styles.includes('<w:ind w:firstLineChars="200"'));
+            assert.ok(/w:styleId="Heading2">[\s\S]*?<w:pageBreakBefore\/>/.test(styles));
+        });
+    });
+
+    suite('document', () => {
+        test('should generate title page', () => {
+            const xml = documentXml(flatManuscript);
+            assert.ok(xml.includes('<w:pStyle w:val="Title"/></w:pPr><w:r><w:t xml:space="preserve">测试小说</w:t>'));
+            assert.ok(xml.includes('<w:pStyle w:val="Subtitle"/></w:pPr><w:r><w:t xml:space="preserve">张三</w:t>'));
+            assert.ok(xml.indexOf('测试小说') < xml.indexOf('第一章 开端'));
+        });
+
+        test('should omit title page when disabled', () => {
+            const xml = documentXml(flatManuscript, false);
+            assert.ok(!xml.includes('w:val="Title"'));
+            // 第一个标题不分页，避免空白首页
+            assert.ok(xml.includes('<w:pStyle w:val="Heading1"/><w:pageBreakBefore w:val="0"/></w:pPr><w:r><w:t xml:space="preserve">第一章 开端'));
+        });
+
+        test('should use Heading1 for chapters in flat manuscript', () => {
+            const xml = documentXml(flatManuscript);
+            assert.ok(xml.includes('<w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t xml:space="preserve">第二章 出发'));
+        });
+
+        test('should render paragraphs without full-width indent', () => {
+            const xml = documentXml(flatManuscript);
+            assert.ok(xml.includes('<w:p><w:r><w:t xml:space="preserve">天色渐暗。</w:t></w:r></w:p>'));
+            assert.ok(!xml.includes('\u3000'));
+        });
+
+        test('should use Heading1 for volumes and Heading2 for chapters', () => {
+            const xml = documentXml(nestedManuscript);
+            assert.ok(xml.includes('<w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t xml:space="preserve">第二卷 远行'));
+            // 紧跟卷标题的章节不再分页
+            assert.ok(xml.includes('<w:pStyle w:val="Heading2"/><w:pageBreakBefore w:val="0"/></w:pPr><w:r><w:t xml:space="preserve">第二章 出发'));
+        });
+    });
+});
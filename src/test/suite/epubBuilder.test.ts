@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { buildEpub } from '../../utils/epubBuilder';
+import { crc32 } from '../../utils/zipWriter';
+import { Manuscript } from '../../types/export';
+import { readZip } from '../helpers/zipReader';
+
+suite('EpubBuilder Test Suite', () => {
+
+    const modified = new Date('2024-01-02T03:04:05.678Z');
+
+    const flatManuscript: Manuscript = {
+        metadata: { title: '测试小说', author: '张三', description: '一个<测试>故事' },
+        volumes: [{
+            chapters: [
+                { number: 1, heading: '第一章 开端', paragraphs: ['天色渐暗。', '「走吧。」他说。'], sourcePath: 'a.md' },
+                { number: 2, heading: '第二章 出发', paragraphs: ['翌日。'], sourcePath: 'b.md' }
+            ]
+        }]
+    };
+
+    const nestedManuscript: Manuscript = {
+        metadata: { title: '测试小说', author: '张三' },
+        volumes: [
+            { heading: '第一卷 崛起', chapters: [{ heading: '第一章 开端', paragraphs: ['一'], sourcePath: 'v1/a.md' }] },
+            { heading: '第二卷 远行', chapters: [{ heading: '第二章 出发', paragraphs: ['二'], sourcePath: 'v2/b.md' }] }
+        ]
+    };
+
+    suite('crc32', () => {
+        test('should match known checksum', () => {
+            assert.strictEqual(crc32(Buffer.from('123456789')), 0xCBF43926);
+        });
+    });
+
+    suite('container', () => {
+        test('should store uncompressed mimetype as first entry', () => {
+            const epub = buildEpub(flatManuscript, { modified });
+            assert.strictEqual(epub.toString('ascii', 30, 38), 'mimetype');
+            assert.strictEqual(epub.toString('ascii', 38, 58), 'application/epub+zip');
+
+            const entries = readZip(epub);
+            assert.strictEqual(Array.from(entries.keys())[0], 'mimetype');
+            assert.strictEqual(entries.get('mimetype')?.method, 0);
+        });
+
+        test('should point container.xml to content.opf', () => {
+            const entries = readZip(buildEpub(flatManuscript, { modified }));
+            assert.ok(entries.get('META-INF/container.xml')?.content.includes('full-path="OEBPS/content.opf"'));
+        });
+    });
+
+    suite('package document', () => {
+        test('should include metadata and modified date', () => {
+            const opf = readZip(buildEpub(flatManuscript, { modified })).get('OEBPS/content.opf')?.content ?? '';
+            assert.ok(opf.includes('<dc:title>测试小说</dc:title>'));
+            assert.ok(opf.includes('<dc:creator id="creator">张三</dc:creator>'));
+            assert.ok(opf.includes('<dc:description>一个&lt;测试&gt;故事</dc:description>'));
+            assert.ok(opf.includes('<meta property="dcterms:modified">2024-01-02T03:04:05Z</meta>'));
+            assert.ok(opf.includes('properties="nav"'));
+        });
+
+        test('should generate stable identifier for same title and author', () => {
+            const id = (buffer: Buffer) => /urn:uuid:[0-9a-f-]{36}/.exec(
+                readZip(buffer).get('OEBPS/content.opf')?.content ?? ''
+            )?.[0];
+            assert.ok(id(buildEpub(flatManuscript)));
+            assert.strictEqual(id(buildEpub(flatManuscript)), id(buildEpub(nestedManuscript)));
+        });
+
+        test('should list chapters in spine order', () => {
+            const opf = readZip(buildEpub(flatManuscript, { modified })).get('OEBPS/content.opf')?.content ?? '';
+            assert.ok(opf.indexOf('idref="chapter-0001"') < opf.indexOf('idref="chapter-0002"'));
+        });
+    });
+
+    suite('content', () => {
+        test('should render paragraphs with dialogue markup', () => {
+            const chapter = readZip(buildEpub(flatManuscript, { modified })).get('OEBPS/chapter-0001.xhtml')?.content ?? '';
+            assert.ok(chapter.includes('<h2>第一章 开端</h2>'));
+            assert.ok(chapter.includes('<p>天色渐暗。</p>'));
+            assert.ok(chapter.includes('<p><span class="dialogue">「走吧。」</span>他说。</p>'));
+        });
+
+        test('should not generate volume pages for flat manuscript', () => {
+            const entries = readZip(buildEpub(flatManuscript, { modified }));
+            assert.ok(!Array.from(entries.keys()).some(name => name.includes('volume-')));
+        });
+
+        test('should nest chapters under volumes in nav', () => {
+            const entries = readZip(buildEpub(nestedManuscript, { modified }));
+            assert.ok(entries.has('OEBPS/volume-01.xhtml'));
+            assert.ok(entries.has('OEBPS/volume-02.xhtml'));
+
+            const nav = entries.get('OEBPS/nav.xhtml')?.content ?? '';
+            assert.ok(/<li><a href="volume-01\.xhtml">第一卷 崛起<\/a>\n<ol>\n<li><a href="chapter-0001\.xhtml">第一章 开端<\/a><\/li>/.test(nav));
+
+            const ncx = entries.get('OEBPS/toc.ncx')?.content ?? '';
+            assert.ok(ncx.includes('<meta name="dtb:depth" content="2"/>'));
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import { forecastCompletion, parseDateOnly, resolveBookTargetWords } from '../../utils/forecast';
+
+suite('Forecast Test Suite', () => {
+
+    const today = new Date(2024, 2, 1, 20, 0, 0);
+
+    suite('parseDateOnly', () => {
+        test('should parse valid dates as local dates', () => {
+            const date = parseDateOnly('2024-02-29');
+            assert.ok(date);
+            assert.deepStrictEqual([date!.getFullYear(), date!.getMonth(), date!.getDate()], [2024, 1, 29]);
+        });
+
+        test('should reject invalid dates', () => {
+            assert.strictEqual(parseDateOnly('2023-02-29'), undefined);
+            assert.strictEqual(parseDateOnly('2024/02/01'), undefined);
+            assert.strictEqual(parseDateOnly(''), undefined);
+            assert.strictEqual(parseDateOnly(undefined), undefined);
+        });
+    });
+
+    suite('forecastCompletion', () => {
+        test('should estimate finish date from pace', () => {
+            const forecast = forecastCompletion({ current: 100000, target: 110000, dailyPace: 2000 }, today);
+            assert.strictEqual(forecast.remaining, 10000);
+            assert.strictEqual(forecast.progress, 91);
+            // 今天算第一天，5 天写完
+            assert.strictEqual(forecast.estimatedDate, '2024-03-05');
+            assert.strictEqual(forecast.behindSchedule, false);
+        });
+
+        test('should compute required daily words and stay on schedule', () => {
+            const forecast = forecastCompletion({ current: 0, target: 31000, dailyPace: 1000, deadline: '2024-03-31' }, today);
+            assert.strictEqual(forecast.daysLeft, 31);
+            assert.strictEqual(forecast.requiredDailyWords, 1000);
+            assert.strictEqual(forecast.estimatedDate, '2024-03-31');
+            assert.strictEqual(forecast.behindSchedule, false);
+        });
+
+        test('should be behind when estimated date passes deadline', () => {
+            const forecast = forecastCompletion({ current: 0, target: 31000, dailyPace: 999, deadline: '2024-03-31' }, today);
+            assert.strictEqual(forecast.estimatedDate, '2024-04-01');
+            assert.strictEqual(forecast.behindSchedule, true);
+        });
+
+        test('should be behind without progress and have no estimate', () => {
+            const forecast = forecastCompletion({ current: 0, target: 1000, dailyPace: -50, deadline: '2024-12-31' }, today);
+            assert.strictEqual(forecast.estimatedDate, undefined);
+            assert.strictEqual(forecast.dailyPace, 0);
+            assert.strictEqual(forecast.behindSchedule, true);
+        });
+
+        test('should require all remaining words after deadline passed', () => {
+            const forecast = forecastCompletion({ current: 500, target: 1000, dailyPace: 100, deadline: '2024-02-01' }, today);
+            assert.strictEqual(forecast.daysLeft, 0);
+            assert.strictEqual(forecast.requiredDailyWords, 500);
+            assert.strictEqual(forecast.behindSchedule, true);
+        });
+
+        test('should not be behind once target reached', () => {
+            const forecast = forecastCompletion({ current: 1200, target: 1000, dailyPace: 0, deadline: '2024-02-01' }, today);
+            assert.strictEqual(forecast.remaining, 0);
+            assert.strictEqual(forecast.progress, 100);
+            assert.strictEqual(forecast.estimatedDate, '2024-03-01');
+            assert.strictEqual(forecast.requiredDailyWords, undefined);
+            assert.strictEqual(forecast.behindSchedule, false);
+        });
+
+        test('should compute expected words by now from start and end date', () => {
+            const forecast = forecastCompletion({
+                current: 0, target: 10000, dailyPace: 0, startDate: '2024-02-21', deadline: '2024-03-11'
+            }, today);
+            // 20 天计划，今天是第 10 天
+            assert.strictEqual(forecast.expectedByNow, 5000);
+        });
+    });
+
+    suite('resolveBookTargetWords', () => {
+        test('should prefer total words', () => {
+            assert.strictEqual(resolveBookTargetWords({ totalWords: 500000, chapters: 100 }, 30000, 10, 2500), 500000);
+        });
+
+        test('should convert chapter target using average chapter words', () => {
+            assert.strictEqual(resolveBookTargetWords({ totalWords: 0, chapters: 100 }, 30000, 10, 2500), 300000);
+        });
+
+        test('should fall back to default chapter words without chapters', () => {
+            assert.strictEqual(resolveBookTargetWords({ totalWords: 0, chapters: 100 }, 0, 0, 2500), 250000);
+        });
+
+        test('should return 0 without target', () => {
+            assert.strictEqual(resolveBookTargetWords({ totalWords: 0, chapters: 0 }, 30000, 10, 2500), 0);
+        });
+    });
+});
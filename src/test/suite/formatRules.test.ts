@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import {
+    BUILTIN_FORMAT_RULES,
+    applyFormatRules,
+    createCustomFormatRule,
+    resolveFormatRules,
+    summarizeFormatChanges
+} from '../../utils/formatRules';
+import { FormatRuleContext } from '../../types/format';
+
+const context: FormatRuleContext = { quoteStyle: '「」' };
+
+const builtin = (name: string) => {
+    const rule = BUILTIN_FORMAT_RULES.find(r => r.name === name);
+    assert.ok(rule, `缺少内置规则 ${name}`);
+    return rule;
+};
+
+suite('FormatRules Test Suite', () => {
+
+    suite('Builtin rules', () => {
+        test('quotes should follow the configured style', () => {
+            assert.strictEqual(builtin('quotes').apply('他说:"你好"', context), '他说:「你好」');
+            assert.strictEqual(builtin('quotes').apply('他说:「你好」', { quoteStyle: '""' }), '他说:"你好"');
+            assert.strictEqual(builtin('quotes').apply('他说:「你好」', { quoteStyle: '“”' }), '他说:“你好”');
+        });
+
+        test('quotes should leave unbalanced quotes untouched', () => {
+            assert.strictEqual(builtin('quotes').apply('他说:"你好', context), '他说:"你好');
+        });
+
+        test('ellipsis and dash should be normalized', () => {
+            assert.strictEqual(builtin('ellipsis').apply('等等......', context), '等等…');
+            assert.strictEqual(builtin('dash').apply('他--不', context), '他——不');
+        });
+
+        test('punctuation should convert half-width marks next to Han characters', () => {
+            assert.strictEqual(builtin('punctuation').apply('你好,世界!真的?', context), '你好，世界！真的？');
+            assert.strictEqual(builtin('punctuation').apply('version 1.0', context), 'version 1.0');
+        });
+
+        test('cjkSpaces should remove every space between Han characters', () => {
+            assert.strictEqual(builtin('cjkSpaces').apply('一 二 三 Go', context), '一二三 Go');
+        });
+
+        test('ellipsis should run before punctuation', () => {
+            const { text } = applyFormatRules('他说...', BUILTIN_FORMAT_RULES, context);
+            assert.strictEqual(text, '他说…');
+        });
+    });
+
+    suite('resolveFormatRules', () => {
+        test('should enable all builtin rules by default', () => {
+            const { rules, errors } = resolveFormatRules(undefined);
+            assert.deepStrictEqual(rules.map(r => r.name), BUILTIN_FORMAT_RULES.map(r => r.name));
+            assert.deepStrictEqual(errors, []);
+        });
+
+        test('should drop rules that are switched off', () => {
+            const { rules } = resolveFormatRules({ dash: false, cjkSpaces: false });
+            assert.deepStrictEqual(rules.map(r => r.name), ['quotes', 'ellipsis', 'punctuation']);
+            assert.ok(!resolveFormatRules({}, false).rules.some(r => r.name === 'quotes'));
+        });
+
+        test('should append custom rules and report invalid ones', () => {
+            const { rules, errors } = resolveFormatRules({
+                custom: [
+                    { name: '统一称呼', pattern: '师父', replacement: '师傅' },
+                    { name: '坏规则', pattern: '(', replacement: '' },
+                    { name: '停用', pattern: 'a', replacement: 'b', enabled: false },
+                    { name: '范围', pattern: 'a', replacement: 'b', scope: 'title' as never }
+                ]
+            });
+            assert.strictEqual(rules[rules.length - 1].name, '统一称呼');
+            assert.strictEqual(rules.filter(r => r.name === '停用').length, 0);
+            assert.strictEqual(errors.length, 2);
+            assert.ok(errors[0].includes('"坏规则"'));
+            assert.ok(errors[1].includes('作用范围无效'));
+        });
+    });
+
+    suite('Custom rule scope', () => {
+        const line = '师父说：「师父来了。」师父笑了。';
+
+        test('body scope should replace everywhere', () => {
+            const rule = createCustomFormatRule({ name: 'r', pattern: '师父', replacement: '师傅' });
+            assert.strictEqual(rule.apply(line, context), '师傅说：「师傅来了。」师傅笑了。');
+        });
+
+        test('dialogue scope should only replace inside quotes', () => {
+            const rule = createCustomFormatRule({ name: 'r', pattern: '师父', replacement: '师傅', scope: 'dialogue' });
+            assert.strictEqual(rule.apply(line, context), '师父说：「师傅来了。」师父笑了。');
+        });
+
+        test('narration scope should only replace outside quotes', () => {
+            const rule = createCustomFormatRule({ name: 'r', pattern: '师父', replacement: '师傅', scope: 'narration' });
+            assert.strictEqual(rule.apply(line, context), '师傅说：「师父来了。」师傅笑了。');
+        });
+
+        test('should support group references', () => {
+            const rule = createCustomFormatRule({ name: 'r', pattern: '(\\d+)块', replacement: '$1元' });
+            assert.strictEqual(rule.apply('花了30块', context), '花了30元');
+        });
+    });
+
+    suite('applyFormatRules', () => {
+        test('should report which rule changed the line', () => {
+            const { text, changes } = applyFormatRules('他说--等等...', BUILTIN_FORMAT_RULES, context, 4);
+            assert.strictEqual(text, '他说——等等…');
+            assert.deepStrictEqual(changes.map(c => [c.rule, c.line]), [['ellipsis', 4], ['dash', 4]]);
+            assert.strictEqual(changes[0].before, '他说--等等...');
+            assert.strictEqual(changes[1].after, text);
+        });
+
+        test('should pass the whole line to quote conversion', () => {
+            const { text } = applyFormatRules('"一<!-- 注释 -->二"', BUILTIN_FORMAT_RULES, context);
+            assert.strictEqual(text, '「一<!-- 注释 -->二」');
+        });
+
+        test('should leave inline HTML comments untouched', () => {
+            const { text } = applyFormatRules('他--走了<!-- noveler-ignore: a--b -->', BUILTIN_FORMAT_RULES, context);
+            assert.strictEqual(text, '他——走了<!-- noveler-ignore: a--b -->');
+        });
+
+        test('should skip blank lines', () => {
+            assert.deepStrictEqual(applyFormatRules('   ', BUILTIN_FORMAT_RULES, context), { text: '   ', changes: [] });
+        });
+    });
+
+    suite('summarizeFormatChanges', () => {
+        test('should count changed lines per rule', () => {
+            const changes = [
+                ...applyFormatRules('好...', BUILTIN_FORMAT_RULES, context, 0).changes,
+                ...applyFormatRules('是...', BUILTIN_FORMAT_RULES, context, 2).changes,
+                ...applyFormatRules('你好,他', BUILTIN_FORMAT_RULES, context, 3).changes
+            ];
+            assert.strictEqual(summarizeFormatChanges(changes), '省略号 2 行、标点 1 行');
+            assert.strictEqual(summarizeFormatChanges([]), '');
+        });
+    });
+});
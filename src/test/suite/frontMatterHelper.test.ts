@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { extractContentWithoutFrontmatterForMatching, getFrontmatterEndOffsetForMatching } from '../../utils/frontMatterHelper';
+import { extractContentWithoutFrontmatterForMatching, getFrontmatterEndOffsetForMatching } from '../../utils/frontMatterParser';
 
 suite('FrontMatterHelper Test Suite', () => {
 
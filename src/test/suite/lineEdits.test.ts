@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { LineEdit, computeLineEdits, isLineEditWithin } from '../../utils/lineEdits';
+
+/** 从后往前依次应用编辑 */
+function applyEdits(text: string, edits: LineEdit[]): string {
+    return [...edits]
+        .sort((a, b) => b.start - a.start || b.end - a.end)
+        .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), text);
+}
+
+function assertRoundTrip(original: string, formatted: string): LineEdit[] {
+    const edits = computeLineEdits(original, formatted);
+    assert.strictEqual(applyEdits(original, edits), formatted);
+    for (let i = 1; i < edits.length; i++) {
+        assert.ok(edits[i].start >= edits[i - 1].end, 'edits should not overlap');
+    }
+    return edits;
+}
+
+suite('LineEdits Test Suite', () => {
+
+    suite('computeLineEdits', () => {
+        test('should return no edits for identical text', () => {
+            assert.deepStrictEqual(computeLineEdits('第一段\n第二段', '第一段\n第二段'), []);
+        });
+
+        test('should only touch changed lines', () => {
+            const edits = assertRoundTrip('第一段.\n\n第二段\n\n第三段,', '第一段。\n\n第二段\n\n第三段，');
+            assert.deepStrictEqual(edits.map(edit => [edit.startLine, edit.endLine]), [[0, 1], [4, 5]]);
+            assert.deepStrictEqual(edits.map(edit => edit.text), ['第一段。', '第三段，']);
+        });
+
+        test('should insert and remove blank lines between paragraphs', () => {
+            const inserted = assertRoundTrip('第一段\n第二段\n第三段', '第一段\n\n第二段\n\n第三段');
+            assert.ok(inserted.every(edit => edit.startLine === edit.endLine && edit.text === '\n'));
+
+            const removed = assertRoundTrip('第一段\n\n\n第二段\n\n\n', '第一段\n\n第二段');
+            assert.strictEqual(removed.length, 2);
+        });
+
+        test('should handle changes at document edges and CRLF lines', () => {
+            assertRoundTrip('第一段', '　　第一段');
+            assertRoundTrip('第一段\n第二段', '第一段\n第二段\n');
+            assertRoundTrip('第一段\r\n\r\n\r\n第二段.\r', '第一段\r\n\r\n第二段。\r');
+            assertRoundTrip('\n\n第一段', '第一段');
+        });
+
+        test('should fall back to a single edit when lines cannot be aligned', () => {
+            const edits = assertRoundTrip('开头\n甲\n乙\n结尾', '开头\n甲乙丙\n结尾');
+            assert.deepStrictEqual(edits.map(edit => [edit.startLine, edit.endLine]), [[1, 3]]);
+        });
+    });
+
+    suite('isLineEditWithin', () => {
+        const edits = computeLineEdits('甲.\n乙.\n丙.\n丁.', '甲。\n\n乙。\n\n丙。\n\n丁。');
+
+        test('should keep edits inside the selected lines', () => {
+            const within = edits.filter(edit => isLineEditWithin(edit, 1, 2));
+            assert.deepStrictEqual(within.map(edit => [edit.startLine, edit.endLine]), [[1, 2], [2, 2], [2, 3]]);
+        });
+
+        test('should not insert blank lines before the first selected line', () => {
+            const insertion = edits.find(edit => edit.startLine === 1 && edit.endLine === 1)!;
+            assert.strictEqual(isLineEditWithin(insertion, 1, 3), false);
+            assert.strictEqual(isLineEditWithin(insertion, 0, 1), true);
+        });
+    });
+});
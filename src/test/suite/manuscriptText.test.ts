@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import { PARAGRAPH_INDENT } from '../../constants';
+import {
+    extractParagraphs,
+    extractHeading,
+    escapeXml,
+    markupParagraph,
+    selectManuscriptScope
+} from '../../utils/manuscriptText';
+import { Manuscript } from '../../types/export';
+
+suite('ManuscriptText Test Suite', () => {
+
+    const chapter = `---
+title: 开端
+chapter: 1
+---
+
+# 第一章 开端
+
+${PARAGRAPH_INDENT}天色渐暗。
+<!-- 这里需要补充环境描写 -->
+
+${PARAGRAPH_INDENT}「走吧。」他说。
+`;
+
+    suite('extractParagraphs', () => {
+        test('should strip front matter, headings, comments and indentation', () => {
+            assert.deepStrictEqual(extractParagraphs(chapter), ['天色渐暗。', '「走吧。」他说。']);
+        });
+
+        test('should handle CRLF line endings', () => {
+            assert.deepStrictEqual(extractParagraphs(chapter.replace(/\n/g, '\r\n')), ['天色渐暗。', '「走吧。」他说。']);
+        });
+
+        test('should return empty array for empty chapter', () => {
+            assert.deepStrictEqual(extractParagraphs('---\ntitle: 空\n---\n\n# 第二章 空\n'), []);
+        });
+
+        test('should keep sub-headings as paragraphs', () => {
+            const text = `# 第一章 开端\n\n${PARAGRAPH_INDENT}天色渐暗。\n\n## 小节\n\n${PARAGRAPH_INDENT}雨停了。\n`;
+            assert.deepStrictEqual(extractParagraphs(text), ['天色渐暗。', '小节', '雨停了。']);
+        });
+
+        test('should keep a scene break right after the front matter', () => {
+            const text = `---\ntitle: a\n---\n---\n${PARAGRAPH_INDENT}场景一。\n---\n${PARAGRAPH_INDENT}场景二。\n`;
+            assert.deepStrictEqual(extractParagraphs(text), ['---', '场景一。', '---', '场景二。']);
+        });
+    });
+
+    suite('extractHeading', () => {
+        test('should extract first level-1 heading', () => {
+            assert.strictEqual(extractHeading(chapter), '第一章 开端');
+        });
+
+        test('should return undefined without heading', () => {
+            assert.strictEqual(extractHeading('正文'), undefined);
+        });
+    });
+
+    suite('escapeXml', () => {
+        test('should escape XML special characters', () => {
+            assert.strictEqual(escapeXml('<a href="x">&</a>'), '&lt;a href=&quot;x&quot;&gt;&amp;&lt;/a&gt;');
+        });
+    });
+
+    suite('markupParagraph', () => {
+        test('should wrap corner-bracket dialogue', () => {
+            assert.strictEqual(
+                markupParagraph('「走吧。」他说。'),
+                '<span class="dialogue">「走吧。」</span>他说。'
+            );
+        });
+
+        test('should wrap curly and straight quotes', () => {
+            assert.strictEqual(
+                markupParagraph('“好”与"坏"'),
+                '<span class="dialogue">“好”</span>与<span class="dialogue">&quot;坏&quot;</span>'
+            );
+        });
+
+        test('should escape text inside and outside dialogue', () => {
+            assert.strictEqual(
+                markupParagraph('a<b 「x&y」'),
+                'a&lt;b <span class="dialogue">「x&amp;y」</span>'
+            );
+        });
+    });
+
+    suite('selectManuscriptScope', () => {
+        const chapter = (heading: string, sourcePath: string) => ({ heading, paragraphs: [heading], sourcePath });
+        const manuscript: Manuscript = {
+            metadata: { title: '书', author: '作者' },
+            volumes: [
+                { heading: '第一卷', chapters: [chapter('第一章', 'v1/1.md'), chapter('第二章', 'v1/2.md')] },
+                { heading: '第二卷', chapters: [chapter('第三章', 'v2/3.md'), chapter('第四章', 'v2/4.md')] }
+            ]
+        };
+        const headings = (result: Manuscript) =>
+            result.volumes.map(volume => `${volume.heading}:${volume.chapters.map(c => c.heading).join(',')}`);
+
+        test('should keep everything for all scope', () => {
+            assert.deepStrictEqual(headings(selectManuscriptScope(manuscript, { type: 'all' })), ['第一卷:第一章,第二章', '第二卷:第三章,第四章']);
+        });
+
+        test('should select single chapter by source path', () => {
+            assert.deepStrictEqual(headings(selectManuscriptScope(manuscript, { type: 'chapter', sourcePath: 'v2/3.md' })), ['第二卷:第三章']);
+        });
+
+        test('should select volume by index', () => {
+            assert.deepStrictEqual(headings(selectManuscriptScope(manuscript, { type: 'volume', volumeIndex: 0 })), ['第一卷:第一章,第二章']);
+        });
+
+        test('should select range across volumes', () => {
+            assert.deepStrictEqual(headings(selectManuscriptScope(manuscript, { type: 'range', start: 2, end: 3 })), ['第一卷:第二章', '第二卷:第三章']);
+        });
+
+        test('should not modify original manuscript', () => {
+            selectManuscriptScope(manuscript, { type: 'range', start: 1, end: 1 });
+            assert.strictEqual(manuscript.volumes[1].chapters.length, 2);
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EXIT_SENSITIVE_FOUND, EXIT_USAGE_ERROR, parseCliArgs, runCli } from '../../cli/noveler';
+import { CliError } from '../../cli/project';
+
+suite('Noveler CLI Test Suite', () => {
+    let projectRoot: string;
+    let stdout: string[];
+    let stderr: string[];
+
+    const run = (...argv: string[]) => runCli(argv, {
+        cwd: projectRoot,
+        stdout: text => stdout.push(text),
+        stderr: text => stderr.push(text)
+    });
+    const writeChapter = (name: string, content: string) => {
+        const filePath = path.join(projectRoot, 'chapters', name);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+    };
+
+    setup(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'noveler-cli-'));
+        fs.writeFileSync(path.join(projectRoot, 'novel.jsonc'), '{\n  // 项目配置\n  "noveler": {}\n}');
+        stdout = [];
+        stderr = [];
+    });
+
+    teardown(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    suite('parseCliArgs', () => {
+        test('should parse command, files and options', () => {
+            assert.deepStrictEqual(parseCliArgs(['check', 'a.md', '--fail-on', 'medium', '--json', '--profile', '晋江']), {
+                command: 'check',
+                files: ['a.md'],
+                failOn: 'medium',
+                json: true,
+                profile: '晋江'
+            });
+        });
+
+        test('should reject unknown commands, options and levels', () => {
+            assert.throws(() => parseCliArgs(['lint']), CliError);
+            assert.throws(() => parseCliArgs(['check', '--strict']), CliError);
+            assert.throws(() => parseCliArgs(['check', '--fail-on', 'critical']), CliError);
+            assert.throws(() => parseCliArgs(['check', '--root']), CliError);
+            assert.throws(() => parseCliArgs(['stats', 'a.md']), CliError);
+        });
+    });
+
+    suite('check', () => {
+        test('should exit non-zero on high level hits', async () => {
+            writeChapter('第001章.md', '# 第一章\n\n他提到了法轮功。\n');
+            assert.strictEqual(await run('check'), EXIT_SENSITIVE_FOUND);
+            assert.ok(stdout[0].startsWith('chapters/第001章.md:3:5'));
+        });
+
+        test('should pass when hits are ignored or below --fail-on', async () => {
+            writeChapter('第001章.md', '他提到了法轮功。<!-- noveler-ignore: 法轮功 -->\n');
+            assert.strictEqual(await run('check'), 0);
+
+            writeChapter('第001章.md', '他提到了法轮功。\n');
+            assert.strictEqual(await run('check', '--fail-on', 'none'), 0);
+        });
+
+        test('should honour ignores.json entries recorded by the extension', async () => {
+            writeChapter('第001章.md', '他提到了法轮功。\n');
+            const ignoresDir = path.join(projectRoot, '.noveler', 'sensitive-words');
+            fs.mkdirSync(ignoresDir, { recursive: true });
+            fs.writeFileSync(path.join(ignoresDir, 'ignores.json'), JSON.stringify({
+                ignores: [{ chapter: 'chapters/第001章.md', word: '法轮功', before: '他提到了', after: '。', createdAt: '' }]
+            }));
+            assert.strictEqual(await run('check'), 0);
+        });
+
+        test('should output JSON report for given files', async () => {
+            writeChapter('第001章.md', '---\ntitle: 开端\n---\n法轮功\n');
+            writeChapter('第002章.md', '法轮功\n');
+            assert.strictEqual(await run('check', 'chapters/第001章.md', '--json'), EXIT_SENSITIVE_FOUND);
+            const report = JSON.parse(stdout.join('\n'));
+            assert.strictEqual(report.scannedChapters, 1);
+            assert.strictEqual(report.chapters[0].title, '开端');
+            assert.strictEqual(report.levels.high, 1);
+        });
+
+        test('should fail with usage error for unknown profiles', async () => {
+            assert.strictEqual(await run('check', '--profile', '起点'), EXIT_USAGE_ERROR);
+            assert.ok(stderr[0].includes('起点'));
+        });
+    });
+
+    suite('stats', () => {
+        test('should count chapters with the configured profile', async () => {
+            fs.writeFileSync(path.join(projectRoot, 'novel.jsonc'), '{ "noveler": { "wordCount": { "includePunctuation": false } } }');
+            writeChapter('第一卷/第002章.md', '# 第二章\n\n第二章正文。\n');
+            writeChapter('第一卷/第001章.md', '---\ntitle: 开端\n---\n这是一段测试文本。\n');
+            assert.strictEqual(await run('stats', '--json'), 0);
+
+            const stats = JSON.parse(stdout.join('\n'));
+            assert.strictEqual(stats.profile, 'default');
+            assert.deepStrictEqual(stats.chapters.map((chapter: { title: string }) => chapter.title), ['开端', '第002章']);
+            assert.deepStrictEqual(stats.chapters[0], { path: 'chapters/第一卷/第001章.md', title: '开端', content: 8, punctuation: 1, total: 8 });
+            assert.strictEqual(stats.total, 13);
+        });
+
+        test('should fail outside a Noveler project', async () => {
+            fs.rmSync(path.join(projectRoot, 'novel.jsonc'));
+            const code = await runCli(['stats'], { cwd: os.tmpdir(), stdout: () => undefined, stderr: text => stderr.push(text) });
+            assert.strictEqual(code, EXIT_USAGE_ERROR);
+        });
+    });
+});
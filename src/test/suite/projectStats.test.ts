@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { aggregateProjectStats, VolumeInfo } from '../../utils/projectStats';
+import { computeProseMetrics } from '../../utils/proseMetrics';
+import { ChapterStats } from '../../services/projectStatsService';
+
+const chapter = (title: string, wordCount: number, status: string, volumeTitle?: string): ChapterStats => ({
+    title,
+    volumeTitle,
+    wordCount,
+    status,
+    metrics: computeProseMetrics([])
+});
+
+const volume = (number: number, title: string): VolumeInfo => ({
+    volume: number,
+    volumeType: 'main',
+    title,
+    folderName: `第${number}卷-${title}`,
+    status: 'writing'
+});
+
+suite('ProjectStats Test Suite', () => {
+
+    suite('aggregateProjectStats', () => {
+        test('should return empty stats for a project without chapters', () => {
+            const stats = aggregateProjectStats({ chapters: [], volumes: [], characterCount: 2 });
+            assert.strictEqual(stats.chapterCount, 0);
+            assert.strictEqual(stats.completionRate, 0);
+            assert.strictEqual(stats.characterCount, 2);
+            assert.deepStrictEqual(stats.statusBreakdown, { '草稿': 0, '初稿': 0, '修改中': 0, '已完成': 0 });
+        });
+
+        test('should count flat chapters', () => {
+            const stats = aggregateProjectStats({
+                chapters: [chapter('第一章', 3000, '已完成'), chapter('第二章', 2000, '草稿'), chapter('第三章', 1000, '草稿')],
+                volumes: [],
+                characterCount: 0
+            });
+            assert.strictEqual(stats.totalWords, 6000);
+            assert.strictEqual(stats.chapterCount, 3);
+            assert.strictEqual(stats.completedChapters, 1);
+            assert.strictEqual(stats.completionRate, 33);
+            assert.deepStrictEqual(stats.volumes, []);
+        });
+
+        test('should count root chapters and nested volumes together', () => {
+            const stats = aggregateProjectStats({
+                chapters: [chapter('序章', 500, '已完成')],
+                volumes: [
+                    {
+                        volume: volume(1, '起'),
+                        chapters: [chapter('第一章', 3000, '已完成', '起'), chapter('第二章', 2500, '修改中', '起')]
+                    },
+                    { volume: volume(2, '承'), chapters: [] }
+                ],
+                characterCount: 0
+            });
+
+            assert.strictEqual(stats.totalWords, 6000);
+            assert.strictEqual(stats.chapterCount, 3);
+            assert.strictEqual(stats.completedChapters, 2);
+            assert.strictEqual(stats.completionRate, 67);
+            assert.deepStrictEqual(stats.chapters.map(c => c.title), ['序章', '第一章', '第二章']);
+            assert.deepStrictEqual(
+                stats.volumes.map(v => [v.title, v.totalWords, v.chapterCount, v.completedChapters]),
+                [['起', 5500, 2, 1], ['承', 0, 0, 0]]
+            );
+            assert.strictEqual(stats.volumes[0].folderName, '第1卷-起');
+        });
+
+        test('should break chapters down by status, keeping unknown statuses', () => {
+            const stats = aggregateProjectStats({
+                chapters: [chapter('一', 100, '草稿'), chapter('二', 100, '草稿'), chapter('三', 100, '待定')],
+                volumes: [{ volume: volume(1, '起'), chapters: [chapter('四', 100, '已完成', '起')] }],
+                characterCount: 0
+            });
+            assert.deepStrictEqual(stats.statusBreakdown, { '草稿': 2, '初稿': 0, '修改中': 0, '已完成': 1, '待定': 1 });
+        });
+    });
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { computeProseMetrics, formatRatio } from '../../utils/proseMetrics';
+
+suite('ProseMetrics Test Suite', () => {
+
+    suite('computeProseMetrics', () => {
+        test('should return zeros for empty chapters', () => {
+            assert.deepStrictEqual(computeProseMetrics(['', '  ']), {
+                paragraphCount: 0,
+                dialogueRatio: 0,
+                thoughtRatio: 0,
+                avgParagraphLength: 0,
+                avgSentenceLength: 0,
+                longestParagraph: 0
+            });
+        });
+
+        test('should compute dialogue share and lengths', () => {
+            assert.deepStrictEqual(computeProseMetrics(['「走。」', '他没动。']), {
+                paragraphCount: 2,
+                dialogueRatio: 0.5,
+                thoughtRatio: 0,
+                avgParagraphLength: 4,
+                avgSentenceLength: 4,
+                longestParagraph: 4
+            });
+        });
+
+        test('should compute inner monologue share from full-width parentheses', () => {
+            const metrics = computeProseMetrics(['（不能输。）他握紧拳头。']);
+            assert.strictEqual(metrics.thoughtRatio, 6 / 12);
+            assert.strictEqual(metrics.dialogueRatio, 0);
+        });
+
+        test('should recognize curly and straight quotes as dialogue', () => {
+            const metrics = computeProseMetrics(['“好。”', '"好。"']);
+            assert.strictEqual(metrics.dialogueRatio, 1);
+        });
+
+        test('should split sentences on terminal punctuation followed by closing quotes', () => {
+            // 「你来了？」她问。他点头……然后坐下！ => 4 句
+            const metrics = computeProseMetrics(['「你来了？」她问。他点头……然后坐下！']);
+            assert.strictEqual(metrics.avgSentenceLength, Math.round(19 / 4));
+        });
+
+        test('should ignore whitespace and report the longest paragraph', () => {
+            const metrics = computeProseMetrics(['\u3000\u3000一二三。', '一二三四五六七八九。']);
+            assert.strictEqual(metrics.longestParagraph, 10);
+            assert.strictEqual(metrics.avgParagraphLength, 7);
+        });
+    });
+
+    suite('formatRatio', () => {
+        test('should format ratio as rounded percentage', () => {
+            assert.strictEqual(formatRatio(0.354), '35%');
+            assert.strictEqual(formatRatio(0), '0%');
+        });
+    });
+});
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import { analyzeQuotes, convertNestedQuotes, getQuoteLevels } from '../../utils/quoteNesting';
+
+suite('QuoteNesting Test Suite', () => {
+
+    suite('getQuoteLevels', () => {
+        test('should use 『』, ‘’ or straight single quotes for inner quotes', () => {
+            assert.deepStrictEqual(getQuoteLevels('「」'), [['「', '」'], ['『', '』']]);
+            assert.deepStrictEqual(getQuoteLevels('“”'), [['“', '”'], ['‘', '’']]);
+            assert.deepStrictEqual(getQuoteLevels('""'), [['"', '"'], ["'", "'"]]);
+        });
+    });
+
+    suite('convertNestedQuotes', () => {
+        test('should convert quotes by nesting depth', () => {
+            assert.strictEqual(convertNestedQuotes('他说："她说‘好’。"', '「」'), '他说：「她说『好』。」');
+            assert.strictEqual(convertNestedQuotes('他说：「她说「好」。」', '「」'), '他说：「她说『好』。」');
+            assert.strictEqual(convertNestedQuotes('他说：「她说『好』。」', '“”'), '他说：“她说‘好’。”');
+            assert.strictEqual(convertNestedQuotes('他说：「她说『好』。」', '""'), '他说："她说\'好\'。"');
+        });
+
+        test('should alternate levels for deeper nesting', () => {
+            assert.strictEqual(convertNestedQuotes('“甲“乙“丙”乙”甲”', '「」'), '「甲『乙「丙」乙』甲」');
+        });
+
+        test('should pair straight quotes in order', () => {
+            assert.strictEqual(convertNestedQuotes('"你好"，"再见"', '「」'), '「你好」，「再见」');
+        });
+
+        test('should treat unmatched ’ as an apostrophe', () => {
+            assert.strictEqual(convertNestedQuotes('他说："It’s fine."', '「」'), '他说：「It’s fine.」');
+        });
+
+        test('should leave unbalanced lines untouched', () => {
+            assert.strictEqual(convertNestedQuotes('他说："你好', '「」'), '他说："你好');
+            assert.strictEqual(convertNestedQuotes('你好」"再见"', '「」'), '你好」"再见"');
+            assert.strictEqual(convertNestedQuotes('“你好」', '「」'), '“你好」');
+        });
+
+        test('should skip quotes inside HTML comments', () => {
+            assert.strictEqual(
+                convertNestedQuotes('"好"<!-- noveler-ignore: "词 -->', '「」'),
+                '「好」<!-- noveler-ignore: "词 -->'
+            );
+        });
+    });
+
+    suite('analyzeQuotes', () => {
+        test('should accept quotes spanning paragraphs', () => {
+            const lines = ['“第一段。', '', '“第二段。', '“第三段。”', '后文。'];
+            const { states, issues } = analyzeQuotes(lines);
+            assert.deepStrictEqual(issues, []);
+            assert.deepStrictEqual(states[2].open, ['double']);
+            assert.deepStrictEqual(states[4].open, []);
+            assert.deepStrictEqual(
+                lines.map((line, i) => convertNestedQuotes(line, '「」', states[i])),
+                ['「第一段。', '', '「第二段。', '「第三段。」', '后文。']
+            );
+        });
+
+        test('should keep nesting levels across paragraphs', () => {
+            const lines = ['"他说：‘第一段。', '"‘第二段。’"'];
+            const { states, issues } = analyzeQuotes(lines);
+            assert.deepStrictEqual(issues, []);
+            assert.strictEqual(convertNestedQuotes(lines[1], '「」', states[1]), '「『第二段。』」');
+        });
+
+        test('should report an unclosed quote when the next paragraph does not reopen it', () => {
+            const lines = ['「第一段。', '「第二段。', '第三段。'];
+            const { states, issues } = analyzeQuotes(lines);
+            assert.deepStrictEqual(issues, [{ line: 0, column: 0, quote: '「', message: '左引号 「 没有闭合' }]);
+            assert.deepStrictEqual(states.map(state => state.balanced), [false, false, true]);
+        });
+
+        test('should not let quotes span a heading', () => {
+            const { issues } = analyzeQuotes(['「第一段。', null, '「第二段。」']);
+            assert.strictEqual(issues.length, 1);
+            assert.strictEqual(issues[0].line, 0);
+        });
+
+        test('should report stray and mismatched closing quotes', () => {
+            const { states, issues } = analyzeQuotes(['你好」', '“你好」', '「好」']);
+            assert.deepStrictEqual(issues.map(issue => [issue.line, issue.column, issue.message]), [
+                [0, 2, '多余的右引号 」'],
+                [1, 3, '右引号 」 与左引号 “ 不配对']
+            ]);
+            assert.deepStrictEqual(states.map(state => state.balanced), [false, false, true]);
+        });
+    });
+});
@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SensitiveWordDetector, resolveSensitiveWordConfig } from '../../utils/sensitiveDetector';
+
+const builtinDir = path.resolve(__dirname, '../../../templates/sensitive-words');
+
+suite('SensitiveDetector Test Suite', () => {
+    let workspaceRoot: string;
+    const readFile = (filePath: string) => fs.promises.readFile(filePath, 'utf8');
+
+    setup(() => {
+        workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'noveler-detector-'));
+        fs.mkdirSync(path.join(workspaceRoot, '.noveler', 'sensitive-words'), { recursive: true });
+    });
+
+    teardown(() => {
+        fs.rmSync(workspaceRoot, { recursive: true, force: true });
+    });
+
+    suite('resolveSensitiveWordConfig', () => {
+        test('should fill defaults for missing config', () => {
+            const { config, missingProfile } = resolveSensitiveWordConfig(undefined);
+            assert.strictEqual(config.enabled, true);
+            assert.deepStrictEqual(config.builtInLibrary?.levels, { high: true, medium: false, low: false });
+            assert.strictEqual(missingProfile, undefined);
+        });
+
+        test('should migrate legacy levels config', () => {
+            const { config } = resolveSensitiveWordConfig({ levels: { high: true, medium: true, low: false } });
+            assert.deepStrictEqual(config.builtInLibrary?.levels, { high: true, medium: true, low: false });
+        });
+
+        test('should apply requested profile and report missing ones', () => {
+            const userConfig = { profiles: { '晋江': { levels: { low: true } } } };
+            assert.strictEqual(resolveSensitiveWordConfig(userConfig, '晋江').config.builtInLibrary?.levels.low, true);
+            assert.strictEqual(resolveSensitiveWordConfig(userConfig, '起点').missingProfile, '起点');
+        });
+    });
+
+    suite('SensitiveWordDetector', () => {
+        test('should detect nothing before loading', () => {
+            assert.deepStrictEqual(SensitiveWordDetector.empty().detectText('法轮功'), []);
+        });
+
+        test('should detect builtin words outside front matter', async () => {
+            const detector = await SensitiveWordDetector.load(resolveSensitiveWordConfig(undefined).config, { builtinDir, readFile });
+            const text = '---\ntitle: 法轮功\n---\n正文提到法轮功。';
+            const matches = detector.detectText(text);
+            assert.strictEqual(matches.length, 1);
+            assert.strictEqual(matches[0].level, 'high');
+            assert.strictEqual(text.slice(matches[0].start, matches[0].end), '法轮功');
+        });
+
+        test('should load custom words and whitelist from the project', async () => {
+            const dir = path.join(workspaceRoot, '.noveler', 'sensitive-words');
+            fs.writeFileSync(path.join(dir, 'custom-words.jsonc'), '{\n  // 项目词库\n  "words": ["魔教"]\n}');
+            fs.writeFileSync(path.join(dir, 'whitelist.jsonc'), '{ "words": ["法轮功"] }');
+
+            const detector = await SensitiveWordDetector.load(resolveSensitiveWordConfig(undefined).config, {
+                builtinDir,
+                workspaceRoot,
+                readFile
+            });
+            assert.deepStrictEqual(detector.detectText('魔教弟子提到法轮功。').map(match => match.word), ['魔教']);
+        });
+
+        test('should report missing project files through the logger without failing', async () => {
+            const messages: string[] = [];
+            const logger = { info: (message: string) => messages.push(message), warn: (message: string) => messages.push(message) };
+            const detector = await SensitiveWordDetector.load(resolveSensitiveWordConfig(undefined).config, {
+                builtinDir,
+                workspaceRoot,
+                readFile,
+                logger
+            });
+            assert.ok(detector.getStatistics().totalWords > 0);
+            assert.ok(messages.length > 0);
+        });
+    });
+});
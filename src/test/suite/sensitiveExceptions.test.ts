@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { findExceptionPhrase, parseExceptionTable } from '../../utils/sensitiveExceptions';
+
+suite('SensitiveExceptions Test Suite', () => {
+
+    suite('parseExceptionTable', () => {
+        test('should accept single phrase or array and drop invalid phrases', () => {
+            const table = parseExceptionTable({
+                exceptions: { '日': ['日子', '日子', '今日', '明天', '日', 1], '草': '草原', ' ': ['空'] }
+            });
+            assert.deepStrictEqual([...table.entries()], [['日', ['日子', '今日']], ['草', ['草原']]]);
+        });
+
+        test('should return empty table for malformed data', () => {
+            assert.strictEqual(parseExceptionTable(null).size, 0);
+            assert.strictEqual(parseExceptionTable({ exceptions: ['日子'] }).size, 0);
+        });
+    });
+
+    suite('findExceptionPhrase', () => {
+        const phrases = ['日子', '今日', '日复一日'];
+
+        test('should find phrases around the match', () => {
+            assert.strictEqual(findExceptionPhrase('过日子', 1, 2, phrases), '日子');
+            assert.strictEqual(findExceptionPhrase('今日无事', 1, 2, phrases), '今日');
+        });
+
+        test('should align every occurrence of the word in the phrase', () => {
+            const text = '日复一日';
+            assert.strictEqual(findExceptionPhrase(text, 0, 1, ['日复一日']), '日复一日');
+            assert.strictEqual(findExceptionPhrase(text, 3, 4, ['日复一日']), '日复一日');
+        });
+
+        test('should not match when the phrase is incomplete', () => {
+            assert.strictEqual(findExceptionPhrase('日你', 0, 1, phrases), undefined);
+            assert.strictEqual(findExceptionPhrase('子日', 1, 2, phrases), undefined);
+        });
+    });
+});
@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import {
+    createIgnoreEntry,
+    filterIgnoredMatches,
+    findIgnoredOccurrence,
+    findInlineIgnoreMarkers,
+    getInlineIgnoreRemovalRange,
+    isSameIgnore,
+    matchesIgnoreEntry,
+    parseIgnoreFile
+} from '../../utils/sensitiveIgnores';
+import { SensitiveMatch } from '../../types/sensitiveWord';
+
+function match(text: string, word: string, from = 0): SensitiveMatch {
+    const start = text.indexOf(word, from);
+    return { word, start, end: start + word.length, level: 'low', inWhitelist: false };
+}
+
+suite('SensitiveIgnores Test Suite', () => {
+
+    suite('parseIgnoreFile', () => {
+        test('should keep valid entries and fill missing context', () => {
+            const entries = parseIgnoreFile({
+                ignores: [
+                    { chapter: 'chapters/第001章.md', word: '该死', before: '他说：', createdAt: '2025-12-01 10:00' },
+                    { chapter: 'chapters/第001章.md', word: '' },
+                    { word: '该死' },
+                    null
+                ]
+            });
+            assert.deepStrictEqual(entries, [
+                { chapter: 'chapters/第001章.md', word: '该死', before: '他说：', after: '', createdAt: '2025-12-01 10:00' }
+            ]);
+        });
+
+        test('should return empty list for malformed data', () => {
+            assert.deepStrictEqual(parseIgnoreFile(null), []);
+            assert.deepStrictEqual(parseIgnoreFile({ ignores: {} }), []);
+        });
+    });
+
+    suite('createIgnoreEntry', () => {
+        test('should keep context within the same line', () => {
+            const text = '第一行\r\n他说：该死的天气。\n第三行';
+            const entry = createIgnoreEntry('a.md', text, match(text, '该死'), 'now');
+            assert.strictEqual(entry.before, '他说：');
+            assert.strictEqual(entry.after, '的天气。');
+        });
+
+        test('should limit context length', () => {
+            const text = '一二三四五六七八九十该死一二三四五六七八九十';
+            const entry = createIgnoreEntry('a.md', text, match(text, '该死'), 'now');
+            assert.strictEqual(entry.before, '三四五六七八九十');
+            assert.strictEqual(entry.after, '一二三四五六七八');
+        });
+    });
+
+    suite('matchesIgnoreEntry', () => {
+        const text = '他说：该死的天气。她也说：该死的家伙。';
+        const entry = createIgnoreEntry('a.md', text, match(text, '该死'), 'now');
+
+        test('should only match the recorded occurrence', () => {
+            assert.strictEqual(matchesIgnoreEntry(text, match(text, '该死'), entry), true);
+            assert.strictEqual(matchesIgnoreEntry(text, match(text, '该死', 5), entry), false);
+        });
+
+        test('should survive edits elsewhere in the chapter', () => {
+            const edited = '开头新加了一段。\n' + text.replace('家伙', '东西');
+            assert.strictEqual(matchesIgnoreEntry(edited, match(edited, '该死'), entry), true);
+        });
+
+        test('should record and match the written form of variants', () => {
+            const variantText = '他说：gai死的天气。';
+            const variant: SensitiveMatch = { word: '该死', start: 3, end: 7, level: 'low', inWhitelist: false, variant: 'gai死' };
+            const variantEntry = createIgnoreEntry('a.md', variantText, variant, 'now');
+            assert.strictEqual(variantEntry.variant, 'gai死');
+            assert.strictEqual(matchesIgnoreEntry(variantText, variant, variantEntry), true);
+            assert.deepStrictEqual(findIgnoredOccurrence('开头\n' + variantText, variantEntry), { start: 6, end: 10 });
+        });
+
+        test('should locate recorded occurrences for review', () => {
+            assert.deepStrictEqual(findIgnoredOccurrence(text, entry), { start: 3, end: 5 });
+            assert.strictEqual(findIgnoredOccurrence(text.replace('天气', '日子'), entry), undefined);
+        });
+
+        test('should compare entries by position', () => {
+            assert.strictEqual(isSameIgnore(entry, { ...entry, createdAt: 'later' }), true);
+            assert.strictEqual(isSameIgnore(entry, { ...entry, after: '的' }), false);
+        });
+    });
+
+    suite('findInlineIgnoreMarkers', () => {
+        test('should target the marker line', () => {
+            const text = '他骂了句该死。<!-- noveler-ignore: 该死 -->';
+            assert.deepStrictEqual(findInlineIgnoreMarkers(text), [
+                { start: 7, end: 34, line: 0, targetLine: 0, words: ['该死'] }
+            ]);
+        });
+
+        test('should target the next non-empty line for standalone markers', () => {
+            const text = '<!-- noveler-ignore: 该死、混蛋 -->\n\n他骂了句该死。';
+            const [marker] = findInlineIgnoreMarkers(text);
+            assert.strictEqual(marker.targetLine, 2);
+            assert.deepStrictEqual(marker.words, ['该死', '混蛋']);
+        });
+
+        test('should skip markers without words', () => {
+            assert.deepStrictEqual(findInlineIgnoreMarkers('正文<!-- noveler-ignore: -->'), []);
+        });
+    });
+
+    suite('getInlineIgnoreRemovalRange', () => {
+        test('should remove trailing marker with leading spaces', () => {
+            const text = '该死。 <!-- noveler-ignore: 该死 -->\n下一行';
+            const [marker] = findInlineIgnoreMarkers(text);
+            const { start, end } = getInlineIgnoreRemovalRange(text, marker);
+            assert.strictEqual(text.slice(0, start) + text.slice(end), '该死。\n下一行');
+        });
+
+        test('should remove standalone marker line', () => {
+            const text = '上一行\n<!-- noveler-ignore: 该死 -->\n该死。';
+            const [marker] = findInlineIgnoreMarkers(text);
+            const { start, end } = getInlineIgnoreRemovalRange(text, marker);
+            assert.strictEqual(text.slice(0, start) + text.slice(end), '上一行\n该死。');
+        });
+    });
+
+    suite('filterIgnoredMatches', () => {
+        test('should drop recorded occurrences only', () => {
+            const text = '他说：该死的天气。她也说：该死的家伙。';
+            const entry = createIgnoreEntry('a.md', text, match(text, '该死'), 'now');
+            const result = filterIgnoredMatches(text, [match(text, '该死'), match(text, '该死', 5)], [entry]);
+            assert.deepStrictEqual(result.map(m => m.start), [13]);
+        });
+
+        test('should apply inline markers to their target line and hide words inside markers', () => {
+            const text = '该死。<!-- noveler-ignore: 该死 -->\n又是该死。';
+            const matches = [match(text, '该死'), match(text, '该死', 3), match(text, '该死', 30)];
+            const result = filterIgnoredMatches(text, matches, []);
+            assert.deepStrictEqual(result.map(m => m.start), [matches[2].start]);
+        });
+
+        test('should apply inline markers to variants by word or written form', () => {
+            const variant: SensitiveMatch = { word: '该死', start: 0, end: 4, level: 'low', inWhitelist: false, variant: 'gai死' };
+            assert.deepStrictEqual(filterIgnoredMatches('gai死 <!-- noveler-ignore: gai死 -->', [variant], []), []);
+            assert.deepStrictEqual(filterIgnoredMatches('gai死 <!-- noveler-ignore: 该死 -->', [variant], []), []);
+            assert.deepStrictEqual(filterIgnoredMatches('gai死 <!-- noveler-ignore: 混蛋 -->', [variant], []), [variant]);
+        });
+    });
+});
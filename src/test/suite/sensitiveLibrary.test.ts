@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { buildWordCategoryMap, isCategoryEnabled, parseCustomSensitiveWords } from '../../utils/sensitiveLibrary';
+
+suite('SensitiveLibrary Test Suite', () => {
+
+    suite('parseCustomSensitiveWords', () => {
+        test('should accept plain strings as high level words', () => {
+            assert.deepStrictEqual(parseCustomSensitiveWords(['某词', ' ', '另一词 ']), [
+                { word: '某词', level: 'high', suggestions: [] },
+                { word: '另一词', level: 'high', suggestions: [] }
+            ]);
+        });
+
+        test('should parse object entries', () => {
+            const [definition] = parseCustomSensitiveWords([
+                { word: '某词', level: 'low', category: '平台禁词', note: '某平台不允许', suggestion: ['替代词', '某词', '替代词'] }
+            ]);
+            assert.deepStrictEqual(definition, {
+                word: '某词',
+                level: 'low',
+                category: '平台禁词',
+                note: '某平台不允许',
+                suggestions: ['替代词']
+            });
+        });
+
+        test('should fall back to default level and skip malformed entries', () => {
+            const definitions = parseCustomSensitiveWords([{ word: '某词', level: 'critical' }, { level: 'low' }, 1, null], 'medium');
+            assert.deepStrictEqual(definitions, [{ word: '某词', level: 'medium', suggestions: [] }]);
+            assert.deepStrictEqual(parseCustomSensitiveWords(undefined), []);
+        });
+
+        test('should keep the last definition of a repeated word', () => {
+            const definitions = parseCustomSensitiveWords(['某词', { word: '某词', level: 'low' }]);
+            assert.deepStrictEqual(definitions.map(d => d.level), ['low']);
+        });
+    });
+
+    suite('buildWordCategoryMap', () => {
+        test('should map words to their first category', () => {
+            const map = buildWordCategoryMap({ '广告营销': ['加群', '扫码'], '争议词汇': ['扫码', 1] });
+            assert.deepStrictEqual([...map.entries()], [['加群', '广告营销'], ['扫码', '广告营销']]);
+            assert.strictEqual(buildWordCategoryMap(undefined).size, 0);
+        });
+    });
+
+    suite('isCategoryEnabled', () => {
+        test('should only disable categories switched off explicitly', () => {
+            assert.strictEqual(isCategoryEnabled(undefined, { '广告营销': false }), true);
+            assert.strictEqual(isCategoryEnabled('广告营销', undefined), true);
+            assert.strictEqual(isCategoryEnabled('广告营销', { '广告营销': true }), true);
+            assert.strictEqual(isCategoryEnabled('广告营销', { '广告营销': false }), false);
+        });
+    });
+});
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { applySensitiveProfile, resolveSensitiveProfile } from '../../utils/sensitiveProfiles';
+import { SensitiveWordConfig } from '../../types/sensitiveWord';
+
+suite('SensitiveProfiles Test Suite', () => {
+    const baseConfig = (): SensitiveWordConfig => ({
+        enabled: true,
+        builtInLibrary: { enabled: true, levels: { high: true, medium: true, low: false } },
+        customLibrary: { enabled: true, path: '.noveler/sensitive-words/custom-words.jsonc' },
+        categories: { '广告营销': false, '宗教敏感': false },
+        display: { severity: 'Warning', showInProblems: true, showWordCount: true },
+        profiles: {
+            '晋江': { levels: { low: true }, categories: { '宗教敏感': true }, severity: 'Error' },
+            '番茄': { customLibraries: ['.noveler/sensitive-words/fanqie.jsonc', ''] }
+        },
+        activeProfile: '晋江'
+    });
+
+    suite('resolveSensitiveProfile', () => {
+        test('should resolve the active profile by default', () => {
+            assert.strictEqual(resolveSensitiveProfile(baseConfig())?.name, '晋江');
+        });
+
+        test('should resolve a named profile', () => {
+            assert.strictEqual(resolveSensitiveProfile(baseConfig(), '番茄')?.name, '番茄');
+        });
+
+        test('should return undefined for unknown or unset profiles', () => {
+            assert.strictEqual(resolveSensitiveProfile(baseConfig(), '起点'), undefined);
+            assert.strictEqual(resolveSensitiveProfile({ ...baseConfig(), activeProfile: undefined }), undefined);
+        });
+    });
+
+    suite('applySensitiveProfile', () => {
+        test('should override levels, categories and severity', () => {
+            const config = baseConfig();
+            const result = applySensitiveProfile(config, config.profiles!['晋江']);
+            assert.deepStrictEqual(result.builtInLibrary!.levels, { high: true, medium: true, low: true });
+            assert.deepStrictEqual(result.categories, { '广告营销': false, '宗教敏感': true });
+            assert.strictEqual(result.display!.severity, 'Error');
+            assert.strictEqual(result.customLibrary!.extraPaths, undefined);
+        });
+
+        test('should add extra custom libraries', () => {
+            const config = baseConfig();
+            const result = applySensitiveProfile(config, config.profiles!['番茄']);
+            assert.deepStrictEqual(result.customLibrary!.extraPaths, ['.noveler/sensitive-words/fanqie.jsonc']);
+            assert.deepStrictEqual(result.builtInLibrary!.levels, config.builtInLibrary!.levels);
+            assert.strictEqual(result.display!.severity, 'Warning');
+        });
+
+        test('should not modify the base config', () => {
+            const config = baseConfig();
+            applySensitiveProfile(config, config.profiles!['晋江']);
+            assert.strictEqual(config.builtInLibrary!.levels.low, false);
+            assert.strictEqual(config.categories!['宗教敏感'], false);
+        });
+    });
+});
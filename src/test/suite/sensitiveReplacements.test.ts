@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { mergeReplacementTables, parseReplacementTable } from '../../utils/sensitiveReplacements';
+
+suite('SensitiveReplacements Test Suite', () => {
+
+    suite('parseReplacementTable', () => {
+        test('should accept single and multiple suggestions', () => {
+            const table = parseReplacementTable({ replacements: { '妈的': ['该死', '见鬼'], '白痴': '蠢材' } });
+            assert.deepStrictEqual(table.get('妈的'), ['该死', '见鬼']);
+            assert.deepStrictEqual(table.get('白痴'), ['蠢材']);
+        });
+
+        test('should drop invalid, empty, duplicate and identical suggestions', () => {
+            const table = parseReplacementTable({
+                replacements: { '白痴': ['蠢材', 1, ' ', '白痴', '蠢材'], '混蛋': [] }
+            });
+            assert.deepStrictEqual(table.get('白痴'), ['蠢材']);
+            assert.strictEqual(table.has('混蛋'), false);
+        });
+
+        test('should return empty table for malformed files', () => {
+            assert.strictEqual(parseReplacementTable(undefined).size, 0);
+            assert.strictEqual(parseReplacementTable({ replacements: ['白痴'] }).size, 0);
+            assert.strictEqual(parseReplacementTable({ words: [] }).size, 0);
+        });
+    });
+
+    suite('mergeReplacementTables', () => {
+        test('should put earlier suggestions first and remove duplicates', () => {
+            const project = parseReplacementTable({ replacements: { '妈的': ['可恶', '该死'] } });
+            const builtin = parseReplacementTable({ replacements: { '妈的': ['该死', '见鬼'], '白痴': ['蠢材'] } });
+            const merged = mergeReplacementTables(project, builtin);
+
+            assert.deepStrictEqual(merged.get('妈的'), ['可恶', '该死', '见鬼']);
+            assert.deepStrictEqual(merged.get('白痴'), ['蠢材']);
+        });
+    });
+});
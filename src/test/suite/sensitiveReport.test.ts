@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import {
+    buildContextSnippet,
+    buildSensitiveScanReport,
+    computeLineStarts,
+    countLevels,
+    offsetToPosition,
+    sensitiveReportToCsv
+} from '../../utils/sensitiveReport';
+import { SensitiveScanItem } from '../../types/sensitiveWord';
+
+suite('SensitiveReport Test Suite', () => {
+
+    suite('offsetToPosition', () => {
+        const text = '第一行\n第二行\n\n第四行';
+        const lineStarts = computeLineStarts(text);
+
+        test('should compute line starts', () => {
+            assert.deepStrictEqual(lineStarts, [0, 4, 8, 9]);
+        });
+
+        test('should map offsets to line and character', () => {
+            assert.deepStrictEqual(offsetToPosition(lineStarts, 0), { line: 0, character: 0 });
+            assert.deepStrictEqual(offsetToPosition(lineStarts, 5), { line: 1, character: 1 });
+            assert.deepStrictEqual(offsetToPosition(lineStarts, 8), { line: 2, character: 0 });
+            assert.deepStrictEqual(offsetToPosition(lineStarts, 11), { line: 3, character: 2 });
+        });
+    });
+
+    suite('buildContextSnippet', () => {
+        test('should keep the surrounding line only', () => {
+            const text = '第一行\n他说了一句敏感词就走了\n第三行';
+            const start = text.indexOf('敏感词');
+            assert.strictEqual(buildContextSnippet(text, start, start + 3), '他说了一句敏感词就走了');
+        });
+
+        test('should add ellipsis when truncated', () => {
+            const padding = '一'.repeat(20);
+            const text = `${padding}敏感词${padding}`;
+            const snippet = buildContextSnippet(text, 20, 23);
+            assert.strictEqual(snippet, `…${'一'.repeat(15)}敏感词${'一'.repeat(15)}…`);
+        });
+    });
+
+    suite('buildSensitiveScanReport', () => {
+        const item = (word: string, level: SensitiveScanItem['level']): SensitiveScanItem =>
+            ({ word, level, line: 0, character: 0, context: word });
+
+        test('should drop clean chapters, keep reading order and count levels', () => {
+            const report = buildSensitiveScanReport([
+                { path: '第2章.md', title: '第二章', items: [item('乙', 'low'), item('丙', 'high')] },
+                { path: '第3章.md', title: '第三章', items: [] },
+                { path: '第10章.md', title: '第十章', items: [item('甲', 'high')] }
+            ], '2024-01-01 10:00:00');
+
+            assert.strictEqual(report.scannedChapters, 3);
+            assert.deepStrictEqual(report.chapters.map(c => c.title), ['第二章', '第十章']);
+            assert.deepStrictEqual(report.levels, { high: 2, medium: 0, low: 1 });
+            assert.deepStrictEqual(report.chapters[0].levels, countLevels([item('', 'low'), item('', 'high')]));
+        });
+    });
+
+    suite('sensitiveReportToCsv', () => {
+        test('should export one row per occurrence with BOM and quoting', () => {
+            const report = buildSensitiveScanReport([
+                { path: '第1章.md', title: '第一章 开端', items: [{ word: '词', level: 'medium', line: 2, character: 4, context: '他说，"词"' }] }
+            ], '2024-01-01 10:00:00');
+            assert.strictEqual(
+                sensitiveReportToCsv(report),
+                '\uFEFF章节,文件,行,列,级别,敏感词,上下文\n第一章 开端,第1章.md,3,5,中危,词,"他说，""词"""\n'
+            );
+        });
+
+        test('should show variant spelling next to the word', () => {
+            const report = buildSensitiveScanReport([
+                { path: '第1章.md', title: '第一章', items: [{ word: '敏感词', level: 'high', line: 0, character: 0, context: '敏 感 词', variant: '敏 感 词' }] }
+            ], '2024-01-01 10:00:00');
+            assert.ok(sensitiveReportToCsv(report).includes(',高危,敏感词（敏 感 词）,敏 感 词\n'));
+        });
+    });
+});
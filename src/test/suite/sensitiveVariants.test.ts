@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { TrieTree } from '../../utils/trieTree';
+import { findVariantMatches, normalizeForMatching, parseVariantTables } from '../../utils/sensitiveVariants';
+import { SensitiveVariantOptions } from '../../types/sensitiveWord';
+
+suite('SensitiveVariants Test Suite', () => {
+    const options: SensitiveVariantOptions = { separators: true, fullWidth: true, traditional: true, pinyin: true };
+    const tables = parseVariantTables({
+        traditional: { '敏': '敏', '詞': '词', '無': '无' },
+        pinyin: { '敏': 'min', '感': 'gan', '词': 'ci', '法': 'fa', '轮': 'lun', '功': 'gong', '重': ['zhong', 'chong'] }
+    });
+
+    let trie: TrieTree;
+    setup(() => {
+        trie = new TrieTree();
+        trie.insertBatch(['敏感词', '法轮功', '重感'], 'high');
+        trie.insert('SB', 'low');
+    });
+
+    suite('parseVariantTables', () => {
+        test('should ignore malformed entries', () => {
+            const parsed = parseVariantTables({ traditional: { '詞': '词', '長長': '长' }, pinyin: { '词': 'ci', '感': ['Gan', 1] } });
+            assert.strictEqual(parsed.traditional.size, 1);
+            assert.deepStrictEqual(parsed.pinyin.get('词'), ['ci']);
+            assert.strictEqual(parsed.pinyin.has('感'), false);
+        });
+    });
+
+    suite('normalizeForMatching', () => {
+        test('should drop separators and keep offsets', () => {
+            const result = normalizeForMatching('敏 感*词', options, tables.traditional);
+            assert.strictEqual(result.text, '敏感词');
+            assert.deepStrictEqual(result.offsets, [0, 2, 4]);
+        });
+
+        test('should keep sentence punctuation and newlines', () => {
+            assert.strictEqual(normalizeForMatching('敏，感\n词', options, tables.traditional).text, '敏，感\n词');
+        });
+
+        test('should convert full-width letters and traditional characters', () => {
+            assert.strictEqual(normalizeForMatching('ＳＢ敏感詞', options, tables.traditional).text, 'SB敏感词');
+        });
+    });
+
+    suite('findVariantMatches', () => {
+        test('should map split words back to the original range', () => {
+            const text = '这里有敏 感 词。';
+            const matches = findVariantMatches(text, trie, options, tables);
+            assert.strictEqual(matches.length, 1);
+            assert.strictEqual(matches[0].word, '敏感词');
+            assert.strictEqual(text.slice(matches[0].start, matches[0].end), '敏 感 词');
+            assert.strictEqual(matches[0].variant, '敏 感 词');
+        });
+
+        test('should not report words written as-is', () => {
+            assert.deepStrictEqual(findVariantMatches('这里有敏感词', trie, options, tables), []);
+        });
+
+        test('should detect full-width and traditional variants', () => {
+            const matches = findVariantMatches('你个ＳＢ，敏感詞', trie, options, tables);
+            assert.deepStrictEqual(matches.map(m => [m.word, m.variant]), [['SB', 'ＳＢ'], ['敏感词', '敏感詞']]);
+        });
+
+        test('should detect pinyin, mixed and initials substitutions', () => {
+            const matches = findVariantMatches('练fa轮功，min gan ci，还有flg', trie, options, tables);
+            assert.deepStrictEqual(matches.map(m => [m.word, m.variant]), [
+                ['法轮功', 'fa轮功'],
+                ['敏感词', 'min gan ci'],
+                ['法轮功', 'flg']
+            ]);
+        });
+
+        test('should support polyphonic characters', () => {
+            const matches = findVariantMatches('chong感', trie, options, tables);
+            assert.deepStrictEqual(matches.map(m => m.word), ['重感']);
+        });
+
+        test('should not cut pinyin out of English words or accept short initials', () => {
+            assert.deepStrictEqual(findVariantMatches('a dragonfalungongs', trie, options, tables), []);
+            assert.deepStrictEqual(findVariantMatches('zg', trie, options, tables), []);
+        });
+
+        test('should respect disabled options', () => {
+            const strict: SensitiveVariantOptions = { separators: false, fullWidth: false, traditional: false, pinyin: false };
+            assert.deepStrictEqual(findVariantMatches('敏 感 词 ＳＢ 敏感詞 flg', trie, strict, tables), []);
+        });
+    });
+});
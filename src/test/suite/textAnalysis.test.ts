@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import {
+    buildTextAnalysisReport,
+    countHanChars,
+    findFrequentPhrases,
+    findRepetitions,
+    maskNonProse,
+    summarizeWatchedWords
+} from '../../utils/textAnalysis';
+
+suite('TextAnalysis Test Suite', () => {
+
+    suite('maskNonProse', () => {
+        test('should blank comments and headings while keeping offsets', () => {
+            const text = '# 第一章\n正文<!-- 批注 -->结束';
+            const masked = maskNonProse(text);
+            assert.strictEqual(masked.length, text.length);
+            assert.strictEqual(masked.indexOf('结束'), text.indexOf('结束'));
+            assert.ok(!masked.includes('第一章'));
+            assert.ok(!masked.includes('批注'));
+        });
+    });
+
+    suite('countHanChars', () => {
+        test('should count only Han characters', () => {
+            assert.strictEqual(countHanChars('他说：“Hello 世界。”'), 4);
+        });
+    });
+
+    suite('findFrequentPhrases', () => {
+        test('should keep the longest phrase when shorter ones always appear inside it', () => {
+            const phrases = findFrequentPhrases('萧炎笑了。萧炎走了。萧炎哭了。');
+            assert.deepStrictEqual(phrases.map(p => p.phrase), ['萧炎']);
+            assert.strictEqual(phrases[0].count, 3);
+        });
+
+        test('should merge to longer phrase with the same count', () => {
+            const phrases = findFrequentPhrases('他深吸一口气。她也深吸一口气。');
+            assert.strictEqual(phrases[0].phrase.length, 4);
+            assert.strictEqual(phrases[0].count, 2);
+            assert.ok(!phrases.some(p => p.phrase === '深吸'));
+        });
+
+        test('should respect minCount, limit and ignore words', () => {
+            const text = '萧炎笑了。萧炎走了。药老说。药老走。';
+            assert.deepStrictEqual(
+                findFrequentPhrases(text, { ignoreWords: ['萧炎'] }).map(p => p.phrase),
+                ['药老']
+            );
+            assert.strictEqual(findFrequentPhrases(text, { limit: 1 }).length, 1);
+            assert.strictEqual(findFrequentPhrases(text, { minCount: 3 }).length, 0);
+        });
+
+        test('should skip phrases starting with structural particles', () => {
+            const phrases = findFrequentPhrases('红的花。红的花。');
+            assert.ok(phrases.every(p => !p.phrase.startsWith('的')));
+        });
+
+        test('should report frequency per ten thousand Han characters', () => {
+            const [phrase] = findFrequentPhrases('突然突然');
+            assert.strictEqual(phrase.per10k, 5000);
+        });
+    });
+
+    suite('findRepetitions', () => {
+        test('should flag a word repeated within the window in one paragraph', () => {
+            const text = '他突然站起来，突然又坐下。';
+            const matches = findRepetitions(text, ['突然'], 200);
+            assert.strictEqual(matches.length, 1);
+            assert.strictEqual(matches[0].start, text.lastIndexOf('突然'));
+            assert.strictEqual(matches[0].previousStart, text.indexOf('突然'));
+        });
+
+        test('should not flag repeats across paragraphs or beyond the window', () => {
+            assert.strictEqual(findRepetitions('突然。\n突然。', ['突然']).length, 0);
+            assert.strictEqual(findRepetitions('突然一二三四五突然', ['突然'], 5).length, 0);
+        });
+
+        test('should compute offsets relative to the whole text', () => {
+            const text = '第一段。\n缓缓走来，缓缓坐下。';
+            const [match] = findRepetitions(text, ['缓缓']);
+            assert.strictEqual(text.substring(match.start, match.end), '缓缓');
+            assert.strictEqual(match.start, text.lastIndexOf('缓缓'));
+        });
+    });
+
+    suite('summarizeWatchedWords', () => {
+        test('should count usage and repeats of watched words', () => {
+            const usage = summarizeWatchedWords('突然突然。\n忽然。', ['突然', '忽然', '居然']);
+            assert.deepStrictEqual(usage, [
+                { word: '突然', count: 2, repeated: 1 },
+                { word: '忽然', count: 1, repeated: 0 }
+            ]);
+        });
+    });
+
+    suite('buildTextAnalysisReport', () => {
+        test('should analyze all chapters without joining text across chapters', () => {
+            const manuscript = {
+                metadata: { title: '测试', author: '作者' },
+                volumes: [{
+                    chapters: [
+                        { heading: '第一章', paragraphs: ['他突然笑了', '萧炎'], sourcePath: '001.md' },
+                        { heading: '第二章', paragraphs: ['突然萧炎'], sourcePath: '002.md' }
+                    ]
+                }]
+            };
+            const report = buildTextAnalysisReport(manuscript, '全书', { watchedWords: ['突然'] });
+            assert.strictEqual(report.scopeLabel, '全书');
+            assert.strictEqual(report.chapterCount, 2);
+            assert.strictEqual(report.hanChars, 11);
+            assert.deepStrictEqual(report.phrases.map(p => p.phrase).sort(), ['突然', '萧炎']);
+            assert.deepStrictEqual(report.watchedWords, [{ word: '突然', count: 2, repeated: 0 }]);
+        });
+    });
+});
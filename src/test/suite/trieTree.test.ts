@@ -116,6 +116,39 @@ suite('TrieTree Test Suite', () => {
         });
     });
 
+    suite('searchWithAlternatives', () => {
+        const pinyin: Record<string, string[]> = { '敏': ['min', 'm'], '感': ['gan', 'g'], '词': ['ci', 'c'] };
+        const alternatives = (char: string) => pinyin[char] ?? [];
+
+        test('should match mixed characters and alternatives', () => {
+            const trie = new TrieTree();
+            trie.insert('敏感词', 'high');
+            const results = trie.searchWithAlternatives('这是MIN感c', alternatives, () => true);
+            assert.strictEqual(results.length, 1);
+            assert.strictEqual(results[0].word, '敏感词');
+            assert.strictEqual(results[0].start, 2);
+            assert.strictEqual(results[0].end, 7);
+        });
+
+        test('should skip matches without alternatives', () => {
+            const trie = new TrieTree();
+            trie.insert('敏感词', 'high');
+            assert.deepStrictEqual(trie.searchWithAlternatives('敏感词', alternatives, () => true), []);
+        });
+
+        test('should pass each part to accept', () => {
+            const trie = new TrieTree();
+            trie.insert('敏感词', 'high');
+            const seen: string[][] = [];
+            const results = trie.searchWithAlternatives('mgc', alternatives, (_start, _end, parts) => {
+                seen.push(parts);
+                return false;
+            });
+            assert.deepStrictEqual(results, []);
+            assert.deepStrictEqual(seen, [['m', 'g', 'c']]);
+        });
+    });
+
     suite('Edge cases', () => {
         test('should handle empty word insert', () => {
             const trie = new TrieTree();
@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { PARAGRAPH_INDENT } from '../../constants';
+import { buildTxt, encodeTxt } from '../../utils/txtBuilder';
+import { encodeGb18030 } from '../../utils/gb18030Encoder';
+import { ExportOptions, Manuscript } from '../../types/export';
+
+suite('TxtBuilder Test Suite', () => {
+
+    const options: ExportOptions = {
+        encoding: 'utf-8',
+        paragraphIndent: true,
+        emptyLineBetweenParagraphs: true,
+        includeTitlePage: false
+    };
+
+    const manuscript: Manuscript = {
+        metadata: { title: '测试小说', author: '张三', description: '简介内容' },
+        volumes: [{
+            heading: '第一卷 崛起',
+            chapters: [
+                { heading: '第一章 开端', paragraphs: ['天色渐暗。', '「走吧。」'], sourcePath: 'a.md' },
+                { heading: '第二章 出发', paragraphs: [], sourcePath: 'b.md' }
+            ]
+        }]
+    };
+
+    suite('buildTxt', () => {
+        test('should output volume and chapter headings with indented paragraphs', () => {
+            assert.strictEqual(
+                buildTxt(manuscript, options),
+                `第一卷 崛起\n\n第一章 开端\n\n${PARAGRAPH_INDENT}天色渐暗。\n\n${PARAGRAPH_INDENT}「走吧。」\n\n第二章 出发\n`
+            );
+        });
+
+        test('should respect paragraph indent and empty line options', () => {
+            const text = buildTxt(manuscript, { ...options, paragraphIndent: false, emptyLineBetweenParagraphs: false });
+            assert.ok(text.includes('第一章 开端\n\n天色渐暗。\n「走吧。」\n\n第二章 出发'));
+        });
+
+        test('should include title page when requested', () => {
+            const text = buildTxt(manuscript, { ...options, includeTitlePage: true });
+            assert.ok(text.startsWith('测试小说\n作者：张三\n\n简介：简介内容\n\n第一卷 崛起'));
+        });
+
+        test('should omit volume heading for flat manuscript', () => {
+            const flat: Manuscript = { ...manuscript, volumes: [{ chapters: manuscript.volumes[0].chapters }] };
+            assert.ok(buildTxt(flat, options).startsWith('第一章 开端'));
+        });
+    });
+
+    suite('encoding', () => {
+        test('should encode UTF-8 by default', () => {
+            assert.deepStrictEqual(encodeTxt('中', options), Buffer.from([0xE4, 0xB8, 0xAD]));
+        });
+
+        test('should encode GB18030 two-byte characters', () => {
+            assert.deepStrictEqual(encodeGb18030('中文a'), Buffer.from([0xD6, 0xD0, 0xCE, 0xC4, 0x61]));
+        });
+
+        test('should encode GB18030 four-byte and supplementary characters', () => {
+            assert.deepStrictEqual(encodeGb18030('\u0080'), Buffer.from([0x81, 0x30, 0x81, 0x30]));
+            assert.deepStrictEqual(encodeGb18030('\u{10000}'), Buffer.from([0x90, 0x30, 0x81, 0x30]));
+        });
+
+        test('should round-trip through GB18030 decoder', () => {
+            const text = buildTxt(manuscript, { ...options, includeTitlePage: true }) + '€𠀀';
+            const decoded = new TextDecoder('gb18030').decode(encodeTxt(text, { ...options, encoding: 'gb18030' }));
+            assert.strictEqual(decoded, text);
+        });
+    });
+});
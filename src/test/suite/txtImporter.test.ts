@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { decodeTxt, splitTxtManuscript } from '../../utils/txtImporter';
+import { encodeGb18030 } from '../../utils/gb18030Encoder';
+
+suite('TxtImporter Test Suite', () => {
+
+    suite('decodeTxt', () => {
+        test('should decode UTF-8', () => {
+            const result = decodeTxt(Buffer.from('第一章 开端', 'utf8'));
+            assert.strictEqual(result.encoding, 'utf-8');
+            assert.strictEqual(result.text, '第一章 开端');
+        });
+
+        test('should strip UTF-8 BOM', () => {
+            const result = decodeTxt(Buffer.concat([Buffer.from([0xEF, 0xBB, 0xBF]), Buffer.from('正文', 'utf8')]));
+            assert.strictEqual(result.text, '正文');
+        });
+
+        test('should decode UTF-16LE with BOM', () => {
+            const result = decodeTxt(Buffer.concat([Buffer.from([0xFF, 0xFE]), Buffer.from('正文', 'utf16le')]));
+            assert.strictEqual(result.encoding, 'utf-16le');
+            assert.strictEqual(result.text, '正文');
+        });
+
+        test('should fall back to GB18030 for GBK content', () => {
+            const result = decodeTxt(encodeGb18030('第一章 开端\n天色渐暗。'));
+            assert.strictEqual(result.encoding, 'gb18030');
+            assert.strictEqual(result.text, '第一章 开端\n天色渐暗。');
+        });
+    });
+
+    suite('splitTxtManuscript', () => {
+        test('should split Chinese chapter headings', () => {
+            const result = splitTxtManuscript('书名\n作者：某人\n\n第一章 开端\n\u3000\u3000天色渐暗。\n\n第二章：出发\n翌日。');
+            assert.deepStrictEqual(result.preamble, ['书名', '作者：某人']);
+            assert.strictEqual(result.volumes.length, 1);
+            assert.strictEqual(result.volumes[0].heading, undefined);
+            assert.deepStrictEqual(
+                result.volumes[0].chapters.map(c => [c.title, c.heading, c.lines]),
+                [['开端', '第一章 开端', ['天色渐暗。']], ['出发', '第二章：出发', ['翌日。']]]
+            );
+        });
+
+        test('should support arabic numbers and headings without title', () => {
+            const result = splitTxtManuscript('第12章\n正文\n第 13 章 标题\n正文');
+            assert.deepStrictEqual(result.volumes[0].chapters.map(c => c.title), ['', '标题']);
+        });
+
+        test('should split English chapter headings', () => {
+            const result = splitTxtManuscript('Chapter 1 The Start\nText\nCHAPTER 2\nMore');
+            assert.deepStrictEqual(result.volumes[0].chapters.map(c => c.title), ['The Start', '']);
+        });
+
+        test('should detect volumes and keep volume intro', () => {
+            const result = splitTxtManuscript('第一卷 崛起\n本卷简介\n第一章 开端\n一\n第二卷 远行\n第二章 出发\n二');
+            assert.deepStrictEqual(result.volumes.map(v => v.title), ['崛起', '远行']);
+            assert.deepStrictEqual(result.volumes[0].intro, ['本卷简介']);
+            assert.deepStrictEqual(result.volumes[1].chapters.map(c => c.lines), [['二']]);
+        });
+
+        test('should not treat long sentences as headings', () => {
+            const short = '第三章他早已读过。';
+            const long = '第三章的内容他早已读过很多很多遍了，可是每一次读到这里都会停下来';
+            const result = splitTxtManuscript(`第一章 开端\n${short}\n${long}`);
+            assert.deepStrictEqual(result.volumes[0].chapters.map(c => c.lines), [[short, long]]);
+        });
+
+        test('should use custom pattern with capture group', () => {
+            const result = splitTxtManuscript('第1节 起\n正文\n第2节 承\n正文', /^第\d+节\s*(.*)$/);
+            assert.deepStrictEqual(result.volumes[0].chapters.map(c => c.title), ['起', '承']);
+        });
+
+        test('should return no volumes when no chapter is found', () => {
+            const result = splitTxtManuscript('只有正文\n没有标题');
+            assert.strictEqual(result.volumes.length, 0);
+            assert.deepStrictEqual(result.preamble, ['只有正文', '没有标题']);
+        });
+    });
+});
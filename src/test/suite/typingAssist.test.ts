@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import {
+    TypingAssistOptions,
+    getAutoPairEdit,
+    getFullWidthPunctuationEdit,
+    getNewParagraphText
+} from '../../utils/typingAssist';
+import { PARAGRAPH_INDENT } from '../../constants';
+
+const options = (overrides: Partial<TypingAssistOptions> = {}): TypingAssistOptions => ({
+    autoPairQuotes: true,
+    fullWidthPunctuation: true,
+    newParagraph: true,
+    autoEmptyLine: true,
+    paragraphIndent: true,
+    ...overrides
+});
+
+suite('TypingAssist Test Suite', () => {
+
+    suite('getFullWidthPunctuationEdit', () => {
+        test('should convert punctuation typed after Han characters', () => {
+            assert.deepStrictEqual(getFullWidthPunctuationEdit('你好,', 3, ','), { start: 2, end: 3, text: '，' });
+            assert.deepStrictEqual(getFullWidthPunctuationEdit('真的?吗', 3, '?'), { start: 2, end: 3, text: '？' });
+        });
+
+        test('should leave punctuation after non-Han characters', () => {
+            assert.strictEqual(getFullWidthPunctuationEdit('版本 1.', 5, '.'), undefined);
+            assert.strictEqual(getFullWidthPunctuationEdit('Hello,', 6, ','), undefined);
+            assert.strictEqual(getFullWidthPunctuationEdit(',', 1, ','), undefined);
+        });
+
+        test('should merge repeated periods into an ellipsis', () => {
+            assert.deepStrictEqual(getFullWidthPunctuationEdit('他说。.', 4, '.'), { start: 2, end: 4, text: '…' });
+            assert.deepStrictEqual(getFullWidthPunctuationEdit('他说….', 4, '.'), { start: 3, end: 4, text: '' });
+        });
+    });
+
+    suite('getAutoPairEdit', () => {
+        test('should insert the closing half and keep the cursor inside', () => {
+            assert.deepStrictEqual(getAutoPairEdit('他说：「', 4, '「'), { start: 4, end: 4, text: '」', keepCursor: true });
+            assert.deepStrictEqual(getAutoPairEdit('（。', 1, '（'), { start: 1, end: 1, text: '）', keepCursor: true });
+        });
+
+        test('should not pair before existing text', () => {
+            assert.strictEqual(getAutoPairEdit('「你好', 1, '「'), undefined);
+        });
+
+        test('should type over an auto-inserted closing half', () => {
+            assert.deepStrictEqual(getAutoPairEdit('「你好」」', 4, '」'), { start: 4, end: 5, text: '' });
+            assert.strictEqual(getAutoPairEdit('你好」」', 3, '」'), undefined);
+        });
+    });
+
+    suite('getNewParagraphText', () => {
+        test('should insert blank line and indent after a paragraph', () => {
+            assert.strictEqual(getNewParagraphText('他推开门。', options()), '\n' + PARAGRAPH_INDENT);
+            assert.strictEqual(getNewParagraphText('他推开门。', options({ paragraphIndent: false })), '\n');
+            assert.strictEqual(getNewParagraphText('', options()), PARAGRAPH_INDENT);
+        });
+
+        test('should skip headings, comments and front matter delimiters', () => {
+            assert.strictEqual(getNewParagraphText('# 第一章', options()), '');
+            assert.strictEqual(getNewParagraphText('<!-- 注释 -->', options()), '');
+            assert.strictEqual(getNewParagraphText('---', options()), '');
+        });
+
+        test('should respect the newParagraph switch', () => {
+            assert.strictEqual(getNewParagraphText('他推开门。', options({ newParagraph: false })), '');
+            assert.strictEqual(getNewParagraphText('', options({ paragraphIndent: false })), '');
+        });
+    });
+});
@@ -0,0 +1,214 @@
+import * as assert from 'assert';
+import {
+    buildHeatmap,
+    calculateDailyPace,
+    calculateStreak,
+    calculateWritingSpeed,
+    createEmptyHistory,
+    getWordsOnDate,
+    parseHistory,
+    recordWordDelta,
+    summarizeTrend,
+    updateChapterCountingProfile
+} from '../../utils/writingHistory';
+
+suite('WritingHistory Test Suite', () => {
+
+    // 2024-03-13 是周三
+    const today = new Date(2024, 2, 13, 20, 0, 0);
+
+    suite('recordWordDelta', () => {
+        test('should accumulate net, added and deleted words per day and chapter', () => {
+            const history = createEmptyHistory();
+            recordWordDelta(history, 'a.md', 500, new Date(2024, 2, 13, 9, 0, 0));
+            recordWordDelta(history, 'a.md', -100, new Date(2024, 2, 13, 9, 10, 0));
+            recordWordDelta(history, 'v1/b.md', 300, new Date(2024, 2, 13, 9, 20, 0));
+
+            const record = history.days['2024-03-13'];
+            assert.strictEqual(record.words, 700);
+            assert.strictEqual(record.added, 800);
+            assert.strictEqual(record.deleted, 100);
+            assert.deepStrictEqual(record.chapters, { 'a.md': 400, 'v1/b.md': 300 });
+        });
+
+        test('should ignore zero delta', () => {
+            const history = createEmptyHistory();
+            assert.strictEqual(recordWordDelta(history, 'a.md', 0, today), false);
+            assert.deepStrictEqual(history.days, {});
+            assert.strictEqual(history.lastRecordAt, undefined);
+        });
+
+        test('should count active minutes only for short gaps', () => {
+            const history = createEmptyHistory();
+            recordWordDelta(history, 'a.md', 100, new Date(2024, 2, 13, 9, 0, 0));
+            recordWordDelta(history, 'a.md', 100, new Date(2024, 2, 13, 9, 20, 0));
+            recordWordDelta(history, 'a.md', 100, new Date(2024, 2, 13, 14, 0, 0));
+            assert.strictEqual(history.days['2024-03-13'].activeMinutes, 20);
+        });
+
+        test('should split records by local date', () => {
+            const history = createEmptyHistory();
+            recordWordDelta(history, 'a.md', 100, new Date(2024, 2, 12, 23, 59, 0));
+            recordWordDelta(history, 'a.md', 200, new Date(2024, 2, 13, 0, 1, 0));
+            assert.strictEqual(getWordsOnDate(history, new Date(2024, 2, 12)), 100);
+            assert.strictEqual(getWordsOnDate(history, today), 200);
+        });
+    });
+
+    suite('parseHistory', () => {
+        test('should return empty history for invalid content', () => {
+            assert.deepStrictEqual(parseHistory('not json'), createEmptyHistory());
+            assert.deepStrictEqual(parseHistory('[]'), createEmptyHistory());
+        });
+
+        test('should fill missing fields and skip invalid dates', () => {
+            const history = parseHistory(JSON.stringify({
+                version: 1,
+                days: { '2024-03-13': { words: 10 }, 'yesterday': { words: 5 } }
+            }));
+            assert.deepStrictEqual(history.days, {
+                '2024-03-13': { words: 10, added: 0, deleted: 0, chapters: {}, activeMinutes: 0 }
+            });
+        });
+
+        test('should keep counting profiles', () => {
+            const history = parseHistory(JSON.stringify({
+                version: 1,
+                days: {},
+                countingProfile: 'default',
+                chapterProfiles: { 'a.md': 'qidian', 'b.md': 3 }
+            }));
+            assert.strictEqual(history.countingProfile, 'default');
+            assert.deepStrictEqual(history.chapterProfiles, { 'a.md': 'qidian' });
+        });
+    });
+
+    suite('updateChapterCountingProfile', () => {
+        test('should treat history without profiles as the current profile', () => {
+            const history = createEmptyHistory();
+            assert.strictEqual(updateChapterCountingProfile(history, 'a.md', 'qidian'), 'qidian');
+            assert.strictEqual(history.countingProfile, 'qidian');
+        });
+
+        test('should report the previous profile once after switching', () => {
+            const history = createEmptyHistory();
+            updateChapterCountingProfile(history, 'a.md', 'default');
+
+            // 切换规则后：已记录的章节和未单独记录的章节都按旧规则统计
+            assert.strictEqual(updateChapterCountingProfile(history, 'a.md', 'jjwxc'), 'default');
+            assert.strictEqual(updateChapterCountingProfile(history, 'b.md', 'jjwxc'), 'default');
+            assert.strictEqual(updateChapterCountingProfile(history, 'a.md', 'jjwxc'), 'jjwxc');
+            assert.deepStrictEqual(history.chapterProfiles, { 'a.md': 'jjwxc', 'b.md': 'jjwxc' });
+        });
+    });
+
+    suite('summarizeTrend', () => {
+        const history = createEmptyHistory();
+        recordWordDelta(history, 'a.md', 100, new Date(2024, 1, 29, 10, 0, 0));
+        recordWordDelta(history, 'a.md', 200, new Date(2024, 2, 11, 10, 0, 0));
+        recordWordDelta(history, 'a.md', 300, new Date(2024, 2, 13, 10, 0, 0));
+
+        test('should summarize by day', () => {
+            const points = summarizeTrend(history, 'day', 3, today);
+            assert.deepStrictEqual(points.map(p => [p.label, p.words]), [['03-11', 200], ['03-12', 0], ['03-13', 300]]);
+        });
+
+        test('should summarize by week starting on Monday', () => {
+            const points = summarizeTrend(history, 'week', 2, today);
+            assert.deepStrictEqual(points.map(p => [p.start, p.words]), [['2024-03-04', 0], ['2024-03-11', 500]]);
+        });
+
+        test('should summarize by month', () => {
+            const points = summarizeTrend(history, 'month', 2, today);
+            assert.deepStrictEqual(points.map(p => [p.label, p.words]), [['2024-02', 100], ['2024-03', 500]]);
+        });
+    });
+
+    suite('buildHeatmap', () => {
+        test('should end at today and assign levels relative to best day', () => {
+            const history = createEmptyHistory();
+            recordWordDelta(history, 'a.md', 1000, new Date(2024, 2, 11, 10, 0, 0));
+            recordWordDelta(history, 'a.md', 200, new Date(2024, 2, 13, 10, 0, 0));
+
+            const columns = buildHeatmap(history, 2, today);
+            assert.strictEqual(columns.length, 2);
+            assert.strictEqual(columns[0][0].date, '2024-03-04');
+            assert.strictEqual(columns[0].length, 7);
+            assert.deepStrictEqual(columns[1].map(c => [c.date, c.level]), [
+                ['2024-03-11', 4], ['2024-03-12', 0], ['2024-03-13', 1]
+            ]);
+        });
+    });
+
+    suite('calculateWritingSpeed', () => {
+        test('should compute daily average and words per hour', () => {
+            const history = createEmptyHistory();
+            recordWordDelta(history, 'a.md', 600, new Date(2024, 2, 12, 9, 0, 0));
+            recordWordDelta(history, 'a.md', 1000, new Date(2024, 2, 12, 9, 30, 0));
+            recordWordDelta(history, 'a.md', 400, new Date(2024, 2, 13, 9, 0, 0));
+            recordWordDelta(history, 'a.md', 1000, new Date(2023, 0, 1, 9, 0, 0));
+
+            const speed = calculateWritingSpeed(history, 7, today);
+            assert.strictEqual(speed.totalWords, 2000);
+            assert.strictEqual(speed.activeDays, 2);
+            assert.strictEqual(speed.averageDailyWords, 1000);
+            // 有效时长 30 分钟，新增 2000 字
+            assert.strictEqual(speed.wordsPerHour, 4000);
+        });
+
+        test('should return zero speed without timing data', () => {
+            assert.strictEqual(calculateWritingSpeed(createEmptyHistory(), 7, today).wordsPerHour, 0);
+        });
+    });
+
+    suite('calculateStreak', () => {
+        const history = createEmptyHistory();
+        recordWordDelta(history, 'a.md', 3000, new Date(2024, 2, 10, 10, 0, 0));
+        recordWordDelta(history, 'a.md', 2000, new Date(2024, 2, 11, 10, 0, 0));
+        recordWordDelta(history, 'a.md', 2500, new Date(2024, 2, 12, 10, 0, 0));
+
+        test('should count consecutive days ending yesterday when today is not met yet', () => {
+            assert.strictEqual(calculateStreak(history, 2000, today), 3);
+        });
+
+        test('should include today once the goal is met', () => {
+            const withToday = parseHistory(JSON.stringify(history));
+            recordWordDelta(withToday, 'a.md', 2000, today);
+            assert.strictEqual(calculateStreak(withToday, 2000, today), 4);
+        });
+
+        test('should stop at first day below goal', () => {
+            assert.strictEqual(calculateStreak(history, 2500, today), 1);
+        });
+
+        test('should use net words so deletions count against the goal', () => {
+            const withDeletion = parseHistory(JSON.stringify(history));
+            recordWordDelta(withDeletion, 'a.md', -1000, new Date(2024, 2, 12, 11, 0, 0));
+            assert.strictEqual(calculateStreak(withDeletion, 2000, today), 0);
+        });
+
+        test('should return 0 when goal is disabled', () => {
+            assert.strictEqual(calculateStreak(history, 0, today), 0);
+        });
+    });
+
+    suite('calculateDailyPace', () => {
+        const history = createEmptyHistory();
+        recordWordDelta(history, '第一卷-起/001.md', 3000, new Date(2024, 2, 11, 10, 0, 0));
+        recordWordDelta(history, '第二卷-承/001.md', 1000, new Date(2024, 2, 12, 10, 0, 0));
+        recordWordDelta(history, '001.md', 2000, new Date(2024, 2, 13, 10, 0, 0));
+        recordWordDelta(history, '001.md', 9000, new Date(2024, 1, 1, 10, 0, 0));
+
+        test('should average over calendar days including idle days', () => {
+            assert.strictEqual(calculateDailyPace(history, 10, today), 600);
+        });
+
+        test('should only count chapters under the given prefix', () => {
+            assert.strictEqual(calculateDailyPace(history, 10, today, '第一卷-起/'), 300);
+        });
+
+        test('should return 0 for non-positive days', () => {
+            assert.strictEqual(calculateDailyPace(history, 0, today), 0);
+        });
+    });
+});
@@ -0,0 +1,137 @@
+import * as assert from 'assert';
+import {
+    calculateWordsPerHour,
+    createSessionTracker,
+    finishSession,
+    getActiveMs,
+    getSessionWords,
+    isSessionIdle,
+    parseSessionLog,
+    recordSessionActivity,
+    setChapterBaseline,
+    summarizeSessions,
+    updateChapterCount
+} from '../../utils/writingSession';
+import { WritingSessionRecord } from '../../types/session';
+
+suite('WritingSession Test Suite', () => {
+
+    const at = (minutes: number) => new Date(2024, 2, 13, 9, minutes, 0);
+
+    suite('activity tracking', () => {
+        test('should count short gaps as active and long gaps as idle', () => {
+            const tracker = createSessionTracker(at(0));
+            recordSessionActivity(tracker, at(2));
+            recordSessionActivity(tracker, at(5));
+            recordSessionActivity(tracker, at(30));
+            recordSessionActivity(tracker, at(31));
+
+            assert.strictEqual(tracker.activeMs, 6 * 60000);
+            assert.strictEqual(tracker.idleMs, 25 * 60000);
+        });
+
+        test('should include pending time until idle threshold', () => {
+            const tracker = createSessionTracker(at(0));
+            recordSessionActivity(tracker, at(1));
+            assert.strictEqual(getActiveMs(tracker, at(4)), 4 * 60000);
+            assert.strictEqual(isSessionIdle(tracker, at(4)), false);
+            assert.strictEqual(getActiveMs(tracker, at(10)), 60000);
+            assert.strictEqual(isSessionIdle(tracker, at(10)), true);
+        });
+    });
+
+    suite('word tracking', () => {
+        test('should sum net words across touched chapters', () => {
+            const tracker = createSessionTracker(at(0));
+            setChapterBaseline(tracker, 'a.md', 1000);
+            setChapterBaseline(tracker, 'b.md', 500);
+            setChapterBaseline(tracker, 'c.md', 800);
+            updateChapterCount(tracker, 'a.md', 1600);
+            updateChapterCount(tracker, 'b.md', 400);
+            // 重复记录基线不覆盖
+            setChapterBaseline(tracker, 'a.md', 1600);
+
+            assert.deepStrictEqual(getSessionWords(tracker), { words: 500, chapters: { 'a.md': 600, 'b.md': -100 } });
+        });
+
+        test('should use first count as baseline for unknown chapter', () => {
+            const tracker = createSessionTracker(at(0));
+            updateChapterCount(tracker, 'd.md', 300);
+            updateChapterCount(tracker, 'd.md', 350);
+            assert.strictEqual(getSessionWords(tracker).words, 50);
+        });
+    });
+
+    suite('finishSession', () => {
+        test('should produce record with durations and speed', () => {
+            const tracker = createSessionTracker(at(0));
+            setChapterBaseline(tracker, 'a.md', 0);
+            recordSessionActivity(tracker, at(3));
+            updateChapterCount(tracker, 'a.md', 300);
+            recordSessionActivity(tracker, at(20));
+
+            const record = finishSession(tracker, at(21));
+            assert.strictEqual(record.durationMinutes, 21);
+            assert.strictEqual(record.activeMinutes, 4);
+            assert.strictEqual(record.idleMinutes, 17);
+            assert.strictEqual(record.words, 300);
+            assert.strictEqual(record.wordsPerHour, 4500);
+            assert.strictEqual(record.start, at(0).toISOString());
+        });
+    });
+
+    suite('parseSessionLog', () => {
+        test('should return empty log for invalid content', () => {
+            assert.deepStrictEqual(parseSessionLog('oops').sessions, []);
+            assert.deepStrictEqual(parseSessionLog('{"sessions": 1}').sessions, []);
+        });
+
+        test('should skip invalid records and recompute speed', () => {
+            const log = parseSessionLog(JSON.stringify({
+                version: 1,
+                sessions: [
+                    { start: at(0).toISOString(), end: at(30).toISOString(), activeMinutes: 30, words: 600 },
+                    { start: 'bad', end: 'bad' }
+                ]
+            }));
+            assert.strictEqual(log.sessions.length, 1);
+            assert.strictEqual(log.sessions[0].wordsPerHour, 1200);
+            assert.deepStrictEqual(log.sessions[0].chapters, {});
+        });
+    });
+
+    suite('summarizeSessions', () => {
+        const session = (start: Date, activeMinutes: number, words: number): WritingSessionRecord => ({
+            start: start.toISOString(),
+            end: start.toISOString(),
+            durationMinutes: activeMinutes,
+            activeMinutes,
+            idleMinutes: 0,
+            words,
+            chapters: {},
+            wordsPerHour: calculateWordsPerHour(words, activeMinutes)
+        });
+
+        test('should group by time slot and weekday', () => {
+            // 2024-03-13 周三，2024-03-16 周六
+            const summary = summarizeSessions([
+                session(new Date(2024, 2, 13, 9, 0, 0), 60, 1000),
+                session(new Date(2024, 2, 13, 22, 0, 0), 30, 1500),
+                session(new Date(2024, 2, 16, 23, 0, 0), 30, 500)
+            ]);
+
+            assert.strictEqual(summary.sessionCount, 3);
+            assert.strictEqual(summary.totalWords, 3000);
+            assert.strictEqual(summary.averageMinutes, 40);
+            assert.strictEqual(summary.wordsPerHour, 1500);
+            assert.deepStrictEqual(summary.timeSlots.map(slot => slot.wordsPerHour), [0, 0, 1000, 0, 0, 2000]);
+            assert.deepStrictEqual(summary.weekdays.map(day => day.sessions), [0, 0, 2, 0, 0, 1, 0]);
+        });
+
+        test('should handle no sessions', () => {
+            const summary = summarizeSessions([]);
+            assert.strictEqual(summary.wordsPerHour, 0);
+            assert.strictEqual(summary.timeSlots.length, 6);
+        });
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * 人物出场统计相关类型定义
+ */
+
+/**
+ * 单章中各人物的出现次数
+ */
+export interface ChapterMentions {
+    /** 章节标题 */
+    title: string;
+
+    /** 源文件相对 chapters/ 的路径 */
+    sourcePath: string;
+
+    /** 人物名 -> 出现次数（未出现的人物不包含） */
+    counts: Record<string, number>;
+}
+
+/**
+ * 单个人物的出场汇总
+ */
+export interface CharacterAppearance {
+    /** 人物名 */
+    name: string;
+
+    /** 全书出现次数 */
+    total: number;
+
+    /** 出现过的章节数 */
+    chapterCount: number;
+
+    /** 首次出现的章节下标（从 0 开始，未出现时为 undefined） */
+    firstChapter?: number;
+
+    /** 最后出现的章节下标 */
+    lastChapter?: number;
+
+    /** 最后一次出现之后又过了多少章 */
+    chaptersSinceLast: number;
+
+    /** 是否超过阈值章数未出现 */
+    absent: boolean;
+}
+
+/**
+ * 人物出场报告
+ */
+export interface CharacterAppearanceReport {
+    /** 按阅读顺序排列的章节 */
+    chapters: ChapterMentions[];
+
+    /** 各人物出场汇总（按首次出现顺序，未出现的人物排在最后） */
+    characters: CharacterAppearance[];
+
+    /** 缺席提醒阈值（章数，0 表示不提醒） */
+    absenceThreshold: number;
+}
@@ -44,6 +44,7 @@ export interface NovelConfig {
     output?: {
         outputDir?: string;
         formats?: string[];
+        encoding?: 'utf-8' | 'gb18030';
     };
     noveler?: NovelerConfig;
 }
@@ -53,6 +54,8 @@ export interface NovelConfig {
  */
 export interface NovelerConfig {
     targetWords?: number;
+    dailyGoal?: { words?: number; notify?: boolean };
+    bookGoal?: { totalWords?: number; chapters?: number; deadline?: string };
     highlight?: unknown;
     format?: unknown;
     wordCount?: unknown;
@@ -61,8 +64,10 @@ export interface NovelerConfig {
     paragraphIndent?: { value: boolean };
     autoSave?: unknown;
     sensitiveWords?: SensitiveWordsConfig;
+    textAnalysis?: unknown;
     volumes?: VolumesConfig;
     characters?: unknown;
+    characterAppearance?: { absenceWarning?: number };
 }
 
 /**
@@ -0,0 +1,109 @@
+/**
+ * 导出相关类型定义
+ */
+
+/**
+ * 书籍元数据（来自 novel.jsonc）
+ */
+export interface BookMetadata {
+    /** 书名 */
+    title: string;
+
+    /** 作者 */
+    author: string;
+
+    /** 简介（可选） */
+    description?: string;
+}
+
+/**
+ * 导出用的章节内容
+ */
+export interface ManuscriptChapter {
+    /** 章节号（来自 Front Matter，可能缺失） */
+    number?: number;
+
+    /** 完整章节标题，如 "第一章 初入江湖" */
+    heading: string;
+
+    /** 正文段落（已去除 Front Matter、标题、注释和首行缩进） */
+    paragraphs: string[];
+
+    /** 源文件相对 chapters/ 的路径 */
+    sourcePath: string;
+}
+
+/**
+ * 导出用的分卷（扁平结构下只有一个无标题的分卷）
+ */
+export interface ManuscriptVolume {
+    /** 卷标题，如 "第一卷 崛起"；扁平结构下为空 */
+    heading?: string;
+
+    /** 卷简介（来自 volume.json，可选） */
+    description?: string;
+
+    /** 本卷章节（已按章节号排序） */
+    chapters: ManuscriptChapter[];
+}
+
+/**
+ * 完整书稿
+ */
+export interface Manuscript {
+    /** 书籍元数据 */
+    metadata: BookMetadata;
+
+    /** 分卷列表 */
+    volumes: ManuscriptVolume[];
+}
+
+/**
+ * 文本编码（纯文本格式使用）
+ */
+export type TextEncoding = 'utf-8' | 'gb18030';
+
+/**
+ * 导出范围
+ * - all: 全书
+ * - chapter: 单章（按源文件路径）
+ * - volume: 单卷（按卷在书稿中的下标）
+ * - range: 章节范围（按阅读顺序的位置，从 1 开始，包含两端）
+ */
+export type ExportScope =
+    | { type: 'all' }
+    | { type: 'chapter'; sourcePath: string }
+    | { type: 'volume'; volumeIndex: number }
+    | { type: 'range'; start: number; end: number };
+
+/**
+ * 导出选项（由 ExportService 根据配置生成，传给各格式构建器）
+ */
+export interface ExportOptions {
+    /** 文本编码 */
+    encoding: TextEncoding;
+
+    /** 段落首行缩进（对应 paragraphIndent 配置） */
+    paragraphIndent: boolean;
+
+    /** 段落之间空一行（对应 autoEmptyLine 配置） */
+    emptyLineBetweenParagraphs: boolean;
+
+    /** 是否输出书名、作者等扉页信息（导出单章或逐章拆分时关闭） */
+    includeTitlePage: boolean;
+}
+
+/**
+ * 导出格式构建器
+ * 每种格式（epub、txt 等）注册一个构建器，由 ExportService 按 output.formats 调度
+ */
+export interface BookFormatBuilder {
+    /** 格式名称（对应 output.formats 中的值） */
+    format: string;
+
+    /** 文件扩展名（不含点） */
+    extension: string;
+
+    /** 生成文件内容 */
+    build(manuscript: Manuscript, options: ExportOptions): Buffer;
+}
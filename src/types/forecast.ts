@@ -0,0 +1,75 @@
+/**
+ * 完成预测相关类型定义
+ */
+
+/**
+ * 全书目标（对应 novel.jsonc 中的 noveler.bookGoal）
+ */
+export interface BookGoal {
+    /** 目标字数（0 表示不设置） */
+    totalWords: number;
+
+    /** 目标章节数（0 表示不设置） */
+    chapters: number;
+
+    /** 截止日期 YYYY-MM-DD */
+    deadline?: string;
+}
+
+/**
+ * 完成预测输入
+ */
+export interface ForecastInput {
+    /** 当前字数 */
+    current: number;
+
+    /** 目标字数 */
+    target: number;
+
+    /** 近期写作速度（字/天，按自然日平均） */
+    dailyPace: number;
+
+    /** 截止日期 YYYY-MM-DD（可选） */
+    deadline?: string;
+
+    /** 开始日期 YYYY-MM-DD（可选，与截止日期一起用于计算按计划应完成的字数） */
+    startDate?: string;
+}
+
+/**
+ * 完成预测结果
+ */
+export interface CompletionForecast {
+    /** 当前字数 */
+    current: number;
+
+    /** 目标字数 */
+    target: number;
+
+    /** 剩余字数 */
+    remaining: number;
+
+    /** 完成百分比（0-100） */
+    progress: number;
+
+    /** 近期写作速度（字/天） */
+    dailyPace: number;
+
+    /** 按当前速度预计完成日期 YYYY-MM-DD（已完成时为今天，速度不足以推进时为 undefined） */
+    estimatedDate?: string;
+
+    /** 截止日期 YYYY-MM-DD */
+    deadline?: string;
+
+    /** 距截止日期剩余天数（含今天，已过期为 0） */
+    daysLeft?: number;
+
+    /** 按时完成需要的日均字数 */
+    requiredDailyWords?: number;
+
+    /** 按开始 / 截止日期线性计划，今天应达到的字数 */
+    expectedByNow?: number;
+
+    /** 是否落后于截止日期（按当前速度无法在截止日期前完成） */
+    behindSchedule: boolean;
+}
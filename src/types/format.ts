@@ -0,0 +1,138 @@
+/**
+ * 格式化规则相关类型定义
+ */
+
+/**
+ * 内置格式化规则名称
+ */
+export type BuiltinFormatRuleName = 'quotes' | 'ellipsis' | 'dash' | 'punctuation' | 'cjkSpaces';
+
+/**
+ * 自定义规则的作用范围
+ * - body：整行正文（默认）
+ * - narration：对话之外的叙述
+ * - dialogue：引号内的对话
+ */
+export type FormatRuleScope = 'body' | 'narration' | 'dialogue';
+
+/**
+ * 引号种类
+ * - corner：「」
+ * - whiteCorner：『』
+ * - double：“”
+ * - single：‘’
+ * - straight：英文直引号 "
+ */
+export type QuoteFamily = 'corner' | 'whiteCorner' | 'double' | 'single' | 'straight';
+
+/**
+ * 某一行的引号状态（由全文分析得出）
+ */
+export interface QuoteLineState {
+    /** 行首仍未闭合的引号（跨段落引用，外层在前），下一段开头需重复这些左引号 */
+    open: QuoteFamily[];
+
+    /** 引号是否配对，不配对的行不转换引号 */
+    balanced: boolean;
+}
+
+/**
+ * 不配对的引号
+ */
+export interface QuoteIssue {
+    /** 行号（从 0 开始） */
+    line: number;
+
+    /** 列号（从 0 开始） */
+    column: number;
+
+    /** 引号字符 */
+    quote: string;
+
+    /** 说明 */
+    message: string;
+}
+
+/**
+ * 格式化时的上下文
+ */
+export interface FormatRuleContext {
+    /** 中文引号样式（format.chineseQuoteStyle） */
+    quoteStyle: string;
+
+    /** 当前行的引号状态，未提供时只按本行判断引号是否配对 */
+    quoteState?: QuoteLineState;
+}
+
+/**
+ * 格式化规则（作用于一行正文中 HTML 注释之外的部分）
+ */
+export interface FormatRule {
+    /** 规则名称（内置规则为 BuiltinFormatRuleName，自定义规则为配置中的 name） */
+    name: string;
+
+    /** 显示名称 */
+    label: string;
+
+    /** 是否作用于整行（规则自行跳过 HTML 注释），默认只作用于注释之外的片段 */
+    wholeLine?: boolean;
+
+    /**
+     * 应用规则
+     * @param text 一行正文（或其中 HTML 注释之外的片段）
+     * @param context 格式化上下文
+     * @returns 处理后的文本
+     */
+    apply(text: string, context: FormatRuleContext): string;
+}
+
+/**
+ * novel.jsonc 中的自定义正则替换规则
+ */
+export interface CustomFormatRuleConfig {
+    /** 规则名称，用于格式化报告 */
+    name: string;
+
+    /** 正则表达式 */
+    pattern: string;
+
+    /** 替换文本，支持 $1 等分组引用 */
+    replacement: string;
+
+    /** 正则标志，默认 'g' */
+    flags?: string;
+
+    /** 作用范围，默认 'body' */
+    scope?: FormatRuleScope;
+
+    /** 是否启用，默认 true */
+    enabled?: boolean;
+}
+
+/**
+ * novel.jsonc 中的 format.rules 配置
+ */
+export type FormatRulesConfig = Partial<Record<BuiltinFormatRuleName, boolean>> & {
+    /** 自定义正则替换规则，按顺序在内置规则之后执行 */
+    custom?: CustomFormatRuleConfig[];
+};
+
+/**
+ * 某条规则对某一行的改动
+ */
+export interface FormatRuleChange {
+    /** 规则名称 */
+    rule: string;
+
+    /** 规则显示名称 */
+    label: string;
+
+    /** 行号（从 0 开始） */
+    line: number;
+
+    /** 规则执行前的行内容 */
+    before: string;
+
+    /** 规则执行后的行内容 */
+    after: string;
+}
@@ -0,0 +1,93 @@
+/**
+ * 写作历史相关类型定义（.noveler/history.json）
+ */
+
+/**
+ * 单日写作记录
+ */
+export interface DailyWritingRecord {
+    /** 当日净增字数（全项目，新增减去删除） */
+    words: number;
+
+    /** 当日新增字数（正增量之和） */
+    added: number;
+
+    /** 当日删除字数（负增量绝对值之和） */
+    deleted: number;
+
+    /** 各章节当日净增字数（键为相对 chapters/ 的路径） */
+    chapters: Record<string, number>;
+
+    /** 当日有效写作时长（分钟），由间隔较短的相邻两次保存累计 */
+    activeMinutes: number;
+}
+
+/**
+ * 写作历史文件结构
+ */
+export interface WritingHistory {
+    /** 文件格式版本 */
+    version: 1;
+
+    /** 最后一次记录时间（ISO 字符串），用于计算写作时长 */
+    lastRecordAt?: string;
+
+    /** 开始记录计数规则时使用的计数规则标识（尚未单独记录的章节按此规则统计） */
+    countingProfile?: string;
+
+    /** 各章节 Front Matter 中 wordCount 使用的计数规则标识（键为相对 chapters/ 的路径） */
+    chapterProfiles?: Record<string, string>;
+
+    /** 每日记录（键为本地日期 YYYY-MM-DD） */
+    days: Record<string, DailyWritingRecord>;
+}
+
+/**
+ * 趋势统计周期
+ */
+export type TrendPeriod = 'day' | 'week' | 'month';
+
+/**
+ * 趋势图数据点
+ */
+export interface TrendPoint {
+    /** 显示标签（如 03-15、第 11 周、2024-03） */
+    label: string;
+
+    /** 周期起始日期 YYYY-MM-DD */
+    start: string;
+
+    /** 周期内净增字数 */
+    words: number;
+}
+
+/**
+ * 日历热力图单元格
+ */
+export interface HeatmapCell {
+    /** 日期 YYYY-MM-DD */
+    date: string;
+
+    /** 当日净增字数 */
+    words: number;
+
+    /** 颜色等级 0-4（0 表示未写作） */
+    level: number;
+}
+
+/**
+ * 写作速度统计
+ */
+export interface WritingSpeed {
+    /** 统计区间内净增字数 */
+    totalWords: number;
+
+    /** 有写作记录的天数 */
+    activeDays: number;
+
+    /** 日均字数（按有写作记录的天数平均） */
+    averageDailyWords: number;
+
+    /** 每小时字数（按有效写作时长计算，无时长记录时为 0） */
+    wordsPerHour: number;
+}
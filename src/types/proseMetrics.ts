@@ -0,0 +1,26 @@
+/**
+ * 章节节奏指标类型定义
+ */
+
+/**
+ * 章节节奏指标（长度均按非空白字符计）
+ */
+export interface ProseMetrics {
+    /** 段落数 */
+    paragraphCount: number;
+
+    /** 对话占比（0-1，引号内文字占正文的比例） */
+    dialogueRatio: number;
+
+    /** 心理描写占比（0-1，全角括号内文字占正文的比例） */
+    thoughtRatio: number;
+
+    /** 平均段落长度 */
+    avgParagraphLength: number;
+
+    /** 平均句子长度 */
+    avgSentenceLength: number;
+
+    /** 最长段落长度 */
+    longestParagraph: number;
+}
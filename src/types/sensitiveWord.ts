@@ -21,6 +21,24 @@ export interface SensitiveMatch {
     level: SensitiveLevel;
     /** 是否在白名单中 */
     inWhitelist: boolean;
+    /** 变体写法（原文中拆开、繁体、拼音等写法），普通匹配没有此字段 */
+    variant?: string;
+    /** 分类（如 "政治敏感"，来自词库） */
+    category?: string;
+    /** 备注（来自自定义词库） */
+    note?: string;
+    /** 放过此处的词组例外（只在检测时要求返回被放过的匹配时出现） */
+    exception?: SensitiveException;
+}
+
+/**
+ * 词组例外：敏感词出现在常见词组中时不提示（如 "日子" 中的 "日"）
+ */
+export interface SensitiveException {
+    /** 命中的例外词组 */
+    phrase: string;
+    /** 例外来源：内置 exceptions.json / 项目 exceptions.jsonc */
+    source: 'builtin' | 'project';
 }
 
 /**
@@ -39,6 +57,8 @@ export interface WordLibraryMetadata {
     description: string;
     /** 许可证 */
     license: string;
+    /** 各级别包含的分类 */
+    categories?: Record<SensitiveLevel, string[]>;
 }
 
 /**
@@ -51,6 +71,8 @@ export interface WordLibraryFile {
     description: string;
     /** 总词数 */
     totalWords: number;
+    /** 分类 -> 该分类的词 */
+    categories?: Record<string, string[]>;
     /** 词汇列表 */
     words: string[];
 }
@@ -65,6 +87,124 @@ export interface CustomWordLibrary {
     words: string[];
 }
 
+/**
+ * 自定义敏感词条目（对象写法，也可以直接写字符串）
+ */
+export interface CustomSensitiveWordEntry {
+    /** 敏感词 */
+    word: string;
+    /** 级别（默认 high） */
+    level?: SensitiveLevel;
+    /** 分类 */
+    category?: string;
+    /** 备注（显示在提示中，如为什么要避免） */
+    note?: string;
+    /** 替换建议（单个或多个） */
+    suggestion?: string | string[];
+}
+
+/**
+ * 自定义敏感词库文件格式（custom-words.jsonc）
+ */
+export interface CustomSensitiveLibrary {
+    /** 描述 */
+    description: string;
+    /** 词汇列表（字符串或对象） */
+    words: (string | CustomSensitiveWordEntry)[];
+}
+
+/**
+ * 解析后的敏感词定义
+ */
+export interface SensitiveWordDefinition {
+    /** 敏感词 */
+    word: string;
+    /** 级别 */
+    level: SensitiveLevel;
+    /** 分类 */
+    category?: string;
+    /** 备注 */
+    note?: string;
+    /** 替换建议 */
+    suggestions: string[];
+}
+
+/**
+ * 词组例外文件格式（内置 exceptions.json / 项目 exceptions.jsonc）
+ */
+export interface ExceptionLibraryFile {
+    /** 描述 */
+    description?: string;
+    /** 敏感词 -> 包含该词的常见词组（单个或多个） */
+    exceptions: Record<string, string | string[]>;
+}
+
+/**
+ * 已忽略的单处敏感词（保存在 .noveler/sensitive-words/ignores.json）
+ * 按前后文定位，章节其他地方修改后仍然有效
+ */
+export interface SensitiveIgnoreEntry {
+    /** 文件路径（相对项目根目录） */
+    chapter: string;
+    /** 敏感词（变体为它疑似的原词） */
+    word: string;
+    /** 变体在原文中的写法，普通匹配没有此字段 */
+    variant?: string;
+    /** 敏感词前的文字（同一行内） */
+    before: string;
+    /** 敏感词后的文字（同一行内） */
+    after: string;
+    /** 忽略时间 */
+    createdAt: string;
+}
+
+/**
+ * 已忽略敏感词文件格式（ignores.json）
+ */
+export interface SensitiveIgnoreFile {
+    /** 已忽略的位置 */
+    ignores: SensitiveIgnoreEntry[];
+}
+
+/**
+ * 替换建议文件格式（内置 replacements.json / 项目 replacements.jsonc）
+ */
+export interface ReplacementLibraryFile {
+    /** 描述 */
+    description?: string;
+    /** 敏感词 -> 替换建议（单个或多个） */
+    replacements: Record<string, string | string[]>;
+}
+
+/**
+ * 敏感词变体检测选项
+ */
+export interface SensitiveVariantOptions {
+    /** 忽略拆字符号（空格、*、· 等） */
+    separators: boolean;
+    /** 全角字母数字视为半角 */
+    fullWidth: boolean;
+    /** 繁体字视为简体字 */
+    traditional: boolean;
+    /** 识别拼音和首字母替代 */
+    pinyin: boolean;
+}
+
+/**
+ * 平台配置（如 起点 / 晋江 / 番茄），切换后覆盖基础配置中的对应项
+ */
+export interface SensitiveProfile {
+    /** 说明 */
+    description?: string;
+    /** 检测级别（未列出的级别沿用基础配置） */
+    levels?: Partial<Record<SensitiveLevel, boolean>>;
+    /** 分类开关（与基础配置合并，同名分类以平台配置为准） */
+    categories?: Record<string, boolean>;
+    /** 额外加载的自定义词库（相对项目根目录，格式同 custom-words.jsonc） */
+    customLibraries?: string[];
+    /** 问题严重程度 */
+    severity?: 'Error' | 'Warning' | 'Information';
+}
 
 /**
  * 敏感词配置
@@ -85,6 +225,8 @@ export interface SensitiveWordConfig {
         enabled: boolean;
         /** 文件路径 */
         path: string;
+        /** 额外加载的词库路径（来自当前平台配置） */
+        extraPaths?: string[];
     };
     /** 白名单配置 */
     whitelist?: {
@@ -93,6 +235,17 @@ export interface SensitiveWordConfig {
         /** 文件路径 */
         path: string;
     };
+    /** 分类开关（分类名 -> 是否检测，未列出的分类默认检测） */
+    categories?: Record<string, boolean>;
+    /** 平台配置（名称 -> 配置） */
+    profiles?: Record<string, SensitiveProfile>;
+    /** 当前使用的平台配置名称（不设置时只使用基础配置） */
+    activeProfile?: string;
+    /** 变体检测配置（默认关闭） */
+    variantDetection?: SensitiveVariantOptions & {
+        /** 是否启用 */
+        enabled: boolean;
+    };
     /** 输入时检测 */
     checkOnType?: boolean;
     /** 保存时检测 */
@@ -113,3 +266,51 @@ export interface SensitiveWordConfig {
         whitelistPath: string;
     };
 }
+
+/**
+ * 全项目扫描中的单个敏感词位置
+ */
+export interface SensitiveScanItem {
+    /** 匹配到的词 */
+    word: string;
+    /** 敏感词级别 */
+    level: SensitiveLevel;
+    /** 行号（从 0 开始） */
+    line: number;
+    /** 列号（从 0 开始） */
+    character: number;
+    /** 上下文片段 */
+    context: string;
+    /** 变体写法（原文中的写法），普通匹配没有此字段 */
+    variant?: string;
+}
+
+/**
+ * 全项目扫描中单个章节的结果
+ */
+export interface SensitiveScanChapter {
+    /** 相对 chapters/ 的路径 */
+    path: string;
+    /** 章节标题 */
+    title: string;
+    /** 各级别数量 */
+    levels: Record<SensitiveLevel, number>;
+    /** 敏感词位置（按出现顺序） */
+    items: SensitiveScanItem[];
+}
+
+/**
+ * 全项目敏感词扫描报告
+ */
+export interface SensitiveScanReport {
+    /** 生成时间 */
+    generatedAt: string;
+    /** 扫描的章节数 */
+    scannedChapters: number;
+    /** 各级别总数 */
+    levels: Record<SensitiveLevel, number>;
+    /** 有敏感词的章节（按阅读顺序） */
+    chapters: SensitiveScanChapter[];
+    /** 按非当前平台配置检查时的平台配置名称 */
+    profile?: string;
+}
@@ -0,0 +1,112 @@
+/**
+ * 写作会话相关类型定义（.noveler/sessions.json）
+ */
+
+/**
+ * 进行中的写作会话状态
+ */
+export interface SessionTracker {
+    /** 开始时间（毫秒时间戳） */
+    startedAt: number;
+
+    /** 最后一次编辑时间（毫秒时间戳，开始时等于 startedAt） */
+    lastActivityAt: number;
+
+    /** 累计有效写作时长（毫秒） */
+    activeMs: number;
+
+    /** 累计空闲时长（毫秒） */
+    idleMs: number;
+
+    /** 各章节开始编辑前的字数（键为相对 chapters/ 的路径） */
+    baselines: Record<string, number>;
+
+    /** 各章节当前字数 */
+    counts: Record<string, number>;
+}
+
+/**
+ * 已结束的写作会话记录
+ */
+export interface WritingSessionRecord {
+    /** 开始时间（ISO 字符串） */
+    start: string;
+
+    /** 结束时间（ISO 字符串） */
+    end: string;
+
+    /** 总时长（分钟） */
+    durationMinutes: number;
+
+    /** 有效写作时长（分钟，不含空闲） */
+    activeMinutes: number;
+
+    /** 空闲时长（分钟） */
+    idleMinutes: number;
+
+    /** 净增字数（所有编辑过的章节） */
+    words: number;
+
+    /** 各章节净增字数（只包含有变化的章节） */
+    chapters: Record<string, number>;
+
+    /** 写作速度（字/小时，按有效时长计算） */
+    wordsPerHour: number;
+}
+
+/**
+ * 写作会话日志文件结构
+ */
+export interface WritingSessionLog {
+    /** 文件格式版本 */
+    version: 1;
+
+    /** 会话记录（按结束时间升序） */
+    sessions: WritingSessionRecord[];
+}
+
+/**
+ * 按时段 / 星期汇总的会话统计
+ */
+export interface SessionBucket {
+    /** 显示标签（如 上午 8-12 点、周一） */
+    label: string;
+
+    /** 会话数 */
+    sessions: number;
+
+    /** 净增字数 */
+    words: number;
+
+    /** 有效写作时长（分钟） */
+    activeMinutes: number;
+
+    /** 写作速度（字/小时） */
+    wordsPerHour: number;
+}
+
+/**
+ * 写作会话汇总
+ */
+export interface SessionSummary {
+    /** 会话数 */
+    sessionCount: number;
+
+    /** 净增字数 */
+    totalWords: number;
+
+    /** 有效写作时长（分钟） */
+    activeMinutes: number;
+
+    /** 平均每次会话的有效时长（分钟） */
+    averageMinutes: number;
+
+    /** 总体写作速度（字/小时） */
+    wordsPerHour: number;
+
+    /** 按开始时段汇总（每 4 小时一段） */
+    timeSlots: SessionBucket[];
+
+    /** 按星期汇总（周一到周日） */
+    weekdays: SessionBucket[];
+}
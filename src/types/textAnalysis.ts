@@ -0,0 +1,88 @@
+/**
+ * 文本分析相关类型定义
+ */
+
+/**
+ * 高频词组
+ */
+export interface PhraseCount {
+    /** 词组 */
+    phrase: string;
+
+    /** 出现次数 */
+    count: number;
+
+    /** 每万字出现次数 */
+    per10k: number;
+}
+
+/**
+ * 重复用词（同一段落内短距离重复出现）
+ */
+export interface RepetitionMatch {
+    /** 重复的词 */
+    word: string;
+
+    /** 本次出现的起始偏移量 */
+    start: number;
+
+    /** 本次出现的结束偏移量 */
+    end: number;
+
+    /** 上一次出现的起始偏移量 */
+    previousStart: number;
+}
+
+/**
+ * 关注词的使用统计
+ */
+export interface WatchedWordUsage {
+    /** 词 */
+    word: string;
+
+    /** 出现次数 */
+    count: number;
+
+    /** 短距离重复次数 */
+    repeated: number;
+}
+
+/**
+ * 文本分析报告
+ */
+export interface TextAnalysisReport {
+    /** 分析范围说明（如 "第一卷 崛起"） */
+    scopeLabel: string;
+
+    /** 章节数 */
+    chapterCount: number;
+
+    /** 汉字数 */
+    hanChars: number;
+
+    /** 高频词组（按次数降序） */
+    phrases: PhraseCount[];
+
+    /** 关注词使用情况（按次数降序，只包含出现过的词） */
+    watchedWords: WatchedWordUsage[];
+}
+
+/**
+ * 文本分析配置（novel.jsonc 中的 noveler.textAnalysis）
+ */
+export interface TextAnalysisConfig {
+    /** 忽略词列表：不计入高频词组，也不做重复检测（如人物名、口癖） */
+    ignoreWords?: string[];
+
+    /** 重复用词检测 */
+    repetition?: {
+        /** 是否启用（默认 true） */
+        enabled?: boolean;
+
+        /** 检测距离（字符数，默认 200） */
+        window?: number;
+
+        /** 额外关注的词（追加到内置词表） */
+        words?: string[];
+    };
+}
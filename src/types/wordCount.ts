@@ -0,0 +1,57 @@
+/**
+ * 字数统计相关类型定义
+ */
+
+/**
+ * 计数规则名称
+ * - default: 汉字 + 英文字母 / 数字 + 标点（可通过 includePunctuation 排除标点）
+ * - qidian: 起点规则，所有非空白字符
+ * - jjwxc: 晋江规则，汉字 + 标点，英文单词和数字串各计 1 字
+ * - hanOnly: 只统计汉字
+ * - englishWords: 按单词统计，英文单词和数字串各计 1 个，每个汉字计 1 个
+ */
+export type CountingProfileName = 'default' | 'qidian' | 'jjwxc' | 'hanOnly' | 'englishWords';
+
+/**
+ * 文本成分统计（已移除空白）
+ */
+export interface TextBreakdown {
+    /** 中文汉字数 */
+    hanChars: number;
+
+    /** 中文标点数（含全角符号和通用标点区） */
+    chinesePunctuation: number;
+
+    /** 英文字母和数字数 */
+    latinChars: number;
+
+    /** 英文标点数 */
+    latinPunctuation: number;
+
+    /** 英文单词和数字串数 */
+    latinWords: number;
+
+    /** 全部非空白字符数 */
+    nonSpaceChars: number;
+}
+
+/**
+ * 计数规则
+ */
+export interface CountingProfile {
+    /** 规则名称 */
+    name: CountingProfileName;
+
+    /** 显示名称 */
+    label: string;
+
+    /** 规则说明 */
+    description: string;
+
+    /**
+     * 根据文本成分计算字数
+     * @param breakdown 文本成分
+     * @param includePunctuation 是否计入标点（仅 default 规则使用）
+     */
+    count(breakdown: TextBreakdown, includePunctuation: boolean): number;
+}
@@ -0,0 +1,53 @@
+/**
+ * 章节文件枚举工具（平铺和分卷结构，按阅读顺序）
+ */
+
+import * as vscode from 'vscode';
+import { ExportService } from '../services/exportService';
+import { CHAPTERS_FOLDER } from '../constants';
+
+/**
+ * 章节文件
+ */
+export interface ChapterFile {
+    /** 文件 URI */
+    uri: vscode.Uri;
+    /** 相对 chapters/ 的路径 */
+    path: string;
+    /** 章节标题 */
+    title: string;
+}
+
+/**
+ * 按阅读顺序列出全部章节文件（没有工作区时返回空数组，读取失败时抛出异常）
+ */
+export async function listChapterFiles(): Promise<ChapterFile[]> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        return [];
+    }
+
+    const exportService = new ExportService();
+    const exportConfig = await exportService.loadExportConfig();
+    const manuscript = await exportService.collectManuscript(exportConfig.metadata);
+    const chaptersUri = vscode.Uri.joinPath(workspaceFolder.uri, CHAPTERS_FOLDER);
+
+    return manuscript.volumes
+        .flatMap(volume => volume.chapters)
+        .map(chapter => ({
+            uri: vscode.Uri.joinPath(chaptersUri, ...chapter.sourcePath.split('/')),
+            path: chapter.sourcePath,
+            title: chapter.heading
+        }));
+}
+
+/**
+ * 读取章节内容（已打开的文档以编辑器中的内容为准，包括未保存的修改）
+ * @param uri 章节文件 URI
+ */
+export async function readChapterText(uri: vscode.Uri): Promise<string> {
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+    return openDocument
+        ? openDocument.getText()
+        : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+}
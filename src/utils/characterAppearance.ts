@@ -0,0 +1,83 @@
+/**
+ * 人物出场统计
+ * 基于人物名 Trie 树统计每章的人物出现次数，不依赖 vscode
+ */
+
+import { SimpleTrieTree } from './simpleTrieTree';
+import { CharacterAppearance, ChapterMentions } from '../types/characterAppearance';
+
+/** 默认缺席提醒阈值（章数） */
+export const DEFAULT_ABSENCE_THRESHOLD = 30;
+
+/**
+ * 统计文本中各人物名的出现次数
+ *
+ * @param text 章节正文
+ * @param trie 人物名 Trie 树（重叠时取最长匹配，如"张三丰"不会计入"张三"）
+ * @returns 人物名 -> 出现次数
+ */
+export function countCharacterMentions(text: string, trie: SimpleTrieTree): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const match of trie.search(text)) {
+        counts[match.word] = (counts[match.word] ?? 0) + 1;
+    }
+    return counts;
+}
+
+/**
+ * 汇总各人物的出场情况
+ *
+ * @param names 人物名列表
+ * @param chapters 按阅读顺序排列的各章出现次数
+ * @param absenceThreshold 超过多少章未出现视为缺席（0 表示不提醒）
+ * @returns 按首次出现顺序排列，未出现的人物排在最后
+ *
+ * @example
+ * ```typescript
+ * summarizeAppearances(['萧炎'], [{ title: '第一章', sourcePath: '001.md', counts: { 萧炎: 3 } }], 30);
+ * // [{ name: '萧炎', total: 3, chapterCount: 1, firstChapter: 0, lastChapter: 0, chaptersSinceLast: 0, absent: false }]
+ * ```
+ */
+export function summarizeAppearances(
+    names: string[],
+    chapters: ChapterMentions[],
+    absenceThreshold: number = DEFAULT_ABSENCE_THRESHOLD
+): CharacterAppearance[] {
+    const summaries = Array.from(new Set(names)).map(name => {
+        const summary: CharacterAppearance = { name, total: 0, chapterCount: 0, chaptersSinceLast: 0, absent: false };
+        chapters.forEach((chapter, index) => {
+            const count = chapter.counts[name] ?? 0;
+            if (count > 0) {
+                summary.total += count;
+                summary.chapterCount++;
+                if (summary.firstChapter === undefined) {
+                    summary.firstChapter = index;
+                }
+                summary.lastChapter = index;
+            }
+        });
+        if (summary.lastChapter !== undefined) {
+            summary.chaptersSinceLast = chapters.length - 1 - summary.lastChapter;
+            summary.absent = absenceThreshold > 0 && summary.chaptersSinceLast > absenceThreshold;
+        }
+        return summary;
+    });
+
+    return summaries.sort((a, b) =>
+        (a.firstChapter ?? Infinity) - (b.firstChapter ?? Infinity) || b.total - a.total
+    );
+}
+
+/**
+ * 计算热力图色阶（相对该人物出现最多的一章）
+ *
+ * @param count 本章出现次数
+ * @param max 该人物单章最多出现次数
+ * @returns 0-4，0 表示未出现
+ */
+export function getMentionLevel(count: number, max: number): number {
+    if (count <= 0 || max <= 0) {
+        return 0;
+    }
+    return Math.min(4, Math.max(1, Math.ceil((count / max) * 4)));
+}
@@ -3,6 +3,11 @@
  */
 
 import { NovelConfig } from '../services/configService';
+import { parseDateOnly } from './forecast';
+import { COUNTING_PROFILES, isCountingProfileName } from './countingProfiles';
+import { DEFAULT_REPETITION_WINDOW } from './textAnalysis';
+import { DEFAULT_ABSENCE_THRESHOLD } from './characterAppearance';
+import { resolveFormatRules } from './formatRules';
 
 export interface ValidationError {
     field: string;
@@ -42,6 +47,95 @@ export function validateConfig(config: NovelConfig): ValidationError[] {
         }
     }
 
+    // 验证 dailyGoal
+    if (config.dailyGoal?.words !== undefined) {
+        const words = config.dailyGoal.words;
+        if (typeof words !== 'number') {
+            errors.push({
+                field: 'dailyGoal.words',
+                message: '每日目标字数必须是数字',
+                severity: 'error'
+            });
+        } else if (words < 0) {
+            errors.push({
+                field: 'dailyGoal.words',
+                message: '每日目标字数不能为负数（0 表示不启用）',
+                severity: 'error'
+            });
+        } else if (words > 100000) {
+            errors.push({
+                field: 'dailyGoal.words',
+                message: '每日目标字数建议不超过 100000',
+                severity: 'warning'
+            });
+        }
+    }
+
+    // 验证 bookGoal
+    if (config.bookGoal) {
+        const counts: Array<['totalWords' | 'chapters', string]> = [['totalWords', '全书目标字数'], ['chapters', '全书目标章节数']];
+        for (const [key, label] of counts) {
+            const value = config.bookGoal[key];
+            if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+                errors.push({
+                    field: `bookGoal.${key}`,
+                    message: `${label}必须是非负数字（0 表示不设置）`,
+                    severity: 'error'
+                });
+            }
+        }
+
+        const deadline = config.bookGoal.deadline;
+        if (deadline !== undefined && deadline !== '' && (typeof deadline !== 'string' || !parseDateOnly(deadline))) {
+            errors.push({
+                field: 'bookGoal.deadline',
+                message: `截止日期无效：${deadline}（格式应为 YYYY-MM-DD）`,
+                severity: 'error'
+            });
+        }
+    }
+
+    // 验证 wordCount.profile
+    if (config.wordCount?.profile !== undefined && !isCountingProfileName(config.wordCount.profile)) {
+        errors.push({
+            field: 'wordCount.profile',
+            message: `计数规则无效：${config.wordCount.profile}，可选值：${Object.keys(COUNTING_PROFILES).join(' | ')}`,
+            severity: 'error'
+        });
+    }
+
+    // 验证 textAnalysis
+    const repetitionWindow = config.textAnalysis?.repetition?.window;
+    if (repetitionWindow !== undefined && (typeof repetitionWindow !== 'number' || repetitionWindow <= 0)) {
+        errors.push({
+            field: 'textAnalysis.repetition.window',
+            message: '重复检测距离必须是大于 0 的数字',
+            severity: 'error'
+        });
+    }
+    for (const [field, value] of [
+        ['textAnalysis.ignoreWords', config.textAnalysis?.ignoreWords],
+        ['textAnalysis.repetition.words', config.textAnalysis?.repetition?.words]
+    ] as const) {
+        if (value !== undefined && (!Array.isArray(value) || value.some(word => typeof word !== 'string'))) {
+            errors.push({
+                field,
+                message: '词表必须是字符串数组',
+                severity: 'warning'
+            });
+        }
+    }
+
+    // 验证 characterAppearance.absenceWarning
+    const absenceWarning = config.characterAppearance?.absenceWarning;
+    if (absenceWarning !== undefined && (typeof absenceWarning !== 'number' || absenceWarning < 0)) {
+        errors.push({
+            field: 'characterAppearance.absenceWarning',
+            message: '人物缺席提醒章数必须是非负数字',
+            severity: 'error'
+        });
+    }
+
     // 验证 highlight 样式
     if (config.highlight) {
         for (const [type, style] of Object.entries(config.highlight)) {
@@ -64,7 +158,7 @@ export function validateConfig(config: NovelConfig): ValidationError[] {
 
     // 验证 format.chineseQuoteStyle
     if (config.format?.chineseQuoteStyle) {
-        const validStyles = ['「」', '""', '""'];
+        const validStyles = ['「」', '“”', '""'];
         if (!validStyles.includes(config.format.chineseQuoteStyle)) {
             errors.push({
                 field: 'format.chineseQuoteStyle',
@@ -74,6 +168,17 @@ export function validateConfig(config: NovelConfig): ValidationError[] {
         }
     }
 
+    // 验证 format.rules（自定义规则的正则和作用范围）
+    if (config.format?.rules) {
+        for (const message of resolveFormatRules(config.format.rules).errors) {
+            errors.push({
+                field: 'format.rules.custom',
+                message,
+                severity: 'warning'
+            });
+        }
+    }
+
     // 验证 autoUpdateReadmeOnCreate
     if (config.autoUpdateReadmeOnCreate?.value) {
         const validValues = ['always', 'ask', 'never'];
@@ -139,6 +244,44 @@ export function fixConfig(config: NovelConfig): NovelConfig {
         }
     }
 
+    // 修复 dailyGoal（无效值视为不启用）
+    if (fixed.dailyGoal?.words !== undefined) {
+        if (typeof fixed.dailyGoal.words !== 'number' || fixed.dailyGoal.words < 0) {
+            fixed.dailyGoal.words = 0;
+        }
+    }
+
+    // 修复 bookGoal（无效值视为不设置）
+    if (fixed.bookGoal) {
+        for (const key of ['totalWords', 'chapters'] as const) {
+            const value = fixed.bookGoal[key];
+            if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+                fixed.bookGoal[key] = 0;
+            }
+        }
+        const deadline = fixed.bookGoal.deadline;
+        if (deadline !== undefined && (typeof deadline !== 'string' || !parseDateOnly(deadline))) {
+            fixed.bookGoal.deadline = '';
+        }
+    }
+
+    // 修复 wordCount.profile
+    if (fixed.wordCount?.profile !== undefined && !isCountingProfileName(fixed.wordCount.profile)) {
+        fixed.wordCount.profile = 'default'; // 恢复默认值
+    }
+
+    // 修复 textAnalysis.repetition.window
+    const repetition = fixed.textAnalysis?.repetition;
+    if (repetition?.window !== undefined && (typeof repetition.window !== 'number' || repetition.window <= 0)) {
+        repetition.window = DEFAULT_REPETITION_WINDOW; // 恢复默认值
+    }
+
+    // 修复 characterAppearance.absenceWarning
+    if (fixed.characterAppearance?.absenceWarning !== undefined
+        && (typeof fixed.characterAppearance.absenceWarning !== 'number' || fixed.characterAppearance.absenceWarning < 0)) {
+        fixed.characterAppearance.absenceWarning = DEFAULT_ABSENCE_THRESHOLD; // 恢复默认值
+    }
+
     // 修复 autoUpdateReadmeOnCreate
     if (fixed.autoUpdateReadmeOnCreate?.value) {
         const validValues = ['always', 'ask', 'never'];
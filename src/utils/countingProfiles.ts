@@ -0,0 +1,182 @@
+/**
+ * 字数计数规则
+ * 不同平台的字数口径不同，统一在这里定义，不依赖 vscode
+ */
+
+import { CountingProfile, CountingProfileName, TextBreakdown } from '../types/wordCount';
+import { HTML_COMMENT_REGEX } from '../constants';
+
+const SPACE_REGEX = /[\s\u3000]/g;
+const HAN_CHARS_REGEX = /[\u4e00-\u9fa5]/g;
+const CHINESE_PUNCTUATION_REGEX = /[\u3000-\u303f\uff00-\uffef\u2000-\u206f]/g;
+const LATIN_CHARS_REGEX = /[a-zA-Z0-9]/g;
+const LATIN_PUNCTUATION_REGEX = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/g;
+/** 英文单词或数字串（don't、3.14 之类计 1 个） */
+const LATIN_WORD_REGEX = /[a-zA-Z0-9]+(?:['\u2019.][a-zA-Z0-9]+)*/g;
+const HEADER_REGEX = /^#+\s+/;
+
+/** 默认计数规则 */
+export const DEFAULT_COUNTING_PROFILE: CountingProfileName = 'default';
+
+/**
+ * 全部计数规则
+ */
+export const COUNTING_PROFILES: Record<CountingProfileName, CountingProfile> = {
+    default: {
+        name: 'default',
+        label: '默认',
+        description: '汉字 + 英文字母和数字 + 标点',
+        count: (b, includePunctuation) =>
+            b.hanChars + b.latinChars + (includePunctuation ? b.chinesePunctuation + b.latinPunctuation : 0)
+    },
+    qidian: {
+        name: 'qidian',
+        label: '起点',
+        description: '所有非空白字符',
+        count: b => b.nonSpaceChars
+    },
+    jjwxc: {
+        name: 'jjwxc',
+        label: '晋江',
+        description: '汉字 + 标点，英文单词和数字串各计 1 字',
+        count: b => b.hanChars + b.chinesePunctuation + b.latinPunctuation + b.latinWords
+    },
+    hanOnly: {
+        name: 'hanOnly',
+        label: '仅汉字',
+        description: '只统计汉字',
+        count: b => b.hanChars
+    },
+    englishWords: {
+        name: 'englishWords',
+        label: '英文单词',
+        description: '英文单词和数字串各计 1 个，每个汉字计 1 个',
+        count: b => b.latinWords + b.hanChars
+    }
+};
+
+/**
+ * 判断是否为有效的计数规则名称
+ */
+export function isCountingProfileName(value: unknown): value is CountingProfileName {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(COUNTING_PROFILES, value);
+}
+
+/**
+ * 生成计数规则标识（计数规则和是否计入标点共同决定字数）
+ *
+ * @param profile 计数规则名称
+ * @param includePunctuation 是否计入标点（仅 default 规则使用）
+ * @returns 如 "qidian"、"default-noPunctuation"
+ */
+export function getCountingProfileKey(profile: CountingProfileName, includePunctuation = true): string {
+    return profile === 'default' && !includePunctuation ? `${profile}-noPunctuation` : profile;
+}
+
+/**
+ * 生成计数规则提示行（用于 tooltip，默认规则返回空字符串）
+ *
+ * @param profile 计数规则名称
+ * @returns 以换行开头的提示文本
+ */
+export function getCountingProfileHint(profile: CountingProfileName): string {
+    if (profile === DEFAULT_COUNTING_PROFILE) {
+        return '';
+    }
+    const rule = COUNTING_PROFILES[profile];
+    return `\n计数规则: ${rule.label}（${rule.description}）`;
+}
+
+/**
+ * 统计文本成分
+ *
+ * @param text 要统计的文本（应已移除 Front Matter、HTML 注释和不计入的标题）
+ * @returns 文本成分统计
+ */
+export function analyzeText(text: string): TextBreakdown {
+    const textWithoutSpaces = text.replace(SPACE_REGEX, '');
+    const count = (regex: RegExp) => (textWithoutSpaces.match(regex) || []).length;
+
+    return {
+        hanChars: count(HAN_CHARS_REGEX),
+        chinesePunctuation: count(CHINESE_PUNCTUATION_REGEX),
+        latinChars: count(LATIN_CHARS_REGEX),
+        latinPunctuation: count(LATIN_PUNCTUATION_REGEX),
+        // 按原文统计单词，避免去掉空格后相邻单词连在一起
+        latinWords: (text.match(LATIN_WORD_REGEX) || []).length,
+        // 按码点计数，emoji 等代理对字符计 1 个
+        nonSpaceChars: Array.from(textWithoutSpaces).length
+    };
+}
+
+/**
+ * 按计数规则统计字数
+ *
+ * @param breakdown 文本成分
+ * @param profile 计数规则名称
+ * @param includePunctuation 是否计入标点（仅 default 规则使用，默认 true）
+ * @returns 字数
+ *
+ * @example
+ * ```typescript
+ * const breakdown = analyzeText('Hello，世界！');
+ * countByProfile(breakdown, 'qidian');  // 9
+ * countByProfile(breakdown, 'jjwxc');   // 5
+ * countByProfile(breakdown, 'hanOnly'); // 2
+ * ```
+ */
+export function countByProfile(
+    breakdown: TextBreakdown,
+    profile: CountingProfileName = DEFAULT_COUNTING_PROFILE,
+    includePunctuation = true
+): number {
+    const rule = COUNTING_PROFILES[profile] ?? COUNTING_PROFILES[DEFAULT_COUNTING_PROFILE];
+    return rule.count(breakdown, includePunctuation);
+}
+
+/**
+ * 移除不计入字数的内容：HTML 注释，以及（可选）Markdown 标题行
+ *
+ * @param text 要统计的文本（应已移除 Front Matter）
+ * @param excludeHeaders 是否排除 Markdown 标题（默认 true）
+ * @returns 计入字数的文本
+ */
+export function stripUncountedText(text: string, excludeHeaders = true): string {
+    const processedText = text.replace(HTML_COMMENT_REGEX, '');
+    if (!excludeHeaders) {
+        return processedText;
+    }
+    return processedText
+        .split('\n')
+        .filter(line => !HEADER_REGEX.test(line.trim()))
+        .join('\n');
+}
+
+/**
+ * 详细字数统计
+ *
+ * @param text 要统计的文本（应已移除 Front Matter）
+ * @param profile 计数规则名称
+ * @param includePunctuation 是否计入标点（仅 default 规则使用，默认 true）
+ * @param excludeHeaders 是否排除 Markdown 标题（默认 true）
+ * @returns 正文字数（汉字 + 英文字母和数字）、标点数和按计数规则统计的总字数
+ *
+ * @example
+ * ```typescript
+ * getDetailedStats('这是一段测试文本。');
+ * // { content: 8, punctuation: 1, total: 9 }
+ * ```
+ */
+export function getDetailedStats(
+    text: string,
+    profile: CountingProfileName = DEFAULT_COUNTING_PROFILE,
+    includePunctuation = true,
+    excludeHeaders = true
+): { content: number; punctuation: number; total: number } {
+    const breakdown = analyzeText(stripUncountedText(text, excludeHeaders));
+    return {
+        content: breakdown.hanChars + breakdown.latinChars,
+        punctuation: breakdown.chinesePunctuation + breakdown.latinPunctuation,
+        total: countByProfile(breakdown, profile, includePunctuation)
+    };
+}
@@ -0,0 +1,215 @@
+/**
+ * DOCX 构建器
+ * 生成最小可用的 Office Open XML 文档：扉页、卷/章标题使用 Heading 样式，
+ * 正文使用首行缩进样式（不再依赖全角空格），章节之间分页，不依赖 vscode
+ */
+
+import { ZipWriter } from './zipWriter';
+import { escapeXml } from './manuscriptText';
+import { BookFormatBuilder, ExportOptions, Manuscript } from '../types/export';
+
+/**
+ * DOCX 构建选项
+ */
+export interface DocxBuildOptions {
+    /** 是否生成扉页，默认 true */
+    includeTitlePage?: boolean;
+    /** 创建时间（写入 docProps/core.xml），默认当前时间 */
+    created?: Date;
+}
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>
+</Types>
+`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties" Target="docProps/app.xml"/>
+</Relationships>
+`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>
+`;
+
+const APP_PROPERTIES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">
+<Application>Noveler</Application>
+</Properties>
+`;
+
+/**
+ * 样式表
+ * - Normal：宋体小四，1.5 倍行距，首行缩进 2 字符
+ * - Title / Subtitle：扉页书名和作者
+ * - Heading1 / Heading2：卷标题和章标题（段前分页，出现在 Word 导航窗格中）
+ */
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${WORD_NAMESPACE}">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:eastAsia="宋体" w:cs="Times New Roman"/><w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="en-US" w:eastAsia="zh-CN"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="360" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal">
+<w:name w:val="Normal"/>
+<w:qFormat/>
+<w:pPr><w:ind w:firstLineChars="200" w:firstLine="480"/><w:jc w:val="both"/></w:pPr>
+</w:style>
+<w:style w:type="paragraph" w:styleId="Title">
+<w:name w:val="Title"/>
+<w:basedOn w:val="Normal"/>
+<w:next w:val="Subtitle"/>
+<w:qFormat/>
+<w:pPr><w:spacing w:before="2400" w:after="600"/><w:ind w:firstLineChars="0" w:firstLine="0"/><w:jc w:val="center"/></w:pPr>
+<w:rPr><w:rFonts w:eastAsia="黑体"/><w:b/><w:sz w:val="52"/><w:szCs w:val="52"/></w:rPr>
+</w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle">
+<w:name w:val="Subtitle"/>
+<w:basedOn w:val="Normal"/>
+<w:qFormat/>
+<w:pPr><w:spacing w:after="600"/><w:ind w:firstLineChars="0" w:firstLine="0"/><w:jc w:val="center"/></w:pPr>
+<w:rPr><w:sz w:val="32"/><w:szCs w:val="32"/></w:rPr>
+</w:style>
+<w:style w:type="paragraph" w:styleId="Heading1">
+<w:name w:val="heading 1"/>
+<w:basedOn w:val="Normal"/>
+<w:next w:val="Normal"/>
+<w:qFormat/>
+<w:pPr><w:keepNext/><w:pageBreakBefore/><w:spacing w:before="1200" w:after="600"/><w:ind w:firstLineChars="0" w:firstLine="0"/><w:jc w:val="center"/><w:outlineLvl w:val="0"/></w:pPr>
+<w:rPr><w:rFonts w:eastAsia="黑体"/><w:b/><w:sz w:val="44"/><w:szCs w:val="44"/></w:rPr>
+</w:style>
+<w:style w:type="paragraph" w:styleId="Heading2">
+<w:name w:val="heading 2"/>
+<w:basedOn w:val="Normal"/>
+<w:next w:val="Normal"/>
+<w:qFormat/>
+<w:pPr><w:keepNext/><w:pageBreakBefore/><w:spacing w:before="600" w:after="400"/><w:ind w:firstLineChars="0" w:firstLine="0"/><w:jc w:val="center"/><w:outlineLvl w:val="1"/></w:pPr>
+<w:rPr><w:rFonts w:eastAsia="黑体"/><w:b/><w:sz w:val="32"/><w:szCs w:val="32"/></w:rPr>
+</w:style>
+</w:styles>
+`;
+
+/**
+ * 生成段落
+ * @param text 段落文本
+ * @param style 段落样式 ID（不传为 Normal）
+ * @param pageBreakBefore 是否强制段前分页（用于覆盖样式中的分页设置）
+ */
+function paragraph(text: string, style?: string, pageBreakBefore?: boolean): string {
+    const properties: string[] = [];
+    if (style) {
+        properties.push(`<w:pStyle w:val="${style}"/>`);
+    }
+    if (pageBreakBefore === false) {
+        properties.push('<w:pageBreakBefore w:val="0"/>');
+    }
+    const pPr = properties.length > 0 ? `<w:pPr>${properties.join('')}</w:pPr>` : '';
+    return `<w:p>${pPr}<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+}
+
+/**
+ * 构建 DOCX 文件
+ *
+ * @param manuscript 书稿
+ * @param options 构建选项
+ * @returns DOCX 文件内容
+ */
+export function buildDocx(manuscript: Manuscript, options: DocxBuildOptions = {}): Buffer {
+    const { metadata } = manuscript;
+    const includeTitlePage = options.includeTitlePage !== false;
+    const hasVolumeHeadings = manuscript.volumes.some(volume => volume.heading);
+    // 有分卷时卷为一级标题、章为二级标题；扁平结构章为一级标题
+    const chapterStyle = hasVolumeHeadings ? 'Heading2' : 'Heading1';
+
+    const body: string[] = [];
+
+    if (includeTitlePage) {
+        body.push(paragraph(metadata.title, 'Title'));
+        body.push(paragraph(metadata.author, 'Subtitle'));
+        if (metadata.description) {
+            for (const line of metadata.description.split(/\n+/).map(l => l.trim()).filter(l => l.length > 0)) {
+                body.push(paragraph(line));
+            }
+        }
+    }
+
+    for (const volume of manuscript.volumes) {
+        let chapterAfterVolumeHeading = false;
+        if (volume.heading) {
+            // 第一个标题前没有内容时不分页，避免产生空白首页
+            body.push(paragraph(volume.heading, 'Heading1', body.length === 0 ? false : undefined));
+            if (volume.description) {
+                body.push(paragraph(volume.description));
+            } else {
+                chapterAfterVolumeHeading = true;
+            }
+        }
+
+        for (const chapter of volume.chapters) {
+            // 紧跟在卷标题之后的章节与卷标题同页
+            const pageBreak = body.length === 0 || chapterAfterVolumeHeading ? false : undefined;
+            body.push(paragraph(chapter.heading, chapterStyle, pageBreak));
+            chapterAfterVolumeHeading = false;
+            for (const text of chapter.paragraphs) {
+                body.push(paragraph(text));
+            }
+        }
+    }
+
+    const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${WORD_NAMESPACE}">
+<w:body>
+${body.join('\n')}
+<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1800" w:bottom="1440" w:left="1800" w:header="851" w:footer="992" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>
+`;
+
+    const created = (options.created ?? new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const description = metadata.description
+        ? `\n<dc:description>${escapeXml(metadata.description)}</dc:description>`
+        : '';
+    const core = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(metadata.title)}</dc:title>
+<dc:creator>${escapeXml(metadata.author)}</dc:creator>${description}
+<dc:language>zh-CN</dc:language>
+<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${created}</dcterms:modified>
+</cp:coreProperties>
+`;
+
+    const zip = new ZipWriter();
+    zip.addFile('[Content_Types].xml', CONTENT_TYPES);
+    zip.addFile('_rels/.rels', PACKAGE_RELS);
+    zip.addFile('docProps/core.xml', core);
+    zip.addFile('docProps/app.xml', APP_PROPERTIES);
+    zip.addFile('word/document.xml', document);
+    zip.addFile('word/styles.xml', STYLES);
+    zip.addFile('word/_rels/document.xml.rels', DOCUMENT_RELS);
+
+    return zip.toBuffer();
+}
+
+/**
+ * DOCX 格式构建器（注册到 ExportService）
+ */
+export const docxFormatBuilder: BookFormatBuilder = {
+    format: 'docx',
+    extension: 'docx',
+    build: (manuscript: Manuscript, options: ExportOptions) =>
+        buildDocx(manuscript, { includeTitlePage: options.includeTitlePage })
+};
@@ -0,0 +1,309 @@
+/**
+ * EPUB 3 构建器
+ * 把书稿转换为 EPUB 文件（包含导航文档、NCX 目录、扉页和分卷页），不依赖 vscode
+ */
+
+import * as crypto from 'crypto';
+import { ZipWriter } from './zipWriter';
+import { escapeXml, markupParagraph } from './manuscriptText';
+import { BookFormatBuilder, Manuscript } from '../types/export';
+
+/**
+ * EPUB 构建选项
+ */
+export interface EpubBuildOptions {
+    /** 修改时间（写入 dcterms:modified），默认当前时间 */
+    modified?: Date;
+}
+
+/**
+ * 书内文件条目
+ */
+interface EpubItem {
+    /** manifest id */
+    id: string;
+    /** 相对 OEBPS/ 的路径 */
+    href: string;
+    /** 目录显示文字 */
+    label: string;
+}
+
+/**
+ * 目录节点（分卷 → 章节）
+ */
+interface TocNode {
+    item: EpubItem;
+    children: EpubItem[];
+}
+
+/** 样式表 */
+const EPUB_STYLE = `body {
+    font-family: serif;
+    line-height: 1.8;
+    margin: 0 5%;
+}
+h1, h2 {
+    text-align: center;
+    font-weight: bold;
+    margin: 2em 0 1.5em;
+}
+p {
+    text-indent: 2em;
+    margin: 0 0 0.8em;
+}
+.dialogue {
+    color: inherit;
+}
+.title-page {
+    text-align: center;
+    margin-top: 30%;
+}
+.title-page .author {
+    text-indent: 0;
+    margin-top: 2em;
+}
+.title-page .description {
+    text-align: left;
+    margin-top: 3em;
+}
+.volume-page {
+    margin-top: 35%;
+}
+`;
+
+/**
+ * 根据书名和作者生成稳定的 UUID（同一本书多次导出标识不变，阅读器可识别为同一本）
+ */
+function generateBookId(title: string, author: string): string {
+    const hex = crypto.createHash('sha1').update(`${title}\n${author}`).digest('hex');
+    return [
+        hex.slice(0, 8),
+        hex.slice(8, 12),
+        '5' + hex.slice(13, 16),
+        ((parseInt(hex.slice(16, 18), 16) & 0x3F) | 0x80).toString(16) + hex.slice(18, 20),
+        hex.slice(20, 32)
+    ].join('-');
+}
+
+/**
+ * 生成 XHTML 页面
+ */
+function xhtmlPage(title: string, body: string, epubType?: string): string {
+    const typeAttr = epubType ? ` epub:type="${epubType}"` : '';
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="zh-CN" lang="zh-CN">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body${typeAttr}>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * 格式化为 EPUB 要求的 UTC 时间（不含毫秒）
+ */
+function formatModified(date: Date): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * 构建 EPUB 文件
+ *
+ * @param manuscript 书稿
+ * @param options 构建选项
+ * @returns EPUB 文件内容
+ */
+export function buildEpub(manuscript: Manuscript, options: EpubBuildOptions = {}): Buffer {
+    const { metadata } = manuscript;
+    const modified = formatModified(options.modified ?? new Date());
+    const bookId = `urn:uuid:${generateBookId(metadata.title, metadata.author)}`;
+
+    const pages: { item: EpubItem; content: string }[] = [];
+    const toc: TocNode[] = [];
+
+    // 扉页：书名、作者、简介
+    const titleItem: EpubItem = { id: 'titlepage', href: 'titlepage.xhtml', label: metadata.title };
+    const descriptionHtml = metadata.description
+        ? metadata.description
+            .split(/\n+/)
+            .map(line => line.trim())
+            .filter(line => line.length > 0)
+            .map(line => `<p>${escapeXml(line)}</p>`)
+            .join('\n')
+        : '';
+    pages.push({
+        item: titleItem,
+        content: xhtmlPage(metadata.title, `<section class="title-page" epub:type="titlepage">
+<h1>${escapeXml(metadata.title)}</h1>
+<p class="author">${escapeXml(metadata.author)}</p>
+${descriptionHtml ? `<div class="description">\n${descriptionHtml}\n</div>` : ''}
+</section>`)
+    });
+
+    let chapterIndex = 0;
+    manuscript.volumes.forEach((volume, volumeIndex) => {
+        const chapterItems: EpubItem[] = [];
+        let volumeItem: EpubItem | undefined;
+
+        // 分卷页（扁平结构无卷标题，不生成）
+        if (volume.heading) {
+            const id = `volume-${String(volumeIndex + 1).padStart(2, '0')}`;
+            volumeItem = { id, href: `${id}.xhtml`, label: volume.heading };
+            const description = volume.description
+                ? `\n<p>${escapeXml(volume.description)}</p>`
+                : '';
+            pages.push({
+                item: volumeItem,
+                content: xhtmlPage(volume.heading, `<section class="volume-page" epub:type="part">
+<h1>${escapeXml(volume.heading)}</h1>${description}
+</section>`)
+            });
+        }
+
+        for (const chapter of volume.chapters) {
+            chapterIndex++;
+            const id = `chapter-${String(chapterIndex).padStart(4, '0')}`;
+            const item: EpubItem = { id, href: `${id}.xhtml`, label: chapter.heading };
+            const paragraphs = chapter.paragraphs.map(p => `<p>${markupParagraph(p)}</p>`).join('\n');
+            pages.push({
+                item,
+                content: xhtmlPage(chapter.heading, `<section epub:type="chapter">
+<h2>${escapeXml(chapter.heading)}</h2>
+${paragraphs}
+</section>`)
+            });
+            chapterItems.push(item);
+        }
+
+        if (volumeItem) {
+            toc.push({ item: volumeItem, children: chapterItems });
+        } else {
+            toc.push(...chapterItems.map(item => ({ item, children: [] })));
+        }
+    });
+
+    const firstContent = pages.length > 1 ? pages[1].item : titleItem;
+
+    // 导航文档（EPUB 3）
+    const navList = toc.map(node => {
+        const link = `<a href="${node.item.href}">${escapeXml(node.item.label)}</a>`;
+        if (node.children.length === 0) {
+            return `<li>${link}</li>`;
+        }
+        const children = node.children
+            .map(child => `<li><a href="${child.href}">${escapeXml(child.label)}</a></li>`)
+            .join('\n');
+        return `<li>${link}\n<ol>\n${children}\n</ol>\n</li>`;
+    }).join('\n');
+
+    const nav = xhtmlPage('目录', `<nav epub:type="toc" id="toc">
+<h1>目录</h1>
+<ol>
+${navList}
+</ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+<ol>
+<li><a epub:type="titlepage" href="${titleItem.href}">扉页</a></li>
+<li><a epub:type="toc" href="nav.xhtml">目录</a></li>
+<li><a epub:type="bodymatter" href="${firstContent.href}">正文</a></li>
+</ol>
+</nav>`);
+
+    // NCX 目录（兼容 EPUB 2 阅读器）
+    let playOrder = 0;
+    const navPoint = (item: EpubItem, children: EpubItem[]): string => {
+        playOrder++;
+        const inner = children.map(child => navPoint(child, [])).join('\n');
+        return `<navPoint id="nav-${item.id}" playOrder="${playOrder}">
+<navLabel><text>${escapeXml(item.label)}</text></navLabel>
+<content src="${item.href}"/>${inner ? '\n' + inner : ''}
+</navPoint>`;
+    };
+    const navPoints = toc.map(node => navPoint(node.item, node.children)).join('\n');
+    const ncx = `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1" xml:lang="zh-CN">
+<head>
+<meta name="dtb:uid" content="${bookId}"/>
+<meta name="dtb:depth" content="${toc.some(node => node.children.length > 0) ? 2 : 1}"/>
+<meta name="dtb:totalPageCount" content="0"/>
+<meta name="dtb:maxPageNumber" content="0"/>
+</head>
+<docTitle><text>${escapeXml(metadata.title)}</text></docTitle>
+<docAuthor><text>${escapeXml(metadata.author)}</text></docAuthor>
+<navMap>
+${navPoints}
+</navMap>
+</ncx>
+`;
+
+    // 包文档
+    const manifest = [
+        '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+        '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+        '<item id="style" href="style.css" media-type="text/css"/>',
+        ...pages.map(page => `<item id="${page.item.id}" href="${page.item.href}" media-type="application/xhtml+xml"/>`)
+    ].join('\n');
+    const spine = [
+        '<itemref idref="titlepage"/>',
+        '<itemref idref="nav"/>',
+        ...pages.slice(1).map(page => `<itemref idref="${page.item.id}"/>`)
+    ].join('\n');
+    const description = metadata.description
+        ? `\n<dc:description>${escapeXml(metadata.description)}</dc:description>`
+        : '';
+    const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="zh-CN">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${bookId}</dc:identifier>
+<dc:title>${escapeXml(metadata.title)}</dc:title>
+<dc:creator id="creator">${escapeXml(metadata.author)}</dc:creator>
+<dc:language>zh-CN</dc:language>${description}
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+${manifest}
+</manifest>
+<spine toc="ncx">
+${spine}
+</spine>
+</package>
+`;
+
+    const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+    const zip = new ZipWriter();
+    // mimetype 必须是第一个条目且不压缩
+    zip.addFile('mimetype', 'application/epub+zip', false);
+    zip.addFile('META-INF/container.xml', container);
+    zip.addFile('OEBPS/content.opf', opf);
+    zip.addFile('OEBPS/nav.xhtml', nav);
+    zip.addFile('OEBPS/toc.ncx', ncx);
+    zip.addFile('OEBPS/style.css', EPUB_STYLE);
+    for (const page of pages) {
+        zip.addFile(`OEBPS/${page.item.href}`, page.content);
+    }
+
+    return zip.toBuffer();
+}
+
+/**
+ * EPUB 格式构建器（注册到 ExportService）
+ */
+export const epubFormatBuilder: BookFormatBuilder = {
+    format: 'epub',
+    extension: 'epub',
+    build: (manuscript) => buildEpub(manuscript)
+};
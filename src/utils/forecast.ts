@@ -0,0 +1,120 @@
+/**
+ * 完成预测工具
+ * 根据目标字数、截止日期和近期写作速度预测完成日期，不依赖 vscode
+ */
+
+import { formatDate } from './dateFormatter';
+import { BookGoal, CompletionForecast, ForecastInput } from '../types/forecast';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 预测使用最近多少天的写作速度 */
+export const FORECAST_PACE_DAYS = 30;
+
+/**
+ * 解析 YYYY-MM-DD 日期
+ * @returns 无效日期返回 undefined
+ */
+export function parseDateOnly(value: string | undefined): Date | undefined {
+    const match = value ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null;
+    if (!match) {
+        return undefined;
+    }
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return formatDate(date) === match.slice(1, 4).join('-') ? date : undefined;
+}
+
+/**
+ * 计算两个日期相差的自然日数（to - from，忽略时间和夏令时）
+ */
+function diffDays(from: Date, to: Date): number {
+    const fromUtc = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+    const toUtc = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+    return Math.round((toUtc - fromUtc) / DAY_MS);
+}
+
+/**
+ * 预测完成日期
+ *
+ * @param input 当前进度、目标、速度和日期
+ * @param today 当前日期
+ * @returns 完成预测
+ *
+ * @example
+ * ```typescript
+ * forecastCompletion({ current: 100000, target: 200000, dailyPace: 2000, deadline: '2024-06-30' }, new Date(2024, 2, 1));
+ * // { remaining: 100000, estimatedDate: '2024-04-20', requiredDailyWords: 823, behindSchedule: false, ... }
+ * ```
+ */
+export function forecastCompletion(input: ForecastInput, today: Date = new Date()): CompletionForecast {
+    const { current, target } = input;
+    const dailyPace = Math.max(0, input.dailyPace);
+    const remaining = Math.max(0, target - current);
+    const progress = target > 0 ? Math.min(100, Math.round((current / target) * 100)) : 0;
+
+    const forecast: CompletionForecast = {
+        current,
+        target,
+        remaining,
+        progress,
+        dailyPace,
+        behindSchedule: false
+    };
+
+    if (remaining === 0) {
+        forecast.estimatedDate = formatDate(today);
+    } else if (dailyPace > 0) {
+        const estimated = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+        // 今天算第一天
+        estimated.setDate(estimated.getDate() + Math.ceil(remaining / dailyPace) - 1);
+        forecast.estimatedDate = formatDate(estimated);
+    }
+
+    const deadline = parseDateOnly(input.deadline);
+    if (deadline) {
+        forecast.deadline = formatDate(deadline);
+        forecast.daysLeft = Math.max(0, diffDays(today, deadline) + 1);
+        if (remaining > 0) {
+            // 已过截止日期时需要今天全部写完
+            forecast.requiredDailyWords = Math.ceil(remaining / Math.max(1, forecast.daysLeft));
+            forecast.behindSchedule = !forecast.estimatedDate || forecast.estimatedDate > forecast.deadline;
+        }
+
+        const startDate = parseDateOnly(input.startDate);
+        if (startDate) {
+            const totalDays = diffDays(startDate, deadline) + 1;
+            const elapsedDays = Math.min(totalDays, Math.max(0, diffDays(startDate, today) + 1));
+            if (totalDays > 0) {
+                forecast.expectedByNow = Math.round((target * elapsedDays) / totalDays);
+            }
+        }
+    }
+
+    return forecast;
+}
+
+/**
+ * 计算全书目标字数
+ * 设置了目标字数时直接使用；只设置了目标章节数时按现有章节的平均字数折算（尚无章节时使用章节默认目标字数）
+ *
+ * @param goal 全书目标
+ * @param totalWords 当前总字数
+ * @param chapterCount 当前章节数
+ * @param defaultChapterWords 章节默认目标字数
+ * @returns 目标字数，未设置目标时为 0
+ */
+export function resolveBookTargetWords(
+    goal: BookGoal,
+    totalWords: number,
+    chapterCount: number,
+    defaultChapterWords: number
+): number {
+    if (goal.totalWords > 0) {
+        return goal.totalWords;
+    }
+    if (goal.chapters > 0) {
+        const wordsPerChapter = chapterCount > 0 ? totalWords / chapterCount : defaultChapterWords;
+        return Math.round(goal.chapters * wordsPerChapter);
+    }
+    return 0;
+}
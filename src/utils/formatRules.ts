@@ -0,0 +1,217 @@
+/**
+ * 格式化规则
+ * 内置规则（引号、省略号、破折号、标点、中文间空格）和自定义正则替换规则，逐条应用并记录每条规则的改动，不依赖 vscode
+ */
+
+import { DIALOGUE_REGEX } from '../constants';
+import { convertNestedQuotes } from './quoteNesting';
+import {
+    BuiltinFormatRuleName,
+    CustomFormatRuleConfig,
+    FormatRule,
+    FormatRuleChange,
+    FormatRuleContext,
+    FormatRuleScope,
+    FormatRulesConfig
+} from '../types/format';
+
+/** 行内 HTML 注释（如 noveler-ignore 标记），格式化时原样保留 */
+const INLINE_COMMENT_REGEX = /(<!--.*?-->)/;
+
+const FORMAT_RULE_SCOPES: readonly FormatRuleScope[] = ['body', 'narration', 'dialogue'];
+
+/**
+ * 内置格式化规则（按执行顺序）
+ * 省略号在标点之前处理，避免 "..." 中的第一个点被转为句号；引号按嵌套层级转换，不配对时保持原样
+ */
+export const BUILTIN_FORMAT_RULES: readonly (FormatRule & { name: BuiltinFormatRuleName })[] = [
+    {
+        name: 'quotes',
+        label: '引号',
+        wholeLine: true,
+        apply: (text, context) => convertNestedQuotes(text, context.quoteStyle, context.quoteState)
+    },
+    {
+        name: 'ellipsis',
+        label: '省略号',
+        apply: text => text.replace(/\.{3,}/g, '…')
+    },
+    {
+        name: 'dash',
+        label: '破折号',
+        apply: text => text.replace(/--+/g, '——')
+    },
+    {
+        name: 'punctuation',
+        label: '标点',
+        apply: text => text
+            // 中文后面跟英文标点
+            .replace(/([\u4e00-\u9fa5]),/g, '$1，')
+            .replace(/([\u4e00-\u9fa5])\./g, '$1。')
+            .replace(/([\u4e00-\u9fa5])!/g, '$1！')
+            .replace(/([\u4e00-\u9fa5])\?/g, '$1？')
+            // 英文标点后面跟中文
+            .replace(/,(?=[\u4e00-\u9fa5])/g, '，')
+            .replace(/\.(?=[\u4e00-\u9fa5])/g, '。')
+            .replace(/!(?=[\u4e00-\u9fa5])/g, '！')
+            .replace(/\?(?=[\u4e00-\u9fa5])/g, '？')
+    },
+    {
+        name: 'cjkSpaces',
+        label: '中文间空格',
+        apply: text => text.replace(/([\u4e00-\u9fa5])\s+(?=[\u4e00-\u9fa5])/g, '$1')
+    }
+];
+
+/**
+ * 创建自定义正则替换规则
+ *
+ * @param config 规则配置
+ * @returns 格式化规则
+ * @throws {Error} 缺少 name / pattern、正则无效或作用范围无效
+ *
+ * @example
+ * ```typescript
+ * const rule = createCustomFormatRule({ name: '统一称呼', pattern: '师父', replacement: '师傅', scope: 'dialogue' });
+ * rule.apply('师父说：「师父来了。」', context);
+ * // '师父说：「师傅来了。」'
+ * ```
+ */
+export function createCustomFormatRule(config: CustomFormatRuleConfig): FormatRule {
+    if (!config || typeof config.name !== 'string' || !config.name || typeof config.pattern !== 'string' || !config.pattern) {
+        throw new Error('缺少 name 或 pattern');
+    }
+    const scope = config.scope ?? 'body';
+    if (!FORMAT_RULE_SCOPES.includes(scope)) {
+        throw new Error(`作用范围无效："${scope}"，支持 ${FORMAT_RULE_SCOPES.join(' / ')}`);
+    }
+
+    let regex: RegExp;
+    try {
+        regex = new RegExp(config.pattern, config.flags ?? 'g');
+    } catch (error) {
+        throw new Error(`正则无效：${error instanceof Error ? error.message : String(error)}`);
+    }
+    const replacement = typeof config.replacement === 'string' ? config.replacement : '';
+
+    return {
+        name: config.name,
+        label: config.name,
+        apply: text => applyInScope(text, scope, segment => segment.replace(regex, replacement))
+    };
+}
+
+/**
+ * 按 format.rules 配置确定要执行的规则
+ *
+ * @param config format.rules 配置
+ * @param convertQuotes format.convertQuotes（为 false 时同样关闭引号规则）
+ * @returns 要执行的规则（内置规则在前），以及无效自定义规则的错误说明
+ */
+export function resolveFormatRules(
+    config: FormatRulesConfig | undefined,
+    convertQuotes = true
+): { rules: FormatRule[]; errors: string[] } {
+    const rules: FormatRule[] = BUILTIN_FORMAT_RULES.filter(rule =>
+        config?.[rule.name] !== false && (rule.name !== 'quotes' || convertQuotes)
+    );
+    const errors: string[] = [];
+
+    const custom = config?.custom;
+    if (custom !== undefined && !Array.isArray(custom)) {
+        errors.push('format.rules.custom 必须是数组');
+        return { rules, errors };
+    }
+    (custom ?? []).forEach((ruleConfig, index) => {
+        if (ruleConfig?.enabled === false) {
+            return;
+        }
+        try {
+            rules.push(createCustomFormatRule(ruleConfig));
+        } catch (error) {
+            const name = typeof ruleConfig?.name === 'string' && ruleConfig.name ? `"${ruleConfig.name}"` : `#${index + 1}`;
+            errors.push(`自定义格式化规则 ${name}：${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    return { rules, errors };
+}
+
+/**
+ * 对一行正文依次应用规则（HTML 注释和空白片段保持不变），记录每条规则的改动
+ *
+ * @param text 一行正文
+ * @param rules 规则（按顺序执行）
+ * @param context 格式化上下文
+ * @param line 行号，写入改动记录
+ * @returns 处理后的文本和改动记录
+ *
+ * @example
+ * ```typescript
+ * applyFormatRules('他说--等等...', BUILTIN_FORMAT_RULES, { quoteStyle: '「」' });
+ * // { text: '他说——等等…', changes: [{ rule: 'ellipsis', ... }, { rule: 'dash', ... }] }
+ * ```
+ */
+export function applyFormatRules(
+    text: string,
+    rules: readonly FormatRule[],
+    context: FormatRuleContext,
+    line = 0
+): { text: string; changes: FormatRuleChange[] } {
+    if (!text.trim()) {
+        return { text, changes: [] };
+    }
+
+    const changes: FormatRuleChange[] = [];
+    let current = text;
+    for (const rule of rules) {
+        const next = rule.wholeLine
+            ? rule.apply(current, context)
+            : current
+                .split(INLINE_COMMENT_REGEX)
+                .map((segment, index) => index % 2 === 1 || !segment.trim() ? segment : rule.apply(segment, context))
+                .join('');
+        if (next !== current) {
+            changes.push({ rule: rule.name, label: rule.label, line, before: current, after: next });
+            current = next;
+        }
+    }
+    return { text: current, changes };
+}
+
+/**
+ * 汇总各规则改动的行数
+ *
+ * @param changes 改动记录
+ * @returns 如 "省略号 2 行、标点 5 行"，没有改动时返回空字符串
+ */
+export function summarizeFormatChanges(changes: readonly FormatRuleChange[]): string {
+    const counts = new Map<string, Set<number>>();
+    for (const change of changes) {
+        const lines = counts.get(change.label) ?? new Set<number>();
+        lines.add(change.line);
+        counts.set(change.label, lines);
+    }
+    return [...counts.entries()].map(([label, lines]) => `${label} ${lines.size} 行`).join('、');
+}
+
+/**
+ * 只对指定范围内的文本执行替换
+ */
+function applyInScope(text: string, scope: FormatRuleScope, replace: (segment: string) => string): string {
+    if (scope === 'body') {
+        return replace(text);
+    }
+
+    let result = '';
+    let last = 0;
+    for (const match of text.matchAll(new RegExp(DIALOGUE_REGEX.source, 'g'))) {
+        const start = match.index ?? 0;
+        const narration = text.slice(last, start);
+        result += scope === 'narration' && narration ? replace(narration) : narration;
+        result += scope === 'dialogue' ? replace(match[0]) : match[0];
+        last = start + match[0].length;
+    }
+    const tail = text.slice(last);
+    return result + (scope === 'narration' && tail ? replace(tail) : tail);
+}
@@ -0,0 +1,100 @@
+/**
+ * GB18030 编码器
+ * Node/Electron 的 TextDecoder 支持 GB18030 解码但不支持编码，
+ * 这里通过解码器反向生成编码表（首次使用时构建，约 6 万项）
+ */
+
+/** 码点 → 编码字节（2 字节或 4 字节，按大端打包为整数） */
+let encodeTable: Map<number, number> | undefined;
+
+/**
+ * 构建 BMP 范围内的编码表
+ */
+function buildEncodeTable(): Map<number, number> {
+    const table = new Map<number, number>();
+    const decoder = new TextDecoder('gb18030');
+
+    // 2 字节区：首字节 0x81-0xFE，尾字节 0x40-0xFE（不含 0x7F）
+    for (let b1 = 0x81; b1 <= 0xFE; b1++) {
+        for (let b2 = 0x40; b2 <= 0xFE; b2++) {
+            if (b2 === 0x7F) {
+                continue;
+            }
+            const char = decoder.decode(new Uint8Array([b1, b2]));
+            const codePoint = char.codePointAt(0);
+            if (char.length === 1 && codePoint !== undefined && codePoint !== 0xFFFD && !table.has(codePoint)) {
+                table.set(codePoint, (b1 << 8) | b2);
+            }
+        }
+    }
+
+    // 4 字节区（BMP 部分）：0x81308130 - 0x8431A439
+    for (let b1 = 0x81; b1 <= 0x84; b1++) {
+        for (let b2 = 0x30; b2 <= 0x39; b2++) {
+            for (let b3 = 0x81; b3 <= 0xFE; b3++) {
+                for (let b4 = 0x30; b4 <= 0x39; b4++) {
+                    const char = decoder.decode(new Uint8Array([b1, b2, b3, b4]));
+                    const codePoint = char.codePointAt(0);
+                    if (char.length === 1 && codePoint !== undefined && codePoint !== 0xFFFD && !table.has(codePoint)) {
+                        table.set(codePoint, ((b1 << 24) | (b2 << 16) | (b3 << 8) | b4) >>> 0);
+                    }
+                }
+            }
+        }
+    }
+
+    return table;
+}
+
+/**
+ * 把文本编码为 GB18030
+ * GB18030 覆盖全部 Unicode，任何字符都能编码
+ *
+ * @param text 文本
+ * @returns GB18030 字节
+ *
+ * @example
+ * ```typescript
+ * encodeGb18030('中文'); // <Buffer d6 d0 ce c4>
+ * ```
+ */
+export function encodeGb18030(text: string): Buffer {
+    if (!encodeTable) {
+        encodeTable = buildEncodeTable();
+    }
+
+    const bytes: number[] = [];
+    for (const char of text) {
+        const codePoint = char.codePointAt(0) as number;
+
+        if (codePoint < 0x80) {
+            bytes.push(codePoint);
+            continue;
+        }
+
+        if (codePoint >= 0x10000) {
+            // 辅助平面：从 0x90308130 起线性排列
+            let offset = codePoint - 0x10000;
+            const b4 = 0x30 + offset % 10;
+            offset = Math.floor(offset / 10);
+            const b3 = 0x81 + offset % 126;
+            offset = Math.floor(offset / 126);
+            const b2 = 0x30 + offset % 10;
+            const b1 = 0x90 + Math.floor(offset / 10);
+            bytes.push(b1, b2, b3, b4);
+            continue;
+        }
+
+        const encoded = encodeTable.get(codePoint);
+        if (encoded === undefined) {
+            // 理论上不会出现（例如孤立的代理项），用问号替代
+            bytes.push(0x3F);
+        } else if (encoded > 0xFFFF) {
+            bytes.push(encoded >>> 24, (encoded >>> 16) & 0xFF, (encoded >>> 8) & 0xFF, encoded & 0xFF);
+        } else {
+            bytes.push(encoded >>> 8, encoded & 0xFF);
+        }
+    }
+
+    return Buffer.from(bytes);
+}
@@ -0,0 +1,181 @@
+/**
+ * 按行计算文本编辑
+ * 把格式化前后的文本差异拆成逐行的最小编辑，保留光标位置、折叠和撤销粒度，不依赖 vscode
+ */
+
+/**
+ * 一处按行的编辑
+ */
+export interface LineEdit {
+    /** 被替换的第一行（原文行号，从 0 开始） */
+    startLine: number;
+    /** 被替换范围之后的第一行（不含），等于 startLine 时为插入 */
+    endLine: number;
+    /** 替换范围在原文中的起始偏移量 */
+    start: number;
+    /** 替换范围在原文中的结束偏移量 */
+    end: number;
+    /** 替换后的文本 */
+    text: string;
+}
+
+/**
+ * 计算把原文变为格式化结果所需的逐行编辑
+ *
+ * 格式化规则按行改写内容、增删空行，非空行的顺序和数量不变，
+ * 因此按非空行逐一对齐：改动的非空行各自生成一处编辑，空行的增删按段生成编辑；
+ * 非空行数量不一致时（无法对齐），把首尾相同行之间的部分作为一处编辑
+ *
+ * @param original 原文
+ * @param formatted 格式化结果
+ * @returns 按位置排列、互不重叠的编辑（依次应用后得到格式化结果）
+ *
+ * @example
+ * ```typescript
+ * computeLineEdits('第一段\n第二段.', '第一段\n\n第二段。');
+ * // [
+ * //   { startLine: 1, endLine: 1, start: 4, end: 4, text: '\n' },
+ * //   { startLine: 1, endLine: 2, start: 4, end: 8, text: '第二段。' }
+ * // ]
+ * ```
+ */
+export function computeLineEdits(original: string, formatted: string): LineEdit[] {
+    if (original === formatted) {
+        return [];
+    }
+
+    const oldLines = original.split('\n');
+    const newLines = formatted.split('\n');
+
+    // 跳过首尾相同的行
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+        && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const hunks = alignLines(oldLines, newLines, prefix, oldLines.length - suffix, prefix, newLines.length - suffix);
+    const lineStarts: number[] = [];
+    let offset = 0;
+    for (const line of oldLines) {
+        lineStarts.push(offset);
+        offset += line.length + 1;
+    }
+
+    return hunks.map(hunk => toLineEdit(original, oldLines, lineStarts, hunk));
+}
+
+/**
+ * 判断编辑是否完全落在指定的行范围内（用于格式化选中部分）
+ * 插入的空行需要位于范围内两行之间
+ *
+ * @param edit 编辑
+ * @param firstLine 范围的第一行
+ * @param lastLine 范围的最后一行（含）
+ */
+export function isLineEditWithin(edit: LineEdit, firstLine: number, lastLine: number): boolean {
+    if (edit.startLine === edit.endLine) {
+        return edit.startLine > firstLine && edit.startLine <= lastLine;
+    }
+    return edit.startLine >= firstLine && edit.endLine - 1 <= lastLine;
+}
+
+/** 原文 [oldStart, oldEnd) 行替换为 lines */
+interface LineHunk {
+    oldStart: number;
+    oldEnd: number;
+    lines: string[];
+}
+
+/**
+ * 按非空行对齐 [oldStart, oldEnd) 与 [newStart, newEnd) 两段
+ */
+function alignLines(
+    oldLines: string[],
+    newLines: string[],
+    oldStart: number,
+    oldEnd: number,
+    newStart: number,
+    newEnd: number
+): LineHunk[] {
+    const isContent = (line: string) => line.trim() !== '';
+    const oldAnchors: number[] = [];
+    for (let i = oldStart; i < oldEnd; i++) {
+        if (isContent(oldLines[i])) {
+            oldAnchors.push(i);
+        }
+    }
+    const newAnchors: number[] = [];
+    for (let i = newStart; i < newEnd; i++) {
+        if (isContent(newLines[i])) {
+            newAnchors.push(i);
+        }
+    }
+
+    if (oldAnchors.length !== newAnchors.length) {
+        return [{ oldStart, oldEnd, lines: newLines.slice(newStart, newEnd) }];
+    }
+
+    const hunks: LineHunk[] = [];
+    // 两个非空行之间的空行段
+    const addGap = (oldFrom: number, oldTo: number, newFrom: number, newTo: number) => {
+        const before = oldLines.slice(oldFrom, oldTo);
+        const after = newLines.slice(newFrom, newTo);
+        if (before.length !== after.length || before.some((line, i) => line !== after[i])) {
+            hunks.push({ oldStart: oldFrom, oldEnd: oldTo, lines: after });
+        }
+    };
+
+    let oldPrev = oldStart;
+    let newPrev = newStart;
+    for (let k = 0; k < oldAnchors.length; k++) {
+        const oldIndex = oldAnchors[k];
+        const newIndex = newAnchors[k];
+        addGap(oldPrev, oldIndex, newPrev, newIndex);
+        if (oldLines[oldIndex] !== newLines[newIndex]) {
+            hunks.push({ oldStart: oldIndex, oldEnd: oldIndex + 1, lines: [newLines[newIndex]] });
+        }
+        oldPrev = oldIndex + 1;
+        newPrev = newIndex + 1;
+    }
+    addGap(oldPrev, oldEnd, newPrev, newEnd);
+
+    return hunks;
+}
+
+/**
+ * 把按行的替换换算为原文偏移量
+ * 只有纯插入和纯删除涉及换行符，替换只改动行内容，相邻的编辑因此不会重叠
+ */
+function toLineEdit(original: string, oldLines: string[], lineStarts: number[], hunk: LineHunk): LineEdit {
+    const { oldStart, oldEnd, lines } = hunk;
+    const base = { startLine: oldStart, endLine: oldEnd };
+
+    // 插入
+    if (oldStart === oldEnd) {
+        return oldStart < oldLines.length
+            ? { ...base, start: lineStarts[oldStart], end: lineStarts[oldStart], text: lines.map(line => line + '\n').join('') }
+            : { ...base, start: original.length, end: original.length, text: '\n' + lines.join('\n') };
+    }
+
+    // 删除
+    if (lines.length === 0) {
+        return oldEnd < oldLines.length
+            ? { ...base, start: lineStarts[oldStart], end: lineStarts[oldEnd], text: '' }
+            : { ...base, start: lineStarts[oldStart] - 1, end: original.length, text: '' };
+    }
+
+    // 替换
+    return {
+        ...base,
+        start: lineStarts[oldStart],
+        end: lineStarts[oldEnd - 1] + oldLines[oldEnd - 1].length,
+        text: lines.join('\n')
+    };
+}
@@ -0,0 +1,118 @@
+/**
+ * 书稿文本处理工具
+ * 把章节 Markdown 转换为导出用的纯文本段落（不依赖 vscode，供各导出格式共用）
+ */
+
+import { parseFrontMatter } from './frontMatterParser';
+import { HTML_COMMENT_REGEX } from '../constants';
+import { ExportScope, Manuscript } from '../types/export';
+
+/**
+ * 对话标记正则（与预览面板一致：直角引号、弯引号、直引号）
+ */
+const DIALOGUE_MARKUP_REGEX = /(「[^」]*」|“[^”]*”|"[^"]*")/g;
+
+/**
+ * 提取章节正文段落
+ * - 去除 Front Matter、HTML 注释和章节标题（第一个一级标题，见 extractHeading）
+ * - 其余 Markdown 标题（如 `## 小节`）去掉 # 标记后作为普通段落保留
+ * - 每个非空行视为一个段落，去除首尾空白（包括全角缩进）
+ *
+ * @param text 章节文件完整内容
+ * @returns 段落数组
+ *
+ * @example
+ * ```typescript
+ * extractParagraphs('---\ntitle: 开端\n---\n# 第一章 开端\n\n\u3000\u3000天色渐暗。\n');
+ * // ['天色渐暗。']
+ * ```
+ */
+export function extractParagraphs(text: string): string[] {
+    const { content } = parseFrontMatter(text.replace(/\r\n/g, '\n'));
+
+    const lines = content.replace(HTML_COMMENT_REGEX, '').split('\n');
+    const titleIndex = lines.findIndex(line => /^#\s+\S/.test(line));
+
+    return lines
+        .filter((_, index) => index !== titleIndex)
+        .map(line => line.replace(/^\s*#+\s+/, '').trim())
+        .filter(line => line.length > 0);
+}
+
+/**
+ * 提取章节中第一个一级标题
+ *
+ * @param text 章节文件完整内容
+ * @returns 标题文本，不存在时返回 undefined
+ */
+export function extractHeading(text: string): string | undefined {
+    const { content } = parseFrontMatter(text.replace(/\r\n/g, '\n'));
+    const match = content.match(/^#\s+(.+)$/m);
+    return match ? match[1].trim() : undefined;
+}
+
+/**
+ * 转义 XML 特殊字符
+ *
+ * @param text 原始文本
+ * @returns 可安全放入 XML 文本节点或属性值的字符串
+ */
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * 把段落转换为带对话标记的 XHTML 片段
+ * 对话用 `<span class="dialogue">` 包裹，与预览面板的标记保持一致
+ *
+ * @param paragraph 段落纯文本
+ * @returns XHTML 片段（不含外层 `<p>`）
+ */
+export function markupParagraph(paragraph: string): string {
+    return paragraph
+        .split(DIALOGUE_MARKUP_REGEX)
+        .map((part, index) => {
+            // split 带捕获组时，奇数下标为匹配到的对话
+            const escaped = escapeXml(part);
+            return index % 2 === 1 ? `<span class="dialogue">${escaped}</span>` : escaped;
+        })
+        .join('');
+}
+
+/**
+ * 按导出范围截取书稿
+ * 分卷结构保持不变，只保留范围内的章节，空卷会被移除
+ *
+ * @param manuscript 完整书稿
+ * @param scope 导出范围
+ * @returns 截取后的书稿（不修改原书稿）
+ */
+export function selectManuscriptScope(manuscript: Manuscript, scope: ExportScope): Manuscript {
+    let position = 0;
+
+    const volumes = manuscript.volumes
+        .map((volume, volumeIndex) => ({
+            ...volume,
+            chapters: volume.chapters.filter(chapter => {
+                position++;
+                switch (scope.type) {
+                    case 'chapter':
+                        return chapter.sourcePath === scope.sourcePath;
+                    case 'volume':
+                        return volumeIndex === scope.volumeIndex;
+                    case 'range':
+                        return position >= scope.start && position <= scope.end;
+                    case 'all':
+                    default:
+                        return true;
+                }
+            })
+        }))
+        .filter(volume => volume.chapters.length > 0);
+
+    return { metadata: manuscript.metadata, volumes };
+}
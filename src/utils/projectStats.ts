@@ -0,0 +1,82 @@
+/**
+ * 项目统计汇总
+ * 把各章统计汇总为全书、各卷和各状态的统计，不依赖 vscode
+ */
+
+import { CHAPTER_STATUS_OPTIONS, COMPLETED_STATUS } from '../constants';
+import type { ChapterStats, ProjectStats, VolumeStats } from '../services/projectStatsService';
+
+/**
+ * 卷信息（字数、章节数和已完成章节数由 aggregateProjectStats 统计）
+ */
+export type VolumeInfo = Omit<VolumeStats, 'totalWords' | 'chapterCount' | 'completedChapters'>;
+
+/**
+ * 项目统计输入
+ */
+export interface ProjectStatsInput {
+    /** chapters/ 根目录下的章节 */
+    chapters: ChapterStats[];
+    /** 各卷及卷内章节（未启用分卷时为空数组） */
+    volumes: { volume: VolumeInfo; chapters: ChapterStats[] }[];
+    /** 人物数 */
+    characterCount: number;
+}
+
+/**
+ * 汇总项目统计
+ * 根目录章节在前、各卷章节在后计入全书统计，章节状态分布至少包含 CHAPTER_STATUS_OPTIONS 中的全部状态
+ *
+ * @param input 各章统计和卷信息
+ * @returns 项目统计
+ *
+ * @example
+ * ```typescript
+ * aggregateProjectStats({
+ *     chapters: [{ title: '序章', wordCount: 1000, status: '已完成', metrics }],
+ *     volumes: [],
+ *     characterCount: 3
+ * });
+ * // totalWords 1000，completionRate 100，statusBreakdown['已完成'] 为 1
+ * ```
+ */
+export function aggregateProjectStats(input: ProjectStatsInput): ProjectStats {
+    const stats: ProjectStats = {
+        totalWords: 0,
+        chapterCount: 0,
+        characterCount: input.characterCount,
+        completedChapters: 0,
+        completionRate: 0,
+        volumes: [],
+        chapters: [],
+        statusBreakdown: Object.fromEntries(CHAPTER_STATUS_OPTIONS.map(status => [status, 0])),
+    };
+
+    const addChapter = (chapter: ChapterStats) => {
+        stats.chapters.push(chapter);
+        stats.chapterCount++;
+        stats.totalWords += chapter.wordCount;
+        stats.statusBreakdown[chapter.status] = (stats.statusBreakdown[chapter.status] ?? 0) + 1;
+        if (chapter.status === COMPLETED_STATUS) {
+            stats.completedChapters++;
+        }
+    };
+
+    input.chapters.forEach(addChapter);
+
+    for (const { volume, chapters } of input.volumes) {
+        chapters.forEach(addChapter);
+        stats.volumes.push({
+            ...volume,
+            totalWords: chapters.reduce((sum, chapter) => sum + chapter.wordCount, 0),
+            chapterCount: chapters.length,
+            completedChapters: chapters.filter(chapter => chapter.status === COMPLETED_STATUS).length
+        });
+    }
+
+    if (stats.chapterCount > 0) {
+        stats.completionRate = Math.round((stats.completedChapters / stats.chapterCount) * 100);
+    }
+
+    return stats;
+}
@@ -0,0 +1,73 @@
+/**
+ * 章节节奏指标计算
+ * 对话 / 心理描写占比、段落和句子长度，不依赖 vscode
+ */
+
+import { DIALOGUE_REGEX, THOUGHT_REGEX } from '../constants';
+import { ProseMetrics } from '../types/proseMetrics';
+
+/** 句末标点（连续的句末标点和紧随的后引号视为一个句子结尾） */
+const SENTENCE_END_REGEX = /[。！？!?…]+[」』\u201d\u2019"'）)]*/;
+
+/**
+ * 统计非空白字符数（按码点计）
+ */
+function countChars(text: string): number {
+    return Array.from(text.replace(/\s/g, '')).length;
+}
+
+/**
+ * 统计正则匹配到的文字总长度
+ */
+function countMatchedChars(text: string, regex: RegExp): number {
+    const matches: string[] = text.match(new RegExp(regex.source, 'g')) || [];
+    return matches.reduce((total, match) => total + countChars(match), 0);
+}
+
+/**
+ * 计算章节节奏指标
+ *
+ * @param paragraphs 正文段落（已去除 Front Matter、章节标题和注释，见 extractParagraphs）
+ * @returns 节奏指标，没有正文时各项均为 0
+ *
+ * @example
+ * ```typescript
+ * computeProseMetrics(['「走。」', '他没动。']);
+ * // { paragraphCount: 2, dialogueRatio: 0.5, thoughtRatio: 0, avgParagraphLength: 4, avgSentenceLength: 4, longestParagraph: 4 }
+ * ```
+ */
+export function computeProseMetrics(paragraphs: string[]): ProseMetrics {
+    const lengths = paragraphs.map(countChars).filter(length => length > 0);
+    const totalChars = lengths.reduce((total, length) => total + length, 0);
+    if (totalChars === 0) {
+        return { paragraphCount: 0, dialogueRatio: 0, thoughtRatio: 0, avgParagraphLength: 0, avgSentenceLength: 0, longestParagraph: 0 };
+    }
+
+    let dialogueChars = 0;
+    let thoughtChars = 0;
+    let sentenceCount = 0;
+    for (const paragraph of paragraphs) {
+        dialogueChars += countMatchedChars(paragraph, DIALOGUE_REGEX);
+        thoughtChars += countMatchedChars(paragraph, THOUGHT_REGEX);
+        sentenceCount += paragraph.split(SENTENCE_END_REGEX).filter(sentence => countChars(sentence) > 0).length;
+    }
+
+    return {
+        paragraphCount: lengths.length,
+        dialogueRatio: Math.min(1, dialogueChars / totalChars),
+        thoughtRatio: Math.min(1, thoughtChars / totalChars),
+        avgParagraphLength: Math.round(totalChars / lengths.length),
+        avgSentenceLength: Math.round(totalChars / Math.max(1, sentenceCount)),
+        longestParagraph: Math.max(...lengths)
+    };
+}
+
+/**
+ * 把占比格式化为百分比文本
+ *
+ * @param ratio 0-1 的占比
+ * @returns 如 "35%"
+ */
+export function formatRatio(ratio: number): string {
+    return `${Math.round(ratio * 100)}%`;
+}
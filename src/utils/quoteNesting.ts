@@ -0,0 +1,245 @@
+/**
+ * 引号嵌套
+ * 按嵌套层级转换引号（外层「」内层『』、外层“”内层‘’，或外层""内层''），识别跨段落的引用，找出不配对的引号，不依赖 vscode
+ */
+
+import { QuoteFamily, QuoteIssue, QuoteLineState } from '../types/format';
+
+/** 左引号 */
+const OPENING_QUOTES: Readonly<Record<string, QuoteFamily>> = {
+    '「': 'corner',
+    '『': 'whiteCorner',
+    '“': 'double',
+    '‘': 'single',
+    '"': 'straight'
+};
+
+/** 右引号（英文直引号左右相同，按当前是否有未闭合的直引号判断） */
+const CLOSING_QUOTES: Readonly<Record<string, QuoteFamily>> = {
+    '」': 'corner',
+    '』': 'whiteCorner',
+    '”': 'double',
+    '’': 'single',
+    '"': 'straight'
+};
+
+const QUOTE_MARK_REGEX = /[「」『』“”‘’"]/g;
+
+/** 行内 HTML 注释，其中的引号不参与配对和转换 */
+const INLINE_COMMENT_REGEX = /<!--.*?-->/g;
+
+/** 尚未闭合的左引号 */
+interface OpenQuote {
+    family: QuoteFamily;
+    char: string;
+    index: number;
+}
+
+/** 一行中参与配对的引号 */
+interface QuoteToken {
+    index: number;
+    /** 是否为右引号 */
+    closing: boolean;
+    /** 嵌套层级（0 为最外层） */
+    depth: number;
+}
+
+/** 一行的配对结果 */
+interface QuoteLineScan {
+    tokens: QuoteToken[];
+    /** 行尾仍未闭合的左引号（外层在前） */
+    open: OpenQuote[];
+    /** 第一处不配对的右引号 */
+    issue?: Omit<QuoteIssue, 'line'>;
+}
+
+/**
+ * 获取引号样式各层级使用的引号
+ *
+ * @param style 中文引号样式（format.chineseQuoteStyle）
+ * @returns [外层, 内层]，更深的层级交替使用
+ */
+export function getQuoteLevels(style: string): readonly [string, string][] {
+    switch (style) {
+        case '「」':
+            return [['「', '」'], ['『', '』']];
+        case '“”':
+            return [['“', '”'], ['‘', '’']];
+        default:
+            // 英文直引号（"" 及旧配置），内层用直单引号
+            return [['"', '"'], ["'", "'"]];
+    }
+}
+
+/**
+ * 分析全文的引号配对
+ *
+ * 跨段落的引用按出版惯例书写：中间各段不写右引号，下一段开头重复左引号，最后一段才闭合。
+ * 未闭合的引号之后的一段没有重复左引号、遇到标题或到达文末时，整个引用视为不配对
+ *
+ * @param lines 各行正文，null 表示标题、Front Matter 等分隔处（引用不能跨越），HTML 注释行传空字符串
+ * @returns 各行的引号状态和不配对的引号
+ *
+ * @example
+ * ```typescript
+ * analyzeQuotes(['「第一段。', '', '「第二段。」']);
+ * // states[2].open 为 ['corner']，issues 为空
+ * ```
+ */
+export function analyzeQuotes(lines: readonly (string | null)[]): { states: QuoteLineState[]; issues: QuoteIssue[] } {
+    const states: QuoteLineState[] = lines.map(() => ({ open: [], balanced: true }));
+    const issues: QuoteIssue[] = [];
+
+    // 跨段落引用：所在的行，以及首行中最外层未闭合的左引号
+    let carried: OpenQuote[] = [];
+    let spanLines: number[] = [];
+    let spanStart: QuoteIssue | undefined;
+
+    const breakSpan = () => {
+        if (spanStart) {
+            issues.push(spanStart);
+            spanLines.forEach(line => states[line].balanced = false);
+        }
+        carried = [];
+        spanLines = [];
+        spanStart = undefined;
+    };
+
+    lines.forEach((text, line) => {
+        if (text === null) {
+            breakSpan();
+            return;
+        }
+        if (!text.trim()) {
+            return;
+        }
+
+        let scan = carried.length > 0 ? scanQuoteLine(text, carried.map(quote => quote.family)) : undefined;
+        if (scan) {
+            states[line].open = carried.map(quote => quote.family);
+        } else {
+            breakSpan();
+            scan = scanQuoteLine(text, []) as QuoteLineScan;
+        }
+
+        if (scan.issue) {
+            issues.push({ line, ...scan.issue });
+            states[line].balanced = false;
+            // 跨段落引用中出现不配对的右引号，前面各段同样不转换
+            spanLines.forEach(spanLine => states[spanLine].balanced = false);
+            carried = [];
+            spanLines = [];
+            spanStart = undefined;
+            return;
+        }
+
+        if (scan.open.length === 0) {
+            carried = [];
+            spanLines = [];
+            spanStart = undefined;
+            return;
+        }
+        if (!spanStart) {
+            const quote = scan.open[0];
+            spanStart = { line, column: quote.index, quote: quote.char, message: `左引号 ${quote.char} 没有闭合` };
+        }
+        spanLines.push(line);
+        carried = scan.open;
+    });
+    breakSpan();
+
+    return { states, issues };
+}
+
+/**
+ * 按嵌套层级转换一行中的引号
+ * 引号不配对时原样返回
+ *
+ * @param text 一行正文
+ * @param style 中文引号样式（format.chineseQuoteStyle）
+ * @param state 本行的引号状态（来自 analyzeQuotes），未提供时只按本行判断是否配对
+ * @returns 转换后的文本
+ *
+ * @example
+ * ```typescript
+ * convertNestedQuotes('他说："她说‘好’。"', '「」');
+ * // '他说：「她说『好』。」'
+ * ```
+ */
+export function convertNestedQuotes(text: string, style: string, state?: QuoteLineState): string {
+    if (state && !state.balanced) {
+        return text;
+    }
+
+    const scan = scanQuoteLine(text, state?.open ?? []);
+    if (!scan || scan.issue || (!state && scan.open.length > 0)) {
+        return text;
+    }
+
+    const levels = getQuoteLevels(style);
+    const chars = text.split('');
+    for (const token of scan.tokens) {
+        chars[token.index] = levels[token.depth % levels.length][token.closing ? 1 : 0];
+    }
+    return chars.join('');
+}
+
+/**
+ * 找出一行中参与配对的引号（跳过 HTML 注释）
+ */
+function findQuoteMarks(text: string): { index: number; char: string }[] {
+    const comments = [...text.matchAll(INLINE_COMMENT_REGEX)].map(match => {
+        const start = match.index ?? 0;
+        return [start, start + match[0].length];
+    });
+    return [...text.matchAll(QUOTE_MARK_REGEX)]
+        .map(match => ({ index: match.index ?? 0, char: match[0] }))
+        .filter(mark => !comments.some(([start, end]) => mark.index >= start && mark.index < end));
+}
+
+/**
+ * 配对一行中的引号
+ *
+ * @param text 一行正文
+ * @param carried 上一段仍未闭合的左引号，本段开头必须按顺序重复这些左引号
+ * @returns 配对结果，本段开头没有重复左引号时返回 undefined
+ */
+function scanQuoteLine(text: string, carried: readonly QuoteFamily[]): QuoteLineScan | undefined {
+    const marks = findQuoteMarks(text);
+    const tokens: QuoteToken[] = [];
+    const stack: OpenQuote[] = [];
+
+    // 跨段落引用：段首（缩进之后）连续重复的左引号
+    const indent = text.length - text.trimStart().length;
+    for (let depth = 0; depth < carried.length; depth++) {
+        const mark = marks[depth];
+        if (!mark || mark.index !== indent + depth || OPENING_QUOTES[mark.char] !== carried[depth]) {
+            return undefined;
+        }
+        tokens.push({ index: mark.index, closing: false, depth });
+        stack.push({ family: carried[depth], char: mark.char, index: mark.index });
+    }
+
+    for (const { index, char } of marks.slice(carried.length)) {
+        const top = stack[stack.length - 1];
+        const closing = char === '"' ? top?.family === 'straight' : !(char in OPENING_QUOTES);
+
+        if (!closing) {
+            tokens.push({ index, closing: false, depth: stack.length });
+            stack.push({ family: OPENING_QUOTES[char], char, index });
+            continue;
+        }
+        if (char === '’' && top?.family !== 'single') {
+            // 没有对应的 ‘，视为撇号（如 it’s）
+            continue;
+        }
+        if (top?.family !== CLOSING_QUOTES[char]) {
+            const message = top ? `右引号 ${char} 与左引号 ${top.char} 不配对` : `多余的右引号 ${char}`;
+            return { tokens, open: stack, issue: { column: index, quote: char, message } };
+        }
+        stack.pop();
+        tokens.push({ index, closing: true, depth: stack.length });
+    }
+
+    return { tokens, open: stack };
+}
@@ -3,6 +3,7 @@ import { parseFrontMatter } from './frontMatterParser';
 import { handleError, handleSuccess, ErrorSeverity } from './errorHandler';
 import { ConfigService } from '../services/configService';
 import { VolumeService } from '../services/volumeService';
+import { WordCountService } from '../services/wordCountService';
 import { CHAPTERS_FOLDER, CHARACTERS_FOLDER, STATUS_EMOJI_MAP } from '../constants';
 import { Logger } from './logger';
 import { getStatusDisplayName } from './statusHelper';
@@ -91,7 +92,7 @@ export async function scanChapters(): Promise<ProjectStats> {
                         const frontMatter = parsed.data as Record<string, unknown>;
 
                         if (frontMatter && frontMatter.chapter !== undefined) {
-                            const wordCount = (frontMatter.wordCount as number) || 0;
+                            const wordCount = WordCountService.getSimpleWordCount(parsed.content);
                             const statusValue = (frontMatter.status as string) || 'draft';
                             const status = getStatusDisplayName(statusValue); // 转换为中文显示
 
@@ -176,7 +177,7 @@ export async function scanChapters(): Promise<ProjectStats> {
                     const frontMatter = parsed.data as Record<string, unknown>;
 
                     if (frontMatter && frontMatter.chapter !== undefined) {
-                        const wordCount = (frontMatter.wordCount as number) || 0;
+                        const wordCount = WordCountService.getSimpleWordCount(parsed.content);
                         const statusValue = (frontMatter.status as string) || 'draft';
                         const status = getStatusDisplayName(statusValue); // 转换为中文显示
 
@@ -0,0 +1,562 @@
+/**
+ * 敏感词检测引擎
+ * 合并配置、加载词库 / 白名单 / 替换建议 / 词组例外 / 变体数据并检测文本，不依赖 vscode
+ * 文件读取和日志由调用方提供，扩展（SensitiveWordService）和命令行（noveler check）共用
+ */
+
+import * as path from 'path';
+import * as jsoncParser from 'jsonc-parser';
+import { TrieTree } from './trieTree';
+import {
+    SensitiveWordConfig,
+    SensitiveLevel,
+    SensitiveMatch,
+    WordLibraryFile,
+    WordLibraryMetadata,
+    CustomWordLibrary,
+    CustomSensitiveLibrary,
+    ReplacementLibraryFile,
+    ExceptionLibraryFile,
+    SensitiveException
+} from '../types/sensitiveWord';
+import { extractContentWithoutFrontmatterForMatching } from './frontMatterParser';
+import { ReplacementTable, mergeReplacementTables, parseReplacementTable } from './sensitiveReplacements';
+import { VariantTables, findVariantMatches, parseVariantTables } from './sensitiveVariants';
+import { ExceptionTable, findExceptionPhrase, parseExceptionTable } from './sensitiveExceptions';
+import { buildWordCategoryMap, isCategoryEnabled, parseCustomSensitiveWords } from './sensitiveLibrary';
+import { applySensitiveProfile, resolveSensitiveProfile } from './sensitiveProfiles';
+import { SENSITIVE_EXCEPTIONS_FILE, SENSITIVE_REPLACEMENTS_FILE } from '../constants';
+
+/**
+ * 检测引擎使用的日志接口（扩展中为 Logger，命令行中为空实现或 stderr）
+ */
+export interface SensitiveDetectorLogger {
+    info(message: string): void;
+    warn(message: string, error?: unknown): void;
+}
+
+/**
+ * 检测引擎读取的文件来源
+ */
+export interface SensitiveDetectorSources {
+    /** 内置词库目录（templates/sensitive-words） */
+    builtinDir: string;
+    /** 项目根目录（不传时不加载项目中的自定义词库、白名单等） */
+    workspaceRoot?: string;
+    /** 读取 UTF-8 文本文件，文件不存在时抛出异常 */
+    readFile(filePath: string): Promise<string>;
+    /** 日志 */
+    logger?: SensitiveDetectorLogger;
+}
+
+/**
+ * 敏感词默认配置（未在 novel.jsonc 中配置的项使用此值）
+ */
+export const DEFAULT_SENSITIVE_WORD_CONFIG: SensitiveWordConfig = {
+    enabled: true,
+    builtInLibrary: {
+        enabled: true,
+        levels: {
+            high: true,
+            medium: false,
+            low: false
+        }
+    },
+    customLibrary: {
+        enabled: true,
+        path: '.noveler/sensitive-words/custom-words.jsonc'
+    },
+    whitelist: {
+        enabled: true,
+        path: '.noveler/sensitive-words/whitelist.jsonc'
+    },
+    variantDetection: {
+        enabled: false,
+        separators: true,
+        fullWidth: true,
+        traditional: true,
+        pinyin: true
+    },
+    checkOnType: true,
+    checkOnSave: true,
+    display: {
+        severity: 'Warning',
+        showInProblems: true,
+        showWordCount: true
+    }
+};
+
+/**
+ * 合并 novel.jsonc 中的敏感词配置与默认配置，并叠加平台配置
+ *
+ * @param userConfig novel.jsonc 中的 sensitiveWords 配置
+ * @param profileName 使用的平台配置，不传时使用配置中的 activeProfile
+ * @returns 合并后的配置；指定的平台配置不存在时 missingProfile 为其名称，此时只使用基础配置
+ */
+export function resolveSensitiveWordConfig(
+    userConfig: Partial<SensitiveWordConfig> | undefined,
+    profileName?: string
+): { config: SensitiveWordConfig; missingProfile?: string } {
+    const defaultConfig = DEFAULT_SENSITIVE_WORD_CONFIG;
+
+    // 处理新旧配置兼容
+    let builtInLibrary = defaultConfig.builtInLibrary;
+    if (userConfig?.builtInLibrary) {
+        builtInLibrary = {
+            ...defaultConfig.builtInLibrary,
+            ...userConfig.builtInLibrary,
+            levels: {
+                ...defaultConfig.builtInLibrary!.levels,
+                ...userConfig.builtInLibrary.levels
+            }
+        };
+    } else if (userConfig?.levels) {
+        // 兼容旧版配置：levels 直接配置的情况
+        builtInLibrary = {
+            enabled: true,
+            levels: {
+                ...defaultConfig.builtInLibrary!.levels,
+                ...userConfig.levels
+            }
+        };
+    }
+
+    const config: SensitiveWordConfig = {
+        enabled: userConfig?.enabled !== undefined ? userConfig.enabled : defaultConfig.enabled,
+        builtInLibrary,
+        customLibrary: {
+            enabled: userConfig?.customLibrary?.enabled !== undefined ? userConfig.customLibrary.enabled : defaultConfig.customLibrary!.enabled,
+            path: userConfig?.customLibrary?.path || defaultConfig.customLibrary!.path
+        },
+        whitelist: {
+            enabled: userConfig?.whitelist?.enabled !== undefined ? userConfig.whitelist.enabled : defaultConfig.whitelist!.enabled,
+            path: userConfig?.whitelist?.path || defaultConfig.whitelist!.path
+        },
+        variantDetection: {
+            ...defaultConfig.variantDetection!,
+            ...userConfig?.variantDetection
+        },
+        categories: { ...userConfig?.categories },
+        checkOnType: userConfig?.checkOnType !== undefined ? userConfig.checkOnType : defaultConfig.checkOnType,
+        checkOnSave: userConfig?.checkOnSave !== undefined ? userConfig.checkOnSave : defaultConfig.checkOnSave,
+        // 兼容旧版配置
+        customWords: userConfig?.customWords ? {
+            enabled: userConfig.customWords.enabled,
+            blacklistPath: userConfig.customWords.blacklistPath,
+            whitelistPath: userConfig.customWords.whitelistPath
+        } : undefined,
+        display: {
+            severity: userConfig?.display?.severity || defaultConfig.display!.severity,
+            showInProblems: userConfig?.display?.showInProblems !== undefined ? userConfig.display.showInProblems : defaultConfig.display!.showInProblems,
+            showWordCount: userConfig?.display?.showWordCount !== undefined ? userConfig.display.showWordCount : defaultConfig.display!.showWordCount
+        },
+        profiles: { ...userConfig?.profiles }
+    };
+
+    // 叠加平台配置（不存在的平台配置视为未设置）
+    const requested = profileName ?? userConfig?.activeProfile;
+    const resolved = resolveSensitiveProfile(config, requested);
+    if (resolved) {
+        return { config: { ...applySensitiveProfile(config, resolved.profile), activeProfile: resolved.name } };
+    }
+    return requested ? { config, missingProfile: requested } : { config };
+}
+
+/**
+ * 敏感词检测引擎
+ *
+ * @example
+ * ```typescript
+ * const detector = await SensitiveWordDetector.load(config, {
+ *     builtinDir: path.join(extensionPath, 'templates', 'sensitive-words'),
+ *     workspaceRoot,
+ *     readFile: filePath => fs.promises.readFile(filePath, 'utf8')
+ * });
+ * const matches = detector.detectText(text);
+ * ```
+ */
+export class SensitiveWordDetector {
+    private trie: TrieTree = new TrieTree();
+    private whitelist: Set<string> = new Set();
+    private replacements: ReplacementTable = new Map();
+    private customSuggestions: ReplacementTable = new Map();
+    private wordInfo: Map<string, { category?: string; note?: string }> = new Map();
+    private customCategories: Set<string> = new Set();
+    private variantTables: VariantTables | null = null;
+    private exceptions: { builtin: ExceptionTable; project: ExceptionTable } = { builtin: new Map(), project: new Map() };
+    private logger: SensitiveDetectorLogger;
+
+    private constructor(private readonly config: SensitiveWordConfig, private readonly sources: SensitiveDetectorSources) {
+        this.logger = sources.logger ?? { info: () => undefined, warn: () => undefined };
+    }
+
+    /**
+     * 创建不检测任何内容的引擎（服务初始化前或加载失败时使用）
+     */
+    public static empty(): SensitiveWordDetector {
+        return new SensitiveWordDetector(
+            { ...DEFAULT_SENSITIVE_WORD_CONFIG, enabled: false },
+            { builtinDir: '', readFile: () => Promise.reject(new Error('empty detector')) }
+        );
+    }
+
+    /**
+     * 按配置加载词库，创建检测引擎
+     * @param config 合并后的配置（见 resolveSensitiveWordConfig）
+     * @param sources 文件来源
+     * @returns 检测引擎；配置中禁用了敏感词检测时不加载任何词库
+     */
+    public static async load(config: SensitiveWordConfig, sources: SensitiveDetectorSources): Promise<SensitiveWordDetector> {
+        const detector = new SensitiveWordDetector(config, sources);
+        if (!config.enabled) {
+            detector.logger.info('敏感词检测已禁用');
+            return detector;
+        }
+
+        // 1. 加载内置词库
+        if (config.builtInLibrary?.enabled) {
+            await detector.loadBuiltinLibrary();
+        }
+
+        // 2. 加载自定义敏感词库
+        if (config.customLibrary?.enabled) {
+            await detector.loadCustomSensitiveLibrary();
+        }
+
+        // 3. 加载白名单
+        if (config.whitelist?.enabled) {
+            await detector.loadWhitelist();
+        }
+
+        // 兼容旧版配置：如果使用了 customWords 配置
+        if (config.customWords?.enabled) {
+            await detector.loadCustomLibrary();
+        }
+
+        // 4. 加载替换建议
+        await detector.loadReplacements();
+
+        // 5. 加载词组例外
+        await detector.loadExceptions();
+
+        // 6. 加载变体检测数据
+        if (config.variantDetection?.enabled) {
+            await detector.loadVariantTables();
+        }
+
+        detector.logger.info(`敏感词检测服务初始化完成，共加载 ${detector.trie.getWordCount()} 个敏感词`);
+        return detector;
+    }
+
+    /**
+     * 读取 JSON / JSONC 文件，不存在或解析失败时返回 undefined
+     */
+    private async readJson<T>(filePath: string): Promise<T | undefined> {
+        try {
+            return jsoncParser.parse(await this.sources.readFile(filePath)) as T;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * 按配置的路径读取项目文件，不存在时尝试 .jsonc / .json 互换后的文件（向后兼容）
+     * @returns 文件内容和实际读取的路径
+     */
+    private async readProjectJson<T>(configuredPath: string): Promise<{ data: T; filePath: string } | undefined> {
+        const workspaceRoot = this.sources.workspaceRoot;
+        if (!workspaceRoot) {
+            return undefined;
+        }
+
+        const pathsToTry = [path.join(workspaceRoot, configuredPath)];
+        if (configuredPath.endsWith('.jsonc')) {
+            pathsToTry.push(path.join(workspaceRoot, configuredPath.replace(/\.jsonc$/, '.json')));
+        } else if (configuredPath.endsWith('.json')) {
+            pathsToTry.push(path.join(workspaceRoot, configuredPath.replace(/\.json$/, '.jsonc')));
+        }
+
+        for (const filePath of pathsToTry) {
+            const data = await this.readJson<T & { words?: unknown }>(filePath);
+            if (data && Array.isArray(data.words)) {
+                return { data, filePath };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 加载内置词库
+     */
+    private async loadBuiltinLibrary(): Promise<void> {
+        const metadata = await this.readJson<WordLibraryMetadata>(path.join(this.sources.builtinDir, 'metadata.json'));
+        if (metadata) {
+            this.logger.info(`加载内置词库 v${metadata.version}，共 ${metadata.totalWords} 个词`);
+        }
+
+        // 根据配置加载各级别词库
+        const levels: SensitiveLevel[] = ['high', 'medium', 'low'];
+        for (const level of levels) {
+            if (this.config.builtInLibrary?.levels[level]) {
+                await this.loadLevelWords(level);
+            }
+        }
+    }
+
+    /**
+     * 加载某个级别的词库
+     * @param level 级别
+     */
+    private async loadLevelWords(level: SensitiveLevel): Promise<void> {
+        const filePath = path.join(this.sources.builtinDir, `level-${level}.json`);
+        const data = await this.readJson<WordLibraryFile>(filePath);
+        if (!data || !Array.isArray(data.words)) {
+            this.logger.warn(`词库文件不存在或加载失败: ${filePath}`);
+            return;
+        }
+
+        // 按分类开关过滤，记录每个词的分类
+        const categoryMap = buildWordCategoryMap(data.categories);
+        const words = data.words.filter(word => isCategoryEnabled(categoryMap.get(word), this.config.categories));
+        this.trie.insertBatch(words, level);
+        for (const word of words) {
+            const category = categoryMap.get(word);
+            if (category) {
+                this.wordInfo.set(word, { category });
+            }
+        }
+
+        const skipped = data.words.length - words.length;
+        this.logger.info(`加载 ${level} 级别词库，共 ${words.length} 个词${skipped > 0 ? `（按分类关闭 ${skipped} 个）` : ''}`);
+    }
+
+    /**
+     * 加载自定义敏感词库（用户完全自定义的敏感词列表），以及当前平台配置额外指定的词库
+     */
+    private async loadCustomSensitiveLibrary(): Promise<void> {
+        const { path: configuredPath, extraPaths = [] } = this.config.customLibrary!;
+        for (const libraryPath of [configuredPath, ...extraPaths]) {
+            await this.loadCustomLibraryFile(libraryPath);
+        }
+    }
+
+    /**
+     * 加载单个自定义敏感词库文件
+     * @param configuredPath 配置的词库路径（相对项目根目录）
+     */
+    private async loadCustomLibraryFile(configuredPath: string): Promise<void> {
+        const loaded = await this.readProjectJson<CustomSensitiveLibrary>(configuredPath);
+        if (!loaded) {
+            this.logger.info(`自定义敏感词库文件不存在: ${configuredPath}`);
+            return;
+        }
+
+        // 字符串视为高危；对象可以指定级别、分类、备注和替换建议，覆盖内置词库中的同名词
+        const definitions = parseCustomSensitiveWords(loaded.data.words, 'high');
+        let count = 0;
+        for (const definition of definitions) {
+            if (definition.category) {
+                this.customCategories.add(definition.category);
+            }
+            if (!isCategoryEnabled(definition.category, this.config.categories)) {
+                continue;
+            }
+            this.trie.insert(definition.word, definition.level);
+            this.wordInfo.set(definition.word, { category: definition.category, note: definition.note });
+            if (definition.suggestions.length > 0) {
+                this.customSuggestions.set(definition.word, definition.suggestions);
+            }
+            count++;
+        }
+        this.logger.info(`加载自定义敏感词库，共 ${count} 个词 (${path.basename(loaded.filePath)})`);
+    }
+
+    /**
+     * 加载白名单
+     */
+    private async loadWhitelist(): Promise<void> {
+        const configuredPath = this.config.whitelist!.path;
+        const loaded = await this.readProjectJson<CustomWordLibrary>(configuredPath);
+        if (!loaded) {
+            this.logger.info(`白名单文件不存在: ${configuredPath}`);
+            return;
+        }
+
+        this.whitelist = new Set(loaded.data.words);
+        this.logger.info(`加载白名单，共 ${this.whitelist.size} 个词 (${path.basename(loaded.filePath)})`);
+    }
+
+    /**
+     * 加载替换建议（自定义词库中的建议最先，其次是项目 replacements.jsonc，最后是内置建议）
+     */
+    private async loadReplacements(): Promise<void> {
+        const readTable = async (filePath: string | undefined): Promise<ReplacementTable> =>
+            filePath ? parseReplacementTable(await this.readJson<ReplacementLibraryFile>(filePath)) : new Map();
+
+        const builtin = await readTable(path.join(this.sources.builtinDir, 'replacements.json'));
+        const workspaceRoot = this.sources.workspaceRoot;
+        const project = await readTable(workspaceRoot && path.join(workspaceRoot, SENSITIVE_REPLACEMENTS_FILE));
+
+        this.replacements = mergeReplacementTables(this.customSuggestions, project, builtin);
+        this.logger.info(`加载替换建议，共 ${this.replacements.size} 个词（项目 ${project.size} 个）`);
+    }
+
+    /**
+     * 加载词组例外（内置 exceptions.json 和项目 exceptions.jsonc）
+     */
+    private async loadExceptions(): Promise<void> {
+        const readTable = async (filePath: string | undefined): Promise<ExceptionTable> =>
+            filePath ? parseExceptionTable(await this.readJson<ExceptionLibraryFile>(filePath)) : new Map();
+
+        const builtin = await readTable(path.join(this.sources.builtinDir, 'exceptions.json'));
+        const workspaceRoot = this.sources.workspaceRoot;
+        const project = await readTable(workspaceRoot && path.join(workspaceRoot, SENSITIVE_EXCEPTIONS_FILE));
+
+        this.exceptions = { builtin, project };
+        this.logger.info(`加载词组例外，内置 ${builtin.size} 个词，项目 ${project.size} 个词`);
+    }
+
+    /**
+     * 加载变体检测数据（繁简对照、拼音）
+     */
+    private async loadVariantTables(): Promise<void> {
+        try {
+            const content = await this.sources.readFile(path.join(this.sources.builtinDir, 'variants.json'));
+            this.variantTables = parseVariantTables(JSON.parse(content));
+            this.logger.info(`加载变体检测数据，繁体 ${this.variantTables.traditional.size} 字，拼音 ${this.variantTables.pinyin.size} 字`);
+        } catch (error) {
+            this.logger.warn('加载变体检测数据失败，变体检测仅识别拆字和全角写法', error);
+            this.variantTables = { traditional: new Map(), pinyin: new Map() };
+        }
+    }
+
+    /**
+     * 加载黑名单/白名单（兼容旧版 customWords 配置，用于微调内置词库）
+     */
+    private async loadCustomLibrary(): Promise<void> {
+        const workspaceRoot = this.sources.workspaceRoot;
+        if (!workspaceRoot) {
+            return;
+        }
+
+        const blacklist = await this.readJson<CustomWordLibrary>(path.join(workspaceRoot, this.config.customWords!.blacklistPath));
+        if (blacklist && Array.isArray(blacklist.words)) {
+            this.trie.insertBatch(blacklist.words, 'high'); // 自定义黑名单视为高危
+            this.logger.info(`加载自定义黑名单，共 ${blacklist.words.length} 个词`);
+        }
+
+        const whitelist = await this.readJson<CustomWordLibrary>(path.join(workspaceRoot, this.config.customWords!.whitelistPath));
+        if (whitelist && Array.isArray(whitelist.words)) {
+            this.whitelist = new Set(whitelist.words);
+            this.logger.info(`加载自定义白名单，共 ${this.whitelist.size} 个词`);
+        }
+    }
+
+    /**
+     * 检测 Markdown 文本中的敏感词
+     * @param fullText 完整文件内容（含 frontmatter）
+     * @param includeSuppressed 是否同时返回被词组例外放过的匹配（带 exception 字段，用于解释为什么没有提示）
+     * @returns 匹配结果数组，位置相对完整文件内容
+     */
+    public detectText(fullText: string, includeSuppressed = false): SensitiveMatch[] {
+        if (!this.config.enabled || !fullText || fullText.length === 0) {
+            return [];
+        }
+
+        // 排除 frontmatter 区域，只检测正文内容
+        const { text, offset } = extractContentWithoutFrontmatterForMatching(fullText);
+
+        if (!text || text.length === 0) {
+            return [];
+        }
+
+        // 使用 Trie 树检测
+        let matches = this.trie.search(text);
+
+        // 变体检测（与原样出现的敏感词重叠的变体不再重复报告）
+        if (this.variantTables && this.config.variantDetection) {
+            const variants = findVariantMatches(text, this.trie, this.config.variantDetection, this.variantTables)
+                .filter(v => !matches.some(m => v.start < m.end && m.start < v.end));
+            if (variants.length > 0) {
+                matches = [...matches, ...variants].sort((a, b) => a.start - b.start);
+            }
+        }
+
+        // 过滤白名单
+        matches = matches.filter(m => !this.whitelist.has(m.word));
+
+        // 附加分类、备注，标记词组例外（如 "日子" 中的 "日"）
+        matches = matches.map(m => {
+            const info = this.wordInfo.get(m.word);
+            const exception = this.findException(text, m);
+            return {
+                ...m,
+                ...(info?.category ? { category: info.category } : {}),
+                ...(info?.note ? { note: info.note } : {}),
+                ...(exception ? { exception } : {})
+            };
+        });
+        if (!includeSuppressed) {
+            matches = matches.filter(m => !m.exception);
+        }
+
+        // 调整匹配位置（加上 frontmatter 的偏移量）
+        matches = matches.map(m => ({
+            ...m,
+            start: m.start + offset,
+            end: m.end + offset
+        }));
+
+        // 标记白名单状态
+        matches.forEach(m => {
+            m.inWhitelist = this.whitelist.has(m.word);
+        });
+
+        return matches;
+    }
+
+    /**
+     * 查找放过某处匹配的词组例外（项目例外优先）
+     */
+    private findException(text: string, match: SensitiveMatch): SensitiveException | undefined {
+        const sources: SensitiveException['source'][] = ['project', 'builtin'];
+        for (const source of sources) {
+            const phrases = this.exceptions[source].get(match.word);
+            const phrase = phrases && findExceptionPhrase(text, match.start, match.end, phrases);
+            if (phrase) {
+                return { phrase, source };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * 获取敏感词的替换建议（本身也会被检测为敏感词的建议会被排除）
+     * @param word 敏感词
+     * @returns 替换建议，没有时返回空数组
+     */
+    public getReplacements(word: string): string[] {
+        const candidates = this.replacements.get(word) ?? [];
+        return candidates.filter(candidate =>
+            this.trie.search(candidate).every(match => this.whitelist.has(match.word))
+        );
+    }
+
+    /**
+     * 获取自定义词库中用到的分类
+     */
+    public getCustomCategories(): string[] {
+        return [...this.customCategories];
+    }
+
+    /**
+     * 获取统计信息
+     * @returns 统计信息
+     */
+    public getStatistics(): { totalWords: number; whitelistSize: number } {
+        return {
+            totalWords: this.trie.getWordCount(),
+            whitelistSize: this.whitelist.size
+        };
+    }
+}
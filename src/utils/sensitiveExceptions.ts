@@ -0,0 +1,83 @@
+/**
+ * 敏感词词组例外工具
+ * 解析词组例外表，判断某处敏感词是否属于常见词组（如 "日子" 中的 "日"），不依赖 vscode
+ */
+
+/** 敏感词 -> 包含该词的例外词组 */
+export type ExceptionTable = Map<string, string[]>;
+
+/**
+ * 解析词组例外文件内容
+ *
+ * @param data 解析后的 JSON 数据（格式见 ExceptionLibraryFile），不包含对应敏感词的词组会被忽略
+ * @returns 词组例外表
+ *
+ * @example
+ * ```typescript
+ * parseExceptionTable({ exceptions: { '日': ['日子', '今日'], '草': '草原' } });
+ * // Map { '日' => ['日子', '今日'], '草' => ['草原'] }
+ * ```
+ */
+export function parseExceptionTable(data: unknown): ExceptionTable {
+    const table: ExceptionTable = new Map();
+    const exceptions = (data as { exceptions?: unknown } | null | undefined)?.exceptions;
+    if (!exceptions || typeof exceptions !== 'object' || Array.isArray(exceptions)) {
+        return table;
+    }
+
+    for (const [rawWord, value] of Object.entries(exceptions as Record<string, unknown>)) {
+        const word = rawWord.trim();
+        if (!word) {
+            continue;
+        }
+
+        const phrases = (Array.isArray(value) ? value : [value])
+            .filter((phrase): phrase is string => typeof phrase === 'string')
+            .map(phrase => phrase.trim())
+            .filter(phrase => phrase.length > word.length && phrase.includes(word));
+
+        if (phrases.length > 0) {
+            table.set(word, [...new Set([...(table.get(word) ?? []), ...phrases])]);
+        }
+    }
+
+    return table;
+}
+
+/**
+ * 查找覆盖某处匹配的例外词组
+ * 词组中每一处出现该词的位置都会尝试对齐，例如 "日复一日" 可以放过其中任意一个 "日"
+ *
+ * @param text 文本
+ * @param start 匹配起始位置
+ * @param end 匹配结束位置
+ * @param phrases 该词的例外词组
+ * @returns 命中的词组，没有时返回 undefined
+ *
+ * @example
+ * ```typescript
+ * findExceptionPhrase('过日子', 1, 2, ['日子', '今日']); // '日子'
+ * findExceptionPhrase('日你', 0, 1, ['日子', '今日']);   // undefined
+ * ```
+ */
+export function findExceptionPhrase(
+    text: string,
+    start: number,
+    end: number,
+    phrases: readonly string[]
+): string | undefined {
+    const matched = text.slice(start, end);
+    if (!matched) {
+        return undefined;
+    }
+
+    return phrases.find(phrase => {
+        for (let index = phrase.indexOf(matched); index !== -1; index = phrase.indexOf(matched, index + 1)) {
+            const phraseStart = start - index;
+            if (phraseStart >= 0 && text.startsWith(phrase, phraseStart)) {
+                return true;
+            }
+        }
+        return false;
+    });
+}
@@ -0,0 +1,234 @@
+/**
+ * 敏感词忽略工具
+ * 按前后文记录和识别已忽略的单处敏感词，解析行内 <!-- noveler-ignore: 词 --> 标记，不依赖 vscode
+ */
+
+import { SensitiveIgnoreEntry, SensitiveMatch } from '../types/sensitiveWord';
+import { computeLineStarts, offsetToPosition } from './sensitiveReport';
+
+/** 记录忽略位置时，敏感词前后各保留的字数 */
+export const IGNORE_CONTEXT_LENGTH = 8;
+
+/** 行内忽略标记，如 <!-- noveler-ignore: 词1, 词2 --> */
+const INLINE_IGNORE_REGEX = /<!--[ \t]*noveler-ignore[ \t]*[:：]([^\n]*?)-->/g;
+
+/**
+ * 行内忽略标记
+ */
+export interface InlineIgnoreMarker {
+    /** 标记在原文中的起始位置 */
+    start: number;
+    /** 标记在原文中的结束位置 */
+    end: number;
+    /** 标记所在行（从 0 开始） */
+    line: number;
+    /** 标记作用的行（标记单独占一行时为下一个非空行） */
+    targetLine: number;
+    /** 忽略的词 */
+    words: string[];
+}
+
+/**
+ * 解析已忽略敏感词文件内容
+ *
+ * @param data 解析后的 JSON 数据（格式见 SensitiveIgnoreFile）
+ * @returns 已忽略的位置，格式不正确的条目会被忽略
+ */
+export function parseIgnoreFile(data: unknown): SensitiveIgnoreEntry[] {
+    const ignores = (data as { ignores?: unknown } | null | undefined)?.ignores;
+    if (!Array.isArray(ignores)) {
+        return [];
+    }
+
+    return ignores
+        .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+        .filter(item => typeof item.chapter === 'string' && typeof item.word === 'string' && item.word.length > 0)
+        .map(item => ({
+            chapter: item.chapter as string,
+            word: item.word as string,
+            ...(typeof item.variant === 'string' && item.variant.length > 0 ? { variant: item.variant } : {}),
+            before: typeof item.before === 'string' ? item.before : '',
+            after: typeof item.after === 'string' ? item.after : '',
+            createdAt: typeof item.createdAt === 'string' ? item.createdAt : ''
+        }));
+}
+
+/**
+ * 为某处敏感词创建忽略记录（前后文不跨行）
+ *
+ * @param chapter 文件路径（相对项目根目录）
+ * @param text 文件内容
+ * @param match 要忽略的匹配
+ * @param createdAt 忽略时间
+ * @returns 忽略记录
+ *
+ * @example
+ * ```typescript
+ * createIgnoreEntry('chapters/第001章.md', '他说：该死的天气。', { word: '该死', start: 3, end: 5 }, '2025-12-01 10:00');
+ * // { chapter: 'chapters/第001章.md', word: '该死', before: '他说：', after: '的天气。', createdAt: '2025-12-01 10:00' }
+ * ```
+ */
+export function createIgnoreEntry(
+    chapter: string,
+    text: string,
+    match: Pick<SensitiveMatch, 'word' | 'start' | 'end'>,
+    createdAt: string
+): SensitiveIgnoreEntry {
+    const lineStart = text.lastIndexOf('\n', match.start - 1) + 1;
+    const newline = text.indexOf('\n', match.end);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const written = text.slice(match.start, match.end);
+
+    return {
+        chapter,
+        word: match.word,
+        ...(written !== match.word ? { variant: written } : {}),
+        before: text.slice(Math.max(lineStart, match.start - IGNORE_CONTEXT_LENGTH), match.start).replace(/\r$/, ''),
+        after: text.slice(match.end, Math.min(lineEnd, match.end + IGNORE_CONTEXT_LENGTH)).replace(/\r$/, ''),
+        createdAt
+    };
+}
+
+/**
+ * 判断两条忽略记录是否指向同一处
+ */
+export function isSameIgnore(a: SensitiveIgnoreEntry, b: SensitiveIgnoreEntry): boolean {
+    return a.chapter === b.chapter && a.word === b.word && a.before === b.before && a.after === b.after;
+}
+
+/**
+ * 在原文中查找忽略记录对应的位置
+ *
+ * @param text 文件内容
+ * @param entry 忽略记录
+ * @returns 敏感词在原文中的位置，原文已修改（找不到前后文）时返回 undefined
+ */
+export function findIgnoredOccurrence(text: string, entry: SensitiveIgnoreEntry): { start: number; end: number } | undefined {
+    const written = entry.variant ?? entry.word;
+    const index = text.indexOf(entry.before + written + entry.after);
+    if (index === -1) {
+        return undefined;
+    }
+    const start = index + entry.before.length;
+    return { start, end: start + written.length };
+}
+
+/**
+ * 判断某处匹配是否被忽略记录覆盖（词、原文写法和前后文都一致）
+ *
+ * @param text 文件内容
+ * @param match 匹配结果
+ * @param entry 忽略记录（调用方负责按文件筛选）
+ */
+export function matchesIgnoreEntry(
+    text: string,
+    match: Pick<SensitiveMatch, 'word' | 'start' | 'end'>,
+    entry: SensitiveIgnoreEntry
+): boolean {
+    return entry.word === match.word
+        && text.slice(match.start, match.end) === (entry.variant ?? entry.word)
+        && match.start >= entry.before.length
+        && text.slice(match.start - entry.before.length, match.start) === entry.before
+        && text.slice(match.end, match.end + entry.after.length) === entry.after;
+}
+
+/**
+ * 查找文件中的行内忽略标记
+ * 标记作用于所在行；标记单独占一行时，作用于下一个非空行
+ *
+ * @param text 文件内容
+ * @returns 行内忽略标记（按出现顺序）
+ *
+ * @example
+ * ```typescript
+ * findInlineIgnoreMarkers('他骂了句该死。<!-- noveler-ignore: 该死 -->');
+ * // [{ start: 7, end: 34, line: 0, targetLine: 0, words: ['该死'] }]
+ * ```
+ */
+export function findInlineIgnoreMarkers(text: string): InlineIgnoreMarker[] {
+    const lineStarts = computeLineStarts(text);
+    const lineText = (line: number) => text.slice(lineStarts[line], line + 1 < lineStarts.length ? lineStarts[line + 1] : text.length);
+    const markers: InlineIgnoreMarker[] = [];
+
+    for (const found of text.matchAll(INLINE_IGNORE_REGEX)) {
+        const start = found.index ?? 0;
+        const end = start + found[0].length;
+        const words = found[1].split(/[,，、\s]+/).filter(word => word.length > 0);
+        if (words.length === 0) {
+            continue;
+        }
+
+        const { line } = offsetToPosition(lineStarts, start);
+        let targetLine = line;
+        if (lineText(line).replace(INLINE_IGNORE_REGEX, '').trim() === '') {
+            targetLine = line + 1;
+            while (targetLine < lineStarts.length - 1 && lineText(targetLine).trim() === '') {
+                targetLine++;
+            }
+        }
+
+        markers.push({ start, end, line, targetLine, words });
+    }
+
+    return markers;
+}
+
+/**
+ * 计算删除行内忽略标记时要删除的范围
+ * 标记单独占一行时删除整行，否则连同标记前的空白一起删除
+ *
+ * @param text 文件内容
+ * @param marker 行内忽略标记
+ */
+export function getInlineIgnoreRemovalRange(text: string, marker: InlineIgnoreMarker): { start: number; end: number } {
+    const lineStart = text.lastIndexOf('\n', marker.start - 1) + 1;
+    const newline = text.indexOf('\n', marker.end);
+    const lineEnd = newline === -1 ? text.length : newline;
+
+    if (text.slice(lineStart, marker.start).trim() === '' && text.slice(marker.end, lineEnd).trim() === '') {
+        return newline === -1
+            ? { start: Math.max(0, lineStart - 1), end: lineEnd }
+            : { start: lineStart, end: lineEnd + 1 };
+    }
+
+    let start = marker.start;
+    while (start > lineStart && /[ \t]/.test(text[start - 1])) {
+        start--;
+    }
+    return { start, end: marker.end };
+}
+
+/**
+ * 过滤已忽略的匹配：忽略记录覆盖的位置、行内标记作用行中的对应词，以及标记本身中的词
+ *
+ * @param text 文件内容
+ * @param matches 匹配结果
+ * @param entries 该文件的忽略记录
+ * @returns 过滤后的匹配结果
+ */
+export function filterIgnoredMatches(
+    text: string,
+    matches: SensitiveMatch[],
+    entries: SensitiveIgnoreEntry[]
+): SensitiveMatch[] {
+    const markers = text.includes('noveler-ignore') ? findInlineIgnoreMarkers(text) : [];
+    if (markers.length === 0 && entries.length === 0) {
+        return matches;
+    }
+
+    const lineStarts = computeLineStarts(text);
+    return matches.filter(match => {
+        if (entries.some(entry => matchesIgnoreEntry(text, match, entry))) {
+            return false;
+        }
+        if (markers.length === 0) {
+            return true;
+        }
+
+        const { line } = offsetToPosition(lineStarts, match.start);
+        return !markers.some(marker =>
+            (match.start >= marker.start && match.end <= marker.end)
+            || (marker.targetLine === line && (marker.words.includes(match.word) || (!!match.variant && marker.words.includes(match.variant))))
+        );
+    });
+}
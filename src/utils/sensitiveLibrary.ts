@@ -0,0 +1,103 @@
+/**
+ * 敏感词库解析工具
+ * 解析自定义词库条目（字符串或对象）和内置词库的分类，不依赖 vscode
+ */
+
+import { SensitiveLevel, SensitiveWordDefinition } from '../types/sensitiveWord';
+
+const LEVELS: readonly SensitiveLevel[] = ['high', 'medium', 'low'];
+
+/**
+ * 解析自定义词库的词汇列表
+ * 字符串视为默认级别、无分类的词；对象支持 level / category / note / suggestion，格式不正确的条目会被忽略
+ *
+ * @param words custom-words.jsonc 中的 words
+ * @param defaultLevel 未指定级别时使用的级别
+ * @returns 敏感词定义（同一个词出现多次时以最后一次为准）
+ *
+ * @example
+ * ```typescript
+ * parseCustomSensitiveWords(['某词', { word: '另一词', level: 'low', category: '平台禁词', suggestion: '替代词' }]);
+ * // [{ word: '某词', level: 'high', suggestions: [] },
+ * //  { word: '另一词', level: 'low', category: '平台禁词', suggestions: ['替代词'] }]
+ * ```
+ */
+export function parseCustomSensitiveWords(words: unknown, defaultLevel: SensitiveLevel = 'high'): SensitiveWordDefinition[] {
+    if (!Array.isArray(words)) {
+        return [];
+    }
+
+    const definitions = new Map<string, SensitiveWordDefinition>();
+    for (const item of words) {
+        const definition = typeof item === 'string'
+            ? parseEntry({ word: item }, defaultLevel)
+            : item && typeof item === 'object' ? parseEntry(item as Record<string, unknown>, defaultLevel) : undefined;
+        if (definition) {
+            definitions.delete(definition.word);
+            definitions.set(definition.word, definition);
+        }
+    }
+    return [...definitions.values()];
+}
+
+/**
+ * 解析单个对象条目
+ */
+function parseEntry(entry: Record<string, unknown>, defaultLevel: SensitiveLevel): SensitiveWordDefinition | undefined {
+    const word = typeof entry.word === 'string' ? entry.word.trim() : '';
+    if (!word) {
+        return undefined;
+    }
+
+    const level = LEVELS.includes(entry.level as SensitiveLevel) ? entry.level as SensitiveLevel : defaultLevel;
+    const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    const suggestions = (Array.isArray(entry.suggestion) ? entry.suggestion : [entry.suggestion])
+        .map(text)
+        .filter((suggestion): suggestion is string => suggestion !== undefined && suggestion !== word);
+
+    const definition: SensitiveWordDefinition = { word, level, suggestions: [...new Set(suggestions)] };
+    const category = text(entry.category);
+    const note = text(entry.note);
+    if (category) {
+        definition.category = category;
+    }
+    if (note) {
+        definition.note = note;
+    }
+    return definition;
+}
+
+/**
+ * 把内置词库的分类表（分类 -> 词）转换为 词 -> 分类
+ *
+ * @param categories 词库文件中的 categories
+ * @returns 词 -> 分类（一个词出现在多个分类时取第一个）
+ */
+export function buildWordCategoryMap(categories: unknown): Map<string, string> {
+    const map = new Map<string, string>();
+    if (!categories || typeof categories !== 'object' || Array.isArray(categories)) {
+        return map;
+    }
+
+    for (const [category, words] of Object.entries(categories as Record<string, unknown>)) {
+        if (!Array.isArray(words)) {
+            continue;
+        }
+        for (const word of words) {
+            if (typeof word === 'string' && !map.has(word)) {
+                map.set(word, category);
+            }
+        }
+    }
+    return map;
+}
+
+/**
+ * 判断分类是否需要检测（没有分类的词和未配置的分类都会检测）
+ *
+ * @param category 分类
+ * @param toggles 配置中的分类开关
+ */
+export function isCategoryEnabled(category: string | undefined, toggles: Record<string, boolean> | undefined): boolean {
+    return !category || toggles?.[category] !== false;
+}
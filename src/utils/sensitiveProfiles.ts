@@ -0,0 +1,60 @@
+/**
+ * 敏感词平台配置工具
+ * 把平台配置（如 起点 / 晋江 / 番茄）叠加到基础配置上，不依赖 vscode
+ */
+
+import { SensitiveProfile, SensitiveWordConfig } from '../types/sensitiveWord';
+
+/**
+ * 查找平台配置
+ *
+ * @param config 敏感词配置
+ * @param name 平台配置名称，不传时使用 activeProfile
+ * @returns 平台配置，名称未设置或不存在时返回 undefined
+ */
+export function resolveSensitiveProfile(
+    config: SensitiveWordConfig,
+    name: string | undefined = config.activeProfile
+): { name: string; profile: SensitiveProfile } | undefined {
+    const profile = name ? config.profiles?.[name] : undefined;
+    return name && profile && typeof profile === 'object' ? { name, profile } : undefined;
+}
+
+/**
+ * 把平台配置叠加到基础配置上
+ * 级别、分类逐项覆盖；自定义词库在基础词库之外额外加载；严重程度直接替换
+ *
+ * @param config 基础配置（已合并默认值）
+ * @param profile 平台配置
+ * @returns 新的配置对象，不修改传入的配置
+ *
+ * @example
+ * ```typescript
+ * applySensitiveProfile(config, { levels: { low: true }, severity: 'Error' });
+ * // builtInLibrary.levels.low 为 true，display.severity 为 'Error'，其他保持不变
+ * ```
+ */
+export function applySensitiveProfile(config: SensitiveWordConfig, profile: SensitiveProfile): SensitiveWordConfig {
+    const result: SensitiveWordConfig = {
+        ...config,
+        categories: { ...config.categories, ...profile.categories }
+    };
+
+    if (config.builtInLibrary && profile.levels) {
+        result.builtInLibrary = {
+            ...config.builtInLibrary,
+            levels: { ...config.builtInLibrary.levels, ...profile.levels }
+        };
+    }
+
+    const extraPaths = (profile.customLibraries ?? []).filter(libraryPath => typeof libraryPath === 'string' && libraryPath.trim());
+    if (config.customLibrary && extraPaths.length > 0) {
+        result.customLibrary = { ...config.customLibrary, extraPaths };
+    }
+
+    if (config.display && profile.severity) {
+        result.display = { ...config.display, severity: profile.severity };
+    }
+
+    return result;
+}
@@ -0,0 +1,56 @@
+/**
+ * 敏感词替换建议工具
+ * 解析和合并替换建议表，不依赖 vscode
+ */
+
+/** 敏感词 -> 替换建议 */
+export type ReplacementTable = Map<string, string[]>;
+
+/**
+ * 解析替换建议文件内容
+ *
+ * @param data 解析后的 JSON 数据（格式见 ReplacementLibraryFile），格式不正确的条目会被忽略
+ * @returns 替换建议表
+ *
+ * @example
+ * ```typescript
+ * parseReplacementTable({ replacements: { '妈的': ['该死', '见鬼'], '白痴': '蠢材' } });
+ * // Map { '妈的' => ['该死', '见鬼'], '白痴' => ['蠢材'] }
+ * ```
+ */
+export function parseReplacementTable(data: unknown): ReplacementTable {
+    const table: ReplacementTable = new Map();
+    const replacements = (data as { replacements?: unknown } | null | undefined)?.replacements;
+    if (!replacements || typeof replacements !== 'object' || Array.isArray(replacements)) {
+        return table;
+    }
+
+    for (const [word, value] of Object.entries(replacements as Record<string, unknown>)) {
+        const candidates = (Array.isArray(value) ? value : [value])
+            .filter((candidate): candidate is string => typeof candidate === 'string')
+            .map(candidate => candidate.trim())
+            .filter(candidate => candidate.length > 0 && candidate !== word);
+
+        if (word.trim() && candidates.length > 0) {
+            table.set(word.trim(), [...new Set(candidates)]);
+        }
+    }
+
+    return table;
+}
+
+/**
+ * 合并多个替换建议表，排在前面的表中的建议优先（用于项目建议覆盖内置建议的顺序）
+ *
+ * @param tables 替换建议表
+ * @returns 合并后的替换建议表，同一个词的建议去重
+ */
+export function mergeReplacementTables(...tables: ReplacementTable[]): ReplacementTable {
+    const merged: ReplacementTable = new Map();
+    for (const table of tables) {
+        for (const [word, candidates] of table) {
+            merged.set(word, [...new Set([...(merged.get(word) ?? []), ...candidates])]);
+        }
+    }
+    return merged;
+}
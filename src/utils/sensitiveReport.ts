@@ -0,0 +1,162 @@
+/**
+ * 敏感词扫描报告工具
+ * 位置换算、上下文片段和 JSON / CSV 导出，不依赖 vscode
+ */
+
+import { SensitiveLevel, SensitiveMatch, SensitiveScanChapter, SensitiveScanItem, SensitiveScanReport } from '../types/sensitiveWord';
+
+/** 敏感词级别显示名称 */
+export const SENSITIVE_LEVEL_NAMES: Record<SensitiveLevel, string> = {
+    high: '高危',
+    medium: '中危',
+    low: '低危'
+};
+
+/** 上下文片段前后各保留的字符数 */
+const CONTEXT_RADIUS = 15;
+
+/**
+ * 计算每行起始偏移量
+ *
+ * @param text 文本
+ * @returns 各行起始偏移量（第 0 行为 0）
+ */
+export function computeLineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            starts.push(i + 1);
+        }
+    }
+    return starts;
+}
+
+/**
+ * 把偏移量换算为行列位置
+ *
+ * @param lineStarts computeLineStarts 的结果
+ * @param offset 偏移量
+ * @returns 行号和列号（均从 0 开始）
+ */
+export function offsetToPosition(lineStarts: number[], offset: number): { line: number; character: number } {
+    // 二分查找最后一个不大于 offset 的行起点
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (lineStarts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return { line: low, character: offset - lineStarts[low] };
+}
+
+/**
+ * 截取匹配位置的上下文片段（不跨行，去除首尾空白）
+ *
+ * @param text 原文
+ * @param start 匹配起始偏移量
+ * @param end 匹配结束偏移量
+ * @returns 上下文片段，被截断的一侧加省略号
+ *
+ * @example
+ * ```typescript
+ * buildContextSnippet('第一行\n他说了一句敏感词就走了\n', 9, 12);
+ * // '他说了一句敏感词就走了'
+ * ```
+ */
+export function buildContextSnippet(text: string, start: number, end: number): string {
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const lineEndIndex = text.indexOf('\n', end);
+    const lineEnd = lineEndIndex === -1 ? text.length : lineEndIndex;
+
+    const from = Math.max(lineStart, start - CONTEXT_RADIUS);
+    const to = Math.min(lineEnd, end + CONTEXT_RADIUS);
+    const snippet = text.substring(from, to).replace(/\r/g, '').trim();
+
+    return `${from > lineStart ? '…' : ''}${snippet}${to < lineEnd ? '…' : ''}`;
+}
+
+/**
+ * 把检测结果转换为报告中的条目（行列号和上下文）
+ *
+ * @param text 文件内容
+ * @param matches 检测结果（位置相对文件内容）
+ * @returns 报告条目
+ */
+export function toSensitiveScanItems(text: string, matches: SensitiveMatch[]): SensitiveScanItem[] {
+    const lineStarts = computeLineStarts(text);
+    return matches.map(match => ({
+        word: match.word,
+        level: match.level,
+        ...offsetToPosition(lineStarts, match.start),
+        context: buildContextSnippet(text, match.start, match.end),
+        ...(match.variant ? { variant: match.variant } : {})
+    }));
+}
+
+/**
+ * 统计各级别数量
+ */
+export function countLevels(items: { level: SensitiveLevel }[]): Record<SensitiveLevel, number> {
+    const levels: Record<SensitiveLevel, number> = { high: 0, medium: 0, low: 0 };
+    for (const item of items) {
+        levels[item.level]++;
+    }
+    return levels;
+}
+
+/**
+ * 汇总扫描报告
+ *
+ * @param chapters 各章节的敏感词位置，按阅读顺序（没有敏感词的章节也可以传入，不会出现在报告中）
+ * @param generatedAt 生成时间
+ * @returns 扫描报告
+ */
+export function buildSensitiveScanReport(
+    chapters: { path: string; title: string; items: SensitiveScanItem[] }[],
+    generatedAt: string
+): SensitiveScanReport {
+    const withMatches: SensitiveScanChapter[] = chapters
+        .filter(chapter => chapter.items.length > 0)
+        .map(chapter => ({ ...chapter, levels: countLevels(chapter.items) }));
+
+    return {
+        generatedAt,
+        scannedChapters: chapters.length,
+        levels: countLevels(withMatches.flatMap(chapter => chapter.items)),
+        chapters: withMatches
+    };
+}
+
+/**
+ * 把扫描报告转换为 CSV（UTF-8 BOM，Excel 可直接打开）
+ *
+ * @param report 扫描报告
+ * @returns CSV 文本，每个敏感词位置一行
+ */
+export function sensitiveReportToCsv(report: SensitiveScanReport): string {
+    const escapeCsv = (value: string | number) => {
+        const text = String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = [['章节', '文件', '行', '列', '级别', '敏感词', '上下文']];
+    for (const chapter of report.chapters) {
+        for (const item of chapter.items) {
+            rows.push([
+                chapter.title,
+                chapter.path,
+                String(item.line + 1),
+                String(item.character + 1),
+                SENSITIVE_LEVEL_NAMES[item.level],
+                item.variant ? `${item.word}（${item.variant}）` : item.word,
+                item.context
+            ]);
+        }
+    }
+
+    return '\uFEFF' + rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+}
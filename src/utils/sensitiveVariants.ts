@@ -0,0 +1,182 @@
+/**
+ * 敏感词变体检测
+ * 识别用空格 / 符号拆开、全角字母、繁体字、拼音或首字母替代的敏感词，并把位置映射回原文，不依赖 vscode
+ */
+
+import { SensitiveMatch, SensitiveVariantOptions } from '../types/sensitiveWord';
+import { TrieTree } from './trieTree';
+
+/**
+ * 变体检测数据（来自 templates/sensitive-words/variants.json）
+ */
+export interface VariantTables {
+    /** 繁体字 -> 简体字 */
+    traditional: Map<string, string>;
+    /** 字 -> 拼音（小写，不带声调，多音字有多个） */
+    pinyin: Map<string, string[]>;
+}
+
+/**
+ * 归一化后的文本
+ */
+export interface NormalizedText {
+    /** 归一化后的文本 */
+    text: string;
+    /** 归一化文本中每个字符在原文中的位置 */
+    offsets: number[];
+}
+
+/**
+ * 拆字符号：空白（不含换行）和常用来拆开敏感词的符号
+ * 不包含句读标点，避免把前后两句的字拼成敏感词
+ */
+const SEPARATOR_REGEX = /[^\S\r\n]|[*·•.\-_~|/\\+#@^丶＊．－＿～｜／＼＋＃＠]/;
+
+/** 只用首字母替代时，词至少要有的字数（两个字母的缩写太容易误报） */
+const MIN_INITIALS_LENGTH = 3;
+
+/**
+ * 解析变体检测数据文件
+ *
+ * @param data 解析后的 JSON 数据（traditional: 繁体 -> 简体；pinyin: 字 -> 拼音或拼音数组）
+ * @returns 变体检测数据，格式不正确的条目会被忽略
+ */
+export function parseVariantTables(data: unknown): VariantTables {
+    const raw = (data ?? {}) as { traditional?: unknown; pinyin?: unknown };
+    const tables: VariantTables = { traditional: new Map(), pinyin: new Map() };
+
+    if (raw.traditional && typeof raw.traditional === 'object') {
+        for (const [from, to] of Object.entries(raw.traditional as Record<string, unknown>)) {
+            if (from.length === 1 && typeof to === 'string' && to.length === 1) {
+                tables.traditional.set(from, to);
+            }
+        }
+    }
+
+    if (raw.pinyin && typeof raw.pinyin === 'object') {
+        for (const [char, value] of Object.entries(raw.pinyin as Record<string, unknown>)) {
+            const readings = (Array.isArray(value) ? value : [value])
+                .filter((reading): reading is string => typeof reading === 'string' && /^[a-z]+$/.test(reading));
+            if (readings.length > 0) {
+                tables.pinyin.set(char, readings);
+            }
+        }
+    }
+
+    return tables;
+}
+
+/**
+ * 归一化文本：去掉拆字符号、全角字母数字转半角、繁体转简体
+ * 每个保留的字符一对一转换，offsets 记录其在原文中的位置
+ *
+ * @param text 原文
+ * @param options 变体检测选项
+ * @param traditional 繁体 -> 简体
+ * @returns 归一化后的文本和位置映射
+ *
+ * @example
+ * ```typescript
+ * normalizeForMatching('敏 感', options, tables.traditional);
+ * // { text: '敏感', offsets: [0, 2] }
+ * ```
+ */
+export function normalizeForMatching(
+    text: string,
+    options: SensitiveVariantOptions,
+    traditional: Map<string, string>
+): NormalizedText {
+    let normalized = '';
+    const offsets: number[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+        let char = text[i];
+
+        if (options.separators && SEPARATOR_REGEX.test(char)) {
+            continue;
+        }
+
+        if (options.fullWidth && /[０-９Ａ-Ｚａ-ｚ]/.test(char)) {
+            char = String.fromCharCode(char.charCodeAt(0) - 0xfee0);
+        }
+
+        if (options.traditional) {
+            char = traditional.get(char) ?? char;
+        }
+
+        normalized += char;
+        offsets.push(i);
+    }
+
+    return { text: normalized, offsets };
+}
+
+/**
+ * 检测敏感词变体
+ * 只返回原文写法与敏感词不同的匹配（原样出现的敏感词由普通检测负责），位置为原文中的位置
+ *
+ * @param text 原文
+ * @param trie 敏感词 Trie 树
+ * @param options 变体检测选项
+ * @param tables 变体检测数据
+ * @returns 匹配结果，variant 为原文中的写法
+ */
+export function findVariantMatches(
+    text: string,
+    trie: TrieTree,
+    options: SensitiveVariantOptions,
+    tables: VariantTables
+): SensitiveMatch[] {
+    const { text: normalized, offsets } = normalizeForMatching(text, options, tables.traditional);
+    if (normalized.length === 0) {
+        return [];
+    }
+
+    const toOriginal = (match: SensitiveMatch): SensitiveMatch => {
+        const start = offsets[match.start];
+        const end = offsets[match.end - 1] + 1;
+        return { ...match, start, end, variant: text.slice(start, end) };
+    };
+
+    const matches = trie.search(normalized).map(toOriginal);
+
+    if (options.pinyin) {
+        const isLetter = (char: string | undefined) => char !== undefined && /[a-zA-Z]/.test(char);
+        const alternatives = (char: string): string[] => {
+            const readings = tables.pinyin.get(char);
+            return readings ? [...new Set([...readings, ...readings.map(reading => reading[0])])] : [];
+        };
+        const accept = (start: number, end: number, parts: string[]): boolean => {
+            // 字母必须整段使用，避免从英文单词中间截出拼音
+            if (isLetter(text[offsets[start] - 1]) || isLetter(text[offsets[end - 1] + 1])) {
+                return false;
+            }
+            if (parts.length < 2) {
+                return false;
+            }
+            const kept = parts.filter(part => !/^[a-z]+$/.test(part)).length;
+            const initials = parts.filter(part => /^[a-z]$/.test(part)).length;
+            const syllables = parts.length - kept - initials;
+            return kept > 0 || syllables >= 2 || initials >= MIN_INITIALS_LENGTH;
+        };
+
+        matches.push(...trie.searchWithAlternatives(normalized, alternatives, accept).map(toOriginal));
+    }
+
+    return removeOverlaps(matches.filter(match => match.variant !== match.word));
+}
+
+/**
+ * 去除重叠的匹配（保留靠前的，位置相同时保留较长的），结果按位置排序
+ */
+function removeOverlaps(matches: SensitiveMatch[]): SensitiveMatch[] {
+    const sorted = [...matches].sort((a, b) => a.start - b.start || b.end - a.end);
+    const result: SensitiveMatch[] = [];
+    for (const match of sorted) {
+        const last = result[result.length - 1];
+        if (!last || match.start >= last.end) {
+            result.push(match);
+        }
+    }
+    return result;
+}
@@ -0,0 +1,192 @@
+/**
+ * 文本分析工具
+ * 基于 N-gram 的高频词组统计和短距离重复用词检测，不依赖分词服务和 vscode
+ */
+
+import { HTML_COMMENT_REGEX } from '../constants';
+import { Manuscript } from '../types/export';
+import { PhraseCount, RepetitionMatch, TextAnalysisReport, WatchedWordUsage } from '../types/textAnalysis';
+
+/** 默认关注的易重复词（网文常见口头禅） */
+export const DEFAULT_REPETITION_WORDS = [
+    '突然', '忽然', '猛然', '猛地', '顿时', '瞬间', '立刻', '随即',
+    '竟然', '居然', '果然', '不禁', '忍不住', '似乎', '仿佛', '好像',
+    '缓缓', '淡淡', '微微', '轻轻', '静静', '默默', '一丝', '一抹',
+    '嘴角', '眼中', '深吸一口气', '倒吸一口凉气'
+];
+
+/** 默认重复检测距离（字符数） */
+export const DEFAULT_REPETITION_WINDOW = 200;
+
+/** 以这些结构助词开头的词组基本是跨词的碎片，不计入高频词组 */
+const LEADING_PARTICLES = new Set(['的', '了', '着', '地', '得']);
+
+const HAN_RUN_REGEX = /[\u4e00-\u9fa5]+/g;
+const HEADING_LINE_REGEX = /^#+\s.*$/gm;
+
+/**
+ * 把 HTML 注释和 Markdown 标题替换为空格（保留换行和偏移量）
+ *
+ * @param text 正文（已去除 Front Matter）
+ * @returns 与原文等长的文本
+ */
+export function maskNonProse(text: string): string {
+    const blank = (match: string) => match.replace(/[^\n]/g, ' ');
+    return text.replace(HTML_COMMENT_REGEX, blank).replace(HEADING_LINE_REGEX, blank);
+}
+
+/**
+ * 统计汉字数
+ */
+export function countHanChars(text: string): number {
+    const runs: string[] = text.match(HAN_RUN_REGEX) || [];
+    return runs.reduce((total, run) => total + run.length, 0);
+}
+
+/**
+ * 统计高频词组
+ * 在连续的汉字片段上统计长度 minLength-maxLength 的 N-gram，
+ * 若某个词组总是作为更长词组的一部分出现（次数相同），只保留更长的词组
+ *
+ * @param text 要分析的文本
+ * @param options limit 返回条数，minCount 最少出现次数，ignoreWords 包含这些词的词组不计入
+ * @returns 按次数降序的高频词组
+ *
+ * @example
+ * ```typescript
+ * findFrequentPhrases('他突然笑了。她突然哭了。', { minCount: 2 });
+ * // [{ phrase: '突然', count: 2, per10k: ... }]
+ * ```
+ */
+export function findFrequentPhrases(
+    text: string,
+    options: { minLength?: number; maxLength?: number; limit?: number; minCount?: number; ignoreWords?: string[] } = {}
+): PhraseCount[] {
+    const { minLength = 2, maxLength = 4, limit = 30, minCount = 2, ignoreWords = [] } = options;
+    const runs: string[] = text.match(HAN_RUN_REGEX) || [];
+    const hanChars = countHanChars(text);
+
+    const counts = new Map<string, number>();
+    for (const run of runs) {
+        for (let length = minLength; length <= maxLength; length++) {
+            for (let i = 0; i + length <= run.length; i++) {
+                const phrase = run.substring(i, i + length);
+                counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+            }
+        }
+    }
+
+    const isCandidate = (phrase: string, count: number) =>
+        count >= minCount
+        && !LEADING_PARTICLES.has(phrase[0])
+        && !ignoreWords.some(word => word && phrase.includes(word));
+
+    // 被更长词组完全覆盖（前后扩展一个字后次数不变）的词组只保留更长的那个
+    const covered = new Set<string>();
+    for (const [phrase, count] of counts) {
+        if (phrase.length > minLength && isCandidate(phrase, count)) {
+            for (const part of [phrase.slice(0, -1), phrase.slice(1)]) {
+                if (counts.get(part) === count) {
+                    covered.add(part);
+                }
+            }
+        }
+    }
+
+    const phrases: PhraseCount[] = [];
+    for (const [phrase, count] of counts) {
+        if (covered.has(phrase) || !isCandidate(phrase, count)) {
+            continue;
+        }
+        phrases.push({ phrase, count, per10k: hanChars > 0 ? Math.round((count / hanChars) * 100000) / 10 : 0 });
+    }
+
+    return phrases
+        .sort((a, b) => b.count - a.count || b.phrase.length - a.phrase.length || a.phrase.localeCompare(b.phrase))
+        .slice(0, limit);
+}
+
+/**
+ * 查找同一段落内短距离重复出现的词
+ * 同一个词在一个段落中两次出现的间隔不超过 window 个字符时，标记后一次出现
+ *
+ * @param text 要检测的文本（偏移量基于此文本）
+ * @param words 关注的词
+ * @param window 最大间隔（字符数）
+ * @returns 重复出现的位置，按偏移量升序
+ */
+export function findRepetitions(text: string, words: string[], window: number = DEFAULT_REPETITION_WINDOW): RepetitionMatch[] {
+    const matches: RepetitionMatch[] = [];
+    const uniqueWords = Array.from(new Set(words.filter(word => word.length > 0)));
+
+    let paragraphStart = 0;
+    for (const paragraph of text.split('\n')) {
+        for (const word of uniqueWords) {
+            let previous = paragraph.indexOf(word);
+            while (previous !== -1) {
+                const next = paragraph.indexOf(word, previous + word.length);
+                if (next === -1) {
+                    break;
+                }
+                if (next - previous <= window) {
+                    matches.push({
+                        word,
+                        start: paragraphStart + next,
+                        end: paragraphStart + next + word.length,
+                        previousStart: paragraphStart + previous
+                    });
+                }
+                previous = next;
+            }
+        }
+        paragraphStart += paragraph.length + 1;
+    }
+
+    return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 统计关注词的使用情况
+ *
+ * @param text 要分析的文本
+ * @param words 关注的词
+ * @param window 重复检测距离
+ * @returns 出现过的词，按次数降序
+ */
+export function summarizeWatchedWords(text: string, words: string[], window: number = DEFAULT_REPETITION_WINDOW): WatchedWordUsage[] {
+    const repeated = new Map<string, number>();
+    for (const match of findRepetitions(text, words, window)) {
+        repeated.set(match.word, (repeated.get(match.word) ?? 0) + 1);
+    }
+
+    return Array.from(new Set(words))
+        .map(word => ({ word, count: word ? text.split(word).length - 1 : 0, repeated: repeated.get(word) ?? 0 }))
+        .filter(usage => usage.count > 0)
+        .sort((a, b) => b.count - a.count || b.repeated - a.repeated);
+}
+
+/**
+ * 生成书稿的文本分析报告
+ *
+ * @param manuscript 书稿（通常已按分析范围筛选）
+ * @param scopeLabel 分析范围说明
+ * @param options ignoreWords 忽略词，watchedWords 关注的词，window 重复检测距离，limit 高频词组条数
+ * @returns 文本分析报告
+ */
+export function buildTextAnalysisReport(
+    manuscript: Manuscript,
+    scopeLabel: string,
+    options: { ignoreWords?: string[]; watchedWords?: string[]; window?: number; limit?: number } = {}
+): TextAnalysisReport {
+    const chapters = manuscript.volumes.flatMap(volume => volume.chapters);
+    // 章节之间用换行分隔，避免跨章拼接出词组或重复
+    const text = chapters.map(chapter => chapter.paragraphs.join('\n')).join('\n');
+
+    return {
+        scopeLabel,
+        chapterCount: chapters.length,
+        hanChars: countHanChars(text),
+        phrases: findFrequentPhrases(text, { ignoreWords: options.ignoreWords, limit: options.limit ?? 50 }),
+        watchedWords: summarizeWatchedWords(text, options.watchedWords ?? DEFAULT_REPETITION_WORDS, options.window)
+    };
+}
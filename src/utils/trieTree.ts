@@ -120,6 +120,89 @@ export class TrieTree {
         return results;
     }
 
+    /**
+     * 检测文本中的敏感词，词中的每个字也可以写成替代写法（如拼音、首字母）
+     * 只返回至少使用了一次替代写法的匹配；替代写法按小写比较，多个候选时优先返回最长匹配
+     *
+     * @param text 要检测的文本
+     * @param alternatives 返回某个字的替代写法（小写字母）
+     * @param accept 判断候选匹配是否有效，parts 为词中每个字在文本中的写法
+     * @returns 匹配结果数组
+     *
+     * @example
+     * ```typescript
+     * trie.insert('敏感词', 'high');
+     * trie.searchWithAlternatives('这是min感c', char => PINYIN[char], () => true);
+     * // [{ word: '敏感词', start: 2, end: 7, level: 'high' }]
+     * ```
+     */
+    searchWithAlternatives(
+        text: string,
+        alternatives: (char: string) => string[],
+        accept: (start: number, end: number, parts: string[]) => boolean
+    ): SensitiveMatch[] {
+        if (!text || text.length === 0) {
+            return [];
+        }
+
+        const lowerText = text.toLowerCase();
+        const results: SensitiveMatch[] = [];
+
+        // 按替代写法首字母索引子节点（只在遇到字母时按需建立）
+        const letterIndex = new Map<TrieNode, Map<string, { alternative: string; node: TrieNode }[]>>();
+        const getLetterIndex = (node: TrieNode) => {
+            let index = letterIndex.get(node);
+            if (!index) {
+                index = new Map();
+                for (const [char, child] of node.children) {
+                    for (const alternative of alternatives(char)) {
+                        const entries = index.get(alternative[0]) ?? [];
+                        entries.push({ alternative, node: child });
+                        index.set(alternative[0], entries);
+                    }
+                }
+                letterIndex.set(node, index);
+            }
+            return index;
+        };
+
+        for (let i = 0; i < text.length; i++) {
+            let best: SensitiveMatch | null = null;
+
+            const visit = (node: TrieNode, j: number, parts: string[], substituted: boolean): void => {
+                if (substituted && node.isEnd && node.word && node.level && (!best || j > best.end) && accept(i, j, parts)) {
+                    best = { word: node.word, start: i, end: j, level: node.level, inWhitelist: false };
+                }
+                if (j >= text.length) {
+                    return;
+                }
+
+                const direct = node.children.get(text[j]);
+                if (direct) {
+                    visit(direct, j + 1, [...parts, text[j]], substituted);
+                }
+
+                if (lowerText[j] >= 'a' && lowerText[j] <= 'z') {
+                    for (const entry of getLetterIndex(node).get(lowerText[j]) ?? []) {
+                        if (lowerText.startsWith(entry.alternative, j)) {
+                            visit(entry.node, j + entry.alternative.length, [...parts, entry.alternative], true);
+                        }
+                    }
+                }
+            };
+
+            visit(this.root, i, [], false);
+
+            const match = best as SensitiveMatch | null;
+            if (match) {
+                results.push(match);
+                i = match.end - 1;
+            }
+        }
+
+        return results;
+    }
+
     /**
      * 检查词是否存在
      * @param word 词汇
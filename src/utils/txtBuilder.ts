@@ -0,0 +1,72 @@
+/**
+ * TXT 书稿构建器
+ * 生成起点、番茄、晋江等平台上传工具能识别的纯文本：
+ * 卷名、"第X章 标题" 各占一行，正文按配置添加首行缩进和段间空行，不依赖 vscode
+ */
+
+import { PARAGRAPH_INDENT } from '../constants';
+import { BookFormatBuilder, ExportOptions, Manuscript } from '../types/export';
+import { encodeGb18030 } from './gb18030Encoder';
+
+/**
+ * 生成 TXT 文本
+ *
+ * @param manuscript 书稿
+ * @param options 导出选项（编码在此不生效，由 encodeTxt 处理）
+ * @returns 纯文本内容（以换行结尾）
+ *
+ * @example
+ * ```typescript
+ * buildTxt(manuscript, { encoding: 'utf-8', paragraphIndent: true, emptyLineBetweenParagraphs: true, includeTitlePage: false });
+ * // "第一章 开端\n\n\u3000\u3000天色渐暗。\n\n\u3000\u3000「走吧。」\n"
+ * ```
+ */
+export function buildTxt(manuscript: Manuscript, options: ExportOptions): string {
+    const blocks: string[] = [];
+    const paragraphSeparator = options.emptyLineBetweenParagraphs ? '\n\n' : '\n';
+    const indent = options.paragraphIndent ? PARAGRAPH_INDENT : '';
+
+    if (options.includeTitlePage) {
+        const { title, author, description } = manuscript.metadata;
+        const titleLines = [title, `作者：${author}`];
+        if (description) {
+            titleLines.push('', `简介：${description.trim()}`);
+        }
+        blocks.push(titleLines.join('\n'));
+    }
+
+    for (const volume of manuscript.volumes) {
+        if (volume.heading) {
+            blocks.push(volume.heading);
+        }
+
+        for (const chapter of volume.chapters) {
+            const body = chapter.paragraphs
+                .map(paragraph => indent + paragraph)
+                .join(paragraphSeparator);
+            blocks.push(body ? `${chapter.heading}\n\n${body}` : chapter.heading);
+        }
+    }
+
+    return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * 按指定编码输出文本
+ *
+ * @param text 文本
+ * @param options 导出选项
+ * @returns 编码后的字节
+ */
+export function encodeTxt(text: string, options: ExportOptions): Buffer {
+    return options.encoding === 'gb18030' ? encodeGb18030(text) : Buffer.from(text, 'utf8');
+}
+
+/**
+ * TXT 格式构建器（注册到 ExportService）
+ */
+export const txtFormatBuilder: BookFormatBuilder = {
+    format: 'txt',
+    extension: 'txt',
+    build: (manuscript, options) => encodeTxt(buildTxt(manuscript, options), options)
+};
@@ -0,0 +1,170 @@
+/**
+ * TXT 导入工具
+ * 识别整本 TXT 的编码、分卷和章节边界，不依赖 vscode
+ */
+
+/**
+ * 识别出的文本编码
+ */
+export type DetectedEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'gb18030';
+
+/**
+ * 识别出的章节
+ */
+export interface ImportedChapter {
+    /** 章节名称（不含 "第X章"），可能为空 */
+    title: string;
+
+    /** 原始标题行 */
+    heading: string;
+
+    /** 正文行（已去除首尾空白和空行） */
+    lines: string[];
+}
+
+/**
+ * 识别出的分卷（未识别到卷标题时只有一个无标题分卷）
+ */
+export interface ImportedVolume {
+    /** 卷名称（不含 "第X卷"），未识别到卷时为 undefined */
+    title?: string;
+
+    /** 原始卷标题行 */
+    heading?: string;
+
+    /** 卷标题与第一章之间的文字（卷简介） */
+    intro: string[];
+
+    /** 本卷章节 */
+    chapters: ImportedChapter[];
+}
+
+/**
+ * 拆分结果
+ */
+export interface TxtSplitResult {
+    /** 第一个章节之前的内容（书名、简介等） */
+    preamble: string[];
+
+    /** 分卷列表 */
+    volumes: ImportedVolume[];
+}
+
+/** 中文或阿拉伯数字序号 */
+const NUMBER_PATTERN = '[零〇一二三四五六七八九十百千万两\\d０-９]+';
+
+/** 默认章节标题正则：第X章 标题 */
+export const CHINESE_CHAPTER_REGEX = new RegExp(`^第\\s*${NUMBER_PATTERN}\\s*章(?:[\\s:：、.．-]*(.*))?$`);
+
+/** 默认章节标题正则：Chapter N 标题 */
+export const ENGLISH_CHAPTER_REGEX = /^chapter\s+\d+\b(?:[\s:：.．-]*(.*))?$/i;
+
+/** 分卷标题正则：第X卷 标题 */
+export const VOLUME_HEADING_REGEX = new RegExp(`^第\\s*${NUMBER_PATTERN}\\s*卷(?:[\\s:：、.．-]*(.*))?$`);
+
+/** 标题行最大长度（超过视为正文，避免把以 "第三章" 开头的句子误判为标题） */
+const MAX_HEADING_LENGTH = 30;
+
+/**
+ * 识别编码并解码
+ * 优先识别 BOM，其次尝试严格 UTF-8，失败则按 GB18030（兼容 GBK/GB2312）解码
+ *
+ * @param data 文件内容
+ * @returns 文本和识别出的编码
+ */
+export function decodeTxt(data: Uint8Array): { text: string; encoding: DetectedEncoding } {
+    if (data.length >= 3 && data[0] === 0xEF && data[1] === 0xBB && data[2] === 0xBF) {
+        return { text: new TextDecoder('utf-8').decode(data.subarray(3)), encoding: 'utf-8' };
+    }
+    if (data.length >= 2 && data[0] === 0xFF && data[1] === 0xFE) {
+        return { text: new TextDecoder('utf-16le').decode(data.subarray(2)), encoding: 'utf-16le' };
+    }
+    if (data.length >= 2 && data[0] === 0xFE && data[1] === 0xFF) {
+        return { text: new TextDecoder('utf-16be').decode(data.subarray(2)), encoding: 'utf-16be' };
+    }
+
+    try {
+        return { text: new TextDecoder('utf-8', { fatal: true }).decode(data), encoding: 'utf-8' };
+    } catch {
+        return { text: new TextDecoder('gb18030').decode(data), encoding: 'gb18030' };
+    }
+}
+
+/**
+ * 匹配标题行
+ * @returns 标题名称（可能为空字符串），不是标题时返回 undefined
+ */
+function matchHeading(line: string, patterns: RegExp[]): string | undefined {
+    // 过长或以句号结尾的行是正文句子，不是标题
+    if (line.length > MAX_HEADING_LENGTH || /[。]$/.test(line)) {
+        return undefined;
+    }
+    for (const pattern of patterns) {
+        const match = pattern.exec(line);
+        if (match) {
+            // 有捕获组时取第一个捕获组作为名称，否则没有名称
+            return (match[1] ?? '').trim();
+        }
+    }
+    return undefined;
+}
+
+/**
+ * 按分卷和章节标题拆分整本 TXT
+ *
+ * @param text 完整文本
+ * @param chapterPattern 自定义章节正则（第一个捕获组为章节名称），不传使用 "第X章" 和 "Chapter N"
+ * @returns 拆分结果
+ *
+ * @example
+ * ```typescript
+ * splitTxtManuscript('书名\n第一卷 崛起\n第一章 开端\n正文');
+ * // { preamble: ['书名'], volumes: [{ title: '崛起', heading: '第一卷 崛起', intro: [], chapters: [{ title: '开端', heading: '第一章 开端', lines: ['正文'] }] }] }
+ * ```
+ */
+export function splitTxtManuscript(text: string, chapterPattern?: RegExp): TxtSplitResult {
+    const chapterPatterns = chapterPattern ? [chapterPattern] : [CHINESE_CHAPTER_REGEX, ENGLISH_CHAPTER_REGEX];
+    const preamble: string[] = [];
+    const volumes: ImportedVolume[] = [];
+    let currentVolume: ImportedVolume | undefined;
+    let currentChapter: ImportedChapter | undefined;
+
+    for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)) {
+        const line = rawLine.trim();
+        if (line.length === 0) {
+            continue;
+        }
+
+        const volumeTitle = matchHeading(line, [VOLUME_HEADING_REGEX]);
+        if (volumeTitle !== undefined) {
+            currentVolume = { title: volumeTitle, heading: line, intro: [], chapters: [] };
+            volumes.push(currentVolume);
+            currentChapter = undefined;
+            continue;
+        }
+
+        const chapterTitle = matchHeading(line, chapterPatterns);
+        if (chapterTitle !== undefined) {
+            if (!currentVolume) {
+                currentVolume = { intro: [], chapters: [] };
+                volumes.push(currentVolume);
+            }
+            currentChapter = { title: chapterTitle, heading: line, lines: [] };
+            currentVolume.chapters.push(currentChapter);
+            continue;
+        }
+
+        if (currentChapter) {
+            currentChapter.lines.push(line);
+        } else if (currentVolume) {
+            currentVolume.intro.push(line);
+        } else {
+            preamble.push(line);
+        }
+    }
+
+    return {
+        preamble,
+        volumes: volumes.filter(volume => volume.chapters.length > 0)
+    };
+}
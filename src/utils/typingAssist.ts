@@ -0,0 +1,166 @@
+/**
+ * 输入辅助
+ * 计算输入时的自动配对引号 / 括号、半角标点转全角，以及回车时的段落缩进和空行，不依赖 vscode
+ */
+
+import { PARAGRAPH_INDENT } from '../constants';
+
+/**
+ * 输入辅助开关（对应 novel.jsonc 的 format.typingAssist、autoEmptyLine、paragraphIndent）
+ */
+export interface TypingAssistOptions {
+    /** 输入左引号 / 左括号时自动补全右半边 */
+    autoPairQuotes: boolean;
+    /** 汉字后输入的半角标点自动转为全角 */
+    fullWidthPunctuation: boolean;
+    /** 回车时按 autoEmptyLine / paragraphIndent 插入空行和缩进 */
+    newParagraph: boolean;
+    /** 段落之间空一行 */
+    autoEmptyLine: boolean;
+    /** 段落首行缩进 */
+    paragraphIndent: boolean;
+}
+
+/**
+ * 行内的一处编辑（列号从 0 开始）
+ */
+export interface TypingEdit {
+    /** 起始列 */
+    start: number;
+    /** 结束列 */
+    end: number;
+    /** 替换后的文本 */
+    text: string;
+    /** 编辑后光标留在插入内容之前（自动配对时光标停在两个引号之间） */
+    keepCursor?: boolean;
+}
+
+/** 自动配对的左右符号 */
+export const AUTO_PAIRS: Readonly<Record<string, string>> = {
+    '「': '」', // 「」
+    '『': '』', // 『』
+    '“': '”', // “”
+    '（': '）'  // （）
+};
+
+/** 汉字后自动转为全角的半角标点 */
+export const FULL_WIDTH_PUNCTUATION: Readonly<Record<string, string>> = {
+    ',': '，',
+    '.': '。',
+    '?': '？',
+    '!': '！',
+    ':': '：',
+    ';': '；'
+};
+
+/** 输入格式化的触发字符（回车和需要转换的半角标点） */
+export const ON_TYPE_TRIGGER_CHARACTERS: readonly string[] = ['\n', ...Object.keys(FULL_WIDTH_PUNCTUATION)];
+
+const HAN_REGEX = /[\u4e00-\u9fa5]/;
+
+/** 右侧是这些字符（或行尾）时才自动配对，避免在已有文字前补出多余的右引号 */
+const PAIR_BEFORE_REGEX = /[\s，。！？：；、…—」』”）]/;
+
+/**
+ * 计算半角标点转全角的编辑
+ * 汉字后的 , . ? ! : ; 转为全角；在句号后继续输入 . 时合并为省略号
+ *
+ * @param lineText 输入后的行文本
+ * @param character 输入字符之后的列号
+ * @param typed 输入的字符
+ * @returns 编辑，不需要转换时返回 undefined
+ *
+ * @example
+ * ```typescript
+ * getFullWidthPunctuationEdit('你好,', 3, ',');
+ * // { start: 2, end: 3, text: '，' }
+ * ```
+ */
+export function getFullWidthPunctuationEdit(lineText: string, character: number, typed: string): TypingEdit | undefined {
+    const fullWidth = FULL_WIDTH_PUNCTUATION[typed];
+    if (!fullWidth || lineText[character - 1] !== typed) {
+        return undefined;
+    }
+
+    const previous = lineText[character - 2] ?? '';
+    if (typed === '.' && previous === '。') {
+        return { start: character - 2, end: character, text: '…' };
+    }
+    if (typed === '.' && previous === '…') {
+        return { start: character - 1, end: character, text: '' };
+    }
+    if (!HAN_REGEX.test(previous)) {
+        return undefined;
+    }
+    return { start: character - 1, end: character, text: fullWidth };
+}
+
+/**
+ * 计算自动配对的编辑
+ * 输入左引号 / 左括号时补全右半边（光标留在中间）；紧挨着右半边再输入右半边时跳过已补全的那个
+ *
+ * @param lineText 输入后的行文本
+ * @param character 输入字符之后的列号
+ * @param typed 输入的字符
+ * @returns 编辑，不需要配对时返回 undefined
+ */
+export function getAutoPairEdit(lineText: string, character: number, typed: string): TypingEdit | undefined {
+    if (lineText[character - 1] !== typed) {
+        return undefined;
+    }
+    const next = lineText[character];
+
+    const closing = AUTO_PAIRS[typed];
+    if (closing) {
+        if (next !== undefined && !PAIR_BEFORE_REGEX.test(next)) {
+            return undefined;
+        }
+        return { start: character, end: character, text: closing, keepCursor: true };
+    }
+
+    // 输入右半边，右侧正好是自动补全的右半边：删除右侧那个，相当于跳过
+    const opening = Object.keys(AUTO_PAIRS).find(key => AUTO_PAIRS[key] === typed);
+    if (opening && next === typed) {
+        const before = lineText.slice(0, character - 1);
+        const unclosed = before.split(opening).length - before.split(typed).length;
+        if (unclosed > 0) {
+            return { start: character, end: character + 1, text: '' };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * 计算回车后在新行开头插入的内容（空行和段落缩进）
+ * 标题、HTML 注释和 Front Matter 分隔线之后不插入
+ *
+ * @param previousLineText 回车所在行（新行的上一行）的文本
+ * @param options 输入辅助开关
+ * @returns 要插入的文本，不需要插入时返回空字符串
+ *
+ * @example
+ * ```typescript
+ * getNewParagraphText('他推开门。', { autoEmptyLine: true, paragraphIndent: true, ... });
+ * // '\n' + PARAGRAPH_INDENT
+ * ```
+ */
+export function getNewParagraphText(previousLineText: string, options: TypingAssistOptions): string {
+    if (!options.newParagraph || (!options.autoEmptyLine && !options.paragraphIndent)) {
+        return '';
+    }
+
+    const previous = previousLineText.trim();
+    if (previous.startsWith('#') || previous.startsWith('<!--') || previous === '---') {
+        return '';
+    }
+
+    const isPreviousEmpty = previous === '';
+    let text = '';
+    if (options.autoEmptyLine && !isPreviousEmpty) {
+        text += '\n';
+    }
+    if (options.paragraphIndent) {
+        text += PARAGRAPH_INDENT;
+    }
+    return text;
+}
@@ -0,0 +1,366 @@
+/**
+ * 写作历史工具
+ * 记录每日字数增量并汇总为趋势、热力图和写作速度，不依赖 vscode
+ */
+
+import { formatDate } from './dateFormatter';
+import {
+    DailyWritingRecord,
+    HeatmapCell,
+    TrendPeriod,
+    TrendPoint,
+    WritingHistory,
+    WritingSpeed
+} from '../types/history';
+
+/** 相邻两次保存间隔不超过该值（分钟）时计入写作时长 */
+export const WRITING_SESSION_GAP_MINUTES = 30;
+
+/**
+ * 创建空的写作历史
+ */
+export function createEmptyHistory(): WritingHistory {
+    return { version: 1, days: {} };
+}
+
+/**
+ * 解析 history.json 内容
+ * 内容损坏或格式不符时返回空历史，缺失字段使用默认值
+ *
+ * @param text 文件内容
+ * @returns 写作历史
+ */
+export function parseHistory(text: string): WritingHistory {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        return createEmptyHistory();
+    }
+
+    if (!raw || typeof raw !== 'object' || typeof (raw as WritingHistory).days !== 'object' || !(raw as WritingHistory).days) {
+        return createEmptyHistory();
+    }
+
+    const source = raw as Partial<WritingHistory>;
+    const history = createEmptyHistory();
+    if (typeof source.lastRecordAt === 'string') {
+        history.lastRecordAt = source.lastRecordAt;
+    }
+    if (typeof source.countingProfile === 'string') {
+        history.countingProfile = source.countingProfile;
+    }
+    if (source.chapterProfiles && typeof source.chapterProfiles === 'object') {
+        history.chapterProfiles = Object.fromEntries(
+            Object.entries(source.chapterProfiles).filter(([, key]) => typeof key === 'string')
+        );
+    }
+
+    for (const [date, value] of Object.entries(source.days as Record<string, Partial<DailyWritingRecord>>)) {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !value || typeof value !== 'object') {
+            continue;
+        }
+        history.days[date] = {
+            words: Number(value.words) || 0,
+            added: Number(value.added) || 0,
+            deleted: Number(value.deleted) || 0,
+            chapters: value.chapters && typeof value.chapters === 'object' ? { ...value.chapters } : {},
+            activeMinutes: Number(value.activeMinutes) || 0
+        };
+    }
+
+    return history;
+}
+
+/**
+ * 记录一次字数变化
+ *
+ * @param history 写作历史（原地修改）
+ * @param chapterPath 章节路径（相对 chapters/）
+ * @param delta 字数增量（可为负数）
+ * @param now 记录时间
+ * @returns 是否产生了新记录（增量为 0 时不记录）
+ */
+export function recordWordDelta(
+    history: WritingHistory,
+    chapterPath: string,
+    delta: number,
+    now: Date = new Date()
+): boolean {
+    if (delta === 0 || !Number.isFinite(delta)) {
+        return false;
+    }
+
+    const key = formatDate(now);
+    const record = history.days[key] ?? (history.days[key] = {
+        words: 0,
+        added: 0,
+        deleted: 0,
+        chapters: {},
+        activeMinutes: 0
+    });
+
+    record.words += delta;
+    if (delta > 0) {
+        record.added += delta;
+    } else {
+        record.deleted -= delta;
+    }
+    record.chapters[chapterPath] = (record.chapters[chapterPath] ?? 0) + delta;
+
+    // 与上一次记录间隔较短时视为连续写作，计入时长；间隔过长视为新一轮写作的开始
+    if (history.lastRecordAt) {
+        const gapMinutes = (now.getTime() - new Date(history.lastRecordAt).getTime()) / 60000;
+        if (gapMinutes > 0 && gapMinutes <= WRITING_SESSION_GAP_MINUTES) {
+            record.activeMinutes = Math.round((record.activeMinutes + gapMinutes) * 100) / 100;
+        }
+    }
+    history.lastRecordAt = now.toISOString();
+
+    return true;
+}
+
+/**
+ * 记下章节字数使用的计数规则，返回 Front Matter 中原有字数使用的计数规则
+ * 切换 wordCount.profile 或 includePunctuation 后，章节第一次保存时新旧规则的字数差不是写作量，
+ * 调用方据此只更新基准而不记录增量。尚未单独记录的章节按最初记录的计数规则统计
+ *
+ * @param history 写作历史（原地修改）
+ * @param chapterPath 章节路径（相对 chapters/）
+ * @param profileKey 当前计数规则标识
+ * @returns 原有字数使用的计数规则标识
+ */
+export function updateChapterCountingProfile(history: WritingHistory, chapterPath: string, profileKey: string): string {
+    if (!history.countingProfile) {
+        history.countingProfile = profileKey;
+    }
+    if (!history.chapterProfiles) {
+        history.chapterProfiles = {};
+    }
+
+    const previous = history.chapterProfiles[chapterPath] ?? history.countingProfile;
+    history.chapterProfiles[chapterPath] = profileKey;
+    return previous;
+}
+
+/**
+ * 获取某日净增字数
+ *
+ * @param history 写作历史
+ * @param date 日期
+ */
+export function getWordsOnDate(history: WritingHistory, date: Date): number {
+    return history.days[formatDate(date)]?.words ?? 0;
+}
+
+/**
+ * 计算连续达成每日目标的天数
+ * 今天尚未达标时不中断连续记录（从昨天开始往前数）
+ *
+ * @param history 写作历史
+ * @param goal 每日目标字数（需大于 0）
+ * @param today 当前日期
+ * @returns 连续达标天数
+ */
+export function calculateStreak(history: WritingHistory, goal: number, today: Date = new Date()): number {
+    if (goal <= 0) {
+        return 0;
+    }
+
+    let streak = 0;
+    let date = getWordsOnDate(history, today) >= goal ? today : addDays(today, -1);
+    while (getWordsOnDate(history, date) >= goal) {
+        streak++;
+        date = addDays(date, -1);
+    }
+    return streak;
+}
+
+/**
+ * 日期加减天数（返回新对象）
+ */
+function addDays(date: Date, days: number): Date {
+    const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    result.setDate(result.getDate() + days);
+    return result;
+}
+
+/**
+ * 获取日期所在周的周一
+ */
+function startOfWeek(date: Date): Date {
+    // getDay(): 周日为 0，转换为周一为 0
+    return addDays(date, -((date.getDay() + 6) % 7));
+}
+
+/**
+ * 汇总区间 [start, end) 内的净增字数
+ */
+function sumWords(history: WritingHistory, start: Date, end: Date): number {
+    const startKey = formatDate(start);
+    const endKey = formatDate(end);
+    let total = 0;
+    for (const [key, record] of Object.entries(history.days)) {
+        if (key >= startKey && key < endKey) {
+            total += record.words;
+        }
+    }
+    return total;
+}
+
+/**
+ * 按日 / 周 / 月汇总字数趋势
+ *
+ * @param history 写作历史
+ * @param period 统计周期
+ * @param count 周期个数（最后一个周期包含 today）
+ * @param today 当前日期
+ * @returns 按时间升序的数据点
+ */
+export function summarizeTrend(
+    history: WritingHistory,
+    period: TrendPeriod,
+    count: number,
+    today: Date = new Date()
+): TrendPoint[] {
+    const points: TrendPoint[] = [];
+
+    for (let i = count - 1; i >= 0; i--) {
+        let start: Date;
+        let end: Date;
+        let label: string;
+
+        if (period === 'day') {
+            start = addDays(today, -i);
+            end = addDays(start, 1);
+            label = formatDate(start).slice(5);
+        } else if (period === 'week') {
+            start = addDays(startOfWeek(today), -7 * i);
+            end = addDays(start, 7);
+            label = `${formatDate(start).slice(5)} 周`;
+        } else {
+            start = new Date(today.getFullYear(), today.getMonth() - i, 1);
+            end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+            label = formatDate(start).slice(0, 7);
+        }
+
+        points.push({ label, start: formatDate(start), words: sumWords(history, start, end) });
+    }
+
+    return points;
+}
+
+/**
+ * 生成 GitHub 风格的日历热力图数据
+ *
+ * @param history 写作历史
+ * @param weeks 周数（列数）
+ * @param today 当前日期（位于最后一列）
+ * @returns 按周分组的单元格（每列从周一到周日，today 之后的日期不包含）
+ */
+export function buildHeatmap(history: WritingHistory, weeks: number, today: Date = new Date()): HeatmapCell[][] {
+    const todayKey = formatDate(today);
+    const firstDay = addDays(startOfWeek(today), -7 * (weeks - 1));
+
+    // 以区间内最高的单日字数为基准分 4 级
+    let max = 0;
+    for (const [key, record] of Object.entries(history.days)) {
+        if (key >= formatDate(firstDay) && key <= todayKey) {
+            max = Math.max(max, record.words);
+        }
+    }
+
+    const columns: HeatmapCell[][] = [];
+    for (let week = 0; week < weeks; week++) {
+        const column: HeatmapCell[] = [];
+        for (let day = 0; day < 7; day++) {
+            const date = formatDate(addDays(firstDay, week * 7 + day));
+            if (date > todayKey) {
+                break;
+            }
+            const words = history.days[date]?.words ?? 0;
+            const level = words > 0 && max > 0 ? Math.min(4, Math.max(1, Math.ceil((words / max) * 4))) : 0;
+            column.push({ date, words, level });
+        }
+        columns.push(column);
+    }
+
+    return columns;
+}
+
+/**
+ * 计算最近若干天的写作速度
+ *
+ * @param history 写作历史
+ * @param days 统计天数（含 today）
+ * @param today 当前日期
+ */
+export function calculateWritingSpeed(history: WritingHistory, days: number, today: Date = new Date()): WritingSpeed {
+    const startKey = formatDate(addDays(today, -(days - 1)));
+    const todayKey = formatDate(today);
+
+    let totalWords = 0;
+    let addedWords = 0;
+    let activeDays = 0;
+    let activeMinutes = 0;
+
+    for (const [key, record] of Object.entries(history.days)) {
+        if (key < startKey || key > todayKey) {
+            continue;
+        }
+        totalWords += record.words;
+        addedWords += record.added;
+        activeMinutes += record.activeMinutes;
+        if (record.added > 0 || record.deleted > 0) {
+            activeDays++;
+        }
+    }
+
+    return {
+        totalWords,
+        activeDays,
+        averageDailyWords: activeDays > 0 ? Math.round(totalWords / activeDays) : 0,
+        wordsPerHour: activeMinutes > 0 ? Math.round((addedWords / activeMinutes) * 60) : 0
+    };
+}
+
+/**
+ * 计算最近若干天的日均净增字数（按自然日平均，未写作的日子也计入），用于完成预测
+ *
+ * @param history 写作历史
+ * @param days 统计天数（含 today）
+ * @param today 当前日期
+ * @param chapterPrefix 只统计该前缀下的章节（如卷文件夹名 `第一卷-xxx/`），不传则统计全部
+ * @returns 日均字数（可能为负数）
+ */
+export function calculateDailyPace(
+    history: WritingHistory,
+    days: number,
+    today: Date = new Date(),
+    chapterPrefix?: string
+): number {
+    if (days <= 0) {
+        return 0;
+    }
+
+    const startKey = formatDate(addDays(today, -(days - 1)));
+    const todayKey = formatDate(today);
+
+    let total = 0;
+    for (const [key, record] of Object.entries(history.days)) {
+        if (key < startKey || key > todayKey) {
+            continue;
+        }
+        if (chapterPrefix === undefined) {
+            total += record.words;
+            continue;
+        }
+        for (const [chapterPath, words] of Object.entries(record.chapters)) {
+            if (chapterPath.startsWith(chapterPrefix)) {
+                total += words;
+            }
+        }
+    }
+
+    return Math.round(total / days);
+}
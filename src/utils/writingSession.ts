@@ -0,0 +1,260 @@
+/**
+ * 写作会话工具
+ * 计时、空闲检测和会话汇总，不依赖 vscode
+ */
+
+import {
+    SessionBucket,
+    SessionSummary,
+    SessionTracker,
+    WritingSessionLog,
+    WritingSessionRecord
+} from '../types/session';
+
+/** 超过该时长（分钟）没有编辑视为空闲，不计入有效写作时长 */
+export const SESSION_IDLE_MINUTES = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+/** 时段划分（按会话开始时间） */
+const TIME_SLOTS: { label: string; startHour: number }[] = [
+    { label: '凌晨 0-4 点', startHour: 0 },
+    { label: '清晨 4-8 点', startHour: 4 },
+    { label: '上午 8-12 点', startHour: 8 },
+    { label: '下午 12-16 点', startHour: 12 },
+    { label: '傍晚 16-20 点', startHour: 16 },
+    { label: '夜间 20-24 点', startHour: 20 }
+];
+
+const WEEKDAY_NAMES = ['周一', '周二', '周三', '周四', '周五', '周六', '周日'];
+
+/**
+ * 开始新的写作会话
+ */
+export function createSessionTracker(now: Date = new Date()): SessionTracker {
+    return {
+        startedAt: now.getTime(),
+        lastActivityAt: now.getTime(),
+        activeMs: 0,
+        idleMs: 0,
+        baselines: {},
+        counts: {}
+    };
+}
+
+/**
+ * 记录章节开始编辑前的字数（已记录过的章节不覆盖）
+ */
+export function setChapterBaseline(tracker: SessionTracker, chapterPath: string, wordCount: number): void {
+    if (tracker.baselines[chapterPath] === undefined) {
+        tracker.baselines[chapterPath] = wordCount;
+        tracker.counts[chapterPath] = wordCount;
+    }
+}
+
+/**
+ * 更新章节当前字数（没有基线时以当前字数作为基线）
+ */
+export function updateChapterCount(tracker: SessionTracker, chapterPath: string, wordCount: number): void {
+    setChapterBaseline(tracker, chapterPath, wordCount);
+    tracker.counts[chapterPath] = wordCount;
+}
+
+/**
+ * 记录一次编辑活动
+ * 与上一次活动间隔不超过空闲阈值时计入有效时长，否则计为空闲
+ *
+ * @param tracker 会话状态（原地修改）
+ * @param now 活动时间
+ * @param idleMinutes 空闲阈值（分钟）
+ */
+export function recordSessionActivity(
+    tracker: SessionTracker,
+    now: Date = new Date(),
+    idleMinutes = SESSION_IDLE_MINUTES
+): void {
+    const gap = now.getTime() - tracker.lastActivityAt;
+    if (gap <= 0) {
+        return;
+    }
+    if (gap <= idleMinutes * MINUTE_MS) {
+        tracker.activeMs += gap;
+    } else {
+        tracker.idleMs += gap;
+    }
+    tracker.lastActivityAt = now.getTime();
+}
+
+/**
+ * 是否处于空闲状态（距上一次编辑超过空闲阈值）
+ */
+export function isSessionIdle(tracker: SessionTracker, now: Date = new Date(), idleMinutes = SESSION_IDLE_MINUTES): boolean {
+    return now.getTime() - tracker.lastActivityAt > idleMinutes * MINUTE_MS;
+}
+
+/**
+ * 获取截至 now 的有效写作时长（毫秒）
+ * 距上一次编辑未超过空闲阈值时，这段时间也计入
+ */
+export function getActiveMs(tracker: SessionTracker, now: Date = new Date(), idleMinutes = SESSION_IDLE_MINUTES): number {
+    const pending = now.getTime() - tracker.lastActivityAt;
+    return tracker.activeMs + (pending > 0 && pending <= idleMinutes * MINUTE_MS ? pending : 0);
+}
+
+/**
+ * 统计会话净增字数
+ * @returns 总净增字数和各章节净增字数（只包含有变化的章节）
+ */
+export function getSessionWords(tracker: SessionTracker): { words: number; chapters: Record<string, number> } {
+    const chapters: Record<string, number> = {};
+    let words = 0;
+    for (const [chapterPath, count] of Object.entries(tracker.counts)) {
+        const delta = count - (tracker.baselines[chapterPath] ?? count);
+        if (delta !== 0) {
+            chapters[chapterPath] = delta;
+            words += delta;
+        }
+    }
+    return { words, chapters };
+}
+
+/**
+ * 计算写作速度
+ * @param words 字数
+ * @param activeMinutes 有效时长（分钟）
+ * @returns 字/小时，时长为 0 时返回 0
+ */
+export function calculateWordsPerHour(words: number, activeMinutes: number): number {
+    return activeMinutes > 0 ? Math.round((words / activeMinutes) * 60) : 0;
+}
+
+/**
+ * 结束写作会话
+ *
+ * @param tracker 会话状态
+ * @param end 结束时间
+ * @param idleMinutes 空闲阈值（分钟）
+ * @returns 会话记录
+ */
+export function finishSession(
+    tracker: SessionTracker,
+    end: Date = new Date(),
+    idleMinutes = SESSION_IDLE_MINUTES
+): WritingSessionRecord {
+    const durationMs = Math.max(0, end.getTime() - tracker.startedAt);
+    const activeMs = Math.min(durationMs, getActiveMs(tracker, end, idleMinutes));
+    const { words, chapters } = getSessionWords(tracker);
+    const activeMinutes = roundMinutes(activeMs);
+
+    return {
+        start: new Date(tracker.startedAt).toISOString(),
+        end: end.toISOString(),
+        durationMinutes: roundMinutes(durationMs),
+        activeMinutes,
+        idleMinutes: roundMinutes(durationMs - activeMs),
+        words,
+        chapters,
+        wordsPerHour: calculateWordsPerHour(words, activeMinutes)
+    };
+}
+
+/**
+ * 毫秒转分钟（保留一位小数）
+ */
+function roundMinutes(ms: number): number {
+    return Math.round((ms / MINUTE_MS) * 10) / 10;
+}
+
+/**
+ * 创建空的会话日志
+ */
+export function createEmptySessionLog(): WritingSessionLog {
+    return { version: 1, sessions: [] };
+}
+
+/**
+ * 解析 sessions.json 内容
+ * 内容损坏时返回空日志，跳过字段不完整的记录
+ *
+ * @param text 文件内容
+ * @returns 会话日志
+ */
+export function parseSessionLog(text: string): WritingSessionLog {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        return createEmptySessionLog();
+    }
+
+    const sessions = (raw as Partial<WritingSessionLog> | null)?.sessions;
+    if (!Array.isArray(sessions)) {
+        return createEmptySessionLog();
+    }
+
+    const log = createEmptySessionLog();
+    for (const item of sessions as Partial<WritingSessionRecord>[]) {
+        if (!item || typeof item.start !== 'string' || typeof item.end !== 'string' || isNaN(Date.parse(item.start))) {
+            continue;
+        }
+        const activeMinutes = Number(item.activeMinutes) || 0;
+        const words = Number(item.words) || 0;
+        log.sessions.push({
+            start: item.start,
+            end: item.end,
+            durationMinutes: Number(item.durationMinutes) || 0,
+            activeMinutes,
+            idleMinutes: Number(item.idleMinutes) || 0,
+            words,
+            chapters: item.chapters && typeof item.chapters === 'object' ? { ...item.chapters } : {},
+            wordsPerHour: calculateWordsPerHour(words, activeMinutes)
+        });
+    }
+    return log;
+}
+
+/**
+ * 汇总写作会话，按开始时段和星期分组
+ *
+ * @param sessions 会话记录
+ * @returns 会话汇总
+ */
+export function summarizeSessions(sessions: WritingSessionRecord[]): SessionSummary {
+    const createBucket = (label: string): SessionBucket => ({ label, sessions: 0, words: 0, activeMinutes: 0, wordsPerHour: 0 });
+    const timeSlots = TIME_SLOTS.map(slot => createBucket(slot.label));
+    const weekdays = WEEKDAY_NAMES.map(createBucket);
+
+    let totalWords = 0;
+    let activeMinutes = 0;
+
+    for (const session of sessions) {
+        const start = new Date(session.start);
+        const buckets = [
+            timeSlots[Math.floor(start.getHours() / 4)],
+            // getDay(): 周日为 0，转换为周一为 0
+            weekdays[(start.getDay() + 6) % 7]
+        ];
+        for (const bucket of buckets) {
+            bucket.sessions++;
+            bucket.words += session.words;
+            bucket.activeMinutes += session.activeMinutes;
+        }
+        totalWords += session.words;
+        activeMinutes += session.activeMinutes;
+    }
+
+    for (const bucket of [...timeSlots, ...weekdays]) {
+        bucket.activeMinutes = Math.round(bucket.activeMinutes * 10) / 10;
+        bucket.wordsPerHour = calculateWordsPerHour(bucket.words, bucket.activeMinutes);
+    }
+
+    return {
+        sessionCount: sessions.length,
+        totalWords,
+        activeMinutes: Math.round(activeMinutes * 10) / 10,
+        averageMinutes: sessions.length > 0 ? Math.round(activeMinutes / sessions.length) : 0,
+        wordsPerHour: calculateWordsPerHour(totalWords, activeMinutes),
+        timeSlots,
+        weekdays
+    };
+}
@@ -0,0 +1,151 @@
+/**
+ * 轻量级 ZIP 写入器
+ * 仅支持生成（不支持读取），用于 EPUB 等基于 ZIP 的导出格式，避免引入额外依赖
+ */
+
+import * as zlib from 'zlib';
+
+/**
+ * ZIP 条目
+ */
+interface ZipEntry {
+    /** 条目路径（使用 / 分隔） */
+    name: Buffer;
+    /** 原始数据 */
+    data: Buffer;
+    /** 写入的数据（可能已压缩） */
+    stored: Buffer;
+    /** 压缩方式：0 = 存储，8 = deflate */
+    method: number;
+    /** CRC-32 校验值 */
+    crc: number;
+    /** 本地文件头在输出中的偏移量 */
+    offset: number;
+}
+
+/** CRC-32 查找表（惰性初始化） */
+let crcTable: Uint32Array | undefined;
+
+/**
+ * 计算 CRC-32 校验值
+ *
+ * @param data 数据
+ * @returns 无符号 32 位校验值
+ */
+export function crc32(data: Buffer): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = (c & 1) ? (0xEDB88320 ^ (c >>> 1)) : (c >>> 1);
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * ZIP 写入器
+ *
+ * @example
+ * ```typescript
+ * const zip = new ZipWriter();
+ * zip.addFile('mimetype', 'application/epub+zip', false);
+ * zip.addFile('OEBPS/content.opf', opfXml);
+ * fs.writeFileSync('book.epub', zip.toBuffer());
+ * ```
+ */
+export class ZipWriter {
+    private entries: ZipEntry[] = [];
+
+    /**
+     * 添加文件
+     * 条目按添加顺序写入（EPUB 要求 mimetype 为第一个且不压缩）
+     *
+     * @param name 条目路径
+     * @param content 文件内容（字符串按 UTF-8 编码）
+     * @param compress 是否使用 deflate 压缩，默认 true
+     */
+    public addFile(name: string, content: string | Buffer, compress = true): void {
+        const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+        const stored = compress ? zlib.deflateRawSync(data) : data;
+
+        this.entries.push({
+            name: Buffer.from(name, 'utf8'),
+            data,
+            stored,
+            method: compress ? 8 : 0,
+            crc: crc32(data),
+            offset: 0
+        });
+    }
+
+    /**
+     * 生成 ZIP 文件内容
+     * @returns 完整的 ZIP 数据
+     */
+    public toBuffer(): Buffer {
+        const chunks: Buffer[] = [];
+        let offset = 0;
+
+        // 本地文件头 + 数据
+        for (const entry of this.entries) {
+            entry.offset = offset;
+            const header = Buffer.alloc(30);
+            header.writeUInt32LE(0x04034B50, 0);        // 本地文件头签名
+            header.writeUInt16LE(20, 4);                 // 解压所需版本
+            header.writeUInt16LE(0x0800, 6);             // 通用标志：文件名使用 UTF-8
+            header.writeUInt16LE(entry.method, 8);       // 压缩方式
+            header.writeUInt16LE(0, 10);                 // 修改时间
+            header.writeUInt16LE(0x21, 12);              // 修改日期（1980-01-01）
+            header.writeUInt32LE(entry.crc, 14);         // CRC-32
+            header.writeUInt32LE(entry.stored.length, 18); // 压缩后大小
+            header.writeUInt32LE(entry.data.length, 22); // 原始大小
+            header.writeUInt16LE(entry.name.length, 26); // 文件名长度
+            header.writeUInt16LE(0, 28);                 // 扩展字段长度
+
+            chunks.push(header, entry.name, entry.stored);
+            offset += header.length + entry.name.length + entry.stored.length;
+        }
+
+        // 中央目录
+        const centralStart = offset;
+        for (const entry of this.entries) {
+            const header = Buffer.alloc(46);
+            header.writeUInt32LE(0x02014B50, 0);        // 中央目录签名
+            header.writeUInt16LE(20, 4);                 // 创建版本
+            header.writeUInt16LE(20, 6);                 // 解压所需版本
+            header.writeUInt16LE(0x0800, 8);             // 通用标志
+            header.writeUInt16LE(entry.method, 10);      // 压缩方式
+            header.writeUInt16LE(0, 12);                 // 修改时间
+            header.writeUInt16LE(0x21, 14);              // 修改日期
+            header.writeUInt32LE(entry.crc, 16);         // CRC-32
+            header.writeUInt32LE(entry.stored.length, 20); // 压缩后大小
+            header.writeUInt32LE(entry.data.length, 24); // 原始大小
+            header.writeUInt16LE(entry.name.length, 28); // 文件名长度
+            // 30-41：扩展字段、注释、磁盘号、内部/外部属性均为 0
+            header.writeUInt32LE(entry.offset, 42);      // 本地文件头偏移量
+
+            chunks.push(header, entry.name);
+            offset += header.length + entry.name.length;
+        }
+
+        // 中央目录结束记录
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06054B50, 0);
+        end.writeUInt16LE(this.entries.length, 8);
+        end.writeUInt16LE(this.entries.length, 10);
+        end.writeUInt32LE(offset - centralStart, 12);
+        end.writeUInt32LE(centralStart, 16);
+        chunks.push(end);
+
+        return Buffer.concat(chunks);
+    }
+}
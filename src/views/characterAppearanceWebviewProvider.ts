@@ -0,0 +1,266 @@
+/**
+ * Webview 人物出场面板 - 章节 × 人物热力图、首次 / 最后出场和缺席提醒
+ */
+
+import * as vscode from 'vscode';
+import { CharacterAppearance, CharacterAppearanceReport } from '../types/characterAppearance';
+import { getMentionLevel } from '../utils/characterAppearance';
+import { escapeXml } from '../utils/manuscriptText';
+
+export class CharacterAppearanceWebviewProvider {
+    private static currentPanel: vscode.WebviewPanel | undefined;
+
+    constructor(private context: vscode.ExtensionContext) {
+        // 面板在执行人物出场统计命令时创建
+    }
+
+    /**
+     * 显示人物出场统计
+     * @param report 人物出场报告
+     */
+    public show(report: CharacterAppearanceReport): void {
+        const columnToShowIn = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (CharacterAppearanceWebviewProvider.currentPanel) {
+            CharacterAppearanceWebviewProvider.currentPanel.reveal(columnToShowIn);
+        } else {
+            CharacterAppearanceWebviewProvider.currentPanel = vscode.window.createWebviewPanel(
+                'novelerCharacterAppearance',
+                '👥 人物出场',
+                columnToShowIn || vscode.ViewColumn.One,
+                {
+                    enableScripts: true,
+                    localResourceRoots: [this.context.extensionUri]
+                }
+            );
+
+            // 监听面板关闭
+            CharacterAppearanceWebviewProvider.currentPanel.onDidDispose(
+                () => {
+                    CharacterAppearanceWebviewProvider.currentPanel = undefined;
+                },
+                null,
+                this.context.subscriptions
+            );
+
+            // 监听来自 Webview 的消息
+            CharacterAppearanceWebviewProvider.currentPanel.webview.onDidReceiveMessage(
+                async message => {
+                    switch (message.command) {
+                        case 'refresh':
+                            await vscode.commands.executeCommand('noveler.showCharacterAppearances');
+                            break;
+                        case 'fillFirstAppearance':
+                            await vscode.commands.executeCommand('noveler.fillFirstAppearance');
+                            break;
+                    }
+                },
+                undefined,
+                this.context.subscriptions
+            );
+        }
+
+        CharacterAppearanceWebviewProvider.currentPanel.webview.html = this.getHtmlContent(report);
+    }
+
+    /**
+     * 生成 HTML 内容
+     */
+    private getHtmlContent(report: CharacterAppearanceReport): string {
+        const appeared = report.characters.filter(character => character.firstChapter !== undefined);
+        const missing = report.characters.filter(character => character.firstChapter === undefined);
+        const absent = appeared.filter(character => character.absent);
+
+        return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>人物出场</title>
+    <style>
+        * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+        }
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            padding: 20px;
+            background: var(--vscode-editor-background);
+            color: var(--vscode-editor-foreground);
+        }
+        .header {
+            text-align: center;
+            margin-bottom: 30px;
+            padding-bottom: 20px;
+            border-bottom: 2px solid var(--vscode-panel-border);
+        }
+        .header h1 {
+            font-size: 28px;
+            margin-bottom: 10px;
+        }
+        .header p,
+        .hint {
+            color: var(--vscode-descriptionForeground);
+        }
+        .section {
+            margin-bottom: 30px;
+        }
+        .section h2 {
+            font-size: 20px;
+            margin-bottom: 15px;
+        }
+        .hint {
+            font-size: 13px;
+            margin-bottom: 10px;
+        }
+        table {
+            border-collapse: collapse;
+        }
+        .summary-table {
+            width: 100%;
+        }
+        .summary-table th,
+        .summary-table td {
+            padding: 6px 10px;
+            text-align: left;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .summary-table th {
+            color: var(--vscode-descriptionForeground);
+            font-weight: normal;
+            font-size: 13px;
+        }
+        td.number {
+            text-align: right;
+            white-space: nowrap;
+        }
+        .heatmap {
+            overflow-x: auto;
+            padding-bottom: 10px;
+        }
+        .heatmap th {
+            position: sticky;
+            left: 0;
+            background: var(--vscode-editor-background);
+            padding-right: 10px;
+            text-align: right;
+            font-weight: normal;
+            font-size: 13px;
+            white-space: nowrap;
+        }
+        .heatmap td {
+            width: 12px;
+            min-width: 12px;
+            height: 12px;
+            border: 1px solid var(--vscode-editor-background);
+        }
+        .level-0 { background: var(--vscode-input-background); }
+        .level-1 { background: var(--vscode-charts-green); opacity: 0.3; }
+        .level-2 { background: var(--vscode-charts-green); opacity: 0.55; }
+        .level-3 { background: var(--vscode-charts-green); opacity: 0.8; }
+        .level-4 { background: var(--vscode-charts-green); }
+        .absent {
+            color: var(--vscode-charts-orange);
+        }
+        .action-buttons {
+            display: flex;
+            gap: 10px;
+            justify-content: center;
+            margin-top: 20px;
+        }
+        button {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 10px 20px;
+            border-radius: 5px;
+            cursor: pointer;
+            font-size: 14px;
+        }
+        button:hover {
+            background: var(--vscode-button-hoverBackground);
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>👥 人物出场</h1>
+        <p>${report.chapters.length} 章 · ${appeared.length} 位人物出场${absent.length > 0 ? ` · <span class="absent">${absent.length} 位超过 ${report.absenceThreshold} 章未出场</span>` : ''}</p>
+    </div>
+
+    <div class="section">
+        <h2>🗺️ 出场热力图</h2>
+        <p class="hint">每行一位人物，每格一章（按阅读顺序），颜色越深出现次数越多；悬停查看章节和次数</p>
+        ${this.renderHeatmap(report, appeared)}
+    </div>
+
+    <div class="section">
+        <h2>📋 出场汇总</h2>
+        ${this.renderSummary(report, appeared)}
+        ${missing.length > 0 ? `<p class="hint">尚未出场：${missing.map(character => escapeXml(character.name)).join('、')}</p>` : ''}
+    </div>
+
+    <div class="action-buttons">
+        <button onclick="post('fillFirstAppearance')">✍️ 自动填写首次登场</button>
+        <button onclick="post('refresh')">🔄 重新统计</button>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function post(command) {
+            vscode.postMessage({ command });
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * 渲染章节 × 人物热力图
+     */
+    private renderHeatmap(report: CharacterAppearanceReport, characters: CharacterAppearance[]): string {
+        if (characters.length === 0) {
+            return '<p class="hint">章节中还没有出现任何人物</p>';
+        }
+
+        const rows = characters.map(character => {
+            const counts = report.chapters.map(chapter => chapter.counts[character.name] ?? 0);
+            const max = Math.max(...counts);
+            const cells = counts.map((count, index) =>
+                `<td class="level-${getMentionLevel(count, max)}" title="${escapeXml(report.chapters[index].title)}: ${count} 次"></td>`
+            ).join('');
+            return `<tr><th class="${character.absent ? 'absent' : ''}">${escapeXml(character.name)}</th>${cells}</tr>`;
+        }).join('');
+
+        return `<div class="heatmap"><table>${rows}</table></div>`;
+    }
+
+    /**
+     * 渲染出场汇总表
+     */
+    private renderSummary(report: CharacterAppearanceReport, characters: CharacterAppearance[]): string {
+        if (characters.length === 0) {
+            return '';
+        }
+
+        const chapterTitle = (index?: number) => index === undefined ? '-' : escapeXml(report.chapters[index].title);
+        const rows = characters.map(character => `
+            <tr>
+                <td>${escapeXml(character.name)}</td>
+                <td class="number">${character.total}</td>
+                <td class="number">${character.chapterCount}</td>
+                <td>${chapterTitle(character.firstChapter)}</td>
+                <td>${chapterTitle(character.lastChapter)}</td>
+                <td class="number${character.absent ? ' absent' : ''}">${character.absent ? '⚠️ ' : ''}${character.chaptersSinceLast}</td>
+            </tr>`).join('');
+
+        return `<table class="summary-table">
+            <tr><th>人物</th><th>出现次数</th><th>出场章数</th><th>首次出场</th><th>最后出场</th><th>此后未出场章数</th></tr>
+            ${rows}
+        </table>`;
+    }
+}
@@ -0,0 +1,143 @@
+/**
+ * 每日写作目标状态栏 - 显示今日已写字数 / 目标和连续达标天数，全书进度落后于截止日期时提醒
+ */
+
+import * as vscode from 'vscode';
+import { ConfigService } from '../services/configService';
+import { ProjectStatsService } from '../services/projectStatsService';
+import { WritingHistoryService } from '../services/writingHistoryService';
+import { CompletionForecast } from '../types/forecast';
+import { formatDate } from '../utils/dateFormatter';
+import { FORECAST_PACE_DAYS, forecastCompletion, resolveBookTargetWords } from '../utils/forecast';
+import { calculateDailyPace, calculateStreak, getWordsOnDate } from '../utils/writingHistory';
+import { handleError, ErrorSeverity } from '../utils/errorHandler';
+
+export class DailyGoalStatusBar implements vscode.Disposable {
+    private statusBarItem: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+    /** 今天是否已经通知过达成目标（记录日期，跨天自动失效） */
+    private notifiedDate?: string;
+    /** 上一次刷新时的日期和字数，用于判断是否刚刚跨过目标 */
+    private lastProgress?: { date: string; words: number };
+    /** 全书完成预测（需要扫描全部章节，只在保存和配置变化时重新计算） */
+    private bookForecast?: CompletionForecast;
+
+    constructor(
+        private configService: ConfigService,
+        private statsService: ProjectStatsService
+    ) {
+        // 紧挨字数统计（优先级 100）右侧
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.statusBarItem.command = 'noveler.showStats';
+
+        const historyService = WritingHistoryService.getInstance();
+        this.disposables.push(
+            this.statusBarItem,
+            historyService.onDidChangeHistory(() => this.update(true, true)),
+            configService.onDidChangeConfig(() => this.update(false, true)),
+            // 切换编辑器时顺便刷新，处理跨天的情况
+            vscode.window.onDidChangeActiveTextEditor(() => this.update())
+        );
+    }
+
+    /**
+     * 刷新状态栏
+     * @param fromSave 是否由保存触发（只有保存触发时才可能弹出达成通知）
+     * @param refreshForecast 是否重新计算全书完成预测
+     */
+    public async update(fromSave = false, refreshForecast = fromSave): Promise<void> {
+        try {
+            const today = new Date();
+            const history = await WritingHistoryService.getInstance().getHistory();
+            if (refreshForecast || !this.bookForecast) {
+                this.bookForecast = await this.computeBookForecast(today);
+            }
+            const behind = this.bookForecast?.behindSchedule === true;
+
+            const goal = this.configService.getDailyGoal();
+            if (goal.words <= 0) {
+                // 未设置每日目标时只在进度落后时显示
+                if (behind && this.bookForecast) {
+                    this.statusBarItem.text = '$(warning) 全书进度落后';
+                    this.statusBarItem.tooltip = `全书写作进度\n━━━━━━━━━━━━━━\n${this.getForecastTooltip(this.bookForecast)}\n\n点击查看写作统计`;
+                    this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+                    this.statusBarItem.show();
+                } else {
+                    this.statusBarItem.hide();
+                }
+                return;
+            }
+
+            const todayWords = getWordsOnDate(history, today);
+            const streak = calculateStreak(history, goal.words, today);
+            const achieved = todayWords >= goal.words;
+            const percent = Math.min(100, Math.round((Math.max(0, todayWords) / goal.words) * 100));
+
+            this.statusBarItem.text = `${achieved ? '$(pass-filled)' : '$(target)'} 今日 ${todayWords.toLocaleString()}/${goal.words.toLocaleString()}${streak > 0 ? ` | 🔥 ${streak} 天` : ''}${behind ? ' | $(warning) 落后' : ''}`;
+            this.statusBarItem.tooltip = `每日写作目标\n━━━━━━━━━━━━━━\n今日已写: ${todayWords.toLocaleString()} 字（${percent}%）\n每日目标: ${goal.words.toLocaleString()} 字\n连续达标: ${streak} 天${this.bookForecast ? `\n\n${this.getForecastTooltip(this.bookForecast)}` : ''}\n\n点击查看写作统计`;
+            this.statusBarItem.backgroundColor = behind ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+            this.statusBarItem.show();
+
+            // 保存后从未达标变为达标时通知（每天一次）
+            const todayKey = formatDate(today);
+            const justAchieved = !this.lastProgress
+                || this.lastProgress.date !== todayKey
+                || this.lastProgress.words < goal.words;
+            if (fromSave && achieved && justAchieved && goal.notify && this.notifiedDate !== todayKey) {
+                this.notifiedDate = todayKey;
+                vscode.window.showInformationMessage(
+                    `🎉 今日写作目标达成！已写 ${todayWords.toLocaleString()} 字${streak > 1 ? `，已连续达标 ${streak} 天` : ''}`
+                );
+            }
+            this.lastProgress = { date: todayKey, words: todayWords };
+        } catch (error) {
+            handleError('更新每日目标状态栏失败', error, ErrorSeverity.Silent);
+        }
+    }
+
+    /**
+     * 计算全书完成预测
+     * @returns 未设置全书目标或统计失败时返回 undefined
+     */
+    private async computeBookForecast(today: Date): Promise<CompletionForecast | undefined> {
+        const goal = this.configService.getBookGoal();
+        if (goal.totalWords <= 0 && goal.chapters <= 0) {
+            return undefined;
+        }
+
+        const stats = await this.statsService.getStats();
+        if (!stats) {
+            return undefined;
+        }
+
+        const history = await WritingHistoryService.getInstance().getHistory();
+        return forecastCompletion({
+            current: stats.totalWords,
+            target: resolveBookTargetWords(goal, stats.totalWords, stats.chapterCount, this.configService.getTargetWords()),
+            dailyPace: calculateDailyPace(history, FORECAST_PACE_DAYS, today),
+            deadline: goal.deadline
+        }, today);
+    }
+
+    /**
+     * 生成全书进度提示文本
+     */
+    private getForecastTooltip(forecast: CompletionForecast): string {
+        const lines = [`全书进度: ${forecast.current.toLocaleString()}/${forecast.target.toLocaleString()} 字（${forecast.progress}%）`];
+        if (forecast.remaining > 0) {
+            lines.push(`预计完成: ${forecast.estimatedDate ?? '近期没有字数增长，无法预测'}`);
+        }
+        if (forecast.deadline) {
+            lines.push(`截止日期: ${forecast.deadline}（剩余 ${forecast.daysLeft} 天）`);
+            if (forecast.remaining > 0) {
+                lines.push(`${forecast.behindSchedule ? '⚠️ 进度落后，' : ''}需日均 ${forecast.requiredDailyWords?.toLocaleString()} 字`);
+            }
+        }
+        return lines.join('\n');
+    }
+
+    public dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
@@ -11,6 +11,7 @@ import { extractChapterFrontMatter, getContentWithoutFrontMatter } from '../../u
 import { CHAPTERS_FOLDER, VOLUME_TYPE_NAMES, VOLUME_STATUS_NAMES } from '../../constants';
 import { VolumeInfo } from '../../types/volume';
 import { convertToChineseNumber } from '../../utils/chineseNumber';
+import { getCountingProfileHint } from '../../utils/countingProfiles';
 import { convertToRomanNumber } from '../../utils/volumeHelper';
 import { Logger } from '../../utils/logger';
 
@@ -145,8 +146,8 @@ export class ChapterNodesProvider {
                 const status = this.extractStatus(text);
 
                 const detailedStats = this.getDetailedWordCount(contentWithoutFM);
-                const totalWords = detailedStats.content + detailedStats.punctuation;
-                const tooltip = `${title}\n━━━━━━━━━━━━━━\n总计: ${totalWords.toLocaleString()} 字\n正文: ${detailedStats.content.toLocaleString()} 字\n标点: ${detailedStats.punctuation.toLocaleString()} 个\n━━━━━━━━━━━━━━\n状态: ${status}\n所属卷: ${volume.title}`;
+                const totalWords = detailedStats.total;
+                const tooltip = `${title}\n━━━━━━━━━━━━━━\n总计: ${totalWords.toLocaleString()} 字\n正文: ${detailedStats.content.toLocaleString()} 字\n标点: ${detailedStats.punctuation.toLocaleString()} 个${getCountingProfileHint(WordCountService.getCountingProfile())}\n━━━━━━━━━━━━━━\n状态: ${status}\n所属卷: ${volume.title}`;
 
                 let chapterLabel = title;
                 if (chapterNum) {
@@ -280,8 +281,8 @@ export class ChapterNodesProvider {
                     const status = this.extractStatus(text);
 
                     const detailedStats = this.getDetailedWordCount(contentWithoutFM);
-                    const totalWords = detailedStats.content + detailedStats.punctuation;
-                    const tooltip = `${title}\n━━━━━━━━━━━━━━\n总计: ${totalWords.toLocaleString()} 字\n正文: ${detailedStats.content.toLocaleString()} 字\n标点: ${detailedStats.punctuation.toLocaleString()} 个\n━━━━━━━━━━━━━━\n状态: ${status}`;
+                    const totalWords = detailedStats.total;
+                    const tooltip = `${title}\n━━━━━━━━━━━━━━\n总计: ${totalWords.toLocaleString()} 字\n正文: ${detailedStats.content.toLocaleString()} 字\n标点: ${detailedStats.punctuation.toLocaleString()} 个${getCountingProfileHint(WordCountService.getCountingProfile())}\n━━━━━━━━━━━━━━\n状态: ${status}`;
 
                     const chapterLabel = chapterNum ? `第${chapterNum}章 ${title}` : title;
 
@@ -428,7 +429,7 @@ export class ChapterNodesProvider {
         return WordCountService.getSimpleWordCount(text, true);
     }
 
-    private getDetailedWordCount(text: string): { content: number; punctuation: number } {
+    private getDetailedWordCount(text: string): { content: number; punctuation: number; total: number } {
         return WordCountService.getDetailedStats(text, true);
     }
 }
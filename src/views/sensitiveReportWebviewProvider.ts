@@ -0,0 +1,304 @@
+/**
+ * Webview 敏感词扫描报告 - 按章节和级别分组，点击跳转到原文，可导出 JSON / CSV
+ */
+
+import * as vscode from 'vscode';
+import { SensitiveLevel, SensitiveScanChapter, SensitiveScanReport } from '../types/sensitiveWord';
+import { CHAPTERS_FOLDER } from '../constants';
+import { SENSITIVE_LEVEL_NAMES } from '../utils/sensitiveReport';
+import { escapeXml } from '../utils/manuscriptText';
+import { exportSensitiveReport } from '../commands/scanSensitiveWords';
+import { handleError, ErrorSeverity } from '../utils/errorHandler';
+
+/** 报告中级别的显示顺序 */
+const LEVEL_ORDER: SensitiveLevel[] = ['high', 'medium', 'low'];
+
+export class SensitiveReportWebviewProvider {
+    private static currentPanel: vscode.WebviewPanel | undefined;
+    private report: SensitiveScanReport | undefined;
+
+    constructor(private context: vscode.ExtensionContext) {
+        // 面板在执行全项目敏感词扫描命令时创建
+    }
+
+    /**
+     * 显示扫描报告
+     * @param report 敏感词扫描报告
+     */
+    public show(report: SensitiveScanReport): void {
+        this.report = report;
+
+        const columnToShowIn = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (SensitiveReportWebviewProvider.currentPanel) {
+            SensitiveReportWebviewProvider.currentPanel.reveal(columnToShowIn);
+        } else {
+            SensitiveReportWebviewProvider.currentPanel = vscode.window.createWebviewPanel(
+                'novelerSensitiveReport',
+                '🛡️ 敏感词扫描报告',
+                columnToShowIn || vscode.ViewColumn.One,
+                {
+                    enableScripts: true,
+                    localResourceRoots: [this.context.extensionUri]
+                }
+            );
+
+            // 监听面板关闭
+            SensitiveReportWebviewProvider.currentPanel.onDidDispose(
+                () => {
+                    SensitiveReportWebviewProvider.currentPanel = undefined;
+                },
+                null,
+                this.context.subscriptions
+            );
+
+            // 监听来自 Webview 的消息
+            SensitiveReportWebviewProvider.currentPanel.webview.onDidReceiveMessage(
+                async message => {
+                    switch (message.command) {
+                        case 'open':
+                            await this.openLocation(message.path, message.line, message.character, message.length);
+                            break;
+                        case 'export':
+                            if (this.report) {
+                                await exportSensitiveReport(this.report, message.format);
+                            }
+                            break;
+                        case 'rescan':
+                            await vscode.commands.executeCommand('noveler.scanAllSensitiveWords');
+                            break;
+                    }
+                },
+                undefined,
+                this.context.subscriptions
+            );
+        }
+
+        SensitiveReportWebviewProvider.currentPanel.webview.html = this.getHtmlContent(report);
+    }
+
+    /**
+     * 打开章节并选中敏感词
+     */
+    private async openLocation(sourcePath: string, line: number, character: number, length: number): Promise<void> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            return;
+        }
+
+        try {
+            const fileUri = vscode.Uri.joinPath(workspaceFolder.uri, CHAPTERS_FOLDER, ...sourcePath.split('/'));
+            const start = new vscode.Position(line, character);
+            await vscode.window.showTextDocument(fileUri, {
+                viewColumn: vscode.ViewColumn.One,
+                selection: new vscode.Range(start, start.translate(0, length))
+            });
+        } catch (error) {
+            handleError('打开章节失败', error, ErrorSeverity.Warning);
+        }
+    }
+
+    /**
+     * 生成 HTML 内容
+     */
+    private getHtmlContent(report: SensitiveScanReport): string {
+        const total = report.levels.high + report.levels.medium + report.levels.low;
+
+        return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>敏感词扫描报告</title>
+    <style>
+        * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+        }
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            padding: 20px;
+            background: var(--vscode-editor-background);
+            color: var(--vscode-editor-foreground);
+        }
+        .header {
+            text-align: center;
+            margin-bottom: 30px;
+            padding-bottom: 20px;
+            border-bottom: 2px solid var(--vscode-panel-border);
+        }
+        .header h1 {
+            font-size: 28px;
+            margin-bottom: 10px;
+        }
+        .header p,
+        .hint {
+            color: var(--vscode-descriptionForeground);
+        }
+        .hint {
+            font-size: 13px;
+            margin-bottom: 10px;
+        }
+        .badge {
+            display: inline-block;
+            padding: 1px 8px;
+            margin-left: 6px;
+            border-radius: 10px;
+            font-size: 12px;
+            color: var(--vscode-editor-background);
+        }
+        .badge.high { background: var(--vscode-charts-red); }
+        .badge.medium { background: var(--vscode-charts-orange); }
+        .badge.low { background: var(--vscode-charts-yellow); }
+        details {
+            margin-bottom: 12px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 5px;
+            padding: 8px 12px;
+        }
+        summary {
+            cursor: pointer;
+            font-size: 15px;
+        }
+        summary .path {
+            margin-left: 8px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        h3 {
+            font-size: 13px;
+            font-weight: normal;
+            margin: 10px 0 4px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .item {
+            display: flex;
+            gap: 12px;
+            padding: 4px 6px;
+            border-radius: 3px;
+            cursor: pointer;
+        }
+        .item:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+        .item .position {
+            min-width: 60px;
+            color: var(--vscode-descriptionForeground);
+            white-space: nowrap;
+        }
+        .item mark {
+            background: var(--vscode-editor-findMatchHighlightBackground);
+            color: inherit;
+        }
+        .item .variant {
+            margin-left: 8px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .action-buttons {
+            display: flex;
+            gap: 10px;
+            justify-content: center;
+            margin-top: 20px;
+        }
+        button {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 10px 20px;
+            border-radius: 5px;
+            cursor: pointer;
+            font-size: 14px;
+        }
+        button:hover {
+            background: var(--vscode-button-hoverBackground);
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>🛡️ 敏感词扫描报告${report.profile ? ` · ${escapeXml(report.profile)}` : ''}</h1>
+        <p>扫描 ${report.scannedChapters} 章 · ${report.chapters.length} 章有敏感词 · 共 ${total} 处${this.renderLevelBadges(report.levels)}</p>
+        <p class="hint">生成于 ${escapeXml(report.generatedAt)}，${report.profile
+            ? `按平台配置 "${escapeXml(report.profile)}" 检查，结果不写入问题面板`
+            : '结果已同步到问题面板'}</p>
+    </div>
+
+    ${report.chapters.length > 0
+        ? `<p class="hint">点击任一条目跳转到原文</p>${report.chapters.map(chapter => this.renderChapter(chapter)).join('')}`
+        : '<p class="hint">✅ 所有章节均未检测到敏感词</p>'}
+
+    <div class="action-buttons">
+        <button onclick="post({ command: 'export', format: 'json' })">📄 导出 JSON</button>
+        <button onclick="post({ command: 'export', format: 'csv' })">📊 导出 CSV</button>
+        ${report.profile ? '' : `<button onclick="post({ command: 'rescan' })">🔄 重新扫描</button>`}
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function post(message) {
+            vscode.postMessage(message);
+        }
+
+        document.querySelectorAll('.item').forEach(item => {
+            item.addEventListener('click', () => {
+                post({
+                    command: 'open',
+                    path: item.dataset.path,
+                    line: Number(item.dataset.line),
+                    character: Number(item.dataset.character),
+                    length: Number(item.dataset.length)
+                });
+            });
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    /**
+     * 渲染各级别数量标记（数量为 0 的级别不显示）
+     */
+    private renderLevelBadges(levels: Record<SensitiveLevel, number>): string {
+        return LEVEL_ORDER
+            .filter(level => levels[level] > 0)
+            .map(level => `<span class="badge ${level}">${SENSITIVE_LEVEL_NAMES[level]} ${levels[level]}</span>`)
+            .join('');
+    }
+
+    /**
+     * 渲染单个章节（按级别分组）
+     */
+    private renderChapter(chapter: SensitiveScanChapter): string {
+        const groups = LEVEL_ORDER
+            .map(level => ({ level, items: chapter.items.filter(item => item.level === level) }))
+            .filter(group => group.items.length > 0)
+            .map(group => {
+                const items = group.items.map(item => `
+                    <div class="item" data-path="${escapeXml(chapter.path)}" data-line="${item.line}" data-character="${item.character}" data-length="${(item.variant ?? item.word).length}">
+                        <span class="position">${item.line + 1}:${item.character + 1}</span>
+                        <span>${this.highlightWord(item.context, item.variant ?? item.word)}${item.variant ? `<span class="variant">疑似 "${escapeXml(item.word)}"</span>` : ''}</span>
+                    </div>`).join('');
+                return `<h3>${SENSITIVE_LEVEL_NAMES[group.level]}（${group.items.length}）</h3>${items}`;
+            }).join('');
+
+        return `<details open>
+            <summary>${escapeXml(chapter.title)}<span class="path">${escapeXml(chapter.path)}</span>${this.renderLevelBadges(chapter.levels)}</summary>
+            ${groups}
+        </details>`;
+    }
+
+    /**
+     * 在上下文片段中高亮敏感词
+     */
+    private highlightWord(context: string, word: string): string {
+        return context
+            .split(word)
+            .map(part => escapeXml(part))
+            .join(`<mark>${escapeXml(word)}</mark>`);
+    }
+}
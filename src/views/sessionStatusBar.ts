@@ -0,0 +1,83 @@
+/**
+ * 写作会话状态栏 - 会话进行中显示计时和净增字数，点击结束会话
+ */
+
+import * as vscode from 'vscode';
+import { WritingSessionService } from '../services/writingSessionService';
+import { calculateWordsPerHour, SESSION_IDLE_MINUTES } from '../utils/writingSession';
+import { handleError, ErrorSeverity } from '../utils/errorHandler';
+
+/** 计时刷新间隔（毫秒） */
+const TICK_INTERVAL = 1000;
+
+/**
+ * 格式化时长为 H:MM:SS 或 MM:SS
+ */
+function formatDuration(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
+
+export class SessionStatusBar implements vscode.Disposable {
+    private statusBarItem: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+    private timer?: NodeJS.Timeout;
+
+    constructor() {
+        // 位于每日目标（优先级 99）右侧
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 98);
+        this.statusBarItem.command = 'noveler.stopSession';
+
+        this.disposables.push(
+            this.statusBarItem,
+            WritingSessionService.getInstance().onDidChangeSession(() => this.update())
+        );
+    }
+
+    /**
+     * 刷新状态栏，会话进行中时每秒刷新计时
+     */
+    public update(): void {
+        try {
+            const status = WritingSessionService.getInstance().getStatus();
+            if (!status) {
+                this.stopTimer();
+                this.statusBarItem.hide();
+                return;
+            }
+
+            const activeMinutes = status.activeMs / 60000;
+            const wordsPerHour = calculateWordsPerHour(status.words, activeMinutes);
+            const words = `${status.words >= 0 ? '+' : ''}${status.words.toLocaleString()} 字`;
+
+            this.statusBarItem.text = status.idle
+                ? `$(debug-pause) 空闲 ${formatDuration(status.elapsedMs)} | ${words}`
+                : `$(watch) ${formatDuration(status.elapsedMs)} | ${words}`;
+            this.statusBarItem.tooltip = `写作会话\n━━━━━━━━━━━━━━\n已用时: ${formatDuration(status.elapsedMs)}\n有效时长: ${formatDuration(status.activeMs)}（超过 ${SESSION_IDLE_MINUTES} 分钟未编辑视为空闲）\n净增字数: ${words}\n写作速度: ${wordsPerHour > 0 ? `${wordsPerHour.toLocaleString()} 字/小时` : '-'}\n\n点击结束会话`;
+            this.statusBarItem.show();
+
+            if (!this.timer) {
+                this.timer = setInterval(() => this.update(), TICK_INTERVAL);
+            }
+        } catch (error) {
+            handleError('更新写作会话状态栏失败', error, ErrorSeverity.Silent);
+        }
+    }
+
+    private stopTimer(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    public dispose() {
+        this.stopTimer();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
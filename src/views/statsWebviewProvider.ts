@@ -3,7 +3,44 @@
  */
 
 import * as vscode from 'vscode';
-import { ProjectStatsService, ProjectStats } from '../services/projectStatsService';
+import { ProjectStatsService, ProjectStats, VolumeStats, ChapterStats } from '../services/projectStatsService';
+import { WritingHistoryService } from '../services/writingHistoryService';
+import { WordCountService } from '../services/wordCountService';
+import { WritingSessionService } from '../services/writingSessionService';
+import { HeatmapCell, TrendPeriod, TrendPoint, WritingHistory } from '../types/history';
+import { CompletionForecast } from '../types/forecast';
+import { SessionBucket, WritingSessionRecord } from '../types/session';
+import { buildHeatmap, calculateDailyPace, calculateWritingSpeed, getWordsOnDate, summarizeTrend } from '../utils/writingHistory';
+import { FORECAST_PACE_DAYS, forecastCompletion, resolveBookTargetWords } from '../utils/forecast';
+import { COUNTING_PROFILES, DEFAULT_COUNTING_PROFILE } from '../utils/countingProfiles';
+import { summarizeSessions } from '../utils/writingSession';
+import { formatRatio } from '../utils/proseMetrics';
+import { ConfigService } from '../services/configService';
+import { escapeXml } from '../utils/manuscriptText';
+import { formatDateTime } from '../utils/dateFormatter';
+import { STATUS_EMOJI_MAP, VOLUME_STATUS_NAMES, VOLUME_TYPE_ICONS } from '../constants';
+
+/** 趋势图周期配置：显示名称和周期个数 */
+const TREND_PERIODS: { period: TrendPeriod; label: string; count: number }[] = [
+    { period: 'day', label: '按日', count: 30 },
+    { period: 'week', label: '按周', count: 12 },
+    { period: 'month', label: '按月', count: 12 }
+];
+
+/** 热力图显示周数（约一年） */
+const HEATMAP_WEEKS = 53;
+
+/** 写作速度统计天数 */
+const SPEED_STATS_DAYS = 30;
+
+/** 显示最近几次写作会话 */
+const RECENT_SESSIONS = 5;
+
+/** 平均段落长度超过此值时提示"大段落" */
+const LONG_PARAGRAPH_WARNING = 150;
+
+/** 对话占比低于此值时提示"对话偏少" */
+const LOW_DIALOGUE_WARNING = 0.1;
 
 export class StatsWebviewProvider {
     private static currentPanel: vscode.WebviewPanel | undefined;
@@ -14,6 +51,24 @@ export class StatsWebviewProvider {
         statsService: ProjectStatsService
     ) {
         this.statsService = statsService;
+
+        // 写作历史变化时刷新已打开的面板
+        WritingHistoryService.getInstance().onDidChangeHistory(
+            () => this.updateContent(),
+            null,
+            this.context.subscriptions
+        );
+
+        // 写作会话结束时刷新（会话进行中字数变化不刷新，避免频繁重绘）
+        WritingSessionService.getInstance().onDidChangeSession(
+            () => {
+                if (!WritingSessionService.getInstance().isActive()) {
+                    this.updateContent();
+                }
+            },
+            null,
+            this.context.subscriptions
+        );
     }
 
     /**
@@ -76,15 +131,17 @@ export class StatsWebviewProvider {
         }
 
         const stats = await this.statsService.getStats();
-        if (stats) {
-            StatsWebviewProvider.currentPanel.webview.html = this.getHtmlContent(stats);
+        const history = await WritingHistoryService.getInstance().getHistory();
+        const sessionLog = await WritingSessionService.getInstance().getSessionLog();
+        if (stats && StatsWebviewProvider.currentPanel) {
+            StatsWebviewProvider.currentPanel.webview.html = this.getHtmlContent(stats, history, sessionLog.sessions);
         }
     }
 
     /**
      * 生成 HTML 内容
      */
-    private getHtmlContent(stats: ProjectStats): string {
+    private getHtmlContent(stats: ProjectStats, history: WritingHistory, sessions: WritingSessionRecord[]): string {
         const completionRate = stats.completionRate || 0;
         const totalWords = stats.totalWords || 0;
         const chapterCount = stats.chapterCount || 0;
@@ -92,8 +149,16 @@ export class StatsWebviewProvider {
         const characterCount = stats.characterCount || 0;
 
         // 计算平均章节字数
+        const countingProfile = WordCountService.getCountingProfile();
         const avgWordsPerChapter = chapterCount > 0 ? Math.round(totalWords / chapterCount) : 0;
 
+        // 每日写作统计
+        const today = new Date();
+        const todayWords = getWordsOnDate(history, today);
+        const weekWords = summarizeTrend(history, 'week', 1, today)[0].words;
+        const speed = calculateWritingSpeed(history, SPEED_STATS_DAYS, today);
+        const hasHistory = Object.keys(history.days).length > 0;
+
         return `<!DOCTYPE html>
 <html lang="zh-CN">
 <head>
@@ -208,15 +273,136 @@ export class StatsWebviewProvider {
         button:hover {
             background: var(--vscode-button-hoverBackground);
         }
-        .chart-placeholder {
-            margin-top: 30px;
-            padding: 40px;
+        .history-section {
+            margin-bottom: 30px;
+        }
+        .volume-table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        .volume-table th,
+        .volume-table td {
+            padding: 8px 10px;
+            text-align: left;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .volume-table th {
+            color: var(--vscode-descriptionForeground);
+            font-weight: normal;
+            font-size: 13px;
+        }
+        .volume-table td.number {
+            text-align: right;
+            white-space: nowrap;
+        }
+        .mini-progress {
+            width: 100%;
+            min-width: 80px;
+            height: 8px;
+            background: var(--vscode-input-background);
+            border-radius: 4px;
+            overflow: hidden;
+        }
+        .mini-progress div {
+            height: 100%;
+            background: var(--vscode-charts-green);
+        }
+        .status-row {
+            display: grid;
+            grid-template-columns: 90px 1fr 60px;
+            align-items: center;
+            gap: 10px;
+            margin-bottom: 8px;
+        }
+        .status-row .mini-progress div {
+            background: var(--vscode-charts-blue);
+        }
+        .session-row {
+            grid-template-columns: 120px 1fr 70px;
+        }
+        .sortable th {
+            cursor: pointer;
+            user-select: none;
+        }
+        .sortable th[data-order="asc"]::after {
+            content: ' ▲';
+        }
+        .sortable th[data-order="desc"]::after {
+            content: ' ▼';
+        }
+        .stat-card.behind {
+            border-color: var(--vscode-charts-orange);
+        }
+        .stat-card.behind .value,
+        .behind {
+            color: var(--vscode-charts-orange);
+        }
+        .history-section h2 {
+            font-size: 20px;
+            margin-bottom: 15px;
+        }
+        .history-section .hint {
+            color: var(--vscode-descriptionForeground);
+            font-size: 13px;
+            margin-bottom: 10px;
+        }
+        .chart-card {
             background: var(--vscode-editor-inactiveSelectionBackground);
-            border: 1px dashed var(--vscode-panel-border);
+            border: 1px solid var(--vscode-panel-border);
             border-radius: 8px;
-            text-align: center;
-            color: var(--vscode-descriptionForeground);
+            padding: 15px 20px;
+        }
+        .chart-card + .chart-card {
+            margin-top: 15px;
+        }
+        .chart-tabs {
+            display: flex;
+            gap: 8px;
+            margin-bottom: 10px;
+        }
+        .chart-tabs button {
+            padding: 4px 12px;
+            font-size: 12px;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+        .chart-tabs button.active {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        .trend-chart {
+            display: none;
+        }
+        .trend-chart.active {
+            display: block;
         }
+        .trend-chart svg,
+        .heatmap svg {
+            width: 100%;
+            height: auto;
+        }
+        .bar-positive {
+            fill: var(--vscode-charts-blue);
+        }
+        .bar-negative {
+            fill: var(--vscode-charts-red);
+        }
+        .axis-label {
+            fill: var(--vscode-descriptionForeground);
+            font-size: 10px;
+        }
+        .axis-line {
+            stroke: var(--vscode-panel-border);
+        }
+        .heatmap-level-0 {
+            fill: var(--vscode-input-background);
+            stroke: var(--vscode-panel-border);
+            stroke-width: 0.5;
+        }
+        .heatmap-level-1 { fill: var(--vscode-charts-green); opacity: 0.3; }
+        .heatmap-level-2 { fill: var(--vscode-charts-green); opacity: 0.55; }
+        .heatmap-level-3 { fill: var(--vscode-charts-green); opacity: 0.8; }
+        .heatmap-level-4 { fill: var(--vscode-charts-green); opacity: 1; }
     </style>
 </head>
 <body>
@@ -230,7 +416,7 @@ export class StatsWebviewProvider {
             <div class="icon">📝</div>
             <div class="label">总字数</div>
             <div class="value">${totalWords.toLocaleString()}</div>
-            <div class="sub-value">平均每章 ${avgWordsPerChapter.toLocaleString()} 字</div>
+            <div class="sub-value">平均每章 ${avgWordsPerChapter.toLocaleString()} 字${countingProfile === DEFAULT_COUNTING_PROFILE ? '' : `（${COUNTING_PROFILES[countingProfile].label}规则）`}</div>
         </div>
 
         <div class="stat-card">
@@ -264,9 +450,63 @@ export class StatsWebviewProvider {
         </div>
     </div>
 
-    <div class="chart-placeholder">
-        <h3>📈 未来功能预告</h3>
-        <p>即将支持：每日字数趋势图、写作速度分析、章节字数分布等</p>
+    ${this.renderBookForecast(stats, history, today)}
+
+    ${this.renderVolumeSection(stats.volumes, history, today)}
+
+    <div class="history-section">
+        <h2>📋 章节状态分布</h2>
+        <div class="chart-card">
+            ${this.renderStatusBreakdown(stats.statusBreakdown, chapterCount)}
+        </div>
+    </div>
+
+    ${this.renderChapterRhythm(stats.chapters)}
+
+    <div class="history-section">
+        <h2>📅 每日写作</h2>
+        ${hasHistory ? '' : '<p class="hint">保存章节后会自动记录当天的字数增量（记录在 .noveler/history.json 中）</p>'}
+        <div class="stats-grid">
+            <div class="stat-card">
+                <div class="icon">✍️</div>
+                <div class="label">今日字数</div>
+                <div class="value">${todayWords.toLocaleString()}</div>
+                <div class="sub-value">本周 ${weekWords.toLocaleString()} 字</div>
+            </div>
+
+            <div class="stat-card">
+                <div class="icon">📆</div>
+                <div class="label">近 ${SPEED_STATS_DAYS} 天日均</div>
+                <div class="value">${speed.averageDailyWords.toLocaleString()}</div>
+                <div class="sub-value">写作 ${speed.activeDays} 天，共 ${speed.totalWords.toLocaleString()} 字</div>
+            </div>
+
+            <div class="stat-card">
+                <div class="icon">⚡</div>
+                <div class="label">写作速度</div>
+                <div class="value">${speed.wordsPerHour > 0 ? speed.wordsPerHour.toLocaleString() : '-'}</div>
+                <div class="sub-value">字/小时（按连续保存间隔估算）</div>
+            </div>
+        </div>
+    </div>
+
+    <div class="history-section">
+        <h2>📈 字数趋势</h2>
+        <div class="chart-card">
+            <div class="chart-tabs">
+                ${TREND_PERIODS.map(({ period, label }) => `<button data-period="${period}" onclick="showPeriod('${period}')">${label}</button>`).join('')}
+            </div>
+            ${TREND_PERIODS.map(({ period, count }) => `<div class="trend-chart" data-period="${period}">${this.renderTrendChart(summarizeTrend(history, period, count, today))}</div>`).join('')}
+        </div>
+    </div>
+
+    ${this.renderSessionSection(sessions)}
+
+    <div class="history-section">
+        <h2>🗓️ 写作日历</h2>
+        <div class="chart-card heatmap">
+            ${this.renderHeatmap(buildHeatmap(history, HEATMAP_WEEKS, today))}
+        </div>
     </div>
 
     <div class="action-buttons">
@@ -277,6 +517,36 @@ export class StatsWebviewProvider {
     <script>
         const vscode = acquireVsCodeApi();
 
+        // 切换趋势图周期（保存在 Webview 状态中，刷新后保持）
+        function showPeriod(period) {
+            document.querySelectorAll('[data-period]').forEach(element => {
+                element.classList.toggle('active', element.dataset.period === period);
+            });
+            vscode.setState({ ...vscode.getState(), period });
+        }
+
+        // 点击表头排序（data-value 为数值时按数值排序，再次点击切换升降序）
+        function sortTable(header) {
+            const table = header.closest('table');
+            const index = Array.from(header.parentNode.children).indexOf(header);
+            const order = header.dataset.order === 'desc' ? 'asc' : 'desc';
+            table.querySelectorAll('th').forEach(th => delete th.dataset.order);
+            header.dataset.order = order;
+
+            const tbody = table.querySelector('tbody');
+            const rows = Array.from(tbody.rows);
+            const valueOf = row => row.cells[index].dataset.value ?? row.cells[index].textContent;
+            rows.sort((a, b) => {
+                const x = valueOf(a);
+                const y = valueOf(b);
+                const result = isNaN(x) || isNaN(y) ? String(x).localeCompare(String(y), 'zh-CN') : x - y;
+                return order === 'asc' ? result : -result;
+            });
+            rows.forEach(row => tbody.appendChild(row));
+        }
+
+        showPeriod((vscode.getState() || {}).period || 'day');
+
         function refresh() {
             vscode.postMessage({ command: 'refresh' });
         }
@@ -288,4 +558,343 @@ export class StatsWebviewProvider {
 </body>
 </html>`;
     }
+
+    /**
+     * 生成分卷统计表（未启用分卷时不显示）
+     */
+    private renderVolumeSection(volumes: VolumeStats[], history: WritingHistory, today: Date): string {
+        if (volumes.length === 0) {
+            return '';
+        }
+
+        const rows = volumes.map(volume => {
+            const progress = volume.targetWords
+                ? Math.min(100, Math.round((volume.totalWords / volume.targetWords) * 100))
+                : undefined;
+            const targetCell = volume.targetWords
+                ? `<div class="mini-progress" title="${progress}%"><div style="width: ${progress}%"></div></div>`
+                : '<span class="hint">未设置</span>';
+            return `<tr>
+                <td>${VOLUME_TYPE_ICONS[volume.volumeType] ?? ''} ${escapeXml(volume.title)}</td>
+                <td>${VOLUME_STATUS_NAMES[volume.status] ?? escapeXml(volume.status)}</td>
+                <td class="number">${volume.completedChapters}/${volume.chapterCount}</td>
+                <td class="number">${volume.totalWords.toLocaleString()}${volume.targetWords ? ` / ${volume.targetWords.toLocaleString()}` : ''}</td>
+                <td>${targetCell}</td>
+                <td>${this.renderVolumeForecast(volume, history, today)}</td>
+            </tr>`;
+        }).join('');
+
+        return `<div class="history-section">
+        <h2>📚 分卷统计</h2>
+        <div class="chart-card">
+            <table class="volume-table">
+                <thead>
+                    <tr><th>卷</th><th>状态</th><th>已完成/章节</th><th>字数 / 目标</th><th>目标进度</th><th>完成预测</th></tr>
+                </thead>
+                <tbody>${rows}</tbody>
+            </table>
+        </div>
+    </div>`;
+    }
+
+    /**
+     * 生成章节节奏表（对话 / 心理描写占比、段落和句子长度，点击表头排序）
+     */
+    private renderChapterRhythm(chapters: ChapterStats[]): string {
+        if (chapters.length === 0) {
+            return '';
+        }
+
+        const hasVolumes = chapters.some(chapter => chapter.volumeTitle);
+        const rows = chapters.map((chapter, index) => {
+            const { metrics } = chapter;
+            const longParagraph = metrics.avgParagraphLength >= LONG_PARAGRAPH_WARNING;
+            const lowDialogue = metrics.paragraphCount > 0 && metrics.dialogueRatio < LOW_DIALOGUE_WARNING;
+            return `<tr>
+                <td data-value="${index}">${escapeXml(chapter.title)}</td>
+                ${hasVolumes ? `<td>${escapeXml(chapter.volumeTitle ?? '')}</td>` : ''}
+                <td class="number" data-value="${chapter.wordCount}">${chapter.wordCount.toLocaleString()}</td>
+                <td class="number${lowDialogue ? ' behind' : ''}" data-value="${metrics.dialogueRatio}">${formatRatio(metrics.dialogueRatio)}</td>
+                <td class="number" data-value="${metrics.thoughtRatio}">${formatRatio(metrics.thoughtRatio)}</td>
+                <td class="number${longParagraph ? ' behind' : ''}" data-value="${metrics.avgParagraphLength}">${metrics.avgParagraphLength}</td>
+                <td class="number" data-value="${metrics.avgSentenceLength}">${metrics.avgSentenceLength}</td>
+                <td class="number" data-value="${metrics.longestParagraph}">${metrics.longestParagraph}</td>
+            </tr>`;
+        }).join('');
+
+        const headers = ['章节', ...(hasVolumes ? ['卷'] : []), '字数', '对话', '心理', '平均段落', '平均句长', '最长段落'];
+
+        return `<div class="history-section">
+        <h2>📖 章节节奏</h2>
+        <p class="hint">点击表头排序；平均段落超过 ${LONG_PARAGRAPH_WARNING} 字或对话占比低于 ${formatRatio(LOW_DIALOGUE_WARNING)} 的章节以橙色标出</p>
+        <div class="chart-card">
+            <table class="volume-table sortable">
+                <thead>
+                    <tr>${headers.map(header => `<th onclick="sortTable(this)">${header}</th>`).join('')}</tr>
+                </thead>
+                <tbody>${rows}</tbody>
+            </table>
+        </div>
+    </div>`;
+    }
+
+    /**
+     * 生成单卷完成预测（按该卷章节近期的写作速度和 volume.json 中的日期计算）
+     */
+    private renderVolumeForecast(volume: VolumeStats, history: WritingHistory, today: Date): string {
+        if (!volume.targetWords || volume.status === 'completed') {
+            return '<span class="hint">-</span>';
+        }
+
+        const forecast = forecastCompletion({
+            current: volume.totalWords,
+            target: volume.targetWords,
+            dailyPace: calculateDailyPace(history, FORECAST_PACE_DAYS, today, `${volume.folderName}/`),
+            deadline: volume.endDate,
+            startDate: volume.startDate
+        }, today);
+
+        if (forecast.remaining === 0) {
+            return '✅ 已达成';
+        }
+
+        const lines = [forecast.estimatedDate ? `预计 ${forecast.estimatedDate}` : '近期无进展'];
+        if (forecast.deadline) {
+            lines.push(`截止 ${forecast.deadline}，需日均 ${forecast.requiredDailyWords?.toLocaleString()} 字`);
+        }
+        if (forecast.expectedByNow !== undefined && forecast.current < forecast.expectedByNow) {
+            lines.push(`按计划应达 ${forecast.expectedByNow.toLocaleString()} 字`);
+        }
+        return `<span class="${forecast.behindSchedule ? 'behind' : ''}">${forecast.behindSchedule ? '⚠️ ' : ''}${lines.join('<br>')}</span>`;
+    }
+
+    /**
+     * 生成全书完成预测（需在 novel.jsonc 中设置 noveler.bookGoal）
+     */
+    private renderBookForecast(stats: ProjectStats, history: WritingHistory, today: Date): string {
+        const configService = ConfigService.getInstance();
+        const goal = configService.getBookGoal();
+        const target = resolveBookTargetWords(goal, stats.totalWords, stats.chapterCount, configService.getTargetWords());
+        if (target <= 0) {
+            return `<div class="history-section">
+        <h2>🎯 完成预测</h2>
+        <p class="hint">在 novel.jsonc 中设置 noveler.bookGoal（目标字数 / 章节数、截止日期）后，将根据近 ${FORECAST_PACE_DAYS} 天的写作速度预测完成日期</p>
+    </div>`;
+        }
+
+        const forecast = forecastCompletion({
+            current: stats.totalWords,
+            target,
+            dailyPace: calculateDailyPace(history, FORECAST_PACE_DAYS, today),
+            deadline: goal.deadline
+        }, today);
+
+        const chapterProgress = goal.chapters > 0 ? `，${stats.chapterCount}/${goal.chapters} 章` : '';
+        const targetLabel = goal.totalWords > 0 ? '' : '（按平均章节字数折算）';
+
+        return `<div class="history-section">
+        <h2>🎯 完成预测</h2>
+        <div class="stats-grid">
+            <div class="stat-card">
+                <div class="icon">🏁</div>
+                <div class="label">全书目标${targetLabel}</div>
+                <div class="value">${forecast.progress}%</div>
+                <div class="sub-value">${forecast.current.toLocaleString()} / ${forecast.target.toLocaleString()} 字${chapterProgress}</div>
+            </div>
+
+            <div class="stat-card">
+                <div class="icon">🚀</div>
+                <div class="label">近 ${FORECAST_PACE_DAYS} 天速度</div>
+                <div class="value">${forecast.dailyPace.toLocaleString()}</div>
+                <div class="sub-value">字/天（含未写作的日子）</div>
+            </div>
+
+            <div class="stat-card">
+                <div class="icon">📅</div>
+                <div class="label">预计完成</div>
+                <div class="value">${forecast.remaining === 0 ? '已完成' : forecast.estimatedDate ?? '-'}</div>
+                <div class="sub-value">${forecast.remaining === 0 ? '已达成全书目标' : forecast.estimatedDate ? `还差 ${forecast.remaining.toLocaleString()} 字` : '近期没有字数增长，无法预测'}</div>
+            </div>
+
+            ${this.renderDeadlineCard(forecast)}
+        </div>
+    </div>`;
+    }
+
+    /**
+     * 生成截止日期卡片（未设置截止日期时不显示）
+     */
+    private renderDeadlineCard(forecast: CompletionForecast): string {
+        if (!forecast.deadline) {
+            return '';
+        }
+
+        const status = forecast.remaining === 0
+            ? '已按时完成'
+            : forecast.behindSchedule
+                ? `⚠️ 进度落后，需日均 ${forecast.requiredDailyWords?.toLocaleString()} 字`
+                : `需日均 ${forecast.requiredDailyWords?.toLocaleString()} 字`;
+
+        return `<div class="stat-card${forecast.behindSchedule ? ' behind' : ''}">
+                <div class="icon">⏰</div>
+                <div class="label">截止 ${forecast.deadline}</div>
+                <div class="value">${forecast.daysLeft} 天</div>
+                <div class="sub-value">${status}</div>
+            </div>`;
+    }
+
+    /**
+     * 生成写作会话统计：按时段和星期比较写作速度，并列出最近的会话
+     */
+    private renderSessionSection(sessions: WritingSessionRecord[]): string {
+        if (sessions.length === 0) {
+            return `<div class="history-section">
+        <h2>⏱️ 写作会话</h2>
+        <p class="hint">执行「Noveler: 开始写作会话」开始计时，结束后在这里查看各时段的写作效率（记录在 .noveler/sessions.json 中）</p>
+    </div>`;
+        }
+
+        const summary = summarizeSessions(sessions);
+        const recentRows = sessions.slice(-RECENT_SESSIONS).reverse().map(session => {
+            const start = new Date(session.start);
+            return `<tr>
+                <td>${formatDateTime(start).slice(0, 16)}</td>
+                <td class="number">${Math.round(session.activeMinutes)} / ${Math.round(session.durationMinutes)} 分钟</td>
+                <td class="number">${session.words.toLocaleString()}</td>
+                <td class="number">${session.wordsPerHour > 0 ? session.wordsPerHour.toLocaleString() : '-'}</td>
+            </tr>`;
+        }).join('');
+
+        return `<div class="history-section">
+        <h2>⏱️ 写作会话</h2>
+        <div class="stats-grid">
+            <div class="stat-card">
+                <div class="icon">🕒</div>
+                <div class="label">会话次数</div>
+                <div class="value">${summary.sessionCount}</div>
+                <div class="sub-value">平均每次有效写作 ${summary.averageMinutes} 分钟</div>
+            </div>
+
+            <div class="stat-card">
+                <div class="icon">⚡</div>
+                <div class="label">会话写作速度</div>
+                <div class="value">${summary.wordsPerHour > 0 ? summary.wordsPerHour.toLocaleString() : '-'}</div>
+                <div class="sub-value">字/小时（不含空闲时间）</div>
+            </div>
+        </div>
+        <div class="chart-card">
+            <p class="hint">按会话开始时间分组的写作速度（字/小时）</p>
+            ${this.renderSessionBuckets(summary.timeSlots)}
+            <p class="hint">按星期</p>
+            ${this.renderSessionBuckets(summary.weekdays)}
+        </div>
+        <div class="chart-card">
+            <table class="volume-table">
+                <thead>
+                    <tr><th>最近会话</th><th>有效 / 总时长</th><th>净增字数</th><th>字/小时</th></tr>
+                </thead>
+                <tbody>${recentRows}</tbody>
+            </table>
+        </div>
+    </div>`;
+    }
+
+    /**
+     * 生成会话分组条形图（以最快的分组为满格，最快的分组加 ⭐）
+     */
+    private renderSessionBuckets(buckets: SessionBucket[]): string {
+        const max = Math.max(0, ...buckets.map(bucket => bucket.wordsPerHour));
+        return buckets.map(bucket => {
+            const percent = max > 0 ? Math.round((Math.max(0, bucket.wordsPerHour) / max) * 100) : 0;
+            const best = max > 0 && bucket.wordsPerHour === max;
+            return `<div class="status-row session-row" title="${bucket.sessions} 次会话，${Math.round(bucket.activeMinutes)} 分钟，${bucket.words.toLocaleString()} 字">
+                <span>${best ? '⭐ ' : ''}${bucket.label}</span>
+                <div class="mini-progress"><div style="width: ${percent}%"></div></div>
+                <span class="number">${bucket.sessions > 0 ? bucket.wordsPerHour.toLocaleString() : '-'}</span>
+            </div>`;
+        }).join('');
+    }
+
+    /**
+     * 生成章节状态分布（水平条形图）
+     */
+    private renderStatusBreakdown(statusBreakdown: Record<string, number>, chapterCount: number): string {
+        return Object.entries(statusBreakdown).map(([status, count]) => {
+            const percent = chapterCount > 0 ? Math.round((count / chapterCount) * 100) : 0;
+            return `<div class="status-row">
+                <span>${STATUS_EMOJI_MAP[status] ?? '📄'} ${escapeXml(status)}</span>
+                <div class="mini-progress"><div style="width: ${percent}%"></div></div>
+                <span class="number">${count} 章</span>
+            </div>`;
+        }).join('');
+    }
+
+    /**
+     * 生成趋势柱状图（SVG），负增量显示在基线以下
+     */
+    private renderTrendChart(points: TrendPoint[]): string {
+        const barWidth = 16;
+        const barGap = 6;
+        const chartHeight = 140;
+        const paddingTop = 10;
+        const labelHeight = 20;
+        const width = points.length * (barWidth + barGap);
+
+        const maxPositive = Math.max(0, ...points.map(p => p.words));
+        const maxNegative = Math.max(0, ...points.map(p => -p.words));
+        const range = maxPositive + maxNegative || 1;
+        const scale = chartHeight / range;
+        const baseline = paddingTop + maxPositive * scale;
+
+        // 标签过密时隔几个显示一个
+        const labelStep = Math.ceil(points.length / 10);
+
+        const bars = points.map((point, index) => {
+            const x = index * (barWidth + barGap) + barGap / 2;
+            const height = Math.abs(point.words) * scale;
+            const y = point.words >= 0 ? baseline - height : baseline;
+            const barClass = point.words >= 0 ? 'bar-positive' : 'bar-negative';
+            const label = (points.length - 1 - index) % labelStep === 0
+                ? `<text class="axis-label" x="${x + barWidth / 2}" y="${paddingTop + chartHeight + 14}" text-anchor="middle">${point.label}</text>`
+                : '';
+            return `<rect class="${barClass}" x="${x}" y="${y}" width="${barWidth}" height="${Math.max(height, point.words === 0 ? 0 : 1)}" rx="2"><title>${point.label}：${point.words.toLocaleString()} 字</title></rect>${label}`;
+        }).join('');
+
+        return `<svg viewBox="0 0 ${width} ${paddingTop + chartHeight + labelHeight}" xmlns="http://www.w3.org/2000/svg">
+            <line class="axis-line" x1="0" y1="${baseline}" x2="${width}" y2="${baseline}"/>
+            ${bars}
+        </svg>`;
+    }
+
+    /**
+     * 生成 GitHub 风格的日历热力图（SVG），每列一周，从周一到周日
+     */
+    private renderHeatmap(columns: HeatmapCell[][]): string {
+        const cellSize = 11;
+        const cellGap = 3;
+        const step = cellSize + cellGap;
+        const left = 22;
+        const top = 16;
+
+        const weekdayLabels = ['一', '三', '五'].map((label, index) =>
+            `<text class="axis-label" x="0" y="${top + (index * 2) * step + cellSize - 1}">${label}</text>`
+        ).join('');
+
+        const cells = columns.map((column, week) => {
+            // 每月第一周的列上方显示月份
+            const firstCell = column[0];
+            const monthLabel = firstCell && Number(firstCell.date.slice(8)) <= 7
+                ? `<text class="axis-label" x="${left + week * step}" y="10">${Number(firstCell.date.slice(5, 7))}月</text>`
+                : '';
+            const rects = column.map((cell, day) =>
+                `<rect class="heatmap-level-${cell.level}" x="${left + week * step}" y="${top + day * step}" width="${cellSize}" height="${cellSize}" rx="2"><title>${cell.date}：${cell.words.toLocaleString()} 字</title></rect>`
+            ).join('');
+            return monthLabel + rects;
+        }).join('');
+
+        return `<svg viewBox="0 0 ${left + columns.length * step} ${top + 7 * step}" xmlns="http://www.w3.org/2000/svg">
+            ${weekdayLabels}
+            ${cells}
+        </svg>`;
+    }
 }
@@ -0,0 +1,199 @@
+/**
+ * Webview 文本分析面板 - 显示高频词组和易重复用词
+ */
+
+import * as vscode from 'vscode';
+import { PhraseCount, TextAnalysisReport, WatchedWordUsage } from '../types/textAnalysis';
+import { escapeXml } from '../utils/manuscriptText';
+
+export class TextAnalysisWebviewProvider {
+    private static currentPanel: vscode.WebviewPanel | undefined;
+
+    constructor(private context: vscode.ExtensionContext) {
+        // 面板在执行文本分析命令时创建
+    }
+
+    /**
+     * 显示文本分析结果
+     * @param report 文本分析报告
+     */
+    public show(report: TextAnalysisReport): void {
+        const columnToShowIn = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (TextAnalysisWebviewProvider.currentPanel) {
+            TextAnalysisWebviewProvider.currentPanel.reveal(columnToShowIn);
+        } else {
+            TextAnalysisWebviewProvider.currentPanel = vscode.window.createWebviewPanel(
+                'novelerTextAnalysis',
+                '🔍 文本分析',
+                columnToShowIn || vscode.ViewColumn.One,
+                {
+                    enableScripts: false,
+                    localResourceRoots: [this.context.extensionUri]
+                }
+            );
+
+            // 监听面板关闭
+            TextAnalysisWebviewProvider.currentPanel.onDidDispose(
+                () => {
+                    TextAnalysisWebviewProvider.currentPanel = undefined;
+                },
+                null,
+                this.context.subscriptions
+            );
+        }
+
+        TextAnalysisWebviewProvider.currentPanel.webview.html = this.getHtmlContent(report);
+    }
+
+    /**
+     * 生成 HTML 内容
+     */
+    private getHtmlContent(report: TextAnalysisReport): string {
+        return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>文本分析</title>
+    <style>
+        * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+        }
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            padding: 20px;
+            background: var(--vscode-editor-background);
+            color: var(--vscode-editor-foreground);
+        }
+        .header {
+            text-align: center;
+            margin-bottom: 30px;
+            padding-bottom: 20px;
+            border-bottom: 2px solid var(--vscode-panel-border);
+        }
+        .header h1 {
+            font-size: 28px;
+            margin-bottom: 10px;
+        }
+        .header p,
+        .hint {
+            color: var(--vscode-descriptionForeground);
+        }
+        .section {
+            margin-bottom: 30px;
+        }
+        .section h2 {
+            font-size: 20px;
+            margin-bottom: 15px;
+        }
+        .hint {
+            font-size: 13px;
+            margin-bottom: 10px;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th,
+        td {
+            padding: 6px 10px;
+            text-align: left;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        th {
+            color: var(--vscode-descriptionForeground);
+            font-weight: normal;
+            font-size: 13px;
+        }
+        td.number {
+            text-align: right;
+            white-space: nowrap;
+        }
+        .mini-progress {
+            width: 100%;
+            min-width: 80px;
+            height: 8px;
+            background: var(--vscode-input-background);
+            border-radius: 4px;
+            overflow: hidden;
+        }
+        .mini-progress div {
+            height: 100%;
+            background: var(--vscode-charts-blue);
+        }
+        .repeated {
+            color: var(--vscode-charts-orange);
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>🔍 文本分析</h1>
+        <p>${escapeXml(report.scopeLabel)} · ${report.chapterCount} 章 · ${report.hanChars.toLocaleString()} 个汉字</p>
+    </div>
+
+    <div class="section">
+        <h2>📈 高频词组</h2>
+        <p class="hint">按 2-4 字词组统计；总是一起出现的短词组只显示较长的那个。可在 novel.jsonc 的 textAnalysis.ignoreWords 中排除人物名等词。</p>
+        ${this.renderPhrases(report.phrases)}
+    </div>
+
+    <div class="section">
+        <h2>🔁 易重复用词</h2>
+        <p class="hint">"短距离重复"指同一段落内两次出现的间隔不超过检测距离，编辑器中会以提示的形式标出。</p>
+        ${this.renderWatchedWords(report.watchedWords)}
+    </div>
+</body>
+</html>`;
+    }
+
+    /**
+     * 渲染高频词组表格
+     */
+    private renderPhrases(phrases: PhraseCount[]): string {
+        if (phrases.length === 0) {
+            return '<p class="hint">没有重复出现的词组</p>';
+        }
+
+        const maxCount = phrases[0].count;
+        const rows = phrases.map((phrase, index) => `
+            <tr>
+                <td class="number">${index + 1}</td>
+                <td>${escapeXml(phrase.phrase)}</td>
+                <td class="number">${phrase.count}</td>
+                <td class="number">${phrase.per10k}</td>
+                <td><div class="mini-progress"><div style="width: ${Math.round((phrase.count / maxCount) * 100)}%"></div></div></td>
+            </tr>`).join('');
+
+        return `<table>
+            <tr><th>#</th><th>词组</th><th>次数</th><th>每万字</th><th></th></tr>
+            ${rows}
+        </table>`;
+    }
+
+    /**
+     * 渲染易重复用词表格
+     */
+    private renderWatchedWords(words: WatchedWordUsage[]): string {
+        if (words.length === 0) {
+            return '<p class="hint">没有出现关注的词</p>';
+        }
+
+        const rows = words.map(usage => `
+            <tr>
+                <td>${escapeXml(usage.word)}</td>
+                <td class="number">${usage.count}</td>
+                <td class="number${usage.repeated > 0 ? ' repeated' : ''}">${usage.repeated}</td>
+            </tr>`).join('');
+
+        return `<table>
+            <tr><th>词</th><th>次数</th><th>短距离重复</th></tr>
+            ${rows}
+        </table>`;
+    }
+}